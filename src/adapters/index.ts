@@ -0,0 +1,33 @@
+import type { PipelineOperation } from '../pipeline/pipeline';
+import type { AdapterName, DBHandles, Provider, ProviderObject } from '../types';
+import { memoryAdapter } from './memory';
+import { sqliteAdapter } from './sqlite';
+import { typeDBAdapter } from './typeDB';
+
+type AdapterStages = {
+	build: PipelineOperation; // the request of the db, from the parsed BQL request
+	run: PipelineOperation; // the raw response of the db
+	parse: PipelineOperation; // the fetched things of a query, or the BQL response of aggregates and mutations
+};
+
+/// What a db needs to provide to the pipelines. Parsing BQL, filling mutations and building the BQL tree are shared
+export type BormAdapter = {
+	name: AdapterName;
+	query: AdapterStages;
+	aggregate: AdapterStages;
+	mutation: AdapterStages;
+	/// dbs that read in their write transactions run every stage of a mutation in one, with the handles it gets
+	writeTransaction?: <T>(
+		dbHandles: DBHandles,
+		dbConnector: ProviderObject,
+		run: (dbHandles: DBHandles) => Promise<T>,
+	) => Promise<T>;
+};
+
+/// the adapter of each provider of the dbConnectors
+export const adapters: Record<Provider, BormAdapter> = {
+	typeDB: typeDBAdapter,
+	typeDBCluster: typeDBAdapter,
+	memory: memoryAdapter,
+	sqlite: sqliteAdapter,
+};
@@ -0,0 +1,400 @@
+import { isEqual, isObject, unique } from 'radash';
+
+import { BormConflictError, BormConnectionError, BormSchemaError, BormValidationError } from '../../errors';
+import { getContentTypeStorage, getLinkedThingSchema, getPermission, getThingId, oFilter } from '../../helpers';
+import type {
+	AuthContext,
+	DBHandles,
+	EnrichedBormEntity,
+	EnrichedBormRelation,
+	EnrichedBormSchema,
+	EnrichedDataField,
+	MemoryLinker,
+	MemoryPredicate,
+	MemoryStore,
+	MemoryThing,
+} from '../../types';
+
+type ThingSchema = EnrichedBormEntity | EnrichedBormRelation;
+
+export const getMemoryHandle = (dbHandles: DBHandles, dbConnectorId: string) => {
+	const handle = dbHandles.memory?.get(dbConnectorId);
+	if (!handle) {
+		throw new BormConnectionError(`No memory store for the dbConnector '${dbConnectorId}'`, {
+			code: 'CONNECTION_FAILED',
+		});
+	}
+	return handle;
+};
+
+export const getThingSchema = (schema: EnrichedBormSchema, thingName: string): ThingSchema => {
+	const thingSchema = schema.entities[thingName] ?? schema.relations[thingName];
+	if (!thingSchema) {
+		throw new BormSchemaError(`Thing ${thingName} not found in the schema`, { code: 'UNKNOWN_THING' });
+	}
+	return thingSchema;
+};
+
+/// as in typeQL, things are also of the types they extend
+export const isa = (schema: EnrichedBormSchema, thingName: string, type: string): boolean => {
+	const { extends: extended } = getThingSchema(schema, thingName);
+	return thingName === type || (!!extended && isa(schema, extended, type));
+};
+
+export const getId = (schema: EnrichedBormSchema, thing: MemoryThing) =>
+	getThingId(getThingSchema(schema, thing.$thing), thing.data);
+
+/// As the keys of typeDB and the unique indexes of sqlite, the idFields and the unique dataFields of a type can't be
+/// repeated by the things of that type, including the ones extending it
+export const checkUniqueness = (schema: EnrichedBormSchema, store: MemoryStore, dbIds: string[]) => {
+	const getTypes = (thingName: string): string[] => {
+		const { extends: extended } = getThingSchema(schema, thingName);
+		return [thingName, ...(extended ? getTypes(extended) : [])];
+	};
+	dbIds.forEach((dbId) => {
+		const thing = store.get(dbId);
+		if (!thing) {
+			return;
+		}
+		getTypes(thing.$thing).forEach((type) => {
+			const typeSchema = getThingSchema(schema, type);
+			const idFields = typeSchema.idFields || [];
+			const keys = [
+				...(idFields.length ? [idFields] : []),
+				...(typeSchema.dataFields || [])
+					.filter((df) => df.validations?.unique && !idFields.includes(df.path) && df.cardinality !== 'MANY')
+					.map((df) => [df.path]),
+			];
+			keys.forEach((fields) => {
+				const values = fields.map((field) => thing.data[field]);
+				if (values.some((value) => value === undefined || value === null)) {
+					return;
+				}
+				const repeated = [...store.values()].some(
+					(other) =>
+						other.$dbId !== dbId &&
+						isa(schema, other.$thing, type) &&
+						fields.every((field, i) => isEqual(other.data[field], values[i])),
+				);
+				if (repeated) {
+					throw new BormConflictError(
+						`There is already a ${type} with the ${fields.join(', ')} ${values
+							.map((value) => `'${value}'`)
+							.join(', ')}`,
+						{ code: 'UNIQUE_CONSTRAINT' },
+					);
+				}
+			});
+		});
+	});
+};
+
+/// the values of a dataField as a list, whatever its cardinality
+export const getStoredValues = (dataField: EnrichedDataField, thing: MemoryThing): unknown[] => {
+	const value = thing.data[dataField.path];
+	if (value === undefined || value === null) {
+		return [];
+	}
+	return dataField.cardinality === 'MANY' && Array.isArray(value) ? value : [value];
+};
+
+/// values are compared as the attributes where typeDB stores them
+export const toComparable = (value: unknown, dataField: EnrichedDataField) => {
+	const { valueType, parts, serialize } = getContentTypeStorage(dataField);
+	if (parts) {
+		throw new BormValidationError(
+			`'${dataField.path}' is of type ${dataField.contentType}, which is stored in several attributes`,
+			{ code: 'INVALID_VALUE', path: dataField.path },
+		);
+	}
+	const serialized = serialize ? serialize(value, dataField.path) : value;
+	/// as the typeQL encoder, values that don't match the contentType are rejected instead of matching nothing
+	if (valueType === 'long' && !Number.isInteger(serialized)) {
+		throw new BormValidationError(`Value of '${dataField.path}' must be an integer`, {
+			code: 'INVALID_VALUE',
+			path: dataField.path,
+		});
+	}
+	if (valueType === 'double' && !Number.isFinite(serialized)) {
+		throw new BormValidationError(`Value of '${dataField.path}' must be a finite number`, {
+			code: 'INVALID_VALUE',
+			path: dataField.path,
+		});
+	}
+	if (valueType === 'boolean' && typeof serialized !== 'boolean') {
+		throw new BormValidationError(`Value of '${dataField.path}' must be a boolean`, {
+			code: 'INVALID_VALUE',
+			path: dataField.path,
+		});
+	}
+	if (valueType !== 'datetime') {
+		return serialized as string | number | boolean;
+	}
+	const date = serialized instanceof Date ? serialized : new Date(serialized as string | number);
+	if (Number.isNaN(date.valueOf())) {
+		throw new BormValidationError(`Value of '${dataField.path}' must be a valid date`, {
+			code: 'INVALID_VALUE',
+			path: dataField.path,
+		});
+	}
+	return date.valueOf();
+};
+
+export const combinePredicates = (predicates: (MemoryPredicate | undefined)[]): MemoryPredicate | undefined => {
+	const definedPredicates = predicates.filter((x): x is MemoryPredicate => !!x);
+	if (!definedPredicates.length) {
+		return undefined;
+	}
+	return (thing, store) => definedPredicates.every((predicate) => predicate(thing, store));
+};
+
+/// The things linked through a linkField or a roleField, of any type
+export const getLinker = (schema: EnrichedBormSchema, thingSchema: ThingSchema, path: string): MemoryLinker => {
+	const getThings = (dbIds: string[], store: Map<string, MemoryThing>) =>
+		unique(dbIds)
+			.map((dbId) => store.get(dbId))
+			.filter((x): x is MemoryThing => !!x);
+
+	const linkField = thingSchema.linkFields?.find((lf) => lf.path === path);
+	if (!linkField) {
+		return (thing, store) => getThings(thing.roles[path] || [], store);
+	}
+	const getRelations = (thing: MemoryThing, store: Map<string, MemoryThing>) =>
+		[...store.values()].filter(
+			(x) => isa(schema, x.$thing, linkField.relation) && x.roles[linkField.plays]?.includes(thing.$dbId),
+		);
+	if (linkField.target === 'relation') {
+		return getRelations;
+	}
+	// todo: opposite linkFields playing different roles
+	const [oppositeLinkField] = linkField.oppositeLinkFieldsPlayedBy;
+	/// a thing is not linked to itself when both linkFields play the same role
+	return (thing, store) =>
+		getThings(
+			getRelations(thing, store)
+				.flatMap((relation) => relation.roles[oppositeLinkField.plays] || [])
+				.filter((dbId) => oppositeLinkField.plays !== linkField.plays || dbId !== thing.$dbId),
+			store,
+		);
+};
+
+const textFilterOperators = ['$contains', '$startsWith', '$endsWith', '$regex'];
+
+/// Same filters as the typeQL ones. Plain values are $eq and arrays are $in, and things match when any of their values does
+export const compileLocalFilters = (
+	thingSchema: ThingSchema,
+	localFilters: Record<string, any> | undefined,
+): MemoryPredicate | undefined => {
+	if (!localFilters) {
+		return undefined;
+	}
+	const predicates = Object.entries(localFilters).flatMap(([path, filter]) => {
+		const dataField = thingSchema.dataFields?.find((x) => x.path === path);
+		if (!dataField) {
+			throw new BormValidationError(`Can't filter by '${path}', it is not a dataField of ${thingSchema.name}`, {
+				code: 'UNKNOWN_FIELD',
+				path: `$filter.${path}`,
+			});
+		}
+		const operators: [string, unknown][] = Array.isArray(filter)
+			? [['$in', filter]]
+			: isObject(filter) && !(filter instanceof Date)
+			? Object.entries(filter)
+			: [['$eq', filter]];
+
+		return operators.map(([operator, value]): MemoryPredicate => {
+			if (textFilterOperators.includes(operator) && typeof value !== 'string') {
+				throw new BormValidationError(`Filter ${operator} of '${path}' requires a string`, {
+					code: 'INVALID_REQUEST',
+					path: `$filter.${path}`,
+				});
+			}
+			if (textFilterOperators.includes(operator) && getContentTypeStorage(dataField).valueType !== 'string') {
+				throw new BormValidationError(
+					`Filter ${operator} can't be used in '${path}', which is of type ${dataField.contentType}`,
+					{ code: 'INVALID_REQUEST', path: `$filter.${path}` },
+				);
+			}
+			if (['$in', '$nin'].includes(operator) && !Array.isArray(value)) {
+				throw new BormValidationError(`Filter ${operator} of '${path}' requires an array`, {
+					code: 'INVALID_REQUEST',
+					path: `$filter.${path}`,
+				});
+			}
+			const some =
+				(test: (x: any) => boolean): MemoryPredicate =>
+				(thing) =>
+					getStoredValues(dataField, thing).some((x) => test(toComparable(x, dataField)));
+			const none =
+				(test: (x: any) => boolean): MemoryPredicate =>
+				(thing, store) =>
+					!some(test)(thing, store);
+
+			switch (operator) {
+				case '$eq': {
+					const target = toComparable(value, dataField);
+					return some((x) => x === target);
+				}
+				case '$ne': {
+					const target = toComparable(value, dataField);
+					return none((x) => x === target);
+				}
+				case '$gt': {
+					const target = toComparable(value, dataField);
+					return some((x) => x > target);
+				}
+				case '$ge': // same as $gte
+				case '$gte': {
+					const target = toComparable(value, dataField);
+					return some((x) => x >= target);
+				}
+				case '$lt': {
+					const target = toComparable(value, dataField);
+					return some((x) => x < target);
+				}
+				case '$lte': {
+					const target = toComparable(value, dataField);
+					return some((x) => x <= target);
+				}
+				case '$in':
+				case '$nin': {
+					const values = value as unknown[];
+					if (values.length === 0) {
+						throw new BormValidationError(`Filter ${operator} of '${path}' requires at least one value`, {
+							code: 'INVALID_REQUEST',
+							path: `$filter.${path}`,
+						});
+					}
+					const targets = values.map((x) => toComparable(x, dataField));
+					return operator === '$in' ? some((x) => targets.includes(x)) : none((x) => targets.includes(x));
+				}
+				/// typeQL contains is case insensitive
+				case '$contains':
+					return some((x: string) => x.toLowerCase().includes((value as string).toLowerCase()));
+				case '$startsWith':
+					return some((x: string) => x.startsWith(value as string));
+				case '$endsWith':
+					return some((x: string) => x.endsWith(value as string));
+				case '$regex': {
+					const regex = new RegExp(value as string);
+					return some((x: string) => regex.test(x));
+				}
+				default:
+					throw new BormValidationError(`Unsupported filter operator ${operator} in '${path}'`, {
+						code: 'INVALID_REQUEST',
+						path: `$filter.${path}`,
+					});
+			}
+		});
+	});
+	return combinePredicates(predicates);
+};
+
+/// keys starting with $ are quantifiers, so the unsupported ones throw instead of being taken for fields
+const isQuantifier = (key: string) => key.startsWith('$');
+
+/// All the filters of a linked thing. Plain ids or arrays of ids filter by its idFields
+const compileLinkedThingFilters = (
+	schema: EnrichedBormSchema,
+	linkedSchema: ThingSchema,
+	filter: unknown,
+	readContext: AuthContext | undefined | false,
+): MemoryPredicate | undefined => {
+	if (!isObject(filter)) {
+		const [idField, ...otherIdFields] = linkedSchema.idFields || [];
+		if (!otherIdFields.length) {
+			return compileLocalFilters(linkedSchema, { [idField]: filter });
+		}
+		/// composite ids are compared as a whole
+		const ids = [filter].flat().map(String);
+		return (thing) => ids.includes(`${getId(schema, thing)}`);
+	}
+	const dataFieldPaths = linkedSchema.dataFields?.map((df) => df.path) || [];
+	return combinePredicates([
+		compileLocalFilters(
+			linkedSchema,
+			oFilter(filter, (k: string, _v) => dataFieldPaths.includes(k)),
+		),
+		compileNestedFilters(
+			schema,
+			linkedSchema,
+			oFilter(filter, (k: string, _v) => !dataFieldPaths.includes(k)),
+			readContext,
+		),
+	]);
+};
+
+/// Filters through linkFields and roleFields, by default matching things with $some linked thing passing the filter
+export const compileNestedFilters = (
+	schema: EnrichedBormSchema,
+	thingSchema: ThingSchema,
+	nestedFilters: Record<string, any> | undefined,
+	readContext: AuthContext | undefined | false, // false in the read rules, which see every linked thing
+): MemoryPredicate | undefined => {
+	if (!nestedFilters) {
+		return undefined;
+	}
+	const predicates = Object.entries(nestedFilters).flatMap(([path, filter]) => {
+		const linkedSchema = getLinkedThingSchema(schema, thingSchema, path);
+		if (!linkedSchema) {
+			throw new BormValidationError(`Can't filter by '${path}', it is not a field of ${thingSchema.name}`, {
+				code: 'UNKNOWN_FIELD',
+				path: `$filter.${path}`,
+			});
+		}
+		const getAllLinked = getLinker(schema, thingSchema, path);
+		const readable = readContext === false ? undefined : compilePermissions(schema, linkedSchema, readContext);
+		const getLinked: MemoryLinker = (thing, store) =>
+			readable ? getAllLinked(thing, store).filter((linked) => readable(linked, store)) : getAllLinked(thing, store);
+		const quantifiers =
+			isObject(filter) && Object.keys(filter).some(isQuantifier)
+				? (filter as Record<string, unknown>)
+				: { $some: filter };
+
+		return Object.entries(quantifiers).map(([quantifier, linkedFilter]): MemoryPredicate => {
+			const matches = compileLinkedThingFilters(schema, linkedSchema, linkedFilter, readContext) || (() => true);
+			switch (quantifier) {
+				case '$some':
+					return (thing, store) => getLinked(thing, store).some((linked) => matches(linked, store));
+				case '$none':
+					return (thing, store) => !getLinked(thing, store).some((linked) => matches(linked, store));
+				case '$every':
+					return (thing, store) => getLinked(thing, store).every((linked) => matches(linked, store));
+				default:
+					throw new BormValidationError(
+						`Unsupported filter quantifier ${quantifier} in '${path}', use $some, $every or $none`,
+						{ code: 'INVALID_REQUEST', path: `$filter.${path}` },
+					);
+			}
+		});
+	});
+	return combinePredicates(predicates);
+};
+
+/// The read rule of a thing for the context of the request, so things the context can't read are never matched
+export const compilePermissions = (
+	schema: EnrichedBormSchema,
+	thingSchema: ThingSchema,
+	context: AuthContext | undefined,
+): MemoryPredicate | undefined => {
+	const permission = getPermission(thingSchema, 'read', context);
+	if (permission === true) {
+		return undefined;
+	}
+	if (permission === false) {
+		return () => false;
+	}
+	const dataFieldPaths = thingSchema.dataFields?.map((df) => df.path) || [];
+	return combinePredicates([
+		compileLocalFilters(
+			thingSchema,
+			oFilter(permission, (k: string, _v) => dataFieldPaths.includes(k)),
+		),
+		compileNestedFilters(
+			schema,
+			thingSchema,
+			oFilter(permission, (k: string, _v) => !dataFieldPaths.includes(k)),
+			false,
+		),
+	]);
+};
@@ -0,0 +1,20 @@
+import type { BormAdapter } from '..';
+import { buildMemoryMutation, parseMemoryMutationRes, runMemoryMutation } from './mutation';
+import {
+	buildMemoryAggregate,
+	buildMemoryQuery,
+	parseMemoryAggregateRes,
+	parseMemoryRes,
+	runMemoryAggregate,
+	runMemoryQuery,
+} from './query';
+
+/// Keeps the data in the process, so it is lost when it ends. Meant for tests and local development
+export const memoryAdapter: BormAdapter = {
+	name: 'Memory',
+	query: { build: buildMemoryQuery, run: runMemoryQuery, parse: parseMemoryRes },
+	aggregate: { build: buildMemoryAggregate, run: runMemoryAggregate, parse: parseMemoryAggregateRes },
+	mutation: { build: buildMemoryMutation, run: runMemoryMutation, parse: parseMemoryMutationRes },
+};
+
+export { getMemoryHandle } from './helpers';
@@ -0,0 +1,206 @@
+import { unique } from 'radash';
+import { v4 as uuidv4 } from 'uuid';
+
+import type { PipelineOperation } from '../../pipeline/pipeline';
+import { getMutationRes } from '../../pipeline/postprocess/parseTQLRes';
+import type { MemoryStore, MemoryThing, OperationRoles } from '../../types';
+import { getMutationOperations, getPlayerCombinations, getPlayers, matchRelations } from '../operations';
+import { checkUniqueness, getId, getMemoryHandle, isa } from './helpers';
+
+export const buildMemoryMutation: PipelineOperation = async (req) => {
+	const { bqlRequest, schema } = req;
+	if (!bqlRequest) {
+		throw new Error('BQL request not parsed');
+	}
+	const { mutation } = bqlRequest;
+	if (!mutation) {
+		throw new Error('BQL request is not a mutation');
+	}
+	req.memoryRequest = { mutation: getMutationOperations(schema, mutation) };
+};
+
+export const runMemoryMutation: PipelineOperation = async (req, res) => {
+	const { schema, bqlRequest, memoryRequest, dbHandles, dbConnector } = req;
+	if (!bqlRequest?.mutation) {
+		throw new Error('BQL mutation not parsed');
+	}
+	if (!memoryRequest?.mutation) {
+		throw new Error('Memory mutation not built');
+	}
+	const { matches, deletions, insertions } = memoryRequest.mutation;
+	if (!bqlRequest.mutation.things.length && !bqlRequest.mutation.edges.length) {
+		throw new Error('Memory mutation without things');
+	}
+	const handle = getMemoryHandle(dbHandles, dbConnector.id);
+
+	/// the mutation is written in a copy, which replaces the store once everything is written
+	const store: MemoryStore = new Map(
+		[...handle.store].map(([dbId, thing]) => [
+			dbId,
+			{ ...thing, data: { ...thing.data }, roles: Object.fromEntries(Object.entries(thing.roles)) },
+		]),
+	);
+	let bindings = new Map<string, string[]>(); // the $dbIds of each $bzId
+	const getBound = (bzId: string) => bindings.get(bzId) || [];
+	const getBoundThings = (bzId: string) =>
+		getBound(bzId)
+			.map((dbId) => store.get(dbId))
+			.filter((x): x is MemoryThing => !!x);
+	let written = deletions.length > 0;
+	const writtenDbIds = new Set<string>(); // the things created or updated, which can repeat existing keys
+
+	const getRelations = (relation: string, dbIds?: string[]) =>
+		dbIds
+			? dbIds.map((dbId) => store.get(dbId)).filter((x): x is MemoryThing => !!x)
+			: [...store.values()].filter((thing) => isa(schema, thing.$thing, relation));
+
+	const insert = (thing: string, data: Record<string, unknown>, roles: OperationRoles = {}) => {
+		const dbId = uuidv4();
+		store.set(dbId, { $dbId: dbId, $thing: thing, data: structuredClone(data), roles });
+		writtenDbIds.add(dbId);
+		written = true;
+		return dbId;
+	};
+
+	matches.forEach((op) => {
+		if (op.type === 'match') {
+			const matched = [...store.values()].filter(
+				(thing) => isa(schema, thing.$thing, op.thing) && (!op.ids || op.ids.includes(`${getId(schema, thing)}`)),
+			);
+			bindings.set(
+				op.bzId,
+				matched.map((thing) => thing.$dbId),
+			);
+		}
+	});
+	matchRelations(
+		bindings,
+		matches.flatMap((op) => (op.type === 'matchRelation' ? [op] : [])),
+		getRelations,
+	);
+	/// the relations being deleted only narrow the matches of the deletions, as in typeQL they are not in the insertion match
+	const matchedBindings = new Map(bindings);
+	matchRelations(
+		bindings,
+		deletions.flatMap((op) => (op.type === 'deleteRelation' ? [op] : [])),
+		getRelations,
+	);
+
+	deletions.forEach((op) => {
+		switch (op.type) {
+			case 'deleteRelation':
+			case 'delete':
+				getBound(op.bzId).forEach((dbId) => store.delete(dbId));
+				break;
+			case 'unlink':
+				getBoundThings(op.bzId).forEach((relation) =>
+					Object.entries(op.roles).forEach(([role, bzIds]) => {
+						const unlinked = bzIds.flatMap(getBound);
+						// eslint-disable-next-line no-param-reassign
+						relation.roles[role] = (relation.roles[role] || []).filter((dbId) => !unlinked.includes(dbId));
+					}),
+				);
+				break;
+			case 'unset':
+				getBoundThings(op.bzId).forEach((thing) =>
+					op.fields.forEach((field) => {
+						// eslint-disable-next-line no-param-reassign
+						delete thing.data[field];
+					}),
+				);
+				break;
+			default:
+				break;
+		}
+	});
+
+	/// deleted things stop playing their roles, and the insertions only see the things that are left
+	store.forEach((thing) => {
+		// eslint-disable-next-line no-param-reassign
+		thing.roles = Object.fromEntries(
+			Object.entries(thing.roles).map(([role, dbIds]) => [role, dbIds.filter((dbId) => store.has(dbId))]),
+		);
+	});
+	bindings = new Map([...matchedBindings].map(([bzId, dbIds]) => [bzId, dbIds.filter((dbId) => store.has(dbId))]));
+
+	insertions.forEach((op) => {
+		switch (op.type) {
+			case 'create':
+				bindings.set(op.bzId, [insert(op.thing, op.data)]);
+				break;
+			case 'createRelation':
+				bindings.set(
+					op.bzId,
+					getPlayerCombinations(bindings, op.roles).map((combination) =>
+						insert(op.relation, op.data, getPlayers(op.roles, combination)),
+					),
+				);
+				break;
+			case 'link':
+				if (!bindings.has(op.bzId)) {
+					bindings.set(
+						op.bzId,
+						getPlayerCombinations(bindings, op.roles).map((combination) =>
+							insert(op.relation, {}, getPlayers(op.roles, combination)),
+						),
+					);
+					break;
+				}
+				getBoundThings(op.bzId).forEach((relation) =>
+					getPlayerCombinations(bindings, op.roles).forEach((combination) => {
+						Object.entries(getPlayers(op.roles, combination)).forEach(([role, dbIds]) => {
+							// eslint-disable-next-line no-param-reassign
+							relation.roles[role] = unique([...(relation.roles[role] || []), ...dbIds]);
+						});
+						written = true;
+					}),
+				);
+				break;
+			case 'set':
+				getBoundThings(op.bzId).forEach((thing) => {
+					// eslint-disable-next-line no-param-reassign
+					thing.data = { ...thing.data, ...structuredClone(op.data) };
+					writtenDbIds.add(thing.$dbId);
+					written = true;
+				});
+				break;
+			default:
+				break;
+		}
+	});
+
+	checkUniqueness(schema, store, [...writtenDbIds]);
+
+	/// as typeDB does on commit, relations without role players are deleted
+	store.forEach((thing) => {
+		if (schema.relations[thing.$thing] && !Object.values(thing.roles).some((dbIds) => dbIds.length)) {
+			store.delete(thing.$dbId);
+		}
+	});
+	handle.store = store;
+
+	res.rawMemoryRes = {
+		dbIds: Object.fromEntries(
+			[...bindings].filter(([, dbIds]) => dbIds.length).map(([bzId, [dbId]]) => [bzId, dbId] as const),
+		),
+		written,
+	};
+};
+
+export const parseMemoryMutationRes: PipelineOperation = async (req, res) => {
+	const { bqlRequest, config } = req;
+	const { rawMemoryRes } = res;
+	if (!bqlRequest?.mutation) {
+		throw new Error('BQL mutation not parsed');
+	}
+	if (!rawMemoryRes?.dbIds) {
+		throw new Error('Memory mutation not executed');
+	}
+	const { mutation } = bqlRequest;
+	/// upserts are reported even when they only matched things
+	if (!rawMemoryRes.written && !mutation.things.some((thing) => thing.$upsert)) {
+		res.bqlRes = {}; // as typeDB ones, mutations that write nothing return an empty object
+		return;
+	}
+	res.bqlRes = getMutationRes(mutation, config, (bzId) => rawMemoryRes.dbIds?.[bzId]);
+};
@@ -0,0 +1,345 @@
+import { pick } from 'radash';
+
+import { BormValidationError } from '../../errors';
+import { getContentTypeStorage, getCurrentFields, getLinkedThingSchema } from '../../helpers';
+import type { FetchedThing, PipelineOperation } from '../../pipeline/pipeline';
+import { getAggregateRes } from '../../pipeline/postprocess/parseTQLAggregateRes';
+import type {
+	AuthContext,
+	BQLAggregate,
+	BQLFieldObj,
+	EnrichedBormEntity,
+	EnrichedBormRelation,
+	EnrichedBormSchema,
+	EnrichedDataField,
+	MemoryAnswer,
+	MemoryQuery,
+	MemoryStore,
+	MemoryThing,
+	ParsedBQLQuery,
+	RawBQLQuery,
+} from '../../types';
+import {
+	combinePredicates,
+	compileLocalFilters,
+	compileNestedFilters,
+	compilePermissions,
+	getId,
+	getLinker,
+	getMemoryHandle,
+	getStoredValues,
+	getThingSchema,
+	toComparable,
+} from './helpers';
+
+type ThingSchema = EnrichedBormEntity | EnrichedBormRelation;
+type FetchNode = Omit<BQLFieldObj, '$path'>;
+
+const getIds = ($id?: string | string[]) => ($id === undefined ? undefined : [$id].flat());
+
+const getModifiers = (thingSchema: ThingSchema, node: FetchNode) => {
+	node.$sort?.forEach((sort) => {
+		const dataField = thingSchema.dataFields?.find((df) => df.path === sort.field);
+		if (!dataField) {
+			throw new BormValidationError(`Can't sort by '${sort.field}', it is not a dataField of ${thingSchema.name}`, {
+				code: 'UNKNOWN_FIELD',
+				path: '$sort',
+			});
+		}
+		if (getContentTypeStorage(dataField).parts) {
+			throw new BormValidationError(`Can't sort by '${sort.field}', which is of type ${dataField.contentType}`, {
+				code: 'INVALID_REQUEST',
+				path: '$sort',
+			});
+		}
+	});
+	return { sort: node.$sort, offset: node.$offset, limit: node.$limit };
+};
+
+/// As in the typeQL fetch, link and role fields that are not expanded only return the ids of the linked things
+const getLinks = (
+	schema: EnrichedBormSchema,
+	thingSchema: ThingSchema,
+	node: FetchNode,
+	context: AuthContext | undefined,
+): MemoryQuery['links'] => {
+	const { linkFields, roleFields } = getCurrentFields(thingSchema);
+	const linkAndRoleFields = [...linkFields, ...roleFields];
+	const queriedFields = node.$fields || linkAndRoleFields;
+
+	return queriedFields.flatMap((field) => {
+		const path = typeof field === 'string' ? field : field.$path;
+		if (!linkAndRoleFields.includes(path) || node.$excludedFields?.includes(path)) {
+			return [];
+		}
+		const linkedSchema = getLinkedThingSchema(schema, thingSchema, path);
+		if (!linkedSchema) {
+			throw new BormValidationError(`Field ${path} not found in ${thingSchema.name}`, {
+				code: 'UNKNOWN_FIELD',
+				path: '$fields',
+			});
+		}
+		const getLinked = getLinker(schema, thingSchema, path);
+		const permissions = compilePermissions(schema, linkedSchema, context);
+
+		if (typeof field === 'string') {
+			return [{ path, getLinked, query: { thing: linkedSchema.name, filter: permissions, idsOnly: true, links: [] } }];
+		}
+
+		// * same split as the root one in parseBQLQuery
+		const { localFilters, nestedFilters } = field.$filter
+			? getCurrentFields(linkedSchema, { $filter: field.$filter } as RawBQLQuery)
+			: { localFilters: undefined, nestedFilters: undefined };
+		const query: MemoryQuery = {
+			thing: linkedSchema.name,
+			ids: getIds(field.$id),
+			filter: combinePredicates([
+				permissions,
+				compileLocalFilters(linkedSchema, localFilters),
+				compileNestedFilters(schema, linkedSchema, nestedFilters, context),
+			]),
+			...(field.$count ? { count: true } : getModifiers(linkedSchema, field)),
+			links: field.$count ? [] : getLinks(schema, linkedSchema, field, context),
+		};
+		return [{ path, getLinked, query }];
+	});
+};
+
+const getRootQuery = (schema: EnrichedBormSchema, query: ParsedBQLQuery, context: AuthContext | undefined) => {
+	const thingSchema = '$entity' in query ? query.$entity : query.$relation;
+	return {
+		thing: thingSchema.name,
+		ids: getIds(query.$id),
+		filter: combinePredicates([
+			compileLocalFilters(thingSchema, query.$localFilters),
+			compileNestedFilters(schema, thingSchema, query.$nestedFilters, context),
+			compilePermissions(schema, thingSchema, context),
+		]),
+	};
+};
+
+/// the root only matches things of the queried type, nested fields also match the extended ones
+const getRootCandidates = (query: MemoryQuery, store: MemoryStore) =>
+	[...store.values()].filter((thing) => thing.$thing === query.thing);
+
+const filterThings = (schema: EnrichedBormSchema, query: MemoryQuery, things: MemoryThing[], store: MemoryStore) =>
+	things.filter((thing) => {
+		const id = getId(schema, thing);
+		return id !== undefined && (!query.ids || query.ids.includes(id)) && (!query.filter || query.filter(thing, store));
+	});
+
+/// things without a value in a sorted field are sorted last
+const sortThings = (schema: EnrichedBormSchema, query: MemoryQuery, things: MemoryThing[]) => {
+	const { sort } = query;
+	if (!sort?.length) {
+		return things;
+	}
+	return things
+		.map((thing) => {
+			const thingSchema = getThingSchema(schema, thing.$thing);
+			const values = sort.map(({ field }) => {
+				const dataField = thingSchema.dataFields?.find((df) => df.path === field);
+				const [value] = dataField ? getStoredValues(dataField, thing) : [];
+				return dataField && value !== undefined ? toComparable(value, dataField) : undefined;
+			});
+			return { thing, values };
+		})
+		.sort((a, b) => {
+			const i = sort.findIndex((_, j) => a.values[j] !== b.values[j]);
+			if (i === -1) {
+				return 0;
+			}
+			if (a.values[i] === undefined || b.values[i] === undefined) {
+				return a.values[i] === undefined ? 1 : -1;
+			}
+			const order = (a.values[i] as string | number) < (b.values[i] as string | number) ? -1 : 1;
+			return sort[i].desc ? -order : order;
+		})
+		.map(({ thing }) => thing);
+};
+
+/// $sort, $limit and $offset of nested fields are applied per parent
+const getAnswers = (
+	schema: EnrichedBormSchema,
+	query: MemoryQuery,
+	candidates: MemoryThing[],
+	store: MemoryStore,
+): MemoryAnswer[] => {
+	const offset = query.offset ?? 0;
+	const limit = query.limit === undefined ? undefined : offset + query.limit;
+	return sortThings(schema, query, filterThings(schema, query, candidates, store))
+		.slice(offset, limit)
+		.map((thing) => ({
+			thing,
+			...(query.idsOnly ? { idsOnly: true } : {}),
+			links: Object.fromEntries(
+				query.links.map(({ path, getLinked, query: linkedQuery }) => {
+					const linkedThings = getLinked(thing, store);
+					return [
+						path,
+						linkedQuery.count
+							? filterThings(schema, linkedQuery, linkedThings, store).length
+							: getAnswers(schema, linkedQuery, linkedThings, store),
+					];
+				}),
+			),
+		}));
+};
+
+export const toFetchedThing = (schema: EnrichedBormSchema, answer: MemoryAnswer): FetchedThing => {
+	const thingSchema = getThingSchema(schema, answer.thing.$thing);
+	const data = answer.idsOnly ? pick(answer.thing.data, [...(thingSchema.idFields || [])]) : answer.thing.data;
+	const linkedThings = Object.entries(answer.links).map(([path, linked]) => [
+		path,
+		typeof linked === 'number' ? linked : linked.map((linkedAnswer) => toFetchedThing(schema, linkedAnswer)),
+	]);
+	return {
+		...structuredClone(data),
+		...Object.fromEntries(linkedThings),
+		[`$${thingSchema.thingType}`]: thingSchema.name,
+		$id: getId(schema, answer.thing),
+	} as FetchedThing;
+};
+
+export const buildMemoryQuery: PipelineOperation = async (req) => {
+	const { schema, bqlRequest, config } = req;
+	if (!bqlRequest?.query) {
+		throw new Error('BQL query not parsed');
+	}
+	const { query } = bqlRequest;
+	const { context } = config.query || {};
+	const thingSchema = '$entity' in query ? query.$entity : query.$relation;
+
+	req.memoryRequest = {
+		query: {
+			...getRootQuery(schema, query, context),
+			...getModifiers(thingSchema, query),
+			links: getLinks(schema, thingSchema, query, context),
+		},
+	};
+};
+
+export const runMemoryQuery: PipelineOperation = async (req, res) => {
+	const { schema, memoryRequest, dbHandles, dbConnector } = req;
+	if (!memoryRequest?.query) {
+		throw new Error('Memory request not built');
+	}
+	const { query } = memoryRequest;
+	const { store } = getMemoryHandle(dbHandles, dbConnector.id);
+
+	res.rawMemoryRes = { answers: getAnswers(schema, query, getRootCandidates(query, store), store) };
+};
+
+export const parseMemoryRes: PipelineOperation = async (req, res) => {
+	const { schema } = req;
+	const { rawMemoryRes } = res;
+	if (!rawMemoryRes?.answers) {
+		throw new Error('Memory query not executed');
+	}
+	res.things = rawMemoryRes.answers.map((answer) => toFetchedThing(schema, answer));
+};
+
+export const buildMemoryAggregate: PipelineOperation = async (req) => {
+	const { schema, bqlRequest, config } = req;
+	if (!bqlRequest?.query) {
+		throw new Error('BQL query not parsed');
+	}
+	const { query } = bqlRequest;
+	if (!query.$aggregate) {
+		throw new Error('BQL query has no $aggregate');
+	}
+	const thingSchema = '$entity' in query ? query.$entity : query.$relation;
+	const getPath = (path: unknown) => {
+		if (!thingSchema.dataFields?.some((df) => df.path === path)) {
+			throw new BormValidationError(`'${path}' is not a dataField of ${thingSchema.name}`, {
+				code: 'UNKNOWN_FIELD',
+				path: '$aggregate',
+			});
+		}
+		return path as string;
+	};
+
+	const aggregateEntries = Object.entries(query.$aggregate) as [keyof BQLAggregate, BQLAggregate[keyof BQLAggregate]][];
+	req.memoryRequest = {
+		/// as in typeQL, aggregates are not sorted nor paginated
+		query: { ...getRootQuery(schema, query, config.query?.context), links: [] },
+		aggregates: aggregateEntries
+			.filter(([, value]) => value)
+			.map(([name, value]) => ({ name, ...(name === 'count' ? {} : { path: getPath(value) }) })),
+		...(query.$groupBy ? { groupBy: getPath(query.$groupBy) } : {}),
+	};
+};
+
+export const runMemoryAggregate: PipelineOperation = async (req, res) => {
+	const { schema, memoryRequest, dbHandles, dbConnector } = req;
+	if (!memoryRequest?.query || !memoryRequest.aggregates) {
+		throw new Error('Memory aggregate request not built');
+	}
+	const { query, aggregates, groupBy } = memoryRequest;
+	const thingSchema = getThingSchema(schema, query.thing);
+	const { store } = getMemoryHandle(dbHandles, dbConnector.id);
+	const things = filterThings(schema, query, getRootCandidates(query, store), store);
+	const getDataField = (path: string) => thingSchema.dataFields?.find((df) => df.path === path) as EnrichedDataField;
+
+	/// each value of a MANY dataField is aggregated, and things without a value are not
+	const aggregate = (name: keyof BQLAggregate, path: string | undefined, aggregatedThings: MemoryThing[]) => {
+		if (name === 'count' || !path) {
+			return aggregatedThings.length;
+		}
+		const dataField = getDataField(path);
+		const values = aggregatedThings.flatMap((thing) => getStoredValues(dataField, thing));
+		if (name === 'sum') {
+			return (values as number[]).reduce((acc, value) => acc + value, 0);
+		}
+		if (!values.length) {
+			return undefined;
+		}
+		if (name === 'avg') {
+			return (values as number[]).reduce((acc, value) => acc + value, 0) / values.length;
+		}
+		const [first, ...rest] = values;
+		return rest.reduce((acc, value) => {
+			const isLower = toComparable(value, dataField) < toComparable(acc, dataField);
+			return (name === 'min') === isLower ? value : acc;
+		}, first);
+	};
+
+	if (!groupBy) {
+		res.rawMemoryRes = {
+			aggregates: aggregates.map(({ name, path }) => ({ name, value: aggregate(name, path, things) })),
+		};
+		return;
+	}
+
+	const groupDataField = getDataField(groupBy);
+	const groups = new Map<unknown, { owner: unknown; things: MemoryThing[] }>();
+	things.forEach((thing) =>
+		getStoredValues(groupDataField, thing).forEach((owner) => {
+			const key = toComparable(owner, groupDataField);
+			const group = groups.get(key) || { owner, things: [] };
+			group.things.push(thing);
+			groups.set(key, group);
+		}),
+	);
+	res.rawMemoryRes = {
+		aggregates: aggregates.map(({ name, path }) => ({
+			name,
+			groups: [...groups.values()]
+				/// as in typeQL, groups without values are not aggregated
+				.filter((group) => !path || group.things.some((thing) => getStoredValues(getDataField(path), thing).length))
+				.map((group) => ({ owner: group.owner, value: aggregate(name, path, group.things) })),
+		})),
+	};
+};
+
+export const parseMemoryAggregateRes: PipelineOperation = async (req, res) => {
+	const { bqlRequest } = req;
+	const { rawMemoryRes } = res;
+	if (!bqlRequest?.query) {
+		throw new Error('BQL request not parsed');
+	}
+	if (!rawMemoryRes?.aggregates) {
+		throw new Error('Memory aggregate query not executed');
+	}
+	res.bqlRes = getAggregateRes(bqlRequest.query, rawMemoryRes.aggregates);
+};
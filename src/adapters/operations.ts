@@ -0,0 +1,175 @@
+import { unique } from 'radash';
+
+import { getContentTypeStorage, getCurrentSchema, getIdFieldsValues } from '../helpers';
+import type {
+	BQLMutationBlock,
+	EnrichedBormEntity,
+	EnrichedBormRelation,
+	EnrichedBormSchema,
+	EnrichedDataField,
+	MutationOperation,
+	MutationOperations,
+	OperationRoles,
+	ParsedBQLMutation,
+} from '../types';
+
+type ThingSchema = EnrichedBormEntity | EnrichedBormRelation;
+
+/// values are kept as typeDB returns them, so serialized contentTypes are kept already deserialized
+export const toStoredValue = (value: unknown, dataField: EnrichedDataField) => {
+	const { valueType, serialize, deserialize } = getContentTypeStorage(dataField);
+	const toStored = (x: unknown) => {
+		const serialized = serialize ? serialize(x, dataField.path) : x;
+		const stored = deserialize ? deserialize(serialized) : structuredClone(serialized);
+		return valueType === 'datetime' ? new Date(stored as string | number | Date) : stored;
+	};
+	return dataField.cardinality === 'MANY' && Array.isArray(value) ? value.map(toStored) : toStored(value);
+};
+
+/// the stored dataFields of a node, with the nulls of the ones being deleted. Ids are never rewritten
+const getData = (thingSchema: ThingSchema, node: BQLMutationBlock) => {
+	const dataFields = (thingSchema.dataFields || []).filter(
+		(df) => !df.isVirtual && !thingSchema.idFields?.includes(df.path) && node[df.path] !== undefined,
+	);
+	return Object.fromEntries(
+		dataFields.map((df) => [df.path, node[df.path] === null ? null : toStoredValue(node[df.path], df)]),
+	);
+};
+
+const withoutNulls = (data: Record<string, unknown>) =>
+	Object.fromEntries(Object.entries(data).filter(([, value]) => value !== null));
+
+/// the bzIds playing each role of an edge
+const getRoles = (relationSchema: ThingSchema, edge: BQLMutationBlock): OperationRoles => {
+	const roleFields = 'roles' in relationSchema ? Object.keys(relationSchema.roles) : [];
+	return Object.fromEntries(
+		roleFields.filter((role) => edge[role] !== undefined).map((role) => [role, [edge[role]].flat() as string[]]),
+	);
+};
+
+/// the "all-xxx" local ids only link stuff in this mutation, so they match every thing of their type
+const getMatchedIds = (node: BQLMutationBlock) =>
+	node[Symbol.for('isLocalId') as any] || node.$id === undefined ? undefined : [node.$id].flat().map(String);
+
+/// Things and edges become the same operations as in the typeQL mutation
+export const getMutationOperations = (schema: EnrichedBormSchema, mutation: ParsedBQLMutation): MutationOperations => {
+	const matches: MutationOperation[] = [];
+	const deletions: MutationOperation[] = [];
+	const insertions: MutationOperation[] = [];
+
+	mutation.things.forEach((node) => {
+		const thingSchema = getCurrentSchema(schema, node);
+		const bzId = node.$bzId as string;
+		if (node.$op === 'create') {
+			const data = { ...withoutNulls(getData(thingSchema, node)), ...getIdFieldsValues(thingSchema, node.$id) };
+			insertions.push({ type: 'create', bzId, thing: thingSchema.name, data });
+			return;
+		}
+		matches.push({ type: 'match', bzId, thing: thingSchema.name, ids: getMatchedIds(node) });
+		if (node.$op === 'delete') {
+			deletions.push({ type: 'delete', bzId });
+		}
+		if (node.$op === 'update') {
+			const data = getData(thingSchema, node);
+			deletions.push({ type: 'unset', bzId, fields: Object.keys(data) });
+			insertions.push({ type: 'set', bzId, data: withoutNulls(data) });
+		}
+	});
+
+	mutation.edges.forEach((edge) => {
+		const relationSchema = getCurrentSchema(schema, edge);
+		const roles = getRoles(relationSchema, edge);
+		/// as in typeQL, edges without roles are ignored
+		if (!Object.keys(roles).length) {
+			return;
+		}
+		const bzId = edge.$bzId as string;
+		const relation = relationSchema.name;
+		switch (edge.$op) {
+			case 'match':
+				matches.push({ type: 'matchRelation', bzId, relation, roles });
+				break;
+			case 'delete':
+				deletions.push({ type: 'deleteRelation', bzId, relation, roles });
+				break;
+			case 'unlink':
+				deletions.push({ type: 'unlink', bzId, roles });
+				break;
+			case 'link':
+				insertions.push({ type: 'link', bzId, relation, roles });
+				break;
+			case 'create': {
+				const data = getIdFieldsValues(relationSchema, edge.$id);
+				insertions.push({ type: 'createRelation', bzId, relation, roles, data });
+				break;
+			}
+			default:
+				break;
+		}
+	});
+
+	return { matches, deletions, insertions };
+};
+
+type RelationPattern = { bzId: string; relation: string; roles: OperationRoles };
+type MatchedRelation = { $dbId: string; roles: Record<string, string[]> }; // the $dbIds playing each role
+
+/// As in the conjunctive match of typeQL, relations and the things playing their roles narrow each other until nothing changes.
+/// The relations of a pattern are the bound ones, or every relation of its type when it is not bound yet
+export const matchRelations = (
+	bindings: Map<string, string[]>,
+	patterns: RelationPattern[],
+	getRelations: (relation: string, dbIds?: string[]) => MatchedRelation[],
+) => {
+	let changed = true;
+	const narrow = (bzId: string, dbIds: string[]) => {
+		if (!bindings.has(bzId) || bindings.get(bzId)?.length !== dbIds.length) {
+			bindings.set(bzId, dbIds);
+			changed = true;
+		}
+	};
+	while (changed) {
+		changed = false;
+		patterns.forEach(({ bzId, relation, roles }) => {
+			/// players that are not matched, like the things being created, can be any thing
+			const matched = getRelations(relation, bindings.get(bzId)).filter((candidate) =>
+				Object.entries(roles).every(([role, bzIds]) =>
+					bzIds.every(
+						(playerBzId) =>
+							!bindings.has(playerBzId) ||
+							bindings.get(playerBzId)?.some((dbId) => candidate.roles[role]?.includes(dbId)),
+					),
+				),
+			);
+			narrow(
+				bzId,
+				matched.map((relation) => relation.$dbId),
+			);
+			Object.entries(roles).forEach(([role, bzIds]) =>
+				bzIds.forEach((playerBzId) => {
+					const bound = bindings.get(playerBzId);
+					if (bound) {
+						narrow(
+							playerBzId,
+							bound.filter((dbId) => matched.some((x) => x.roles[role]?.includes(dbId))),
+						);
+					}
+				}),
+			);
+		});
+	}
+};
+
+/// as in typeQL, one relation is inserted for every combination of the things bound to its players
+export const getPlayerCombinations = (bindings: Map<string, string[]>, roles: OperationRoles) =>
+	unique(Object.values(roles).flat()).reduce<Record<string, string>[]>(
+		(combinations, bzId) =>
+			combinations.flatMap((combination) =>
+				(bindings.get(bzId) || []).map((dbId) => ({ ...combination, [bzId]: dbId })),
+			),
+		[{}],
+	);
+
+/// the $dbIds playing each role in a combination of players
+export const getPlayers = (roles: OperationRoles, combination: Record<string, string>) =>
+	Object.fromEntries(Object.entries(roles).map(([role, bzIds]) => [role, bzIds.map((bzId) => combination[bzId])]));
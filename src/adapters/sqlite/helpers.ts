@@ -0,0 +1,459 @@
+import Database from 'better-sqlite3';
+import { isObject } from 'radash';
+
+import { BormConflictError, BormConnectionError, BormValidationError } from '../../errors';
+import {
+	getContentTypeStorage,
+	getIdFieldsValues,
+	getLinkedThingSchema,
+	getPermission,
+	getStorageDbPaths,
+	oFilter,
+} from '../../helpers';
+import type {
+	AuthContext,
+	DBHandles,
+	EnrichedBormEntity,
+	EnrichedBormRelation,
+	EnrichedBormSchema,
+	EnrichedDataField,
+} from '../../types';
+import { getThingSchema, toComparable } from '../memory/helpers';
+
+type ThingSchema = EnrichedBormEntity | EnrichedBormRelation;
+
+/// $regex filters need the regexp() function, which sqlite declares but doesn't define
+export const openSQLiteDb = (filename: string) => {
+	const db = new Database(filename);
+	db.function('regexp', { deterministic: true }, (pattern, value) =>
+		typeof value === 'string' && new RegExp(pattern as string).test(value) ? 1 : 0,
+	);
+	return db;
+};
+
+export const getSQLiteHandle = (dbHandles: DBHandles, dbConnectorId: string) => {
+	const handle = dbHandles.sqlite?.get(dbConnectorId);
+	if (!handle) {
+		throw new BormConnectionError(`No sqlite db for the dbConnector '${dbConnectorId}'`, { code: 'CONNECTION_FAILED' });
+	}
+	return handle;
+};
+
+/// Errors of better-sqlite3 keep the code of sqlite. They are created by the native module, so they are recognized by
+/// their name. The unique indexes of idFields refuse things that already exist
+const isSqliteError = (e: unknown): e is Error & { code: string } =>
+	typeof e === 'object' && e !== null && (e as Error).name === 'SqliteError';
+
+export const getDriverError = (e: unknown) => {
+	if (!isSqliteError(e)) {
+		return e;
+	}
+	if (e.code === 'SQLITE_CONSTRAINT_UNIQUE' || e.code === 'SQLITE_CONSTRAINT_PRIMARYKEY') {
+		return new BormConflictError(e.message, { code: 'UNIQUE_CONSTRAINT', cause: e });
+	}
+	return new BormConnectionError(`Transaction failed: ${e.message}`, { code: 'TRANSACTION_FAILED', cause: e });
+};
+
+/// identifiers are double quoted, so only double quotes need to be escaped
+export const quote = (identifier: string) => `"${identifier.replace(/"/g, '""')}"`;
+
+/// As in typeDB, things are also things of the types they extend, so they have a row in each of their tables
+export const getThingTables = (schema: EnrichedBormSchema, thingName: string): string[] => {
+	const { extends: extended } = getThingSchema(schema, thingName);
+	return [thingName, ...(extended ? getThingTables(schema, extended) : [])];
+};
+
+/// each role of a relation is a join table, with a row per thing playing it
+export const getRoleTable = (relation: string, role: string) => `${relation}·${role}`;
+
+/// the role tables where a relation has rows: its own one and the ones of the relations it extends that have the role
+export const getRoleTables = (schema: EnrichedBormSchema, relation: string, role: string) =>
+	getThingTables(schema, relation)
+		.filter((name) => schema.relations[name]?.roles?.[role])
+		.map((name) => getRoleTable(name, role));
+
+export const getStoredDataFields = (thingSchema: ThingSchema) =>
+	(thingSchema.dataFields || []).filter((df) => !df.isVirtual);
+
+/// the columns of a dataField are named as its attributes in typeDB, one per part when it is stored in several
+export const getColumns = (dataField: EnrichedDataField) => getStorageDbPaths(dataField);
+
+/// values are stored as they are compared: serialized, with dates in milliseconds and booleans as 0 or 1
+export const toColumnValue = (value: unknown, dataField: EnrichedDataField) => {
+	const comparable = toComparable(value, dataField);
+	return typeof comparable === 'boolean' ? Number(comparable) : comparable;
+};
+
+/// values of a column or of the JSON array of a MANY one, as typeDB returns them
+export const fromColumnValue = (value: unknown, dataField: EnrichedDataField) => {
+	const { valueType, deserialize } = getContentTypeStorage(dataField);
+	if (valueType === 'boolean') {
+		return Boolean(value);
+	}
+	if (valueType === 'datetime') {
+		return new Date(value as number);
+	}
+	return deserialize ? deserialize(value) : value;
+};
+
+/// The columns of some dataFields, from their values as they are returned. MANY values are stored as a JSON array
+export const toColumns = (thingSchema: ThingSchema, data: Record<string, unknown>) =>
+	Object.fromEntries(
+		Object.entries(data).flatMap(([path, value]) => {
+			const dataField = getStoredDataFields(thingSchema).find((df) => df.path === path);
+			if (!dataField) {
+				return [];
+			}
+			const columns = getColumns(dataField);
+			const { parts } = getContentTypeStorage(dataField);
+			if (value === null || value === undefined) {
+				return columns.map((column) => [column, null]);
+			}
+			/// as in typeDB, every part is required and is a double
+			if (parts) {
+				if (typeof value !== 'object' || Array.isArray(value)) {
+					throw new BormValidationError(`Value of '${dataField.path}' must be an object with ${parts.join(', ')}`, {
+						code: 'INVALID_VALUE',
+						path: dataField.path,
+					});
+				}
+				return parts.map((part, i) => {
+					const partValue = (value as Record<string, unknown>)[part];
+					if (!Number.isFinite(partValue)) {
+						throw new BormValidationError(`Value of '${dataField.path}.${part}' must be a finite number`, {
+							code: 'INVALID_VALUE',
+							path: dataField.path,
+						});
+					}
+					return [columns[i], partValue];
+				});
+			}
+			if (dataField.cardinality === 'MANY') {
+				return [[columns[0], JSON.stringify([value].flat().map((x) => toColumnValue(x, dataField)))]];
+			}
+			return [[columns[0], toColumnValue(value, dataField)]];
+		}),
+	);
+
+/// The dataFields of a row, with their values as typeDB returns them
+export const fromColumns = (thingSchema: ThingSchema, row: Record<string, unknown>) =>
+	Object.fromEntries(
+		getStoredDataFields(thingSchema).flatMap((dataField) => {
+			const columns = getColumns(dataField);
+			const { parts } = getContentTypeStorage(dataField);
+			if (parts) {
+				const values = columns.map((column) => row[column]);
+				return values.every((value) => value === null || value === undefined)
+					? []
+					: [[dataField.path, Object.fromEntries(parts.map((part, i) => [part, values[i]]))]];
+			}
+			const value = row[columns[0]];
+			if (value === null || value === undefined) {
+				return [];
+			}
+			if (dataField.cardinality === 'MANY') {
+				return [[dataField.path, (JSON.parse(value as string) as unknown[]).map((x) => fromColumnValue(x, dataField))]];
+			}
+			return [[dataField.path, fromColumnValue(value, dataField)]];
+		}),
+	);
+
+/// Collects the named parameters of a statement, and names its table aliases so nested ones never collide
+export const createSQLiteContext = () => {
+	const params: Record<string, unknown> = {};
+	let aliases = 0;
+	return {
+		params,
+		param: (value: unknown) => {
+			const name = `p${Object.keys(params).length}`;
+			params[name] = value;
+			return `@${name}`;
+		},
+		alias: () => {
+			aliases += 1;
+			return `t${aliases}`;
+		},
+	};
+};
+
+type SQLiteContext = ReturnType<typeof createSQLiteContext>;
+
+export const and = (conditions: string[]) => conditions.map((condition) => `(${condition})`).join(' AND ');
+
+/// The $dbIds of the things linked through a linkField or a roleField to the $dbId of parentDbId, of any type
+export const getLinkedDbIdsSql = (ctx: SQLiteContext, thingSchema: ThingSchema, path: string, parentDbId: string) => {
+	const linkField = thingSchema.linkFields?.find((lf) => lf.path === path);
+	if (!linkField) {
+		return `SELECT "_player" FROM ${quote(getRoleTable(thingSchema.name, path))} WHERE "_relation" = ${parentDbId}`;
+	}
+	const playedTable = quote(getRoleTable(linkField.relation, linkField.plays));
+	if (linkField.target === 'relation') {
+		return `SELECT "_relation" FROM ${playedTable} WHERE "_player" = ${parentDbId}`;
+	}
+	// todo: opposite linkFields playing different roles
+	const [oppositeLinkField] = linkField.oppositeLinkFieldsPlayedBy;
+	const played = ctx.alias();
+	const opposite = ctx.alias();
+	/// a thing is not linked to itself when both linkFields play the same role
+	const notItself =
+		oppositeLinkField.plays === linkField.plays ? ` AND ${opposite}."_player" <> ${played}."_player"` : '';
+	return `SELECT ${opposite}."_player" FROM ${playedTable} ${played} JOIN ${quote(
+		getRoleTable(linkField.relation, oppositeLinkField.plays),
+	)} ${opposite} ON ${opposite}."_relation" = ${played}."_relation" WHERE ${played}."_player" = ${parentDbId}${notItself}`;
+};
+
+const textFilterOperators = ['$contains', '$startsWith', '$endsWith', '$regex'];
+
+const comparisons: Record<string, string> = {
+	$eq: '=',
+	$ne: '=',
+	$gt: '>',
+	$ge: '>=',
+	$gte: '>=',
+	$lt: '<',
+	$lte: '<=',
+};
+
+/// Same filters as the typeQL ones, as conditions over the row of alias. Things match when any of their values does
+export const compileLocalFilters = (
+	ctx: SQLiteContext,
+	thingSchema: ThingSchema,
+	alias: string,
+	localFilters: Record<string, any> | undefined,
+): string[] => {
+	if (!localFilters) {
+		return [];
+	}
+	return Object.entries(localFilters).flatMap(([path, filter]) => {
+		const dataField = thingSchema.dataFields?.find((x) => x.path === path);
+		if (!dataField) {
+			throw new BormValidationError(`Can't filter by '${path}', it is not a dataField of ${thingSchema.name}`, {
+				code: 'UNKNOWN_FIELD',
+				path: `$filter.${path}`,
+			});
+		}
+		const operators: [string, unknown][] = Array.isArray(filter)
+			? [['$in', filter]]
+			: isObject(filter) && !(filter instanceof Date)
+			? Object.entries(filter)
+			: [['$eq', filter]];
+		const [column] = getColumns(dataField);
+		const columnSql = `${alias}.${quote(column)}`;
+		/// conditions are never null, so they can be negated
+		const some = (test: (x: string) => string) =>
+			dataField.cardinality === 'MANY'
+				? `EXISTS (SELECT 1 FROM json_each(${columnSql}) WHERE ${test('value')})`
+				: `COALESCE(${test(columnSql)}, 0)`;
+		const none = (test: (x: string) => string) => `NOT ${some(test)}`;
+
+		return operators.map(([operator, value]) => {
+			if (textFilterOperators.includes(operator) && typeof value !== 'string') {
+				throw new BormValidationError(`Filter ${operator} of '${path}' requires a string`, {
+					code: 'INVALID_REQUEST',
+					path: `$filter.${path}`,
+				});
+			}
+			if (textFilterOperators.includes(operator) && getContentTypeStorage(dataField).valueType !== 'string') {
+				throw new BormValidationError(
+					`Filter ${operator} can't be used in '${path}', which is of type ${dataField.contentType}`,
+					{ code: 'INVALID_REQUEST', path: `$filter.${path}` },
+				);
+			}
+			if (['$in', '$nin'].includes(operator) && !Array.isArray(value)) {
+				throw new BormValidationError(`Filter ${operator} of '${path}' requires an array`, {
+					code: 'INVALID_REQUEST',
+					path: `$filter.${path}`,
+				});
+			}
+
+			switch (operator) {
+				case '$eq':
+				case '$gt':
+				case '$ge': // same as $gte
+				case '$gte':
+				case '$lt':
+				case '$lte': {
+					const target = ctx.param(toColumnValue(value, dataField));
+					return some((x) => `${x} ${comparisons[operator]} ${target}`);
+				}
+				case '$ne': {
+					const target = ctx.param(toColumnValue(value, dataField));
+					return none((x) => `${x} = ${target}`);
+				}
+				case '$in':
+				case '$nin': {
+					const values = value as unknown[];
+					if (values.length === 0) {
+						throw new BormValidationError(`Filter ${operator} of '${path}' requires at least one value`, {
+							code: 'INVALID_REQUEST',
+							path: `$filter.${path}`,
+						});
+					}
+					const targets = values.map((x) => ctx.param(toColumnValue(x, dataField))).join(', ');
+					return operator === '$in' ? some((x) => `${x} IN (${targets})`) : none((x) => `${x} IN (${targets})`);
+				}
+				/// typeQL contains is case insensitive
+				case '$contains': {
+					const target = ctx.param(value);
+					return some((x) => `instr(lower(${x}), lower(${target})) > 0`);
+				}
+				case '$startsWith': {
+					const target = ctx.param(value);
+					return some((x) => `substr(${x}, 1, length(${target})) = ${target}`);
+				}
+				case '$endsWith': {
+					const target = ctx.param(value);
+					return some((x) => `substr(${x}, length(${x}) - length(${target}) + 1) = ${target}`);
+				}
+				/// regexp() is defined by the adapter when the db is opened
+				case '$regex': {
+					const target = ctx.param(value);
+					return some((x) => `${x} REGEXP ${target}`);
+				}
+				default:
+					throw new BormValidationError(`Unsupported filter operator ${operator} in '${path}'`, {
+						code: 'INVALID_REQUEST',
+						path: `$filter.${path}`,
+					});
+			}
+		});
+	});
+};
+
+/// Composite ids match the value of every idField, so several of them are alternatives
+export const compileIdFilters = (
+	ctx: SQLiteContext,
+	thingSchema: ThingSchema,
+	alias: string,
+	ids: string | string[],
+) => {
+	const [idField, ...otherIdFields] = thingSchema.idFields || [];
+	if (!otherIdFields.length) {
+		return compileLocalFilters(ctx, thingSchema, alias, { [idField]: ids });
+	}
+	const idMatches = [ids]
+		.flat()
+		.map((id) => and(compileLocalFilters(ctx, thingSchema, alias, getIdFieldsValues(thingSchema, id))));
+	return [idMatches.length ? idMatches.map((match) => `(${match})`).join(' OR ') : '0'];
+};
+
+/// keys starting with $ are quantifiers, so the unsupported ones throw instead of being taken for fields
+const isQuantifier = (key: string) => key.startsWith('$');
+
+/// All the filters of a linked thing. Plain ids or arrays of ids filter by its idFields
+const compileLinkedThingFilters = (
+	ctx: SQLiteContext,
+	schema: EnrichedBormSchema,
+	linkedSchema: ThingSchema,
+	alias: string,
+	filter: unknown,
+	readContext: AuthContext | undefined | false,
+): string[] => {
+	if (!isObject(filter)) {
+		return compileIdFilters(ctx, linkedSchema, alias, filter as string | string[]);
+	}
+	const dataFieldPaths = linkedSchema.dataFields?.map((df) => df.path) || [];
+	return [
+		...compileLocalFilters(
+			ctx,
+			linkedSchema,
+			alias,
+			oFilter(filter, (k: string, _v) => dataFieldPaths.includes(k)),
+		),
+		...compileNestedFilters(
+			ctx,
+			schema,
+			linkedSchema,
+			alias,
+			oFilter(filter, (k: string, _v) => !dataFieldPaths.includes(k)),
+			readContext,
+		),
+	];
+};
+
+/// Filters through linkFields and roleFields, by default matching things with $some linked thing passing the filter
+export const compileNestedFilters = (
+	ctx: SQLiteContext,
+	schema: EnrichedBormSchema,
+	thingSchema: ThingSchema,
+	alias: string,
+	nestedFilters: Record<string, any> | undefined,
+	readContext: AuthContext | undefined | false, // read rules don't hide the linked things of their own filters
+): string[] => {
+	if (!nestedFilters) {
+		return [];
+	}
+	return Object.entries(nestedFilters).flatMap(([path, filter]) => {
+		const linkedSchema = getLinkedThingSchema(schema, thingSchema, path);
+		if (!linkedSchema) {
+			throw new BormValidationError(`Can't filter by '${path}', it is not a field of ${thingSchema.name}`, {
+				code: 'UNKNOWN_FIELD',
+				path: `$filter.${path}`,
+			});
+		}
+		const quantifiers =
+			isObject(filter) && Object.keys(filter).some(isQuantifier)
+				? (filter as Record<string, unknown>)
+				: { $some: filter };
+
+		return Object.entries(quantifiers).map(([quantifier, linkedFilter]) => {
+			const linkedAlias = ctx.alias();
+			const linkedDbIds = getLinkedDbIdsSql(ctx, thingSchema, path, `${alias}."_dbId"`);
+			const readable =
+				readContext === false ? [] : compilePermissions(ctx, schema, linkedSchema, linkedAlias, readContext);
+			const linked = `SELECT 1 FROM ${quote(linkedSchema.name)} ${linkedAlias} WHERE ${and([
+				`${linkedAlias}."_dbId" IN (${linkedDbIds})`,
+				...readable,
+			])}`;
+			const conditions = compileLinkedThingFilters(ctx, schema, linkedSchema, linkedAlias, linkedFilter, readContext);
+			const matching = conditions.length ? `${linked} AND ${and(conditions)}` : linked;
+			switch (quantifier) {
+				case '$some':
+					return `EXISTS (${matching})`;
+				case '$none':
+					return `NOT EXISTS (${matching})`;
+				case '$every':
+					return conditions.length ? `NOT EXISTS (${linked} AND NOT (${and(conditions)}))` : '1';
+				default:
+					throw new BormValidationError(
+						`Unsupported filter quantifier ${quantifier} in '${path}', use $some, $every or $none`,
+						{ code: 'INVALID_REQUEST', path: `$filter.${path}` },
+					);
+			}
+		});
+	});
+};
+
+/// The read rule of a thing for the context of the request, so things the context can't read are never matched
+export const compilePermissions = (
+	ctx: SQLiteContext,
+	schema: EnrichedBormSchema,
+	thingSchema: ThingSchema,
+	alias: string,
+	context: AuthContext | undefined,
+): string[] => {
+	const permission = getPermission(thingSchema, 'read', context);
+	if (permission === true) {
+		return [];
+	}
+	if (permission === false) {
+		return ['0'];
+	}
+	const dataFieldPaths = thingSchema.dataFields?.map((df) => df.path) || [];
+	return [
+		...compileLocalFilters(
+			ctx,
+			thingSchema,
+			alias,
+			oFilter(permission, (k: string, _v) => dataFieldPaths.includes(k)),
+		),
+		...compileNestedFilters(
+			ctx,
+			schema,
+			thingSchema,
+			alias,
+			oFilter(permission, (k: string, _v) => !dataFieldPaths.includes(k)),
+			false,
+		),
+	];
+};
@@ -0,0 +1,20 @@
+import type { BormAdapter } from '..';
+import { buildSQLiteMutation, parseSQLiteMutationRes, runSQLiteMutation } from './mutation';
+import {
+	buildSQLiteAggregate,
+	buildSQLiteQuery,
+	parseSQLiteAggregateRes,
+	parseSQLiteRes,
+	runSQLiteAggregate,
+	runSQLiteQuery,
+} from './query';
+
+/// An embedded db in a file, or in the process with ':memory:'. Each thing and each role of a relation is a table
+export const sqliteAdapter: BormAdapter = {
+	name: 'SQLite',
+	query: { build: buildSQLiteQuery, run: runSQLiteQuery, parse: parseSQLiteRes },
+	aggregate: { build: buildSQLiteAggregate, run: runSQLiteAggregate, parse: parseSQLiteAggregateRes },
+	mutation: { build: buildSQLiteMutation, run: runSQLiteMutation, parse: parseSQLiteMutationRes },
+};
+
+export { getSQLiteHandle, openSQLiteDb } from './helpers';
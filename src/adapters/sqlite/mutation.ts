@@ -0,0 +1,320 @@
+import type { Database } from 'better-sqlite3';
+import { unique } from 'radash';
+import { v4 as uuidv4 } from 'uuid';
+
+import type { PipelineOperation } from '../../pipeline/pipeline';
+import { getMutationRes } from '../../pipeline/postprocess/parseTQLRes';
+import type { EnrichedBormSchema, EnrichedDataField, OperationRoles } from '../../types';
+import { getThingSchema } from '../memory/helpers';
+import { getMutationOperations, getPlayerCombinations, getPlayers, matchRelations } from '../operations';
+import {
+	and,
+	compileIdFilters,
+	createSQLiteContext,
+	getColumns,
+	getDriverError,
+	getRoleTable,
+	getRoleTables,
+	getSQLiteHandle,
+	getThingTables,
+	quote,
+	toColumns,
+} from './helpers';
+
+type SelectedThing = { _dbId: string; _thing: string };
+
+/// Reads and writes the rows of things and their roles, in every table they have a row in
+const getWriter = (db: Database, schema: EnrichedBormSchema) => {
+	const things = new Map<string, string>(); // the type of each $dbId that was read or written
+
+	const select = (thing: string, ids?: string[]) => {
+		const thingSchema = getThingSchema(schema, thing);
+		const [idField, ...otherIdFields] = thingSchema.idFields || [];
+		const idDataField = thingSchema.dataFields?.find((df) => df.path === idField);
+		const ctx = createSQLiteContext();
+		/// the ids are matched as strings, but the parts of composite ids have the type of their idField
+		const getIdFilter = (matchedIds: string[]) =>
+			otherIdFields.length
+				? and(compileIdFilters(ctx, thingSchema, quote(thing), matchedIds))
+				: `${quote(getColumns(idDataField as EnrichedDataField)[0])} IN (${matchedIds
+						.map((id) => ctx.param(id))
+						.join(', ')})`;
+		const idFilter = ids && idDataField ? ` WHERE ${getIdFilter(ids)}` : '';
+		const rows = db
+			.prepare(`SELECT "_dbId", "_thing" FROM ${quote(thing)}${idFilter} ORDER BY rowid`)
+			.all(ctx.params) as SelectedThing[];
+		rows.forEach((row) => things.set(row._dbId, row._thing));
+		return rows.map((row) => row._dbId);
+	};
+
+	/// the roles of the relations of a type, with the $dbIds playing them
+	const getRelations = (relation: string, dbIds?: string[]) => {
+		const relationDbIds = dbIds || select(relation);
+		const roles = Object.keys(schema.relations[relation]?.roles || {});
+		const players = roles.map((role) => {
+			const rows = db.prepare(`SELECT "_relation", "_player" FROM ${quote(getRoleTable(relation, role))}`).all() as {
+				_relation: string;
+				_player: string;
+			}[];
+			return { role, rows };
+		});
+		return relationDbIds.map(($dbId) => ({
+			$dbId,
+			roles: Object.fromEntries(
+				players.map(({ role, rows }) => [
+					role,
+					rows.filter((row) => row._relation === $dbId).map((row) => row._player),
+				]),
+			),
+		}));
+	};
+
+	const exists = (dbId: string) => {
+		const thing = things.get(dbId);
+		return !!thing && !!db.prepare(`SELECT 1 FROM ${quote(thing)} WHERE "_dbId" = ?`).get(dbId);
+	};
+
+	const insert = (thing: string, data: Record<string, unknown>) => {
+		const dbId = uuidv4();
+		getThingTables(schema, thing).forEach((table) => {
+			const columns = { _dbId: dbId, _thing: thing, ...toColumns(getThingSchema(schema, table), data) };
+			const names = Object.keys(columns);
+			db.prepare(
+				`INSERT INTO ${quote(table)} (${names.map(quote).join(', ')}) VALUES (${names.map(() => '?').join(', ')})`,
+			).run(...Object.values(columns));
+		});
+		things.set(dbId, thing);
+		return dbId;
+	};
+
+	const update = (dbId: string, data: Record<string, unknown>) => {
+		const thing = things.get(dbId) as string;
+		getThingTables(schema, thing).forEach((table) => {
+			const columns = toColumns(getThingSchema(schema, table), data);
+			const names = Object.keys(columns);
+			if (names.length) {
+				db.prepare(
+					`UPDATE ${quote(table)} SET ${names.map((name) => `${quote(name)} = ?`).join(', ')} WHERE "_dbId" = ?`,
+				).run(...Object.values(columns), dbId);
+			}
+		});
+	};
+
+	const link = (relationDbId: string, role: string, playerDbIds: string[]) =>
+		getRoleTables(schema, things.get(relationDbId) as string, role).forEach((table) =>
+			playerDbIds.forEach((playerDbId) =>
+				db
+					.prepare(`INSERT OR IGNORE INTO ${quote(table)} ("_relation", "_player") VALUES (?, ?)`)
+					.run(relationDbId, playerDbId),
+			),
+		);
+
+	const unlink = (relationDbId: string, role: string, playerDbIds: string[]) =>
+		getRoleTables(schema, things.get(relationDbId) as string, role).forEach((table) =>
+			db
+				.prepare(
+					`DELETE FROM ${quote(table)} WHERE "_relation" = ? AND "_player" IN (${playerDbIds
+						.map(() => '?')
+						.join(', ')})`,
+				)
+				.run(relationDbId, ...playerDbIds),
+		);
+
+	/// deleted things stop playing their roles, and deleted relations lose their players
+	const remove = (dbId: string) => {
+		getThingTables(schema, things.get(dbId) as string).forEach((table) =>
+			db.prepare(`DELETE FROM ${quote(table)} WHERE "_dbId" = ?`).run(dbId),
+		);
+		Object.values(schema.relations).forEach((relationSchema) =>
+			Object.keys(relationSchema.roles || {}).forEach((role) =>
+				db
+					.prepare(
+						`DELETE FROM ${quote(getRoleTable(relationSchema.name, role))} WHERE "_relation" = ? OR "_player" = ?`,
+					)
+					.run(dbId, dbId),
+			),
+		);
+	};
+
+	/// as typeDB does on commit, relations without role players are deleted
+	const removeRelationsWithoutPlayers = () =>
+		Object.values(schema.relations).forEach((relationSchema) => {
+			const roleTables = Object.keys(relationSchema.roles || {}).map((role) =>
+				quote(getRoleTable(relationSchema.name, role)),
+			);
+			const withoutPlayers = roleTables.map(
+				(table) => `NOT EXISTS (SELECT 1 FROM ${table} WHERE "_relation" = r."_dbId")`,
+			);
+			const rows = db
+				.prepare(
+					`SELECT "_dbId", "_thing" FROM ${quote(relationSchema.name)} r WHERE r."_thing" = ?${withoutPlayers
+						.map((condition) => ` AND ${condition}`)
+						.join('')}`,
+				)
+				.all(relationSchema.name) as SelectedThing[];
+			rows.forEach((row) => {
+				things.set(row._dbId, row._thing);
+				remove(row._dbId);
+			});
+		});
+
+	return { select, getRelations, exists, insert, update, link, unlink, remove, removeRelationsWithoutPlayers };
+};
+
+export const buildSQLiteMutation: PipelineOperation = async (req) => {
+	const { bqlRequest, schema } = req;
+	if (!bqlRequest) {
+		throw new Error('BQL request not parsed');
+	}
+	const { mutation } = bqlRequest;
+	if (!mutation) {
+		throw new Error('BQL request is not a mutation');
+	}
+	req.sqliteRequest = { mutation: getMutationOperations(schema, mutation) };
+};
+
+/// The operations run like the ones of the memory adapter, in a savepoint that is rolled back if any of them fails
+export const runSQLiteMutation: PipelineOperation = async (req, res) => {
+	const { schema, bqlRequest, sqliteRequest, dbHandles, dbConnector } = req;
+	if (!bqlRequest?.mutation) {
+		throw new Error('BQL mutation not parsed');
+	}
+	if (!sqliteRequest?.mutation) {
+		throw new Error('SQLite mutation not built');
+	}
+	const { matches, deletions, insertions } = sqliteRequest.mutation;
+	if (!bqlRequest.mutation.things.length && !bqlRequest.mutation.edges.length) {
+		throw new Error('SQLite mutation without things');
+	}
+	const { db } = getSQLiteHandle(dbHandles, dbConnector.id);
+	const writer = getWriter(db, schema);
+
+	let bindings = new Map<string, string[]>(); // the $dbIds of each $bzId
+	const getBound = (bzId: string) => bindings.get(bzId) || [];
+	let written = deletions.length > 0;
+
+	const insertRelation = (relation: string, data: Record<string, unknown>, roles: OperationRoles) =>
+		getPlayerCombinations(bindings, roles).map((combination) => {
+			const dbId = writer.insert(relation, data);
+			Object.entries(getPlayers(roles, combination)).forEach(([role, dbIds]) => writer.link(dbId, role, dbIds));
+			return dbId;
+		});
+
+	db.exec('SAVEPOINT borm_mutation');
+	try {
+		matches.forEach((op) => {
+			if (op.type === 'match') {
+				bindings.set(op.bzId, writer.select(op.thing, op.ids));
+			}
+		});
+		matchRelations(
+			bindings,
+			matches.flatMap((op) => (op.type === 'matchRelation' ? [op] : [])),
+			writer.getRelations,
+		);
+		/// the relations being deleted only narrow the matches of the deletions, as in typeQL they are not in the insertion match
+		const matchedBindings = new Map(bindings);
+		matchRelations(
+			bindings,
+			deletions.flatMap((op) => (op.type === 'deleteRelation' ? [op] : [])),
+			writer.getRelations,
+		);
+
+		deletions.forEach((op) => {
+			switch (op.type) {
+				case 'deleteRelation':
+				case 'delete':
+					getBound(op.bzId).forEach((dbId) => writer.remove(dbId));
+					break;
+				case 'unlink':
+					getBound(op.bzId).forEach((dbId) =>
+						Object.entries(op.roles).forEach(([role, bzIds]) => {
+							const unlinked = bzIds.flatMap(getBound);
+							if (unlinked.length) {
+								writer.unlink(dbId, role, unlinked);
+							}
+						}),
+					);
+					break;
+				case 'unset':
+					getBound(op.bzId).forEach((dbId) =>
+						writer.update(dbId, Object.fromEntries(op.fields.map((field) => [field, null]))),
+					);
+					break;
+				default:
+					break;
+			}
+		});
+
+		/// the insertions only see the things that are left
+		bindings = new Map([...matchedBindings].map(([bzId, dbIds]) => [bzId, dbIds.filter(writer.exists)]));
+
+		insertions.forEach((op) => {
+			switch (op.type) {
+				case 'create':
+					bindings.set(op.bzId, [writer.insert(op.thing, op.data)]);
+					written = true;
+					break;
+				case 'createRelation':
+					bindings.set(op.bzId, insertRelation(op.relation, op.data, op.roles));
+					written = true;
+					break;
+				case 'link':
+					if (!bindings.has(op.bzId)) {
+						bindings.set(op.bzId, insertRelation(op.relation, {}, op.roles));
+						written = true;
+						break;
+					}
+					getBound(op.bzId).forEach((dbId) =>
+						getPlayerCombinations(bindings, op.roles).forEach((combination) => {
+							Object.entries(getPlayers(op.roles, combination)).forEach(([role, dbIds]) =>
+								writer.link(dbId, role, unique(dbIds)),
+							);
+							written = true;
+						}),
+					);
+					break;
+				case 'set':
+					getBound(op.bzId).forEach((dbId) => {
+						writer.update(dbId, op.data);
+						written = true;
+					});
+					break;
+				default:
+					break;
+			}
+		});
+
+		writer.removeRelationsWithoutPlayers();
+		db.exec('RELEASE borm_mutation');
+	} catch (e) {
+		db.exec('ROLLBACK TO borm_mutation');
+		db.exec('RELEASE borm_mutation');
+		throw getDriverError(e);
+	}
+
+	res.rawSQLiteRes = {
+		dbIds: Object.fromEntries(
+			[...bindings].filter(([, dbIds]) => dbIds.length).map(([bzId, [dbId]]) => [bzId, dbId] as const),
+		),
+		written,
+	};
+};
+
+export const parseSQLiteMutationRes: PipelineOperation = async (req, res) => {
+	const { bqlRequest, config } = req;
+	const { rawSQLiteRes } = res;
+	if (!bqlRequest?.mutation) {
+		throw new Error('BQL mutation not parsed');
+	}
+	if (!rawSQLiteRes?.dbIds) {
+		throw new Error('SQLite mutation not executed');
+	}
+	const { mutation } = bqlRequest;
+	/// upserts are reported even when they only matched things
+	if (!rawSQLiteRes.written && !mutation.things.some((thing) => thing.$upsert)) {
+		res.bqlRes = {}; // as typeDB ones, mutations that write nothing return an empty object
+		return;
+	}
+	res.bqlRes = getMutationRes(mutation, config, (bzId) => rawSQLiteRes.dbIds?.[bzId]);
+};
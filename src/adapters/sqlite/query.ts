@@ -0,0 +1,374 @@
+import type { Database } from 'better-sqlite3';
+
+import { BormSchemaError, BormValidationError } from '../../errors';
+import { getContentTypeStorage, getCurrentFields, getLinkedThingSchema } from '../../helpers';
+import type { PipelineOperation } from '../../pipeline/pipeline';
+import { getAggregateRes } from '../../pipeline/postprocess/parseTQLAggregateRes';
+import type {
+	AuthContext,
+	BQLAggregate,
+	BQLFieldObj,
+	EnrichedBormEntity,
+	EnrichedBormRelation,
+	EnrichedBormSchema,
+	EnrichedDataField,
+	MemoryAnswer,
+	ParsedBQLQuery,
+	RawBQLQuery,
+	SQLiteQuery,
+} from '../../types';
+import { getThingSchema } from '../memory/helpers';
+import { toFetchedThing } from '../memory/query';
+import {
+	and,
+	compileIdFilters,
+	compileLocalFilters,
+	compileNestedFilters,
+	compilePermissions,
+	createSQLiteContext,
+	fromColumnValue,
+	fromColumns,
+	getColumns,
+	getLinkedDbIdsSql,
+	getSQLiteHandle,
+	quote,
+} from './helpers';
+
+type ThingSchema = EnrichedBormEntity | EnrichedBormRelation;
+type FetchNode = Omit<BQLFieldObj, '$path'>;
+type SQLiteContext = ReturnType<typeof createSQLiteContext>;
+type SelectedThing = { _dbId: string; _thing: string };
+
+/// what a selection matches, besides the things linked to its parent
+type Selection = {
+	ids?: string | string[];
+	localFilters?: Record<string, any>;
+	nestedFilters?: Record<string, any>;
+	context?: AuthContext;
+	sort?: { field: string; desc?: boolean }[];
+	offset?: number;
+	limit?: number;
+};
+
+/// the first value of MANY dataFields, which are stored as a JSON array
+const getValueSql = (dataField: EnrichedDataField, alias: string) => {
+	const [column] = getColumns(dataField);
+	return dataField.cardinality === 'MANY'
+		? `json_extract(${alias}.${quote(column)}, '$[0]')`
+		: `${alias}.${quote(column)}`;
+};
+
+/// Selects the matched things of a thingSchema. The root only matches things of its type, nested ones also the extended ones
+const getSelectSql = (
+	ctx: SQLiteContext,
+	schema: EnrichedBormSchema,
+	thingSchema: ThingSchema,
+	selection: Selection,
+	parent?: { schema: ThingSchema; path: string },
+) => {
+	const alias = ctx.alias();
+	const idDataFields = (thingSchema.idFields || []).map(
+		(idField) => thingSchema.dataFields?.find((df) => df.path === idField),
+	);
+	if (!idDataFields.length || idDataFields.some((df) => !df)) {
+		throw new BormSchemaError(`No idField defined for ${thingSchema.name}`, { code: 'INVALID_SCHEMA' });
+	}
+	const idSqls = (idDataFields as EnrichedDataField[]).map((df) => getValueSql(df, alias));
+	const sortDataFields = (selection.sort || []).map((sort) => {
+		const dataField = thingSchema.dataFields?.find((df) => df.path === sort.field);
+		if (!dataField) {
+			throw new BormValidationError(`Can't sort by '${sort.field}', it is not a dataField of ${thingSchema.name}`, {
+				code: 'UNKNOWN_FIELD',
+				path: '$sort',
+			});
+		}
+		if (getContentTypeStorage(dataField).parts) {
+			throw new BormValidationError(`Can't sort by '${sort.field}', which is of type ${dataField.contentType}`, {
+				code: 'INVALID_REQUEST',
+				path: '$sort',
+			});
+		}
+		return { dataField, desc: sort.desc };
+	});
+	const ids = selection.ids === undefined ? undefined : [selection.ids].flat();
+
+	const conditions = [
+		parent
+			? `${alias}."_dbId" IN (${getLinkedDbIdsSql(ctx, parent.schema, parent.path, '@parent')})`
+			: `${alias}."_thing" = ${ctx.param(thingSchema.name)}`,
+		...idSqls.map((idSql) => `${idSql} IS NOT NULL`),
+		...(ids && idSqls.length === 1 ? [`${idSqls[0]} IN (${ids.map((id) => ctx.param(id)).join(', ')})`] : []),
+		...(ids && idSqls.length > 1 ? compileIdFilters(ctx, thingSchema, alias, ids) : []),
+		...compileLocalFilters(ctx, thingSchema, alias, selection.localFilters),
+		...compileNestedFilters(ctx, schema, thingSchema, alias, selection.nestedFilters, selection.context),
+		...compilePermissions(ctx, schema, thingSchema, alias, selection.context),
+	];
+	/// things are returned in the order they were inserted, unless they are sorted. Things without the value go last
+	const order = [
+		...sortDataFields.flatMap(({ dataField, desc }) => [
+			`${getValueSql(dataField, alias)} IS NULL`,
+			`${getValueSql(dataField, alias)} ${desc ? 'DESC' : 'ASC'}`,
+		]),
+		`${alias}.rowid`,
+	];
+	const pagination =
+		selection.limit !== undefined || selection.offset !== undefined
+			? ` LIMIT ${ctx.param(selection.limit ?? -1)} OFFSET ${ctx.param(selection.offset ?? 0)}`
+			: '';
+	return `SELECT ${alias}."_dbId", ${alias}."_thing" FROM ${quote(thingSchema.name)} ${alias} WHERE ${and(
+		conditions,
+	)} ORDER BY ${order.join(', ')}${pagination}`;
+};
+
+const getSelection = (node: FetchNode, context: AuthContext | undefined, linkedSchema: ThingSchema): Selection => {
+	// * same split as the root one in parseBQLQuery
+	const { localFilters, nestedFilters } = node.$filter
+		? getCurrentFields(linkedSchema, { $filter: node.$filter } as RawBQLQuery)
+		: { localFilters: undefined, nestedFilters: undefined };
+	return {
+		ids: node.$id,
+		localFilters,
+		nestedFilters,
+		context,
+		...(node.$count ? {} : { sort: node.$sort, offset: node.$offset, limit: node.$limit }),
+	};
+};
+
+/// As in the typeQL fetch, link and role fields that are not expanded only return the ids of the linked things
+const getLinks = (
+	schema: EnrichedBormSchema,
+	thingSchema: ThingSchema,
+	node: FetchNode,
+	context: AuthContext | undefined,
+): SQLiteQuery['links'] => {
+	const { linkFields, roleFields } = getCurrentFields(thingSchema);
+	const linkAndRoleFields = [...linkFields, ...roleFields];
+	const queriedFields = node.$fields || linkAndRoleFields;
+
+	return queriedFields.flatMap((field) => {
+		const path = typeof field === 'string' ? field : field.$path;
+		if (!linkAndRoleFields.includes(path) || node.$excludedFields?.includes(path)) {
+			return [];
+		}
+		const linkedSchema = getLinkedThingSchema(schema, thingSchema, path);
+		if (!linkedSchema) {
+			throw new BormValidationError(`Field ${path} not found in ${thingSchema.name}`, {
+				code: 'UNKNOWN_FIELD',
+				path: '$fields',
+			});
+		}
+		const ctx = createSQLiteContext();
+		const parent = { schema: thingSchema, path };
+
+		if (typeof field === 'string') {
+			const sql = getSelectSql(ctx, schema, linkedSchema, { context }, parent);
+			return [{ path, query: { select: { sql, params: ctx.params }, idsOnly: true, links: [] } }];
+		}
+		const sql = getSelectSql(ctx, schema, linkedSchema, getSelection(field, context, linkedSchema), parent);
+		const query: SQLiteQuery = {
+			select: { sql, params: ctx.params },
+			...(field.$count ? { count: true } : {}),
+			links: field.$count ? [] : getLinks(schema, linkedSchema, field, context),
+		};
+		return [{ path, query }];
+	});
+};
+
+const getRootSelection = (query: ParsedBQLQuery, context: AuthContext | undefined): Selection => ({
+	ids: query.$id,
+	localFilters: query.$localFilters,
+	nestedFilters: query.$nestedFilters,
+	context,
+});
+
+const selectThings = (db: Database, query: SQLiteQuery, parentDbId?: string) => {
+	const { sql, params } = query.select;
+	return [
+		...db.prepare(sql).all(parentDbId === undefined ? params : { ...params, parent: parentDbId }),
+	] as SelectedThing[];
+};
+
+/// every row is read from the table of its own type, which has the dataFields of the type and the ones it extends
+const getAnswers = (
+	db: Database,
+	schema: EnrichedBormSchema,
+	query: SQLiteQuery,
+	parentDbId?: string,
+): MemoryAnswer[] =>
+	selectThings(db, query, parentDbId).map(({ _dbId, _thing }) => {
+		const row = db.prepare(`SELECT * FROM ${quote(_thing)} WHERE "_dbId" = ?`).get(_dbId) as Record<string, unknown>;
+		return {
+			thing: { $dbId: _dbId, $thing: _thing, data: fromColumns(getThingSchema(schema, _thing), row), roles: {} },
+			...(query.idsOnly ? { idsOnly: true } : {}),
+			links: Object.fromEntries(
+				query.links.map(({ path, query: linkedQuery }) => [
+					path,
+					linkedQuery.count ? selectThings(db, linkedQuery, _dbId).length : getAnswers(db, schema, linkedQuery, _dbId),
+				]),
+			),
+		};
+	});
+
+const getQueriedSchema = (query: ParsedBQLQuery) => ('$entity' in query ? query.$entity : query.$relation);
+
+export const buildSQLiteQuery: PipelineOperation = async (req) => {
+	const { schema, bqlRequest, config } = req;
+	if (!bqlRequest?.query) {
+		throw new Error('BQL query not parsed');
+	}
+	const { query } = bqlRequest;
+	const { context } = config.query || {};
+	const thingSchema = getQueriedSchema(query);
+	const ctx = createSQLiteContext();
+	const sql = getSelectSql(ctx, schema, thingSchema, {
+		...getRootSelection(query, context),
+		sort: query.$sort,
+		offset: query.$offset,
+		limit: query.$limit,
+	});
+
+	req.sqliteRequest = {
+		query: { select: { sql, params: ctx.params }, links: getLinks(schema, thingSchema, query, context) },
+	};
+};
+
+export const runSQLiteQuery: PipelineOperation = async (req, res) => {
+	const { schema, bqlRequest, sqliteRequest, dbHandles, dbConnector } = req;
+	if (!bqlRequest?.query) {
+		throw new Error('BQL query not parsed');
+	}
+	if (!sqliteRequest?.query) {
+		throw new Error('SQLite request not built');
+	}
+	const { db } = getSQLiteHandle(dbHandles, dbConnector.id);
+
+	res.rawSQLiteRes = { answers: getAnswers(db, schema, sqliteRequest.query) };
+};
+
+export const parseSQLiteRes: PipelineOperation = async (req, res) => {
+	const { schema } = req;
+	const { rawSQLiteRes } = res;
+	if (!rawSQLiteRes?.answers) {
+		throw new Error('SQLite query not executed');
+	}
+	res.things = rawSQLiteRes.answers.map((answer) => toFetchedThing(schema, answer));
+};
+
+const aggregateFunctions: Record<keyof BQLAggregate, string> = {
+	count: 'COUNT',
+	sum: 'SUM',
+	avg: 'AVG',
+	min: 'MIN',
+	max: 'MAX',
+};
+
+/// The values of a dataField of the matched things, one row per value of MANY dataFields
+const getValuesSql = (dataField: EnrichedDataField, alias: string) => {
+	const [column] = getColumns(dataField);
+	if (getContentTypeStorage(dataField).parts) {
+		throw new BormValidationError(
+			`'${dataField.path}' is of type ${dataField.contentType}, which is stored in several attributes`,
+			{ code: 'INVALID_REQUEST', path: '$aggregate' },
+		);
+	}
+	const valuesAlias = `${alias}_values`;
+	return dataField.cardinality === 'MANY'
+		? { join: ` JOIN json_each(${alias}.${quote(column)}) ${valuesAlias}`, value: `${valuesAlias}.value` }
+		: { join: '', value: `${alias}.${quote(column)}` };
+};
+
+export const buildSQLiteAggregate: PipelineOperation = async (req) => {
+	const { schema, bqlRequest, config } = req;
+	if (!bqlRequest?.query) {
+		throw new Error('BQL query not parsed');
+	}
+	const { query } = bqlRequest;
+	if (!query.$aggregate) {
+		throw new Error('BQL query has no $aggregate');
+	}
+	const thingSchema = getQueriedSchema(query);
+	const getDataField = (path: unknown) => {
+		const dataField = thingSchema.dataFields?.find((df) => df.path === path);
+		if (!dataField) {
+			throw new BormValidationError(`'${path}' is not a dataField of ${thingSchema.name}`, {
+				code: 'UNKNOWN_FIELD',
+				path: '$aggregate',
+			});
+		}
+		return dataField;
+	};
+	const groupDataField = query.$groupBy ? getDataField(query.$groupBy) : undefined;
+
+	const aggregateEntries = Object.entries(query.$aggregate) as [keyof BQLAggregate, BQLAggregate[keyof BQLAggregate]][];
+	const aggregates = aggregateEntries
+		.filter(([, value]) => value)
+		.map(([name, value]) => {
+			const ctx = createSQLiteContext();
+			/// as in typeQL, aggregates are not sorted nor paginated
+			const matched = getSelectSql(ctx, schema, thingSchema, getRootSelection(query, config.query?.context));
+			const path = name === 'count' ? undefined : getDataField(value).path;
+			const values = path ? getValuesSql(getDataField(path), 't') : undefined;
+			const group = groupDataField ? getValuesSql(groupDataField, 'g') : undefined;
+			const aggregated = values
+				? `${name === 'sum' ? `COALESCE(SUM(${values.value}), 0)` : `${aggregateFunctions[name]}(${values.value})`}`
+				: 'COUNT(DISTINCT m."_dbId")';
+			const joins = [
+				` JOIN ${quote(thingSchema.name)} t ON t."_dbId" = m."_dbId"${values?.join || ''}`,
+				...(group ? [` JOIN ${quote(thingSchema.name)} g ON g."_dbId" = m."_dbId"${group.join}`] : []),
+			].join('');
+			const sql = group
+				? /// each value of the groupBy field is a group, and as in typeQL groups without values are not aggregated
+				  `WITH m AS (${matched}) SELECT ${group.value} AS owner, ${aggregated} AS value FROM m${joins} WHERE ${
+						group.value
+				  } IS NOT NULL GROUP BY ${group.value}${values ? ` HAVING COUNT(${values.value}) > 0` : ''}`
+				: `WITH m AS (${matched}) SELECT ${aggregated} AS value FROM m${joins}`;
+			return { name, ...(path ? { path } : {}), select: { sql, params: ctx.params } };
+		});
+
+	req.sqliteRequest = { aggregates, ...(groupDataField ? { groupBy: groupDataField.path } : {}) };
+};
+
+export const runSQLiteAggregate: PipelineOperation = async (req, res) => {
+	const { bqlRequest, sqliteRequest, dbHandles, dbConnector } = req;
+	if (!bqlRequest?.query) {
+		throw new Error('BQL query not parsed');
+	}
+	if (!sqliteRequest?.aggregates) {
+		throw new Error('SQLite aggregate request not built');
+	}
+	const { aggregates, groupBy } = sqliteRequest;
+	const thingSchema = getQueriedSchema(bqlRequest.query);
+	const { db } = getSQLiteHandle(dbHandles, dbConnector.id);
+	const getDataField = (path: string) => thingSchema.dataFields?.find((df) => df.path === path) as EnrichedDataField;
+	/// min, max and the groups are values of the dataFields, so they are returned as the dataField ones
+	const toValue = (name: keyof BQLAggregate, path: string | undefined, value: unknown) =>
+		path && (name === 'min' || name === 'max') && value !== null
+			? fromColumnValue(value, getDataField(path))
+			: value ?? undefined;
+	const toOwner = (owner: unknown) => fromColumnValue(owner, getDataField(groupBy as string));
+
+	res.rawSQLiteRes = {
+		aggregates: aggregates.map(({ name, path, select }) => {
+			const rows = [...db.prepare(select.sql).all(select.params)] as { owner?: unknown; value: unknown }[];
+			if (!groupBy) {
+				return { name, value: toValue(name, path, rows[0]?.value) };
+			}
+			return {
+				name,
+				groups: rows.map((row) => ({ owner: toOwner(row.owner), value: toValue(name, path, row.value) })),
+			};
+		}),
+	};
+};
+
+export const parseSQLiteAggregateRes: PipelineOperation = async (req, res) => {
+	const { bqlRequest } = req;
+	const { rawSQLiteRes } = res;
+	if (!bqlRequest?.query) {
+		throw new Error('BQL request not parsed');
+	}
+	if (!rawSQLiteRes?.aggregates) {
+		throw new Error('SQLite aggregate query not executed');
+	}
+	res.bqlRes = getAggregateRes(bqlRequest.query, rawSQLiteRes.aggregates);
+};
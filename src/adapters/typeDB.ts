@@ -0,0 +1,16 @@
+import { parseTQLAggregateRes, parseTQLRes } from '../pipeline/postprocess';
+import { buildTQLAggregateQuery, buildTQLFetchQuery } from '../pipeline/preprocess';
+import { buildTQLMutation } from '../pipeline/preprocess/buildTQLMutation';
+import { runTQLAggregateQuery, runTQLQuery } from '../pipeline/transaction';
+import { runInWriteTransaction } from '../pipeline/transaction/helpers';
+import { runTQLMutation } from '../pipeline/transaction/runTQLMutation';
+import type { BormAdapter } from '.';
+
+/// TypeDB and TypeDB cluster share the TypeQL requests, only their drivers are different
+export const typeDBAdapter: BormAdapter = {
+	name: 'TQL',
+	query: { build: buildTQLFetchQuery, run: runTQLQuery, parse: parseTQLRes },
+	aggregate: { build: buildTQLAggregateQuery, run: runTQLAggregateQuery, parse: parseTQLAggregateRes },
+	mutation: { build: buildTQLMutation, run: runTQLMutation, parse: parseTQLRes },
+	writeTransaction: runInWriteTransaction,
+};
@@ -5,11 +5,14 @@ export const defaultConfig: Partial<BormConfig> = {
 		noMetadata: false,
 		simplifiedLinks: true,
 		debugger: false,
+		dryRun: false,
 		returnNulls: false,
 	},
 
 	mutation: {
 		noMetadata: false,
 		preQuery: false,
+		structuredResult: false,
+		dryRun: false,
 	},
 };
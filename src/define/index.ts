@@ -1,251 +1,151 @@
+import type { Database } from 'better-sqlite3';
 import { SessionType, TransactionType } from 'typedb-driver';
 
-import type { BormConfig, BormSchema, LinkField } from '../types';
-
-type Attribute = {
-	dbPath: string;
-	contentType: string;
+import { getSQLiteHandle, quote } from '../adapters/sqlite/helpers';
+import { BormSchemaError } from '../errors';
+import type { BormConfig, DefineConfig, DefinePlan, EnrichedBormSchema, SchemaChange } from '../types';
+import { getCurrentTypeQLSchema, getSchemaChanges, getSchemaChangesTql } from './migrations';
+import {
+	getCurrentSQLiteSchema,
+	getSQLiteChangesSql,
+	getSQLiteSchema,
+	getSQLiteSchemaChanges,
+	getSQLiteSchemaStatements,
+} from './sqliteSchema';
+import { getTypeQLSchema, getTypeQLSchemaStatements } from './typeQLSchema';
+
+const assertAllowedChanges = (changes: SchemaChange[], defineConfig: DefineConfig) => {
+	const destructiveChanges = changes.filter((change) => change.destructive);
+	if (destructiveChanges.length && !defineConfig.allowDestructive) {
+		throw new BormSchemaError(
+			`Destructive schema changes are not allowed, use allowDestructive to apply them: ${destructiveChanges
+				.map((change) => `${change.action} ${change.statement}`)
+				.join('; ')}`,
+			{ code: 'INVALID_SCHEMA' },
+		);
+	}
 };
 
-const removeDuplicateObjects = (arr: Attribute[]) => {
-	const uniqueObjects: Attribute[] = [];
-
-	const uniqueMap = new Map();
-
-	arr.forEach((obj) => {
-		const { dbPath, contentType } = obj;
-		const key = `${dbPath}-${contentType}`;
-
-		if (!uniqueMap.has(key)) {
-			uniqueMap.set(key, true);
-			uniqueObjects.push(obj);
+/// sqlite changes its tables in a transaction, so a migration is applied completely or not at all
+const defineSQLite = (db: Database, schema: EnrichedBormSchema, defineConfig: DefineConfig): DefinePlan => {
+	const desiredSchema = getSQLiteSchema(schema);
+
+	if (defineConfig.reset) {
+		const changes = getSQLiteSchemaStatements(desiredSchema).map((statement) => ({
+			action: 'define' as const,
+			statement,
+			destructive: false,
+		}));
+		const plan = { changes, ...getSQLiteChangesSql(changes), applied: false };
+		if (defineConfig.dryRun) {
+			return plan;
 		}
-	});
+		const currentTables = [...getCurrentSQLiteSchema(db).tables.keys()];
+		db.transaction(() => {
+			currentTables.forEach((table) => db.exec(`DROP TABLE ${quote(table)}`));
+			db.exec(plan.define as string);
+		})();
+		return { ...plan, applied: true };
+	}
 
-	return uniqueObjects;
+	const changes = getSQLiteSchemaChanges(getCurrentSQLiteSchema(db), desiredSchema);
+	const plan = { changes, ...getSQLiteChangesSql(changes), applied: false };
+	if (defineConfig.dryRun || changes.length === 0) {
+		return plan;
+	}
+	assertAllowedChanges(changes, defineConfig);
+	db.transaction(() => {
+		if (plan.undefine) {
+			db.exec(plan.undefine);
+		}
+		if (plan.define) {
+			db.exec(plan.define);
+		}
+	})();
+	return { ...plan, applied: true };
 };
 
-export const bormDefine = async (config: BormConfig, schema: BormSchema, dbHandles: any) => {
-	const convertSchema = () => {
-		let output = '';
-		const usedAttributes: Attribute[] = [];
-
-		output += '\n';
-
-		// CONVERTING ENTITIES
-
-		Object.keys(schema.entities).forEach((entityName) => {
-			const entity = schema.entities[entityName];
-			// @ts-expect-error - TODO description
-			const { idFields, dataFields, linkFields, name } = entity;
-			// Checks to see if parent already contains these fields
-			const commonDataFields: string[] = [];
-			const commonLinkFields: string[] = [];
-			const commonIdFields: string[] = [];
-
-			// If extended by parent, get rid of parent's declared attributes
-			if (entity.extends) {
-				const parentEntity = schema.entities[entity.extends];
-				if (parentEntity.dataFields) {
-					parentEntity.dataFields.forEach((dataField: any) => {
-						commonDataFields.push(dataField.dbPath);
-					});
-				}
-				if (parentEntity.linkFields) {
-					parentEntity.linkFields.forEach((linkField: LinkField) => {
-						commonLinkFields.push(linkField.path);
-					});
-				}
-
-				if (parentEntity.idFields) {
-					parentEntity.idFields.forEach((idField: any) => {
-						commonIdFields.push(idField);
-					});
-				}
-			}
-
-			output += `${name} sub ${entity.extends ? entity.extends : 'entity'},\n`;
-			// Removes ids from data fields, so their attributes aren't repeated
-			const idsAsData: string[] = [];
-			// Adding id fields
-			if (idFields && idFields.length > 0) {
-				const setIds = new Set(idFields);
-				const newIdFields = Array.from(setIds);
-				const idFieldsString = newIdFields.map((field: string) => `${field}`).join(', ');
-				if (!commonIdFields.includes(idFieldsString)) {
-					output += `    owns ${idFieldsString} @key,\n`;
-					idsAsData.push(idFieldsString);
-				}
-			}
-			// Adding data fields
-			if (dataFields && dataFields.length > 0) {
-				dataFields.forEach((field: any) => {
-					if (!commonDataFields.includes(field.dbPath) && !idsAsData.includes(field.dbPath)) {
-						output += `    owns ${field.dbPath},\n`;
-					}
-					usedAttributes.push({ dbPath: field.dbPath, contentType: field.contentType });
-				});
-			}
-			// Adding link fields
-			if (linkFields && linkFields.length > 0) {
-				const usedLinkFields: string[] = [];
-				linkFields.forEach((linkField) => {
-					const { relation, plays } = linkField;
-					if (!commonLinkFields.includes(linkField.path) && !usedLinkFields.includes(`${relation}:${plays}`)) {
-						output += `    plays ${relation}:${plays},\n`;
-						usedLinkFields.push(`${relation}:${plays}`);
-					}
-				});
-			}
-			output = output.replace(/,\s*$/, ';\n');
-			output += '\n';
-		});
-
-		// CONVERTING RELATIONS
-		Object.keys(schema.relations).forEach((relationName) => {
-			const relation = schema.relations[relationName];
-			// TODO: fix name ts error
-			// @ts-expect-error - TODO description
-			const { idFields, dataFields, roles, name, linkFields } = relation;
-			// Checks to see if parent already contains these fields
-			const commonDataFields: string[] = [];
-			const commonLinkFields: string[] = [];
-			const commonRoleFields: string[] = [];
-			const commonIdFields: string[] = [];
-
-			// If extended by parent, get rid of parent's declared attributes
-			if (relation.extends) {
-				const parentRelation = schema.relations[relation.extends];
-				if (parentRelation.dataFields) {
-					parentRelation.dataFields.forEach((dataField: any) => {
-						commonDataFields.push(dataField.dbPath);
-					});
-				}
-				if (parentRelation.linkFields) {
-					parentRelation.linkFields.forEach((linkField: any) => {
-						commonLinkFields.push(linkField.dbPath);
-					});
-				}
-				if (parentRelation.roles) {
-					const roleFields = Object.values(parentRelation.roles);
-					roleFields.forEach((roleField: any) => {
-						commonRoleFields.push(roleField.name);
-					});
-				}
-				if (parentRelation.idFields) {
-					parentRelation.idFields.forEach((idField: any) => {
-						commonIdFields.push(idField);
-					});
-				}
-			}
-
-			output += `${name} sub ${relation.extends ? relation.extends : 'relation'},\n`;
-			// Removes ids from data fields, so their attributes aren't repeated
-			const idsAsData: string[] = [];
-			// Adding id fields
-			if (idFields && idFields.length > 0) {
-				const setIds = new Set(idFields);
-				const newIdFields = Array.from(setIds);
-				const idFieldsString = newIdFields.map((field: string) => `${field}`).join(', ');
-				if (!commonIdFields.includes(idFieldsString)) {
-					output += `    owns ${idFieldsString} @key,\n`;
-					idsAsData.push(idFieldsString);
-				}
-			}
-			// Adding data fields
-			if (dataFields && dataFields.length > 0) {
-				dataFields.forEach((field: any) => {
-					if (!commonDataFields.includes(field.dbPath) && !idsAsData.includes(field.dbPath)) {
-						output += `    owns ${field.dbPath},\n`;
-					}
-					usedAttributes.push({ dbPath: field.dbPath, contentType: field.contentType });
-				});
-			}
-			// Adding role fields
-			if (roles) {
-				Object.keys(roles).forEach((roleName) => {
-					if (!commonRoleFields.includes(roleName)) {
-						output += `    relates ${roleName},\n`;
-					}
-				});
-			}
-			// Adding link fields
-			if (linkFields && linkFields.length > 0) {
-				const usedLinkFields: string[] = [];
-				linkFields.forEach((linkField) => {
-					const { plays } = linkField;
-					if (!commonLinkFields.includes(linkField.path) && !usedLinkFields.includes(`${relation}:${plays}`)) {
-						output += `    plays ${linkField.relation}:${plays},\n`;
-						usedLinkFields.push(`${relation}:${plays}`);
-					}
-				});
-			}
-			output = output.replace(/,\s*$/, ';\n');
-			output += '\n';
-		});
-
-		// DEFINING ATTRIBUTES
-
-		let attributes = 'define\n\n';
-		const newUsedAttributes = removeDuplicateObjects(usedAttributes);
-
-		newUsedAttributes.forEach((attribute: Attribute) => {
-			attributes += `${attribute.dbPath} sub attribute,\n`;
-			// All conditions for BORM to TQL attribute types
-			if (attribute.contentType === 'TEXT' || attribute.contentType === 'ID') {
-				attributes += '    value string;\n';
-			} else if (attribute.contentType === 'EMAIL') {
-				attributes += '    value string,\n';
-				attributes +=
-					"    regex '^(?=.{1,64}@)[A-Za-z0-9_-]+(\\.[A-Za-z0-9_-]+)*@[^-][A-Za-z0-9-]+(\\.[A-Za-z0-9-]+)*(\\.[A-Za-z]{2,})$';\n";
-			} else if (attribute.contentType === 'DATE') {
-				attributes += '    value datetime;\n';
-			} else if (attribute.contentType === 'BOOLEAN') {
-				attributes += '    value boolean;\n';
-			} else if (attribute.contentType === 'NUMBER') {
-				attributes += '    value long;\n';
-			}
-		});
-
-		return `${attributes}\n\n${output}`;
-	};
+/// By default the schema is migrated: only what is missing in the db is defined. Destructive changes must be allowed
+export const bormDefine = async (
+	config: BormConfig,
+	schema: EnrichedBormSchema,
+	dbHandles: any,
+	defineConfig: DefineConfig = {},
+): Promise<DefinePlan> => {
+	/// memory stores have no schema to migrate, and resetting them only deletes their data
+	if (config.dbConnectors[0].provider === 'memory') {
+		const plan = { changes: [], applied: false };
+		if (!defineConfig.reset || defineConfig.dryRun) {
+			return plan;
+		}
+		dbHandles.memory.set(config.dbConnectors[0].id, { store: new Map() });
+		return { ...plan, applied: true };
+	}
+	if (config.dbConnectors[0].provider === 'sqlite') {
+		return defineSQLite(getSQLiteHandle(dbHandles, config.dbConnectors[0].id).db, schema, defineConfig);
+	}
 
-	// TYPE DB TRANSACTIONS
+	const desiredSchema = getTypeQLSchema(schema);
 
-	const typeDBString = convertSchema();
 	const singleHandlerV0 = config.dbConnectors[0].id;
 	const session = dbHandles.typeDB.get(singleHandlerV0)?.session;
 	const client = dbHandles.typeDB.get(singleHandlerV0)?.client;
 	if (!session) {
-		console.log('Session Status: ', 'NO SESSION');
-		return;
+		throw new Error('No session to define the schema');
 	}
-
-	session.close();
 	const [{ dbName }] = config.dbConnectors;
-	const db = await client.databases.get(dbName);
-	await db.delete();
-	await client.databases.create(dbName);
 
-	const schemaSession = await client.session(config.dbConnectors[0].dbName, SessionType.SCHEMA);
+	if (defineConfig.reset) {
+		const changes = getTypeQLSchemaStatements(desiredSchema).map((statement) => ({
+			action: 'define' as const,
+			statement,
+			destructive: false,
+		}));
+		const plan = { changes, ...getSchemaChangesTql(changes), applied: false };
+		if (defineConfig.dryRun) {
+			return plan;
+		}
+		session.close();
+		const db = await client.databases.get(dbName);
+		await db.delete();
+		await client.databases.create(dbName);
+
+		const schemaSession = await client.session(dbName, SessionType.SCHEMA);
+		const schemaTransaction = await schemaSession.transaction(TransactionType.WRITE);
+		await schemaTransaction.query.define(plan.define);
+		await schemaTransaction.commit();
+		await schemaTransaction.close();
+		await schemaSession.close();
+		/// the data session was closed with the deleted db
+		dbHandles.typeDB.set(singleHandlerV0, { client, session: await client.session(dbName, SessionType.DATA) });
+		return { ...plan, applied: true };
+	}
+
+	const schemaSession = await client.session(dbName, SessionType.SCHEMA);
+	try {
+		const readTransaction = await schemaSession.transaction(TransactionType.READ);
+		const currentSchema = await getCurrentTypeQLSchema(readTransaction);
+		await readTransaction.close();
 
-	// 3. Defining new schema
-	const schemaTransaction = await schemaSession.transaction(TransactionType.WRITE);
+		const changes = getSchemaChanges(currentSchema, desiredSchema);
+		const plan = { changes, ...getSchemaChangesTql(changes), applied: false };
+		if (defineConfig.dryRun || changes.length === 0) {
+			return plan;
+		}
 
-	await schemaTransaction.query.define(typeDBString);
-	await schemaTransaction.commit();
-	await schemaTransaction.close();
+		assertAllowedChanges(changes, defineConfig);
 
-	const getSchemaTransaction = await schemaSession.transaction(TransactionType.READ);
-	const getSchemaQuery = 'match $a sub thing;';
-	const getSchemaStream = await getSchemaTransaction.query.match(getSchemaQuery);
-	const schemaThings = await getSchemaStream.collect();
-	schemaThings.forEach(async (conceptMap: any) => {
-		// * Match the group as the main entity
-		const thing = conceptMap.get('a');
-		const { _label } = thing;
-		const { _name } = _label;
-	});
-	await getSchemaTransaction.close();
-	// 4. Closing sessions
+		const writeTransaction = await schemaSession.transaction(TransactionType.WRITE);
+		if (plan.undefine) {
+			await writeTransaction.query.undefine(plan.undefine);
+		}
+		if (plan.define) {
+			await writeTransaction.query.define(plan.define);
+		}
+		await writeTransaction.commit();
+		await writeTransaction.close();
+		return { ...plan, applied: true };
+	} finally {
+		await schemaSession.close();
+	}
 };
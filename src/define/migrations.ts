@@ -0,0 +1,168 @@
+import type { ConceptMap, TypeDBTransaction } from 'typedb-driver';
+
+import type { SchemaChange } from '../types';
+import type { TypeQLSchema } from './typeQLSchema';
+import { attributeStatement, getEmptyTypeQLSchema, ownsStatement, regexStatement } from './typeQLSchema';
+
+const rootTypes = ['thing', 'entity', 'relation', 'attribute'];
+const tqlValueTypes = ['string', 'long', 'double', 'boolean', 'datetime'];
+
+const getLabel = (conceptMap: ConceptMap, variable: string) => conceptMap.get(variable).asType().label.name;
+
+const getScopedLabel = (conceptMap: ConceptMap, variable: string) => {
+	const { label } = conceptMap.get(variable).asType();
+	return { scope: label.scope, name: label.name };
+};
+
+/// Reads the schema of the db. Only the statements declared by each type are kept, not the inherited ones
+export const getCurrentTypeQLSchema = async (transaction: TypeDBTransaction): Promise<TypeQLSchema> => {
+	const typeQLSchema = getEmptyTypeQLSchema();
+	const get = (query: string) => transaction.query.get(query).collect();
+
+	await Promise.all(
+		tqlValueTypes.map(async (valueType) => {
+			const answers = await get(`match $a sub attribute, value ${valueType}; get;`);
+			await Promise.all(
+				answers
+					.filter((answer) => !rootTypes.includes(getLabel(answer, 'a')))
+					.map(async (answer) => {
+						/// only string attributes can have a regex
+						const regex = valueType === 'string' ? await answer.get('a').asAttributeType().getRegex(transaction) : '';
+						typeQLSchema.attributes.set(getLabel(answer, 'a'), { valueType, ...(regex ? { regex } : {}) });
+					}),
+			);
+		}),
+	);
+
+	const [types, owns, keys, uniques, plays, relates] = await Promise.all([
+		get('match $t sub! $s; { $t sub entity; } or { $t sub relation; }; get;'),
+		get('match $t owns $a; not { $t sub! $s; $s owns $a; }; get;'),
+		get('match $t owns $a @key; not { $t sub! $s; $s owns $a @key; }; get;'),
+		get('match $t owns $a @unique; not { $t sub! $s; $s owns $a @unique; }; get;'),
+		get('match $t plays $r; not { $t sub! $s; $s plays $r; }; get;'),
+		get('match $t relates $r; get;'),
+	]);
+
+	types
+		.map((answer) => [getLabel(answer, 't'), getLabel(answer, 's')])
+		.filter(([label]) => !rootTypes.includes(label))
+		.forEach(([label, supertype]) => typeQLSchema.types.set(label, supertype));
+
+	const getOwns = (answer: ConceptMap) => `${getLabel(answer, 't')} owns ${getLabel(answer, 'a')}`;
+	const keyOwns = keys.map(getOwns);
+	const uniqueOwns = uniques.map(getOwns);
+	owns.forEach((answer) => {
+		const statement = getOwns(answer);
+		const annotation = keyOwns.includes(statement) ? '@key' : uniqueOwns.includes(statement) ? '@unique' : '';
+		typeQLSchema.owns.set(statement, annotation);
+	});
+
+	plays.forEach((answer) => {
+		const role = getScopedLabel(answer, 'r');
+		typeQLSchema.plays.add(`${getLabel(answer, 't')} plays ${role.scope}:${role.name}`);
+	});
+
+	/// inherited roles keep the scope of the relation that declared them
+	relates.forEach((answer) => {
+		const relation = getLabel(answer, 't');
+		const role = getScopedLabel(answer, 'r');
+		if (role.scope === relation && !rootTypes.includes(relation)) {
+			typeQLSchema.relates.add(`${relation} relates ${role.name}`);
+		}
+	});
+
+	return typeQLSchema;
+};
+
+/// Everything missing in the db is defined. What is in the db but not in the schema, or is different, is destructive
+export const getSchemaChanges = (current: TypeQLSchema, desired: TypeQLSchema): SchemaChange[] => {
+	const define = (statement: string, destructive = false): SchemaChange => ({
+		action: 'define',
+		statement,
+		destructive,
+	});
+	const undefine = (statement: string): SchemaChange => ({ action: 'undefine', statement, destructive: true });
+
+	const attributes = [
+		...[...desired.attributes].flatMap(([label, attribute]) => {
+			const currentAttribute = current.attributes.get(label);
+			if (!currentAttribute) {
+				return [define(attributeStatement(label, attribute))];
+			}
+			/// the value type of an attribute can't be changed, it needs to be undefined first
+			if (currentAttribute.valueType !== attribute.valueType) {
+				return [undefine(`${label} sub attribute`), define(attributeStatement(label, attribute), true)];
+			}
+			/// as annotations, adding a regex can fail with the existing data and removing it changes what the db accepts
+			if (currentAttribute.regex !== attribute.regex) {
+				return [
+					...(currentAttribute.regex ? [undefine(regexStatement(label, currentAttribute.regex))] : []),
+					...(attribute.regex ? [define(attributeStatement(label, attribute), true)] : []),
+				];
+			}
+			return [];
+		}),
+		...[...current.attributes.keys()]
+			.filter((label) => !desired.attributes.has(label))
+			.map((label) => undefine(`${label} sub attribute`)),
+	];
+
+	const types = [
+		...[...desired.types].flatMap(([label, supertype]) => {
+			const currentSupertype = current.types.get(label);
+			if (!currentSupertype) {
+				return [define(`${label} sub ${supertype}`)];
+			}
+			return currentSupertype === supertype ? [] : [define(`${label} sub ${supertype}`, true)];
+		}),
+		...[...current.types]
+			.filter(([label]) => !desired.types.has(label))
+			.map(([label, supertype]) => undefine(`${label} sub ${supertype}`)),
+	];
+
+	/// adding an annotation can fail with the existing data, and removing it changes what the db accepts
+	const owns = [
+		...[...desired.owns].flatMap(([statement, annotation]) => {
+			const currentAnnotation = current.owns.get(statement);
+			if (currentAnnotation === undefined) {
+				return [define(ownsStatement(statement, annotation))];
+			}
+			if (currentAnnotation === annotation) {
+				return [];
+			}
+			return [
+				...(currentAnnotation ? [undefine(ownsStatement(statement, currentAnnotation))] : []),
+				define(ownsStatement(statement, annotation), true),
+			];
+		}),
+		...[...current.owns]
+			.filter(([statement]) => !desired.owns.has(statement))
+			.map(([statement, annotation]) => undefine(ownsStatement(statement, annotation))),
+	];
+
+	const getSetChanges = (currentSet: Set<string>, desiredSet: Set<string>) => [
+		...[...desiredSet].filter((statement) => !currentSet.has(statement)).map((statement) => define(statement)),
+		...[...currentSet].filter((statement) => !desiredSet.has(statement)).map((statement) => undefine(statement)),
+	];
+
+	return [
+		...attributes,
+		...types,
+		...getSetChanges(current.relates, desired.relates),
+		...owns,
+		...getSetChanges(current.plays, desired.plays),
+	];
+};
+
+/// undefines go from the most dependent statements (owns, plays) to the types, and defines the other way around
+export const getSchemaChangesTql = (changes: SchemaChange[]) => {
+	const defines = changes.filter((change) => change.action === 'define').map((change) => `${change.statement};`);
+	const undefines = changes
+		.filter((change) => change.action === 'undefine')
+		.map((change) => `${change.statement};`)
+		.reverse();
+	return {
+		...(undefines.length && { undefine: `undefine\n${undefines.join('\n')}` }),
+		...(defines.length && { define: `define\n${defines.join('\n')}` }),
+	};
+};
@@ -0,0 +1,192 @@
+import type { Database } from 'better-sqlite3';
+
+import { getRoleTable, getStoredDataFields, quote } from '../adapters/sqlite/helpers';
+import { getContentTypeStorage, getStorageDbPaths } from '../helpers';
+import type { EnrichedBormEntity, EnrichedBormRelation, EnrichedBormSchema, SchemaChange } from '../types';
+
+/// The tables and indexes of the db, so the ones of the BormSchema and the ones in the db can be compared
+export type SQLiteSchema = {
+	tables: Map<string, { create: string; columns: Map<string, string> }>; // table -> its statement and column types
+	indexes: Map<string, string>; // index -> its statement
+};
+
+/// columns every thing and role table has, which are created with their table
+const systemColumns = ['_dbId', '_thing', '_relation', '_player'];
+
+const columnTypes = { string: 'TEXT', long: 'INTEGER', double: 'REAL', boolean: 'INTEGER', datetime: 'INTEGER' };
+
+/// Every thing has a table with its dataFields and the ones it extends, and every role a join table
+export const getSQLiteSchema = (schema: EnrichedBormSchema): SQLiteSchema => {
+	const sqliteSchema: SQLiteSchema = { tables: new Map(), indexes: new Map() };
+
+	const addThing = (thingName: string, thing: EnrichedBormEntity | EnrichedBormRelation) => {
+		const columns = new Map(
+			getStoredDataFields(thing).flatMap((dataField) => {
+				const { valueType } = getContentTypeStorage(dataField);
+				/// the values of MANY dataFields are a JSON array
+				const type = dataField.cardinality === 'MANY' ? 'TEXT' : columnTypes[valueType];
+				return getStorageDbPaths(dataField).map((column) => [column, type] as const);
+			}),
+		);
+		const definitions = [
+			'"_dbId" TEXT PRIMARY KEY',
+			'"_thing" TEXT NOT NULL',
+			...[...columns].map(([column, type]) => `${quote(column)} ${type}`),
+		];
+		sqliteSchema.tables.set(thingName, {
+			create: `CREATE TABLE ${quote(thingName)} (${definitions.join(', ')})`,
+			columns,
+		});
+
+		/// ids and unique dataFields are unique in the table of a type, which also has the things extending it.
+		/// Composite ids are a single index over the columns of all their idFields
+		const idFields = thing.idFields || [];
+		const idColumns = idFields.flatMap((idField) => {
+			const idDataField = getStoredDataFields(thing).find((df) => df.path === idField);
+			return idDataField ? getStorageDbPaths(idDataField) : [];
+		});
+		const addUniqueIndex = (columns: string[]) => {
+			const index = `${thingName}·${columns.join('·')}·unique`;
+			sqliteSchema.indexes.set(
+				index,
+				`CREATE UNIQUE INDEX ${quote(index)} ON ${quote(thingName)} (${columns.map(quote).join(', ')})`,
+			);
+		};
+		if (idColumns.length) {
+			addUniqueIndex(idColumns);
+		}
+		getStoredDataFields(thing)
+			.filter((df) => df.validations?.unique && !idFields.includes(df.path) && df.cardinality !== 'MANY')
+			.flatMap((df) => getStorageDbPaths(df))
+			.forEach((column) => addUniqueIndex([column]));
+
+		if ('roles' in thing) {
+			Object.keys(thing.roles || {}).forEach((role) => {
+				const table = getRoleTable(thingName, role);
+				sqliteSchema.tables.set(table, {
+					create: `CREATE TABLE ${quote(
+						table,
+					)} ("_relation" TEXT NOT NULL, "_player" TEXT NOT NULL, PRIMARY KEY ("_relation", "_player"))`,
+					columns: new Map(),
+				});
+				const index = `${table}·player`;
+				sqliteSchema.indexes.set(index, `CREATE INDEX ${quote(index)} ON ${quote(table)} ("_player")`);
+			});
+		}
+	};
+
+	Object.entries(schema.entities).forEach(([entityName, entity]) => addThing(entityName, entity));
+	Object.entries(schema.relations).forEach(([relationName, relation]) => addThing(relationName, relation));
+	return sqliteSchema;
+};
+
+export const getCurrentSQLiteSchema = (db: Database): SQLiteSchema => {
+	const tables = db
+		.prepare("SELECT name, sql FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'")
+		.all() as { name: string; sql: string }[];
+	const indexes = db.prepare("SELECT name, sql FROM sqlite_master WHERE type = 'index' AND sql IS NOT NULL").all() as {
+		name: string;
+		sql: string;
+	}[];
+	return {
+		tables: new Map(
+			tables.map(({ name, sql }) => {
+				const columns = db.prepare('SELECT name, type FROM pragma_table_info(?)').all(name) as {
+					name: string;
+					type: string;
+				}[];
+				return [
+					name,
+					{
+						create: sql,
+						columns: new Map(
+							columns
+								.filter((column) => !systemColumns.includes(column.name))
+								.map((column) => [column.name, column.type]),
+						),
+					},
+				];
+			}),
+		),
+		indexes: new Map(indexes.map(({ name, sql }) => [name, sql])),
+	};
+};
+
+/// Everything missing in the db is created. What is in the db but not in the schema, or is different, is destructive
+export const getSQLiteSchemaChanges = (current: SQLiteSchema, desired: SQLiteSchema): SchemaChange[] => {
+	const define = (statement: string, destructive = false): SchemaChange => ({
+		action: 'define',
+		statement,
+		destructive,
+	});
+	const undefine = (statement: string): SchemaChange => ({ action: 'undefine', statement, destructive: true });
+
+	const tables = [
+		...[...desired.tables].flatMap(([table, { create, columns }]) => {
+			const currentTable = current.tables.get(table);
+			if (!currentTable) {
+				return [define(create)];
+			}
+			const addColumn = (column: string, type: string) =>
+				`ALTER TABLE ${quote(table)} ADD COLUMN ${quote(column)} ${type}`;
+			const dropColumn = (column: string) => `ALTER TABLE ${quote(table)} DROP COLUMN ${quote(column)}`;
+			return [
+				...[...columns].flatMap(([column, type]) => {
+					const currentType = currentTable.columns.get(column);
+					if (!currentType) {
+						return [define(addColumn(column, type))];
+					}
+					/// the type of a column can't be changed, it is dropped with its values and added again
+					return currentType === type ? [] : [undefine(dropColumn(column)), define(addColumn(column, type), true)];
+				}),
+				...[...currentTable.columns.keys()]
+					.filter((column) => !columns.has(column))
+					.map(dropColumn)
+					.map(undefine),
+			];
+		}),
+		...[...current.tables.keys()]
+			.filter((table) => !desired.tables.has(table))
+			.map((table) => undefine(`DROP TABLE ${quote(table)}`)),
+	];
+
+	/// unique indexes of existing tables can fail with the existing data
+	const indexes = [
+		...[...desired.indexes].flatMap(([index, statement]) => {
+			const currentStatement = current.indexes.get(index);
+			if (currentStatement === statement) {
+				return [];
+			}
+			const tableExists = [...current.tables.keys()].some((table) => statement.includes(` ON ${quote(table)} `));
+			return [
+				...(currentStatement ? [undefine(`DROP INDEX ${quote(index)}`)] : []),
+				define(statement, tableExists && statement.startsWith('CREATE UNIQUE')),
+			];
+		}),
+		...[...current.indexes.keys()]
+			.filter((index) => !desired.indexes.has(index))
+			.map((index) => undefine(`DROP INDEX ${quote(index)}`)),
+	];
+
+	return [...tables, ...indexes];
+};
+
+/// Every statement of the schema, for a db without tables
+export const getSQLiteSchemaStatements = (sqliteSchema: SQLiteSchema) => [
+	...[...sqliteSchema.tables.values()].map(({ create }) => create),
+	...sqliteSchema.indexes.values(),
+];
+
+/// indexes are dropped before their columns and tables, and created after them
+export const getSQLiteChangesSql = (changes: SchemaChange[]) => {
+	const toSql = (statements: string[]) => statements.map((statement) => `${statement};`).join('\n');
+	const isIndex = (change: SchemaChange) => change.statement.includes(' INDEX ');
+	const defines = changes.filter((change) => change.action === 'define');
+	const undefines = changes.filter((change) => change.action === 'undefine');
+	const orderedUndefines = [...undefines.filter(isIndex), ...undefines.filter((change) => !isIndex(change))];
+	const orderedDefines = [...defines.filter((change) => !isIndex(change)), ...defines.filter(isIndex)];
+	return {
+		...(undefines.length && { undefine: toSql(orderedUndefines.map((change) => change.statement)) }),
+		...(defines.length && { define: toSql(orderedDefines.map((change) => change.statement)) }),
+	};
+};
@@ -0,0 +1,126 @@
+import { BormSchemaError } from '../errors';
+import { getContentTypeStorage, getStorageDbPaths } from '../helpers';
+import type { EnrichedBormEntity, EnrichedBormRelation, EnrichedBormSchema } from '../types';
+
+export type OwnsAnnotation = '' | '@key' | '@unique';
+
+/// The TypeQL schema as a set of statements, so the one of the BormSchema and the one in the db can be compared
+export type TypeQLSchema = {
+	attributes: Map<string, { valueType: string; regex?: string }>; // attribute label -> value type and unquoted regex
+	types: Map<string, string>; // entity or relation label -> supertype label
+	owns: Map<string, OwnsAnnotation>; // `${type} owns ${attribute}` -> its annotation
+	plays: Set<string>; // `${type} plays ${relation}:${role}`
+	relates: Set<string>; // `${relation} relates ${role}`
+};
+
+const emailRegex =
+	'^(?=.{1,64}@)[A-Za-z0-9_-]+(\\.[A-Za-z0-9_-]+)*@[^-][A-Za-z0-9-]+(\\.[A-Za-z0-9-]+)*(\\.[A-Za-z]{2,})$';
+
+export const getEmptyTypeQLSchema = (): TypeQLSchema => ({
+	attributes: new Map(),
+	types: new Map(),
+	owns: new Map(),
+	plays: new Set(),
+	relates: new Set(),
+});
+
+/// Inherited roles keep the label of the relation that declares them
+const getRoleScope = (schema: EnrichedBormSchema, relationName: string, roleName: string): string => {
+	const parent = schema.relations[relationName]?.extends;
+	return parent && schema.relations[parent]?.roles?.[roleName] ? getRoleScope(schema, parent, roleName) : relationName;
+};
+
+/// Things only declare what they don't inherit from the thing they extend
+const addThing = (
+	schema: EnrichedBormSchema,
+	typeQLSchema: TypeQLSchema,
+	thingName: string,
+	thing: EnrichedBormEntity | EnrichedBormRelation,
+	parent: EnrichedBormEntity | EnrichedBormRelation | undefined,
+) => {
+	const parentDataFields = parent?.dataFields?.map((df) => df.dbPath) || [];
+	const parentLinkFields = parent?.linkFields?.map((lf) => lf.path) || [];
+	const parentIdFields = parent?.idFields || [];
+
+	typeQLSchema.types.set(thingName, thing.extends || thing.thingType);
+
+	thing.idFields?.forEach((idField) => {
+		if (!parentIdFields.includes(idField)) {
+			typeQLSchema.owns.set(`${thingName} owns ${idField}`, '@key');
+		}
+	});
+
+	thing.dataFields?.forEach((dataField) => {
+		/// virtual fields are computed, never stored
+		if (dataField.isVirtual) {
+			return;
+		}
+		const { valueType } = getContentTypeStorage(dataField);
+		getStorageDbPaths(dataField).forEach((dbPath) => {
+			const existing = typeQLSchema.attributes.get(dbPath);
+			if (existing && existing.valueType !== valueType) {
+				throw new BormSchemaError(`Attribute ${dbPath} is defined with two different value types`, {
+					code: 'INVALID_SCHEMA',
+				});
+			}
+			typeQLSchema.attributes.set(dbPath, {
+				valueType,
+				...(dataField.contentType === 'EMAIL' ? { regex: emailRegex } : existing),
+			});
+			const owns = `${thingName} owns ${dbPath}`;
+			if (!parentDataFields.includes(dataField.dbPath) && !typeQLSchema.owns.has(owns)) {
+				typeQLSchema.owns.set(owns, dataField.validations?.unique ? '@unique' : '');
+			}
+		});
+	});
+
+	thing.linkFields?.forEach((linkField) => {
+		if (!parentLinkFields.includes(linkField.path)) {
+			const roleScope = getRoleScope(schema, linkField.relation, linkField.plays);
+			typeQLSchema.plays.add(`${thingName} plays ${roleScope}:${linkField.plays}`);
+		}
+	});
+
+	if ('roles' in thing) {
+		const parentRoles = parent && 'roles' in parent ? Object.keys(parent.roles) : [];
+		Object.keys(thing.roles || {}).forEach((roleName) => {
+			if (!parentRoles.includes(roleName)) {
+				typeQLSchema.relates.add(`${thingName} relates ${roleName}`);
+			}
+		});
+	}
+};
+
+export const getTypeQLSchema = (schema: EnrichedBormSchema): TypeQLSchema => {
+	const typeQLSchema = getEmptyTypeQLSchema();
+	Object.entries(schema.entities).forEach(([entityName, entity]) =>
+		addThing(schema, typeQLSchema, entityName, entity, entity.extends ? schema.entities[entity.extends] : undefined),
+	);
+	Object.entries(schema.relations).forEach(([relationName, relation]) =>
+		addThing(
+			schema,
+			typeQLSchema,
+			relationName,
+			relation,
+			relation.extends ? schema.relations[relation.extends] : undefined,
+		),
+	);
+	return typeQLSchema;
+};
+
+export const regexStatement = (label: string, regex: string) => `${label} regex '${regex}'`;
+
+export const attributeStatement = (label: string, { valueType, regex }: { valueType: string; regex?: string }) =>
+	`${label} sub attribute, value ${valueType}${regex ? `, regex '${regex}'` : ''}`;
+
+export const ownsStatement = (owns: string, annotation: OwnsAnnotation) =>
+	annotation ? `${owns} ${annotation}` : owns;
+
+/// Every statement of the schema, in an order that can be defined in a single query
+export const getTypeQLSchemaStatements = (typeQLSchema: TypeQLSchema) => [
+	...[...typeQLSchema.attributes].map(([label, attribute]) => attributeStatement(label, attribute)),
+	...[...typeQLSchema.types].map(([label, supertype]) => `${label} sub ${supertype}`),
+	...[...typeQLSchema.relates],
+	...[...typeQLSchema.owns].map(([owns, annotation]) => ownsStatement(owns, annotation)),
+	...[...typeQLSchema.plays],
+];
@@ -1,3 +1,4 @@
+import { BormSchemaError, BormValidationError } from '../errors';
 import type { BQLMutationBlock, EnrichedDataField } from '../types';
 import { getParamNames } from './helpers';
 
@@ -11,7 +12,9 @@ export const compute = ({
 	mandatoryDependencies?: boolean;
 }) => {
 	if (!fieldSchema || !fieldSchema.default || !fieldSchema.default.value) {
-		throw new Error('Virtual field: No field schema found, or wrongly configured');
+		throw new BormSchemaError('Virtual field: No field schema found, or wrongly configured', {
+			code: 'INVALID_SCHEMA',
+		});
 	}
 	const fn = fieldSchema.default.value;
 
@@ -20,7 +23,9 @@ export const compute = ({
 	//check if all the args are in the entity, if not, throw a missing error with all the not present ones
 	const missingArgs = args.filter((arg) => !(arg in currentThing));
 	if (mandatoryDependencies && missingArgs.length) {
-		throw new Error(`Virtual field: Missing arguments ${missingArgs.join(', ')}`);
+		throw new BormValidationError(`Virtual field: Missing arguments ${missingArgs.join(', ')}`, {
+			code: 'INVALID_VALUE',
+		});
 	}
 	const computedValue = 'default' in fieldSchema ? fieldSchema.default?.value(currentThing) : undefined;
 	return computedValue;
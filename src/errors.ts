@@ -0,0 +1,87 @@
+/// Stable codes of the errors thrown by borm, so they can be handled without parsing their messages
+export type BormValidationErrorCode =
+	| 'INVALID_VALUE'
+	| 'INVALID_REQUEST'
+	| 'INVALID_OP'
+	| 'INVALID_CARDINALITY'
+	| 'INVALID_TEMP_ID'
+	| 'AMBIGUOUS_OP'
+	| 'UNKNOWN_FIELD'
+	| 'READ_ONLY_FIELD'
+	| 'MISSING_ID'
+	| 'RIGHTS_REFUSED'
+	| 'PERMISSION_DENIED';
+
+export type BormSchemaErrorCode = 'UNKNOWN_THING' | 'INVALID_SCHEMA';
+
+export type BormNotFoundErrorCode = 'NOT_FOUND' | 'NOT_LINKED';
+
+export type BormConflictErrorCode = 'ALREADY_LINKED' | 'UNIQUE_CONSTRAINT';
+
+export type BormConnectionErrorCode = 'CONNECTION_FAILED' | 'TRANSACTION_FAILED';
+
+export type BormErrorCode =
+	| BormValidationErrorCode
+	| BormSchemaErrorCode
+	| BormNotFoundErrorCode
+	| BormConflictErrorCode
+	| BormConnectionErrorCode;
+
+type BormErrorOptions<C extends BormErrorCode> = {
+	code: C;
+	path?: string; // path of the offending block or field in the BQL request, like 'accounts.0.provider'
+	cause?: unknown; // the error of the db driver, when there is one
+};
+
+/// names are set by hand as the build is minified
+export class BormError<C extends BormErrorCode = BormErrorCode> extends Error {
+	code: C;
+
+	path?: string;
+
+	constructor(message: string, { code, path, cause }: BormErrorOptions<C>) {
+		super(message, cause === undefined ? undefined : { cause });
+		this.name = 'BormError';
+		this.code = code;
+		this.path = path;
+	}
+}
+
+/// requests that can't be run as they are: unknown fields, invalid values or ops, refused rights and permissions
+export class BormValidationError extends BormError<BormValidationErrorCode> {
+	constructor(message: string, options: BormErrorOptions<BormValidationErrorCode>) {
+		super(message, options);
+		this.name = 'BormValidationError';
+	}
+}
+
+export class BormSchemaError extends BormError<BormSchemaErrorCode> {
+	constructor(message: string, options: BormErrorOptions<BormSchemaErrorCode>) {
+		super(message, options);
+		this.name = 'BormSchemaError';
+	}
+}
+
+/// things targeted by a mutation that are not where the mutation expects them
+export class BormNotFoundError extends BormError<BormNotFoundErrorCode> {
+	constructor(message: string, options: BormErrorOptions<BormNotFoundErrorCode>) {
+		super(message, options);
+		this.name = 'BormNotFoundError';
+	}
+}
+
+/// mutations that clash with the data already in the db
+export class BormConflictError extends BormError<BormConflictErrorCode> {
+	constructor(message: string, options: BormErrorOptions<BormConflictErrorCode>) {
+		super(message, options);
+		this.name = 'BormConflictError';
+	}
+}
+
+/// dbs that can't be reached, and transactions they refuse
+export class BormConnectionError extends BormError<BormConnectionErrorCode> {
+	constructor(message: string, options: BormErrorOptions<BormConnectionErrorCode>) {
+		super(message, options);
+		this.name = 'BormConnectionError';
+	}
+}
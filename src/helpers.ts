@@ -2,10 +2,14 @@
 import { produce } from 'immer';
 import type { TraversalCallbackContext } from 'object-traversal';
 import { traverse } from 'object-traversal';
-import { listify } from 'radash';
+import { isObject, listify, unique } from 'radash';
+
+import { BormSchemaError, BormValidationError } from './errors';
 
 // todo: split helpers between common helpers, typeDBhelpers, dgraphelpers...
 import type {
+	AuthContext,
+	BormConfig,
 	BormSchema,
 	BormRelation,
 	BQLMutationBlock,
@@ -13,10 +17,12 @@ import type {
 	EnrichedBormRelation,
 	EnrichedBormSchema,
 	LinkedFieldWithThing,
-	ParsedBQLQuery,
 	RawBQLQuery,
 	DataField,
 	BormEntity,
+	ContentType,
+	EnrichedDataField,
+	Filter,
 } from './types';
 
 const getDbPath = (thing: string, attribute: string, shared?: boolean) =>
@@ -63,8 +69,9 @@ export const enrichSchema = (schema: BormSchema): EnrichedBormSchema => {
 					value.allExtends = [value.extends, ...(extendedSchema.allExtends || [])];
 					value as BormEntity | BormRelation;
 
+					/// things repeating the idFields of the thing they extend have them once
 					value.idFields = extendedSchema.idFields
-						? (value.idFields || []).concat(extendedSchema.idFields)
+						? unique((value.idFields || []).concat(extendedSchema.idFields))
 						: value.idFields;
 					value.dataFields = extendedSchema.dataFields
 						? (value.dataFields || []).concat(
@@ -86,6 +93,9 @@ export const enrichSchema = (schema: BormSchema): EnrichedBormSchema => {
 					value.linkFields = extendedSchema.linkFields
 						? (value.linkFields || []).concat(extendedSchema.linkFields)
 						: value.linkFields;
+					value.permissions = value.permissions || extendedSchema.permissions;
+					/// each hook is inherited unless the thing has its own
+					value.hooks = extendedSchema.hooks ? { ...extendedSchema.hooks, ...value.hooks } : value.hooks;
 
 					if ('roles' in extendedSchema) {
 						const val = value as BormRelation;
@@ -150,7 +160,7 @@ export const enrichSchema = (schema: BormSchema): EnrichedBormSchema => {
 					if (meta.nodePath?.split('.')[0] === 'relations') {
 						return 'relation';
 					}
-					throw new Error('Unsupported node attributes');
+					throw new BormSchemaError('Unsupported node attributes', { code: 'INVALID_SCHEMA' });
 				};
 				value.thingType = thingType();
 				// init the array of computed values
@@ -223,13 +233,15 @@ export const enrichSchema = (schema: BormSchema): EnrichedBormSchema => {
 			if (typeof value === 'object' && 'playedBy' in value) {
 				// if (value.playedBy.length > 1) {
 				if ([...new Set(value.playedBy?.map((x: LinkedFieldWithThing) => x.thing))].length > 1) {
-					throw new Error(
+					throw new BormSchemaError(
 						`Unsupported: roleFields can be only played by one thing. Role: ${key} path:${meta.nodePath}`,
+						{ code: 'INVALID_SCHEMA' },
 					);
 				}
 				if (value.playedBy.length === 0) {
-					throw new Error(
+					throw new BormSchemaError(
 						`Unsupported: roleFields should be played at least by one thing. Role: ${key}, path:${meta.nodePath}`,
+						{ code: 'INVALID_SCHEMA' },
 					);
 				}
 			}
@@ -259,17 +271,142 @@ export const getCurrentSchema = (
 ): EnrichedBormEntity | EnrichedBormRelation => {
 	if (node.$entity) {
 		if (!(node.$entity in schema.entities)) {
-			throw new Error(`Missing entity '${node.$entity}' in the schema`);
+			throw new BormSchemaError(`Missing entity '${node.$entity}' in the schema`, { code: 'UNKNOWN_THING' });
 		}
 		return schema.entities[node.$entity] as EnrichedBormEntity;
 	}
 	if (node.$relation) {
 		if (!(node.$relation in schema.relations)) {
-			throw new Error(`Missing relation '${node.$relation}' in the schema`);
+			throw new BormSchemaError(`Missing relation '${node.$relation}' in the schema`, { code: 'UNKNOWN_THING' });
 		}
 		return schema.relations[node.$relation] as EnrichedBormRelation;
 	}
-	throw new Error(`Wrong schema or query for ${JSON.stringify(node)}`);
+	throw new BormValidationError(`Wrong schema or query for ${JSON.stringify(node)}`, { code: 'INVALID_REQUEST' });
+};
+
+/// the thing at the other side of a linkField or roleField
+export const getLinkedThingSchema = (
+	schema: EnrichedBormSchema,
+	currentSchema: EnrichedBormEntity | EnrichedBormRelation,
+	path: string,
+): EnrichedBormEntity | EnrichedBormRelation | undefined => {
+	const linkField = currentSchema.linkFields?.find((lf) => lf.path === path);
+	const role = 'roles' in currentSchema ? currentSchema.roles[path] : undefined;
+	// todo: roles and linkFields played by multiple things
+	const thing = linkField ? linkField.oppositeLinkFieldsPlayedBy[0]?.thing : role?.playedBy?.[0]?.thing;
+	if (!thing) {
+		return undefined;
+	}
+	return schema.entities[thing] ?? schema.relations[thing];
+};
+
+/// The thing and the things extending it. Root queries only return things of the queried type
+export const getThingsOfType = (
+	schema: EnrichedBormSchema,
+	thingSchema: EnrichedBormEntity | EnrichedBormRelation,
+): (EnrichedBormEntity | EnrichedBormRelation)[] => {
+	const isExtending = (x: EnrichedBormEntity | EnrichedBormRelation): boolean => {
+		const extended = x.extends && (schema.entities[x.extends] ?? schema.relations[x.extends]);
+		return !!extended && (extended.name === thingSchema.name || isExtending(extended));
+	};
+	return [thingSchema, ...[...Object.values(schema.entities), ...Object.values(schema.relations)].filter(isExtending)];
+};
+
+/// the dbConnector of the config with that id, or the first one when the config has none
+export const getDBConnector = (config: BormConfig, dbConnectorId: string | undefined) =>
+	config.dbConnectors.find((dbc) => dbc.id === dbConnectorId) || config.dbConnectors[0];
+
+/// the dbConnector storing a field: the one of the dataField, the role, or the role played through the linkField.
+/// Fields without one are stored in the default dbConnector of their thing
+export const getFieldDBConnector = (
+	config: BormConfig,
+	schema: EnrichedBormSchema,
+	thingSchema: EnrichedBormEntity | EnrichedBormRelation,
+	path: string,
+) => {
+	const dataField = thingSchema.dataFields?.find((df) => df.path === path);
+	const linkField = thingSchema.linkFields?.find((lf) => lf.path === path);
+	const role = 'roles' in thingSchema ? thingSchema.roles[path] : undefined;
+	if (!dataField && !linkField && !role) {
+		return undefined;
+	}
+	const relation = linkField ? schema.relations[linkField.relation] : undefined;
+	const dbConnectorId =
+		dataField?.dbConnectors?.[0].id ??
+		role?.dbConnector?.id ??
+		(relation && (relation.roles[linkField?.plays as string]?.dbConnector?.id ?? relation.defaultDBConnector.id)) ??
+		thingSchema.defaultDBConnector.id;
+	return getDBConnector(config, dbConnectorId);
+};
+
+/// things exist, at least with their idFields, in the default dbConnector and in every dbConnector of their fields
+export const getThingDBConnectors = (
+	config: BormConfig,
+	schema: EnrichedBormSchema,
+	thingSchema: EnrichedBormEntity | EnrichedBormRelation,
+) =>
+	unique(
+		[
+			getDBConnector(config, thingSchema.defaultDBConnector.id),
+			...getCurrentFields(thingSchema).fields.map((path) => getFieldDBConnector(config, schema, thingSchema, path)),
+		].filter((dbc): dbc is BormConfig['dbConnectors'][number] => !!dbc),
+		(dbc) => dbc.id,
+	);
+
+/// Composite ids join the values of their idFields with ':', escaping ':' and '\' so they can be split back
+export const encodeCompositeId = (values: unknown[]) =>
+	values.map((value) => `${value}`.replace(/\\/g, '\\\\').replace(/:/g, '\\:')).join(':');
+
+const decodeCompositeId = (id: string) => {
+	const parts = [''];
+	for (let i = 0; i < id.length; i += 1) {
+		if (id[i] === '\\') {
+			i += 1;
+			parts[parts.length - 1] += id[i] ?? '';
+		} else if (id[i] === ':') {
+			parts.push('');
+		} else {
+			parts[parts.length - 1] += id[i];
+		}
+	}
+	return parts;
+};
+
+/// The $id of a thing is the value of its idField, or the composite id of its idFields when it has all of them
+export const getThingId = (thingSchema: EnrichedBormEntity | EnrichedBormRelation, thing: Record<string, unknown>) => {
+	const idFields = thingSchema.idFields || [];
+	if (idFields.length <= 1) {
+		return thing[idFields[0]] as string | undefined;
+	}
+	const values = idFields.map((idField) => thing[idField]);
+	return values.some((value) => value === undefined || value === null) ? undefined : encodeCompositeId(values);
+};
+
+/// The value of every idField of an $id. The parts of composite ids get back the type of their dataField
+export const getIdFieldsValues = (
+	thingSchema: EnrichedBormEntity | EnrichedBormRelation,
+	id: unknown,
+): Record<string, unknown> => {
+	const idFields = thingSchema.idFields || [];
+	if (idFields.length <= 1) {
+		return { [idFields[0]]: id };
+	}
+	const parts = decodeCompositeId(`${id}`);
+	if (parts.length !== idFields.length) {
+		throw new BormValidationError(
+			`The $id '${id}' of ${thingSchema.name} must have a value for each of ${idFields.join(', ')}`,
+			{ code: 'INVALID_VALUE', path: '$id' },
+		);
+	}
+	return Object.fromEntries(
+		idFields.map((idField, i) => {
+			const dataField = thingSchema.dataFields?.find((df) => df.path === idField);
+			if (dataField && numberContentTypes.includes(dataField.contentType)) {
+				return [idField, Number(parts[i])];
+			}
+			return [idField, dataField?.contentType === 'BOOLEAN' ? parts[i] === 'true' : parts[i]];
+		}),
+	);
 };
 
 type ReturnTypeWithoutNode = {
@@ -284,6 +421,8 @@ type ReturnTypeWithNode = ReturnTypeWithoutNode & {
 	usedRoleFields: string[];
 	usedLinkFields: string[];
 	unidentifiedFields: string[];
+	localFilters?: Record<string, any>;
+	nestedFilters?: Record<string, any>;
 };
 
 // todo: do something so this enriches the query so no need to call it multiple times
@@ -312,6 +451,11 @@ export const getCurrentFields = <T extends (BQLMutationBlock | RawBQLQuery) | un
 		'$filter',
 		'$fields',
 		'$excludedFields',
+		'$limit',
+		'$offset',
+		'$sort',
+		'$aggregate',
+		'$groupBy',
 	];
 
 	const allowedFields = [...reservedRootFields, ...availableFields];
@@ -332,7 +476,7 @@ export const getCurrentFields = <T extends (BQLMutationBlock | RawBQLQuery) | un
 				if ('$path' in x && typeof x.$path === 'string') {
 					return x.$path;
 				}
-				throw new Error(' Wrongly structured query');
+				throw new BormValidationError(' Wrongly structured query', { code: 'INVALID_REQUEST', path: '$fields' });
 		  }) as string[])
 		: listify<any, string, string>(node, (k: string) => k);
 
@@ -368,20 +512,461 @@ export const getCurrentFields = <T extends (BQLMutationBlock | RawBQLQuery) | un
 	} as ReturnTypeWithNode;
 };
 
+export const numberContentTypes: ContentType[] = [
+	'NUMBER',
+	'NUMBER_DECIMAL',
+	'RATING',
+	'CURRENCY',
+	'PERCENTAGE',
+	'DURATION',
+	'HOUR',
+];
+export const dateContentTypes: ContentType[] = ['DATE', 'TIME'];
+
+export const weekDays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export type TypeQLValueType = 'string' | 'long' | 'double' | 'boolean' | 'datetime';
+
+type ContentTypeStorage = {
+	valueType: TypeQLValueType;
+	parts?: string[]; // the value is stored in one attribute per part, labelled `${dbPath}·${part}`
+	serialize?: (value: any, path: string) => unknown;
+	deserialize?: (value: any) => unknown;
+};
+
+/// How each contentType is stored in TypeDB. Values without a serializer are stored as they come
+const contentTypeStorage: Record<ContentType, ContentTypeStorage> = {
+	ID: { valueType: 'string' },
+	JSON: {
+		valueType: 'string',
+		serialize: (value: unknown, path: string) => {
+			const json = JSON.stringify(value);
+			if (json === undefined) {
+				throw new BormValidationError(`Value of '${path}' must be serializable to JSON`, {
+					code: 'INVALID_VALUE',
+					path,
+				});
+			}
+			return json;
+		},
+		deserialize: (value: string) => JSON.parse(value),
+	},
+	COLOR: { valueType: 'string' },
+	BOOLEAN: { valueType: 'boolean' },
+	POINT: { valueType: 'double', parts: ['x', 'y'] },
+	FILE: { valueType: 'string' },
+	EMAIL: { valueType: 'string' },
+	PHONE: { valueType: 'string' },
+	WEEK_DAY: {
+		valueType: 'string',
+		serialize: (value: unknown, path: string) => {
+			if (typeof value !== 'string' || !weekDays.includes(value)) {
+				throw new BormValidationError(`Value of '${path}' must be a day of the week`, { code: 'INVALID_VALUE', path });
+			}
+			return value;
+		},
+	},
+	DURATION: { valueType: 'double' },
+	HOUR: { valueType: 'double' },
+	TIME: { valueType: 'datetime' },
+	DATE: { valueType: 'datetime' },
+	RATING: { valueType: 'double' },
+	CURRENCY: { valueType: 'double' },
+	PERCENTAGE: { valueType: 'double' },
+	NUMBER_DECIMAL: { valueType: 'double' },
+	NUMBER: { valueType: 'long' },
+	URL: { valueType: 'string' },
+	PASSWORD: { valueType: 'string' },
+	LANGUAGE_TEXT: { valueType: 'string' },
+	RICH_TEXT: { valueType: 'string' },
+	TEXT: { valueType: 'string' },
+};
+
+export const getContentTypeStorage = (dataField: EnrichedDataField) => {
+	const storage = contentTypeStorage[dataField.contentType];
+	if (!storage) {
+		throw new BormSchemaError(`Unsupported contentType ${dataField.contentType} in '${dataField.path}'`, {
+			code: 'INVALID_SCHEMA',
+			path: dataField.path,
+		});
+	}
+	/// the parts of several values could not be paired back
+	if (storage.parts && dataField.cardinality === 'MANY') {
+		throw new BormSchemaError(
+			`'${dataField.path}' is of type ${dataField.contentType}, which can't have cardinality MANY`,
+			{ code: 'INVALID_SCHEMA', path: dataField.path },
+		);
+	}
+	return storage;
+};
+
+/// The labels of the attributes where the values of a dataField are stored
+export const getStorageDbPaths = (dataField: EnrichedDataField) =>
+	getContentTypeStorage(dataField).parts?.map((part) => `${dataField.dbPath}·${part}`) || [dataField.dbPath];
+
+// todo: move the encoders to typeDBhelpers
+/// TypeQL strings are double quoted, so only backslashes and double quotes need to be escaped
+export const encodeTypeQLString = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/// Several ids are matched with a regex. Ids are escaped and the regex anchored, so each one only matches itself
+export const encodeTypeQLIdsRegex = (ids: (string | number)[]) =>
+	encodeTypeQLString(`^(${ids.map((id) => escapeRegex(`${id}`)).join('|')})$`);
+
+const encodeStoredValue = (value: unknown, valueType: TypeQLValueType, path: string) => {
+	switch (valueType) {
+		case 'long':
+			if (typeof value !== 'number' || !Number.isInteger(value)) {
+				throw new BormValidationError(`Value of '${path}' must be an integer`, { code: 'INVALID_VALUE', path });
+			}
+			return `${value}`;
+		case 'double':
+			if (typeof value !== 'number' || !Number.isFinite(value)) {
+				throw new BormValidationError(`Value of '${path}' must be a finite number`, { code: 'INVALID_VALUE', path });
+			}
+			return `${value}`;
+		case 'datetime': {
+			const date = value instanceof Date ? value : new Date(value as string | number);
+			if (Number.isNaN(date.valueOf())) {
+				throw new BormValidationError(`Value of '${path}' must be a valid date`, { code: 'INVALID_VALUE', path });
+			}
+			return date.toISOString().replace('Z', '');
+		}
+		case 'boolean':
+			if (typeof value !== 'boolean') {
+				throw new BormValidationError(`Value of '${path}' must be a boolean`, { code: 'INVALID_VALUE', path });
+			}
+			return `${value}`;
+		default:
+			return encodeTypeQLString(`${value}`);
+	}
+};
+
+/// Every value sent by the user is written in TypeQL through this encoder, according to the contentType of its dataField
+export const encodeTypeQLValue = (value: unknown, dataField: EnrichedDataField) => {
+	const { valueType, parts, serialize } = getContentTypeStorage(dataField);
+	if (parts) {
+		throw new BormValidationError(
+			`'${dataField.path}' is of type ${dataField.contentType}, which is stored in several attributes`,
+			{ code: 'INVALID_VALUE', path: dataField.path },
+		);
+	}
+	return encodeStoredValue(serialize ? serialize(value, dataField.path) : value, valueType, dataField.path);
+};
+
+/// The `has` statements that store a value. Values of contentTypes with parts are split in one attribute per part
+export const encodeTypeQLAttributes = (value: unknown, dataField: EnrichedDataField): string[] => {
+	const { valueType, parts } = getContentTypeStorage(dataField);
+	if (!parts) {
+		return [`has ${dataField.dbPath} ${encodeTypeQLValue(value, dataField)}`];
+	}
+	if (!isObject(value)) {
+		throw new BormValidationError(`Value of '${dataField.path}' must be an object with ${parts.join(', ')}`, {
+			code: 'INVALID_VALUE',
+			path: dataField.path,
+		});
+	}
+	return parts.map(
+		(part) =>
+			`has ${dataField.dbPath}·${part} ${encodeStoredValue(
+				(value as Record<string, unknown>)[part],
+				valueType,
+				`${dataField.path}.${part}`,
+			)}`,
+	);
+};
+
+/// The `has` statements of the idFields of an $id. Single ids are strings, the parts of composite ids are encoded
+/// according to their dataField
+export const encodeTypeQLIdAttributes = (thingSchema: EnrichedBormEntity | EnrichedBormRelation, id: unknown) => {
+	const idFields = thingSchema.idFields || [];
+	if (idFields.length <= 1) {
+		return [`has ${idFields[0]} ${encodeTypeQLString(`${id}`)}`];
+	}
+	const values = getIdFieldsValues(thingSchema, id);
+	return idFields.map((idField) => {
+		const dataField = thingSchema.dataFields?.find((df) => df.path === idField);
+		const value = values[idField];
+		return `has ${idField} ${dataField ? encodeTypeQLValue(value, dataField) : encodeTypeQLString(`${value}`)}`;
+	});
+};
+
 // todo: move this function to typeDBhelpers
+/// Matches the thingVar by its $id, or only binds its idFields without one. Several ids are a regex of the idField,
+/// or alternatives matching every idField of each composite id
+export const getTypeQLIdFilter = (
+	thingSchema: EnrichedBormEntity | EnrichedBormRelation,
+	thingVar: string,
+	$id?: string | string[],
+) => {
+	const idFields = thingSchema.idFields || [];
+	if (!idFields.length) {
+		throw new BormSchemaError('No id fields', { code: 'INVALID_SCHEMA' });
+	}
+	if (idFields.length === 1) {
+		const idVar = `${thingVar}_id`;
+		const idTql = `${thingVar} has ${idFields[0]} ${idVar};`;
+		if (!$id) {
+			return idTql;
+		}
+		if (Array.isArray($id)) {
+			return `${idTql} ${idVar} like ${encodeTypeQLIdsRegex($id)};`;
+		}
+		return `${idTql} ${idVar} ${encodeTypeQLString($id)};`;
+	}
+	const idTql = idFields.map((idField, i) => `${thingVar} has ${idField} ${thingVar}_id${i};`).join(' ');
+	if (!$id) {
+		return idTql;
+	}
+	const idMatches = [$id].flat().map((id) =>
+		encodeTypeQLIdAttributes(thingSchema, id)
+			.map((has) => `${thingVar} ${has};`)
+			.join(' '),
+	);
+	if (idMatches.length <= 1) {
+		return `${idTql} ${idMatches[0] ?? `${thingVar}_id0 like ${encodeTypeQLIdsRegex([])};`}`;
+	}
+	return `${idTql} ${idMatches.map((match) => `{ ${match} }`).join(' or ')};`;
+};
+
+const textFilterOperators = ['$contains', '$startsWith', '$endsWith', '$regex'];
+
+// todo: move this function to typeDBhelpers
+/// Every filter becomes one or more typeQL statements over the thingVar. Plain values are $eq and arrays are $in
 export const getLocalFilters = (
 	currentSchema: EnrichedBormEntity | EnrichedBormRelation,
-	// todo: node?: BQLMutationBlock | ParsedBQLQuery
-	node: ParsedBQLQuery,
+	localFilters: Record<string, any> | undefined,
+	thingVar: string,
+	varPrefix = '', // keeps apart the vars of filters applied to the same thingVar
+): string => {
+	if (!localFilters) {
+		return '';
+	}
+	const filtersTql = listify(localFilters, (k: string, v: unknown) => ({ path: k, filter: v })).flatMap(
+		({ path, filter }, i) => {
+			const dataField = currentSchema.dataFields?.find((x) => x.path === path);
+			if (!dataField) {
+				throw new BormValidationError(`Can't filter by '${path}', it is not a dataField of ${currentSchema.name}`, {
+					code: 'UNKNOWN_FIELD',
+					path: `$filter.${path}`,
+				});
+			}
+			const operators: [string, unknown][] = Array.isArray(filter)
+				? [['$in', filter]]
+				: isObject(filter) && !(filter instanceof Date)
+				? Object.entries(filter)
+				: [['$eq', filter]];
+
+			return operators.map(([operator, value], j) => {
+				const attVar = `${thingVar}_${varPrefix}f${i}_${j}`;
+				const has = `${thingVar} has ${dataField.dbPath} ${attVar};`;
+
+				if (textFilterOperators.includes(operator) && typeof value !== 'string') {
+					throw new BormValidationError(`Filter ${operator} of '${path}' requires a string`, {
+						code: 'INVALID_REQUEST',
+						path: `$filter.${path}`,
+					});
+				}
+				if (textFilterOperators.includes(operator) && getContentTypeStorage(dataField).valueType !== 'string') {
+					throw new BormValidationError(
+						`Filter ${operator} can't be used in '${path}', which is of type ${dataField.contentType}`,
+						{ code: 'INVALID_REQUEST', path: `$filter.${path}` },
+					);
+				}
+				if (['$in', '$nin'].includes(operator) && !Array.isArray(value)) {
+					throw new BormValidationError(`Filter ${operator} of '${path}' requires an array`, {
+						code: 'INVALID_REQUEST',
+						path: `$filter.${path}`,
+					});
+				}
+
+				switch (operator) {
+					case '$eq':
+						return `${thingVar} has ${dataField.dbPath} ${encodeTypeQLValue(value, dataField)};`;
+					case '$ne':
+						return `not { ${thingVar} has ${dataField.dbPath} ${encodeTypeQLValue(value, dataField)}; };`;
+					case '$gt':
+						return `${has} ${attVar} > ${encodeTypeQLValue(value, dataField)};`;
+					case '$ge': // same as $gte
+					case '$gte':
+						return `${has} ${attVar} >= ${encodeTypeQLValue(value, dataField)};`;
+					case '$lt':
+						return `${has} ${attVar} < ${encodeTypeQLValue(value, dataField)};`;
+					case '$lte':
+						return `${has} ${attVar} <= ${encodeTypeQLValue(value, dataField)};`;
+					case '$in':
+					case '$nin': {
+						const values = value as unknown[];
+						if (values.length === 0) {
+							throw new BormValidationError(`Filter ${operator} of '${path}' requires at least one value`, {
+								code: 'INVALID_REQUEST',
+								path: `$filter.${path}`,
+							});
+						}
+						const anyOf = values.map((x) => `{ ${attVar} = ${encodeTypeQLValue(x, dataField)}; }`).join(' or ');
+						return operator === '$in' ? `${has} ${anyOf};` : `not { ${has} ${anyOf}; };`;
+					}
+					case '$contains':
+						return `${has} ${attVar} contains ${encodeTypeQLString(value as string)};`;
+					case '$startsWith':
+						return `${has} ${attVar} like ${encodeTypeQLString(`^${escapeRegex(value as string)}`)};`;
+					case '$endsWith':
+						return `${has} ${attVar} like ${encodeTypeQLString(`${escapeRegex(value as string)}$`)};`;
+					case '$regex':
+						return `${has} ${attVar} like ${encodeTypeQLString(value as string)};`;
+					default:
+						throw new BormValidationError(`Unsupported filter operator ${operator} in '${path}'`, {
+							code: 'INVALID_REQUEST',
+							path: `$filter.${path}`,
+						});
+				}
+			});
+		},
+	);
+	return filtersTql.join(' ');
+};
+
+/// keys starting with $ are quantifiers, so the unsupported ones throw instead of being taken for fields
+const isQuantifier = (key: string) => key.startsWith('$');
+
+/// The statement linking the thingVar to the linkedVar through a linkField or a roleField
+export const getLinkTql = (
+	schema: EnrichedBormSchema,
+	currentSchema: EnrichedBormEntity | EnrichedBormRelation,
+	path: string,
+	thingVar: string,
+	linkedVar: string,
 ) => {
-	const localFilters =
-		node.$localFilters &&
-		listify(node.$localFilters, (k: string, v) => {
-			const currentDataField = currentSchema.dataFields?.find((x) => x.path === k);
-			return `has ${currentDataField?.dbPath} '${v}'`;
-		});
-	const localFiltersTql = localFilters?.length ? `, ${localFilters.join(',')}` : '';
-	return localFiltersTql;
+	const linkField = currentSchema.linkFields?.find((lf) => lf.path === path);
+	if (!linkField) {
+		return `${thingVar} (${path}: ${linkedVar});`;
+	}
+	const relationPath = schema.relations[linkField.relation]?.defaultDBConnector.path || linkField.relation;
+	if (linkField.target === 'relation') {
+		return `${linkedVar} (${linkField.plays}: ${thingVar}) isa ${relationPath};`;
+	}
+	// todo: opposite linkFields playing different roles
+	const [oppositeLinkField] = linkField.oppositeLinkFieldsPlayedBy;
+	return `(${linkField.plays}: ${thingVar}, ${oppositeLinkField.plays}: ${linkedVar}) isa ${relationPath};`;
+};
+
+/// All the filters of a linked thing. Plain ids or arrays of ids filter by its idFields
+const getLinkedThingFilters = (
+	schema: EnrichedBormSchema,
+	linkedSchema: EnrichedBormEntity | EnrichedBormRelation,
+	filter: unknown,
+	thingVar: string,
+	readContext: AuthContext | undefined | false,
+) => {
+	if (!isObject(filter)) {
+		const [idField, ...otherIdFields] = linkedSchema.idFields || [];
+		return otherIdFields.length
+			? getTypeQLIdFilter(linkedSchema, thingVar, filter as string | string[])
+			: getLocalFilters(linkedSchema, { [idField]: filter }, thingVar);
+	}
+	const dataFieldPaths = linkedSchema.dataFields?.map((df) => df.path) || [];
+	const localFilters = oFilter(filter, (k: string, _v) => dataFieldPaths.includes(k));
+	const nestedFilters = oFilter(filter, (k: string, _v) => !dataFieldPaths.includes(k));
+	return [
+		getLocalFilters(linkedSchema, localFilters, thingVar),
+		getNestedFilters(schema, linkedSchema, nestedFilters, thingVar, readContext),
+	]
+		.filter(Boolean)
+		.join(' ');
+};
+
+// todo: move this function to typeDBhelpers
+/// Filters through linkFields and roleFields, by default matching things with $some linked thing passing the filter
+export const getNestedFilters = (
+	schema: EnrichedBormSchema,
+	currentSchema: EnrichedBormEntity | EnrichedBormRelation,
+	nestedFilters: Record<string, any> | undefined,
+	thingVar: string,
+	/// the context of the request, as linked things it can't read don't match. The read rules themselves get false
+	readContext: AuthContext | undefined | false,
+	varPrefix = '', // keeps apart the vars of filters applied to the same thingVar
+): string => {
+	if (!nestedFilters) {
+		return '';
+	}
+	const filtersTql = listify(nestedFilters, (k: string, v: unknown) => ({ path: k, filter: v })).flatMap(
+		({ path, filter }, i) => {
+			const linkedSchema = getLinkedThingSchema(schema, currentSchema, path);
+			if (!linkedSchema) {
+				throw new BormValidationError(`Can't filter by '${path}', it is not a field of ${currentSchema.name}`, {
+					code: 'UNKNOWN_FIELD',
+					path: `$filter.${path}`,
+				});
+			}
+			const quantifiers =
+				isObject(filter) && Object.keys(filter).some(isQuantifier)
+					? (filter as Record<string, unknown>)
+					: { $some: filter };
+
+			return listify(quantifiers, (quantifier: string, linkedFilter: unknown) => ({ quantifier, linkedFilter })).map(
+				({ quantifier, linkedFilter }, j) => {
+					const linkedVar = `${thingVar}_${varPrefix}n${i}_${j}`;
+					const linkTql = getLinkTql(schema, currentSchema, path, thingVar, linkedVar);
+					const linkedFiltersTql = getLinkedThingFilters(schema, linkedSchema, linkedFilter, linkedVar, readContext);
+					const permissionsTql =
+						readContext === false ? '' : getPermissionsTql(schema, linkedSchema, readContext, linkedVar);
+					const readableLinkTql = [linkTql, permissionsTql].filter(Boolean).join(' ');
+
+					switch (quantifier) {
+						case '$some':
+							return `${readableLinkTql} ${linkedFiltersTql}`;
+						case '$none':
+							return `not { ${readableLinkTql} ${linkedFiltersTql} };`;
+						case '$every':
+							return linkedFiltersTql ? `not { ${readableLinkTql} not { ${linkedFiltersTql} }; };` : '';
+						default:
+							throw new BormValidationError(
+								`Unsupported filter quantifier ${quantifier} in '${path}', use $some, $every or $none`,
+								{ code: 'INVALID_REQUEST', path: `$filter.${path}` },
+							);
+					}
+				},
+			);
+		},
+	);
+	return filtersTql.filter(Boolean).join(' ');
+};
+
+/// The read or write rule of a thing for the context of the request. Things without permissions can always be read and written
+export const getPermission = (
+	thingSchema: EnrichedBormEntity | EnrichedBormRelation,
+	rule: 'read' | 'write',
+	context: AuthContext = {},
+): Filter | boolean => {
+	const { permissions } = thingSchema;
+	const ruleFn = rule === 'write' ? permissions?.write || permissions?.read : permissions?.read;
+	return ruleFn ? ruleFn(context) : true;
+};
+
+/// The read rule as statements over the thingVar, so things the context can't read are never matched
+export const getPermissionsTql = (
+	schema: EnrichedBormSchema,
+	thingSchema: EnrichedBormEntity | EnrichedBormRelation,
+	context: AuthContext | undefined,
+	thingVar: string,
+): string => {
+	const permission = getPermission(thingSchema, 'read', context);
+	if (permission === true) {
+		return '';
+	}
+	if (permission === false) {
+		return `not { ${thingVar} isa thing; };`;
+	}
+	const dataFieldPaths = thingSchema.dataFields?.map((df) => df.path) || [];
+	const localFilters = oFilter(permission, (k: string, _v) => dataFieldPaths.includes(k));
+	const nestedFilters = oFilter(permission, (k: string, _v) => !dataFieldPaths.includes(k));
+	return [
+		getLocalFilters(thingSchema, localFilters, thingVar, 'p'),
+		getNestedFilters(schema, thingSchema, nestedFilters, thingVar, false, 'p'),
+	]
+		.filter(Boolean)
+		.join(' ');
 };
 
 /*
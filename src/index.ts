@@ -1,14 +1,25 @@
 import { tryit } from 'radash';
-import { TypeDB, SessionType } from 'typedb-driver';
+import { TypeDB, SessionType, TransactionType } from 'typedb-driver';
 
+import { getSQLiteHandle, openSQLiteDb } from './adapters/sqlite';
 import { defaultConfig } from './default.config';
 import { bormDefine } from './define';
+import { BormConnectionError } from './errors';
 import { enrichSchema } from './helpers';
 import { mutationPipeline, queryPipeline } from './pipeline/pipeline';
+import { getSessionOrOpenNewOne } from './pipeline/transaction/helpers';
 import type {
 	BormConfig,
+	BormPlugin,
 	BormSchema,
+	BQLDryRun,
+	BQLMutationInput,
+	BQLMutationResult,
+	BQLQueryInput,
+	BQLQueryResult,
+	BQLResponseMulti,
 	DBHandles,
+	DefineConfig,
 	MutateConfig,
 	QueryConfig,
 	RawBQLMutation,
@@ -16,29 +27,64 @@ import type {
 } from './types';
 
 export * from './types';
+export {
+	BormError,
+	BormValidationError,
+	BormSchemaError,
+	BormNotFoundError,
+	BormConflictError,
+	BormConnectionError,
+} from './errors';
+export type { BormErrorCode } from './errors';
+export { ValidationError } from './validations';
+export { encodeCompositeId } from './helpers';
+export type { PipelineOperation } from './pipeline/pipeline';
 
-type BormProps = {
-	schema: BormSchema;
+type BormProps<S extends BormSchema> = {
+	schema: S;
 	config: BormConfig;
 };
 
-class BormClient {
+type MutationResult<C extends MutateConfig> = C extends { dryRun: true }
+	? BQLDryRun
+	: C extends { structuredResult: true }
+	? BQLMutationResult
+	: BQLResponseMulti;
+
+/// queries and mutations of a bormClient.transaction() callback
+export type BormTransaction<S extends BormSchema = BormSchema> = {
+	query: BormClient<S>['query'];
+	mutate: BormClient<S>['mutate'];
+};
+
+/// schemas declared `as const` type their mutations and the results of their queries
+class BormClient<S extends BormSchema = BormSchema> {
 	private schema: BormSchema;
 
 	private config: BormConfig;
 
 	private dbHandles?: DBHandles;
 
-	constructor({ schema, config }: BormProps) {
+	/// memory and sqlite transactions write in the handles of the bormClient, so they run one after the other and the
+	/// queries and mutations called outside of them wait until they end
+	#transactions: Promise<unknown> = Promise.resolve();
+
+	constructor({ schema, config }: BormProps<S>) {
 		this.schema = schema;
 		this.config = config;
 	}
 
 	init = async () => {
-		const dbHandles = { typeDB: new Map() };
+		const dbHandles: DBHandles = { typeDB: new Map(), memory: new Map(), sqlite: new Map() };
 		const enrichedSchema = enrichSchema(this.schema);
 		await Promise.all(
 			this.config.dbConnectors.map(async (dbc) => {
+				if (dbc.provider === 'memory') {
+					dbHandles.memory?.set(dbc.id, { store: new Map() });
+				}
+				if (dbc.provider === 'sqlite') {
+					dbHandles.sqlite?.set(dbc.id, { db: openSQLiteDb(dbc.filename ?? dbc.dbName) });
+				}
 				if (dbc.provider === 'typeDB' && dbc.dbName) {
 					// const client = await TypeDB.coreClient(dbc.url);
 					// const clientErr = undefined;
@@ -48,7 +94,7 @@ class BormClient {
 							// clientErr.messageTemplate?._messageBody() ?? "Can't create TypeDB Client"
 							clientErr.message ?? "Can't create TypeDB Client"
 						}`;
-						throw new Error(message);
+						throw new BormConnectionError(message, { code: 'CONNECTION_FAILED', cause: clientErr });
 					}
 					try {
 						const session = await client.session(dbc.dbName, SessionType.DATA);
@@ -58,7 +104,7 @@ class BormClient {
 							// eslint-disable-next-line no-underscore-dangle
 							(sessionErr.messageTemplate?._messageBody() || sessionErr.message) ?? "Can't create TypeDB Session"
 						}`;
-						throw new Error(message);
+						throw new BormConnectionError(message, { code: 'CONNECTION_FAILED', cause: sessionErr });
 					}
 				}
 				if (dbc.provider === 'typeDBCluster' && dbc.dbName) {
@@ -69,7 +115,7 @@ class BormClient {
 							// clientErr.messageTemplate?._messageBody() ?? "Can't create TypeDB Client"
 							clientErr.message ?? "Can't create TypeDB Cluster Client"
 						}`;
-						throw new Error(message);
+						throw new BormConnectionError(message, { code: 'CONNECTION_FAILED', cause: clientErr });
 					}
 					try {
 						const session = await client.session(dbc.dbName, SessionType.DATA);
@@ -79,7 +125,7 @@ class BormClient {
 							// eslint-disable-next-line no-underscore-dangle
 							(sessionErr.messageTemplate?._messageBody() || sessionErr.message) ?? "Can't create TypeDB Session"
 						}`;
-						throw new Error(message);
+						throw new BormConnectionError(message, { code: 'CONNECTION_FAILED', cause: sessionErr });
 					}
 				}
 			}),
@@ -93,7 +139,7 @@ class BormClient {
 		if (!this.dbHandles) {
 			await this.init();
 			if (!this.dbHandles) {
-				throw new Error("Can't init BormClient");
+				throw new BormConnectionError("Can't init BormClient", { code: 'CONNECTION_FAILED' });
 			}
 		}
 	};
@@ -103,24 +149,143 @@ class BormClient {
 		return this.schema;
 	};
 
-	define = async () => {
+	/// migrates the db to the schema, or deletes it and defines it again with { reset: true }
+	define = async (defineConfig?: DefineConfig) => {
 		await this.#enforceConnection();
-		return bormDefine(this.config, this.schema, this.dbHandles);
+		// @ts-expect-error - it becomes enrichedSchema after init
+		return bormDefine(this.config, this.schema, this.dbHandles, defineConfig);
+	};
+
+	/// the operations of the plugin run around the stages of every later query and mutation
+	use = (plugin: BormPlugin) => {
+		this.config = { ...this.config, plugins: [...(this.config.plugins || []), plugin] };
+		return this;
 	};
 
-	/// no types yet, but we can do "as ..." after getting the type fro the schema
-	query = async (query: RawBQLQuery, queryConfig?: QueryConfig) => {
+	query = async <const Q extends BQLQueryInput, const C extends QueryConfig = QueryConfig>(
+		query: Q,
+		queryConfig?: C,
+	): Promise<C extends { dryRun: true } ? BQLDryRun : BQLQueryResult<S, Q, C>> => {
 		await this.#enforceConnection();
+		await this.#transactions;
+		// @ts-expect-error - enforceConnection ensures dbHandles is defined
+		return this.#query(this.dbHandles, query, queryConfig);
+	};
+
+	mutate = async <const C extends MutateConfig = MutateConfig>(
+		mutation: BQLMutationInput<S> | readonly BQLMutationInput<S>[],
+		mutationConfig?: C,
+	): Promise<MutationResult<C>> => {
+		await this.#enforceConnection();
+		await this.#transactions;
+		// @ts-expect-error - enforceConnection ensures dbHandles is defined
+		return this.#mutate(this.dbHandles, mutation, mutationConfig);
+	};
+
+	/// every query and mutation of the callback runs in a single write transaction, so they see the writes before them.
+	/// It is committed when the callback resolves and rolled back when it throws.
+	/// The callback must use tx: the queries and mutations of the bormClient wait until the transaction ends
+	transaction = async <T>(callback: (tx: BormTransaction<S>) => Promise<T>): Promise<T> => {
+		await this.#enforceConnection();
+		const dbHandles = this.dbHandles as DBHandles;
+		const [dbConnector, ...otherDbConnectors] = this.config.dbConnectors;
+		if (otherDbConnectors.length) {
+			throw new BormConnectionError(
+				`Transactions are only supported with a single dbConnector, and this bormClient has ${this.config.dbConnectors.length}`,
+				{ code: 'TRANSACTION_FAILED' },
+			);
+		}
+		if (dbConnector.provider === 'memory' || dbConnector.provider === 'sqlite') {
+			const run = this.#transactions.then(() =>
+				dbConnector.provider === 'memory'
+					? this.#memoryTransaction(dbHandles, callback)
+					: this.#sqliteTransaction(dbHandles, callback),
+			);
+			this.#transactions = run.catch(() => undefined);
+			return run;
+		}
+		const { client, session } = await getSessionOrOpenNewOne(dbHandles, dbConnector);
+		const transaction = await session.transaction(TransactionType.WRITE);
+		if (!client || !transaction) {
+			throw new BormConnectionError("Can't create transaction", { code: 'TRANSACTION_FAILED' });
+		}
+		const txHandles = { typeDB: new Map([[dbConnector.id, { client, session, transaction }]]) };
+		const tx: BormTransaction<S> = {
+			query: async (query, queryConfig) => this.#query(txHandles, query, queryConfig),
+			mutate: async (mutation, mutationConfig) => this.#mutate(txHandles, mutation, mutationConfig),
+		};
+
+		try {
+			const result = await callback(tx);
+			await transaction.commit();
+			return result;
+		} catch (e) {
+			if (transaction.isOpen()) {
+				await transaction.rollback();
+			}
+			throw e;
+		} finally {
+			if (transaction.isOpen()) {
+				await transaction.close();
+			}
+		}
+	};
+
+	/// memory stores are replaced on every write, so rolling back is restoring the stores they had before the callback
+	#memoryTransaction = async <T>(
+		dbHandles: DBHandles,
+		callback: (tx: BormTransaction<S>) => Promise<T>,
+	): Promise<T> => {
+		const stores = new Map([...(dbHandles.memory || [])].map(([id, { store }]) => [id, store]));
+		const tx: BormTransaction<S> = {
+			query: async (query, queryConfig) => this.#query(dbHandles, query, queryConfig),
+			mutate: async (mutation, mutationConfig) => this.#mutate(dbHandles, mutation, mutationConfig),
+		};
+		try {
+			return await callback(tx);
+		} catch (e) {
+			stores.forEach((store, id) => dbHandles.memory?.set(id, { store }));
+			throw e;
+		}
+	};
+
+	/// the mutations of the callback run in savepoints of the sqlite transaction
+	#sqliteTransaction = async <T>(
+		dbHandles: DBHandles,
+		callback: (tx: BormTransaction<S>) => Promise<T>,
+	): Promise<T> => {
+		const { db } = getSQLiteHandle(dbHandles, this.config.dbConnectors[0].id);
+		const tx: BormTransaction<S> = {
+			query: async (query, queryConfig) => this.#query(dbHandles, query, queryConfig),
+			mutate: async (mutation, mutationConfig) => this.#mutate(dbHandles, mutation, mutationConfig),
+		};
+		db.exec('BEGIN');
+		try {
+			const result = await callback(tx);
+			db.exec('COMMIT');
+			return result;
+		} catch (e) {
+			db.exec('ROLLBACK');
+			throw e;
+		}
+	};
+
+	#query = <Q extends BQLQueryInput, C extends QueryConfig>(dbHandles: DBHandles, query: Q, queryConfig?: C) => {
 		const qConfig = {
 			...this.config,
 			query: { ...defaultConfig.query, ...this.config.query, ...queryConfig },
 		};
-		// @ts-expect-error - enforceConnection ensures dbHandles is defined
-		return queryPipeline(query, qConfig, this.schema, this.dbHandles);
+		// @ts-expect-error - it is an enrichedSchema after init
+		return queryPipeline(query as RawBQLQuery, qConfig, this.schema, dbHandles) as Promise<
+			C extends { dryRun: true } ? BQLDryRun : BQLQueryResult<S, Q, C>
+		>;
 	};
 
-	mutate = async (mutation: RawBQLMutation | RawBQLMutation[], mutationConfig?: MutateConfig) => {
-		await this.#enforceConnection();
+	#mutate = <C extends MutateConfig>(
+		dbHandles: DBHandles,
+		mutation: BQLMutationInput<S> | readonly BQLMutationInput<S>[],
+		mutationConfig?: C,
+	) => {
 		const mConfig = {
 			...this.config,
 			mutation: {
@@ -129,14 +294,17 @@ class BormClient {
 				...mutationConfig,
 			},
 		};
-		// @ts-expect-error - enforceConnection ensures dbHandles is defined
-		return mutationPipeline(mutation, mConfig, this.schema, this.dbHandles);
+		// @ts-expect-error - it is an enrichedSchema after init
+		return mutationPipeline(mutation as RawBQLMutation | RawBQLMutation[], mConfig, this.schema, dbHandles) as Promise<
+			MutationResult<C>
+		>;
 	};
 
 	close = async () => {
 		if (!this.dbHandles) {
 			return;
 		}
+		this.dbHandles.sqlite?.forEach(({ db }) => db.close());
 		this.dbHandles.typeDB.forEach(async ({ client, session }) => {
 			console.log('Closing session');
 			await session.close();
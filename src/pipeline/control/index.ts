@@ -1,2 +0,0 @@
-export * from './dispatchPipeline';
-// export * from './buildMutationQuery';
@@ -1,15 +1,23 @@
 /* eslint-disable no-await-in-loop */
-import type { ConceptMap, ConceptMapGroup, JSONObject } from 'typedb-driver';
+import type { ConceptMap, JSONObject } from 'typedb-driver';
 
-import { dispatchPipeline } from './control';
-import { buildBQLTree, parseTQLRes } from './postprocess';
-import { parseBQLQuery, /* buildTQLQuery */ buildTQLFetchQuery } from './preprocess';
-import { buildTQLMutation } from './preprocess/buildTQLMutation';
+import type { BormAdapter } from '../adapters';
+import { adapters } from '../adapters';
+import { getDBConnector } from '../helpers';
+import { buildBQLTree } from './postprocess';
+import { parseBQLQuery } from './preprocess';
 import { fillBQLMutation } from './preprocess/fill';
+import { runAfterHooks } from './preprocess/hooks';
 import { parseBQLMutation } from './preprocess/parseBQLMutation';
 import { preQuery } from './preprocess/preQuery';
-import { runTQLQuery } from './transaction';
-import { runTQLMutation } from './transaction/runTQLMutation';
+import { getFederatedQueries, getPlaceholderThings, splitBQLQuery } from './preprocess/splitBQLQuery';
+import type { FederatedMutation } from './preprocess/splitBQLMutation';
+import {
+	getCompensation,
+	mergeMutationNodes,
+	mergeMutationResults,
+	splitBQLMutation,
+} from './preprocess/splitBQLMutation';
 import type {
 	BormConfig,
 	BQLResponse,
@@ -21,14 +29,28 @@ import type {
 	TQLRequest,
 	FilledBQLMutationBlock,
 	BQLResponseMulti,
+	BQLMutationResult,
+	BQLDryRun,
+	BQLDryRunRequest,
+	AggregateAnswer,
+	MemoryRequest,
+	MemoryResponse,
+	SQLiteRequest,
+	SQLiteResponse,
+	ProviderObject,
+	RawBQLMutation,
+	PipelineStage,
+	AdapterStage,
 } from '../types';
 
-export type RelationName = string;
-export type EntityName = string;
+/// a thing of a fetch answer, with its dataFields and the subqueries of its link and role fields already parsed
+export type FetchedThing = ({ $entity: string } | { $relation: string }) & { $id: string } & Record<string, any>;
 
-export type ID = string;
-type EntityID = ID;
-export type Entity = { $entity: string; $id: string; $show?: boolean } & Record<string, any>;
+/// the things of a fetch answer and the response of the subquery fetching their fields stored in another dbConnector
+export type FederatedThings = {
+	things: FetchedThing[];
+	res: { things?: FetchedThing[]; federated?: FederatedThings[] };
+};
 
 type Request = {
 	rawBqlRequest: RawBQLRequest;
@@ -37,32 +59,26 @@ type Request = {
 	schema: EnrichedBormSchema;
 	config: BormConfig;
 	tqlRequest?: TQLRequest;
+	memoryRequest?: MemoryRequest;
+	sqliteRequest?: SQLiteRequest;
 	dbHandles: DBHandles;
+	dbConnector: ProviderObject; // the db running the request
 };
 
 type Response = {
 	rawTqlRes?: {
 		// queries
-		entity?: ConceptMapGroup[] | JSONObject[];
-		roles?: {
-			path: string;
-			ownerPath: string;
-			conceptMapGroups: ConceptMapGroup[] | JSONObject[];
-		}[];
-		relations?: {
-			relation: string;
-			entity: string;
-			conceptMapGroups: ConceptMapGroup[] | JSONObject[];
-		}[];
+		entity?: JSONObject[];
+		aggregates?: AggregateAnswer[];
 		// mutations
 		insertions?: ConceptMap[];
 	};
-	cache?: {
-		entities: Map<EntityName, Map<EntityID, Entity>>;
-		relations: Map<RelationName, Map<EntityName, EntityID>[]>;
-		roleLinks: Map<EntityID, { [path: string]: EntityID | EntityID[] }>;
-	};
+	rawMemoryRes?: MemoryResponse;
+	rawSQLiteRes?: SQLiteResponse;
+	things?: FetchedThing[];
+	federated?: FederatedThings[];
 	bqlRes?: BQLResponse | null;
+	dryRunRequests?: BQLDryRunRequest[];
 };
 
 type NextPipeline = {
@@ -75,13 +91,150 @@ export type PipelineOperation = (req: Request, res: Response) => Promise<void |
 
 type Pipeline = PipelineOperation[];
 
-const Pipelines: Record<string, Pipeline> = {
-	query: [parseBQLQuery, buildTQLFetchQuery, runTQLQuery, parseTQLRes, dispatchPipeline],
-	mutation: [fillBQLMutation, preQuery, parseBQLMutation, buildTQLMutation, runTQLMutation, parseTQLRes],
+/// fields stored in other dbConnectors are fetched by the $id of their things, and stitched back in buildBQLTree
+const federateQuery: PipelineOperation = async (req, res) => {
+	const { rawBqlRequest, schema, config, dbHandles, dbConnector } = req;
+	if (!res.things) {
+		return [];
+	}
+	return getFederatedQueries(config, schema, rawBqlRequest, res.things, dbConnector).map(
+		({ dbConnector: federatedDBConnector, query, things }) => {
+			const federatedRes: Response = {};
+			res.federated = [...(res.federated || []), { things, res: federatedRes }];
+			return {
+				req: { config, schema, dbHandles, rawBqlRequest: query, dbConnector: federatedDBConnector },
+				res: federatedRes,
+				pipeline: getPipelines(adapters[federatedDBConnector.provider], config).query,
+			};
+		},
+	);
+};
+
+/// dry runs keep the request built for the db instead of running it
+const keepDryRunRequest: PipelineOperation = async (req, res) => {
+	const { dbConnector, filledBqlRequest, bqlRequest, tqlRequest, memoryRequest, sqliteRequest } = req;
+	res.dryRunRequests = [
+		...(res.dryRunRequests || []),
+		{
+			dbConnector: dbConnector.id,
+			...(filledBqlRequest && { filledBqlRequest }),
+			...(bqlRequest && { bqlRequest }),
+			...(tqlRequest && { tqlRequest }),
+			...(memoryRequest && { memoryRequest }),
+			...(sqliteRequest && { sqliteRequest }),
+		},
+	];
+};
+
+/// the federated queries of a dry run match placeholder things, and keep their requests in the same response
+const federateDryRunQuery: PipelineOperation = async (req, res) => {
+	const { rawBqlRequest, bqlRequest, schema, config, dbHandles, dbConnector } = req;
+	if (!bqlRequest?.query) {
+		throw new Error('BQL query not parsed');
+	}
+	const { query } = bqlRequest;
+	const thingSchema = '$entity' in query ? query.$entity : query.$relation;
+	const things = getPlaceholderThings(schema, thingSchema, rawBqlRequest);
+	return getFederatedQueries(config, schema, rawBqlRequest, things, dbConnector).map(
+		({ dbConnector: federatedDBConnector, query: federatedQuery }) => ({
+			req: { config, schema, dbHandles, rawBqlRequest: federatedQuery, dbConnector: federatedDBConnector },
+			res,
+			pipeline: getPipelines(adapters[federatedDBConnector.provider], config).query,
+		}),
+	);
+};
+
+/// the after hooks of the things run once the mutation is written
+const afterHooks: PipelineOperation = async (req) => {
+	const { schema, config, filledBqlRequest } = req;
+	if (filledBqlRequest) {
+		await runAfterHooks(schema, filledBqlRequest, config.mutation?.context || {});
+	}
+};
+
+/// the operations of the plugins run before and after the stage they hook into, the ones of its specific name
+/// closest to it. Dry run stages have no plugins
+const withPlugins = (
+	config: BormConfig,
+	stages: Record<string, PipelineOperation>,
+	specificNames: Record<string, AdapterStage> = {},
+): Pipeline =>
+	Object.entries(stages).flatMap(([stage, operation]) => {
+		const plugins = config.plugins || [];
+		const names = [stage as PipelineStage, ...(specificNames[stage] ? [specificNames[stage]] : [])];
+		return [
+			...names.flatMap((name) => plugins.flatMap((plugin) => plugin.before?.[name] || [])),
+			operation,
+			...[...names].reverse().flatMap((name) => plugins.flatMap((plugin) => plugin.after?.[name] || [])),
+		];
+	});
+
+/// the build, run and parse stages of the adapter, like buildTQLQuery
+const getAdapterStages = (
+	adapter: BormAdapter,
+	request: 'Query' | 'Aggregate' | 'Mutation',
+): Record<string, AdapterStage> => ({
+	build: `build${adapter.name}${request}`,
+	run: `run${adapter.name}${request}`,
+	parse: `parse${adapter.name}${request}`,
+});
+
+/// the db adapter builds, runs and parses the requests, the rest of the pipeline is the same for every db.
+/// Dry runs stop once the requests are built
+const getPipelines = (adapter: BormAdapter, config: BormConfig): Record<string, Pipeline> => ({
+	query: withPlugins(
+		config,
+		{
+			parseBQLQuery,
+			splitBQLQuery,
+			build: adapter.query.build,
+			...(config.query?.dryRun
+				? { keepDryRunRequest, federateDryRunQuery }
+				: { run: adapter.query.run, parse: adapter.query.parse, federateQuery }),
+		},
+		getAdapterStages(adapter, 'Query'),
+	),
+	aggregate: withPlugins(
+		config,
+		{
+			parseBQLQuery,
+			splitBQLQuery,
+			build: adapter.aggregate.build,
+			...(config.query?.dryRun
+				? { keepDryRunRequest }
+				: { run: adapter.aggregate.run, parse: adapter.aggregate.parse }),
+		},
+		getAdapterStages(adapter, 'Aggregate'),
+	),
+	mutation: withPlugins(
+		config,
+		{
+			fillBQLMutation,
+			preQuery,
+			parseBQLMutation,
+			build: adapter.mutation.build,
+			...(config.mutation?.dryRun
+				? { keepDryRunRequest }
+				: { run: adapter.mutation.run, parse: adapter.mutation.parse, afterHooks }),
+		},
+		getAdapterStages(adapter, 'Mutation'),
+	),
+});
+
+/// requests use the dbConnector of their root thing, or the first one of the config
+const getRootDBConnector = (
+	bqlRequest: RawBQLRequest | RawBQLRequest[],
+	bormConfig: BormConfig,
+	bormSchema: EnrichedBormSchema,
+) => {
+	const [root] = Array.isArray(bqlRequest) ? bqlRequest : [bqlRequest];
+	const thingName = root && ('$entity' in root ? root.$entity : root.$relation);
+	const thingSchema = thingName ? bormSchema.entities[thingName] ?? bormSchema.relations[thingName] : undefined;
+	return getDBConnector(bormConfig, thingSchema?.defaultDBConnector.id);
 };
 
 // const finalPipeline = [buildBQLTree, processFieldsOperator, processIdOperator];
-const finalPipeline = [buildBQLTree];
+const getFinalPipeline = (config: BormConfig) => withPlugins(config, { buildBQLTree });
 
 const runPipeline = async (
 	pipeline: Pipeline,
@@ -105,8 +258,11 @@ const runPipeline = async (
 			}
 		}
 	}
+	if (root && res.dryRunRequests) {
+		return { requests: res.dryRunRequests } as BQLResponse;
+	}
 	if (root) {
-		await runPipeline(finalPipeline, req, res, false);
+		await runPipeline(getFinalPipeline(req.config), req, res, false);
 		// console.log(res.tqlRes?.entities.map((e) => e.entries));
 		/// when debugging add the tqlRequest
 		/// todo: At some point, make the debugger more precise so we can decide what to add in this object (for instance also the answer?)
@@ -120,36 +276,104 @@ const runPipeline = async (
 	return res.bqlRes as BQLResponse;
 };
 
+/// queries with $aggregate return a BQLAggregateResponse, or a BQLGroupedAggregateResponse when grouped
 export const queryPipeline = (
 	bqlRequest: RawBQLRequest,
 	bormConfig: BormConfig,
 	bormSchema: EnrichedBormSchema,
 	dbHandles: DBHandles,
+	dbConnector = getRootDBConnector(bqlRequest, bormConfig, bormSchema),
 ) =>
 	runPipeline(
-		Pipelines.query,
+		getPipelines(adapters[dbConnector.provider], bormConfig)[bqlRequest.$aggregate ? 'aggregate' : 'query'],
 		{
 			config: bormConfig,
 			schema: bormSchema,
 			rawBqlRequest: bqlRequest,
 			dbHandles,
+			dbConnector,
 		},
 		{},
 	);
 
+/// upserts and pre-queries match the things in the write transaction of the mutation, when the db has one
+const runMutationPipeline = (
+	bqlRequest: RawBQLRequest | RawBQLMutation[],
+	bormConfig: BormConfig,
+	bormSchema: EnrichedBormSchema,
+	dbHandles: DBHandles,
+	dbConnector: ProviderObject,
+) => {
+	const adapter = adapters[dbConnector.provider];
+	const run = (handles: DBHandles) =>
+		runPipeline(
+			getPipelines(adapter, bormConfig).mutation,
+			{
+				config: bormConfig,
+				schema: bormSchema,
+				rawBqlRequest: bqlRequest as RawBQLRequest,
+				dbHandles: handles,
+				dbConnector,
+			},
+			{},
+		) as Promise<BQLResponseMulti>;
+	return adapter.writeTransaction && !bormConfig.mutation?.dryRun
+		? adapter.writeTransaction(dbHandles, dbConnector, run)
+		: run(dbHandles);
+};
+
+/// Each dbConnector writes its part of the mutation on its own. When one of them fails, the parts already written are
+/// compensated as far as possible: their created things are deleted and their updated dataFields get their values back
+const runFederatedMutation = async (
+	mutations: FederatedMutation[],
+	bormConfig: BormConfig,
+	bormSchema: EnrichedBormSchema,
+	dbHandles: DBHandles,
+) => {
+	/// nothing is written in dry runs, so there is nothing to compensate
+	if (bormConfig.mutation?.dryRun) {
+		const dryRuns = await Promise.all(
+			mutations.map((mutation) =>
+				runMutationPipeline(mutation.blocks, bormConfig, bormSchema, dbHandles, mutation.dbConnector),
+			),
+		);
+		return { requests: (dryRuns as unknown as BQLDryRun[]).flatMap((dryRun) => dryRun.requests) } as BQLDryRun;
+	}
+	const written: { dbConnector: ProviderObject; compensation: RawBQLMutation[] }[] = [];
+	const results: BQLResponseMulti[] = [];
+	for (const mutation of mutations) {
+		const compensation = await getCompensation(mutation, bormConfig, bormSchema, dbHandles);
+		try {
+			results.push(await runMutationPipeline(mutation.blocks, bormConfig, bormSchema, dbHandles, mutation.dbConnector));
+		} catch (e) {
+			for (const { dbConnector, compensation: compensationBlocks } of written.reverse()) {
+				if (compensationBlocks.length) {
+					await runMutationPipeline(compensationBlocks, bormConfig, bormSchema, dbHandles, dbConnector).catch(
+						() => undefined,
+					);
+				}
+			}
+			throw e;
+		}
+		written.push({ dbConnector: mutation.dbConnector, compensation });
+	}
+	return bormConfig.mutation?.structuredResult
+		? mergeMutationNodes(results as unknown as BQLMutationResult[])
+		: mergeMutationResults(results);
+};
+
 export const mutationPipeline = (
 	bqlRequest: RawBQLRequest,
 	bormConfig: BormConfig,
 	bormSchema: EnrichedBormSchema,
 	dbHandles: DBHandles,
-) =>
-	runPipeline(
-		Pipelines.mutation,
-		{
-			config: bormConfig,
-			schema: bormSchema,
-			rawBqlRequest: bqlRequest,
-			dbHandles,
-		},
-		{},
-	) as Promise<BQLResponseMulti>;
+) => {
+	const dbConnector = getRootDBConnector(bqlRequest, bormConfig, bormSchema);
+	const mutations = splitBQLMutation(bqlRequest, bormConfig, bormSchema, dbConnector);
+	/// the fields of the mutation might all be stored in another dbConnector
+	const [firstMutation] = mutations;
+	if (mutations.length > 1 || (firstMutation && firstMutation.dbConnector.id !== dbConnector.id)) {
+		return runFederatedMutation(mutations, bormConfig, bormSchema, dbHandles);
+	}
+	return runMutationPipeline(bqlRequest, bormConfig, bormSchema, dbHandles, dbConnector);
+};
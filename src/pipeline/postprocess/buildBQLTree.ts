@@ -4,22 +4,20 @@ import type { TraversalCallbackContext } from 'object-traversal';
 import { traverse } from 'object-traversal';
 import { isObject, listify } from 'radash';
 
-import { getCurrentFields, notNull, oFilter } from '../../helpers';
-import type { BormConfig, BQLFieldObj, BQLMutationBlock, RawBQLQuery } from '../../types';
-import type { Entity, PipelineOperation } from '../pipeline';
+import { BormValidationError } from '../../errors';
+import { getCurrentFields, getCurrentSchema, getLinkedThingSchema, getThingId } from '../../helpers';
+import type {
+	BormConfig,
+	BQLFieldObj,
+	BQLMutationBlock,
+	BQLMutationNode,
+	BQLMutationResult,
+	EnrichedBormSchema,
+	RawBQLQuery,
+} from '../../types';
+import type { FederatedThings, FetchedThing, PipelineOperation } from '../pipeline';
 import { compute } from '../../engine/compute';
 
-const isOne = (children: any[], $id: string) => {
-	if (children.length === 1 && typeof children[0] !== 'string' ? children[0].$id === $id : false) {
-		return children[0];
-	}
-	return children;
-};
-
-const isStringOrHasShow = <TValue extends { $show?: boolean }>(value: TValue | string): value is TValue => {
-	return typeof value === 'string' || !!value.$show;
-};
-
 const cleanOutput = (obj: RawBQLQuery | BQLMutationBlock | BQLMutationBlock[], config: BormConfig) =>
 	produce(obj, (draft) =>
 		traverse(draft, ({ value }: TraversalCallbackContext) => {
@@ -36,6 +34,15 @@ const cleanOutput = (obj: RawBQLQuery | BQLMutationBlock | BQLMutationBlock[], c
 			if (value.$filter) {
 				delete value.$filter;
 			}
+			if (value.$limit !== undefined) {
+				delete value.$limit;
+			}
+			if (value.$offset !== undefined) {
+				delete value.$offset;
+			}
+			if (value.$sort) {
+				delete value.$sort;
+			}
 			if (value.$show) {
 				delete value.$show;
 			}
@@ -63,70 +70,6 @@ const cleanOutput = (obj: RawBQLQuery | BQLMutationBlock | BQLMutationBlock[], c
 		}),
 	);
 
-const filterChildrenEntities = (things: [string, Entity][], ids: string | string[], node: RawBQLQuery, path: string) =>
-	things
-		.map(([id, entity]) => {
-			if (!ids) {
-				return null;
-			}
-			if (!ids.includes(id)) {
-				return null;
-			}
-			if (!node.$fields) {
-				return id;
-			}
-			if (node.$fields.includes(path)) {
-				return id;
-			}
-			const currentFieldConf = node.$fields.find((f) => isObject(f) && f.$path === path) as BQLFieldObj;
-
-			if (currentFieldConf) {
-				const onlyMetadataEntity = {
-					...oFilter(entity, (k: string, _v) => k.startsWith('$')),
-				};
-				const withFieldsEntity = currentFieldConf.$fields
-					? {
-							...onlyMetadataEntity,
-							$fields: currentFieldConf.$fields,
-					  }
-					: onlyMetadataEntity;
-				// console.log('withFieldsEntity', withFieldsEntity);
-
-				if (currentFieldConf.$id) {
-					if (Array.isArray(currentFieldConf.$id)) {
-						if (currentFieldConf.$id.includes(id)) {
-							return withFieldsEntity;
-						}
-						return null;
-					}
-					if (currentFieldConf.$id === id) {
-						return withFieldsEntity;
-					}
-				}
-				// console.log('Main log: ', JSON.stringify(withFieldsEntity, null, 2));
-
-				if (withFieldsEntity.$fields && withFieldsEntity.$fields.includes('id') && !withFieldsEntity.$show) {
-					let returnVal = '';
-
-					withFieldsEntity.$fields.forEach((field: string) => {
-						if (field === 'id') {
-							// @ts-expect-error - TODO description
-							returnVal = withFieldsEntity.$id;
-						} else {
-							// @ts-expect-error - TODO description
-							returnVal = withFieldsEntity;
-						}
-					});
-					return returnVal;
-				}
-				// no id, then every entity
-				// TODO: include other branch merge changes here
-				return withFieldsEntity;
-			}
-			return null;
-		})
-		.filter((x) => x);
-
 const replaceBzIds = (resItems: any[], things: any[]) => {
 	const mapping = {};
 
@@ -165,10 +108,129 @@ const hasMatches = (resItems: any[], things: any[]): boolean => {
 	return found;
 };
 
+/// every node of the mutation with its final $id, and the ids of the things created for its $tempIds
+const getMutationResult = (schema: EnrichedBormSchema, things: BQLMutationBlock[]): BQLMutationResult => {
+	const nodes = things.map((thing): BQLMutationNode => {
+		const id = thing.$id ?? getThingId(getCurrentSchema(schema, thing), thing);
+		return {
+			...(thing.$entity ? { $entity: thing.$entity } : { $relation: thing.$relation }),
+			$op: thing[Symbol.for('nodeOp') as any] ?? thing.$op,
+			...(id !== undefined && { $id: id }),
+			...(thing.$tempId && { $tempId: `_:${thing.$tempId}` }),
+			...(thing.$upsert && { $upsert: thing.$upsert }),
+			path: thing[Symbol.for('nodePath') as any] ?? '',
+		};
+	});
+	const tempIdMap = Object.fromEntries(
+		nodes
+			.filter((node) => node.$op === 'create' && node.$tempId && typeof node.$id === 'string')
+			.map((node) => [node.$tempId, node.$id]),
+	);
+	return { nodes, tempIdMap };
+};
+
+type QueryNode = RawBQLQuery | BQLFieldObj;
+
+const isQueried = (node: QueryNode, path: string) =>
+	(!node.$fields || node.$fields.some((f) => (typeof f === 'string' ? f : f.$path) === path)) &&
+	!node.$excludedFields?.includes(path);
+
+/// The fetch answers are already nested, sorted and paginated, so each thing just takes the shape of its node
+const buildThing = (schema: EnrichedBormSchema, config: BormConfig, node: QueryNode, thing: FetchedThing) => {
+	const currentSchema = '$relation' in thing ? schema.relations[thing.$relation] : schema.entities[thing.$entity];
+	const { dataFields, linkFields, roleFields, fields } = getCurrentFields(currentSchema);
+
+	const output: Record<string, unknown> = config.query?.noMetadata
+		? {}
+		: { [`$${currentSchema.thingType}`]: currentSchema.name, $id: thing.$id };
+
+	if (config.query?.returnNulls) {
+		/// by default, all queried values are null, then they will be override by the different things if they find values
+		/// this enables to update caches if values have been deleted
+		fields
+			.filter((path) => isQueried(node, path))
+			.forEach((path) => {
+				output[path] = null;
+			});
+	}
+
+	// #region DATAFIELDS
+	dataFields.forEach((path) => {
+		if (!isQueried(node, path)) {
+			return;
+		}
+		if (thing[path] !== undefined) {
+			output[path] = thing[path];
+			return;
+		}
+		/// Virtual fields
+		if (currentSchema.virtualFields?.includes(path)) {
+			const fieldSchema = currentSchema.dataFields?.find((x) => x.path === path);
+			output[path] = compute({ currentThing: thing, fieldSchema });
+		}
+	});
+	// #endregion
+
+	// #region LINK AND ROLE FIELDS
+	[...linkFields, ...roleFields].forEach((path) => {
+		const linkedThings = thing[path] as FetchedThing[] | number | undefined;
+		if (linkedThings === undefined || !isQueried(node, path)) {
+			return;
+		}
+		/// nested $count
+		if (typeof linkedThings === 'number') {
+			output[path] = linkedThings;
+			return;
+		}
+		if (linkedThings.length === 0) {
+			return;
+		}
+		const fieldNode = node.$fields?.find((f) => isObject(f) && f.$path === path) as BQLFieldObj | undefined;
+		const linkedSchema = getLinkedThingSchema(schema, currentSchema, path);
+		/// things of a type extending the one of the field are returned as ids, even when the field has $fields
+		const children = linkedThings.map((linkedThing) =>
+			fieldNode &&
+			(!linkedSchema || ('$entity' in linkedThing ? linkedThing.$entity : linkedThing.$relation) === linkedSchema.name)
+				? buildThing(schema, config, fieldNode, linkedThing)
+				: linkedThing.$id,
+		);
+
+		const cardinality =
+			'roles' in currentSchema && currentSchema.roles[path]
+				? currentSchema.roles[path].cardinality
+				: currentSchema.linkFields?.find((lf) => lf.path === path)?.cardinality;
+
+		/// an $id specified in a nested field returns an object and not an array
+		const isOne = cardinality === 'ONE' || (fieldNode?.$id && !Array.isArray(fieldNode.$id));
+		output[path] = isOne ? children[0] : children;
+	});
+	// #endregion
+
+	return output;
+};
+
+/// the things fetched from other dbConnectors give their fields to the things with their $id, nested federations first
+const stitchFederatedThings = (federated: FederatedThings[] | undefined) => {
+	federated?.forEach(({ things, res }) => {
+		stitchFederatedThings(res.federated);
+		const federatedThings = new Map((res.things || []).map((thing) => [thing.$id, thing]));
+		things.forEach((thing) => {
+			const federatedThing = federatedThings.get(thing.$id);
+			if (!federatedThing) {
+				return;
+			}
+			Object.entries(federatedThing)
+				.filter(([key]) => !key.startsWith('$'))
+				.forEach(([key, value]) => {
+					thing[key] = value;
+				});
+		});
+	});
+};
+
 export const buildBQLTree: PipelineOperation = async (req, res) => {
 	const { bqlRequest, config, schema } = req;
 	// const queryConfig = config.query;
-	const { cache } = res;
 	// console.log('cache', cache);
 	if (!bqlRequest) {
 		throw new Error('BQL request not parsed');
@@ -176,6 +238,10 @@ export const buildBQLTree: PipelineOperation = async (req, res) => {
 
 	const { query } = bqlRequest;
 	if (!query) {
+		if (config.mutation?.structuredResult) {
+			res.bqlRes = getMutationResult(schema, bqlRequest.mutation?.things || []);
+			return;
+		}
 		// @ts-expect-error - TODO description
 		const resItems = res.bqlRes[0] ? res.bqlRes : [res.bqlRes];
 		const things = req.bqlRequest?.mutation?.things;
@@ -192,22 +258,19 @@ export const buildBQLTree: PipelineOperation = async (req, res) => {
 
 		return;
 	}
-	if (!cache) {
+	stitchFederatedThings(res.federated);
+	const { things } = res;
+	if (!things) {
 		return;
 	}
 
 	const thingSchema = '$entity' in query ? query.$entity : query.$relation;
 
-	const entityMap = cache.entities.get(thingSchema.name);
-	if (!entityMap) {
-		res.bqlRes = null;
-		return;
-	}
-
-	// todo:
-	// @ts-expect-error - TODO description
-	const filterFields = listify(query.$filter, (x) => x);
-	const atLeastOneUnique = filterFields.some(
+	/// only equality filters on unique fields guarantee a single result
+	const equalityFilterFields = listify(query.$filter || {}, (k: string, v) =>
+		Array.isArray(v) || (isObject(v) && !('$eq' in v)) ? undefined : k,
+	).filter(Boolean);
+	const atLeastOneUnique = equalityFilterFields.some(
 		(x) => thingSchema.dataFields?.find((y) => y.path === x)?.validations?.unique,
 	);
 
@@ -219,309 +282,14 @@ export const buildBQLTree: PipelineOperation = async (req, res) => {
 	// || !bqlRequest.query.limit !== 1;
 
 	if (Array.isArray(req.rawBqlRequest)) {
-		throw new Error('Query arrays not implemented yet');
+		throw new BormValidationError('Query arrays not implemented yet', { code: 'INVALID_REQUEST' });
 	}
 
-	const rootThings = entityMap;
-	// root element is not an array but we need it to be one so we can traverse it
-	const structuredAnswer = [...rootThings].length
-		? [...rootThings].map(([id, _entity]) => ({
-				...req.rawBqlRequest,
-				$id: id,
-		  }))
-		: req.rawBqlRequest;
-
-	const bqlTree = produce(structuredAnswer, (draft) =>
-		traverse(draft, ({ value: val }: TraversalCallbackContext) => {
-			const value = val as RawBQLQuery;
-			// @ts-expect-error - TODO description
-			if (!value?.$entity && !value?.$relation) {
-				return;
-			}
-
-			const thingName = '$entity' in value ? value.$entity : value.$relation;
-			if (thingName) {
-				// INIT
-				const currentIds = Array.isArray(value.$id) ? value.$id : [value.$id];
-				const currentSchema = '$relation' in value ? schema.relations[value.$relation] : schema.entities[value.$entity];
-
-				const { dataFields, roleFields, fields } = getCurrentFields(currentSchema);
-
-				if (config.query?.returnNulls) {
-					/// by default, all queried values are null, then they will be override by the different things if they find values
-					/// this enables to update caches if values have been deleted
-					const queriedPaths = value.$fields ? value.$fields.map((x) => (typeof x === 'string' ? x : x.$path)) : fields;
-					queriedPaths.forEach((path) => {
-						// @ts-expect-error - TODO description
-						value[path] = null;
-					});
-				}
-
-				// #region DATAFIELDS
-				const currentEntities = cache.entities.get(thingName);
-				if (!currentEntities) {
-					return;
-				}
-
-				[...currentEntities].forEach(([id, entity]) => {
-					if (currentIds.includes(id)) {
-						// if $fields is present, only return those fields, if not, everything
-						const queriedDataFields = value.$fields ? value.$fields : dataFields;
-
-						/// Virtual fields
-						const { virtualFields } = currentSchema;
-						//for each vitualFIelfd present in the queried datas print them
-						virtualFields?.forEach((virtualField) => {
-							if (
-								queriedDataFields?.includes(virtualField) &&
-								// @ts-expect-error - No need to compute if it was received somehow from the DB or if it is not a virtual field
-								(value[virtualField] === undefined || value[virtualField] === null)
-							) {
-								const fieldSchema = currentSchema.dataFields?.find((x) => x.path === virtualField);
-								const computedValue = compute({ currentThing: entity, fieldSchema: fieldSchema });
-
-								// @ts-expect-error - TODO description
-								value[virtualField] = computedValue;
-							}
-						});
-
-						listify(entity, (k, v) => {
-							if (k.startsWith('$')) {
-								return;
-							}
-							if (!queriedDataFields?.includes(k)) {
-								return;
-							}
-							// @ts-expect-error - TODO description
-							value[k] = v;
-						});
-
-						// #endregion
-						// #region ROLE FIELDS
-						const links = cache.roleLinks.get(id);
-						const flatRoleFields = value.$fields ? value.$fields.filter((x) => typeof x === 'string') : roleFields;
-
-						const embeddedRoleFields =
-							value.$fields
-								?.filter((x) => typeof x === 'object')
-								// @ts-expect-error already said it's an object 🤔
-								?.map((y) => y.$path) || [];
-
-						Object.entries(links || {}).forEach(([rolePath, linkedIds]) => {
-							// if not listed, skip
-							if (![...flatRoleFields, ...embeddedRoleFields].includes(rolePath)) {
-								return;
-							}
-							if (!('roles' in currentSchema)) {
-								throw new Error('No roles in schema');
-							}
-							const uniqueLinkedIds = !Array.isArray(linkedIds) ? [linkedIds] : [...new Set(linkedIds)];
-
-							const { cardinality, playedBy } = currentSchema.roles[rolePath];
-
-							const thingNames = [...new Set(playedBy?.map((x) => x.thing))];
-
-							const children = thingNames?.flatMap((x) => {
-								const thingEntities = cache.entities.get(x);
-								if (!thingEntities) {
-									return [];
-								}
-								return filterChildrenEntities([...thingEntities], uniqueLinkedIds, value, rolePath);
-							});
-
-							if (children?.length) {
-								// if the only children is the current entity, don't return it
-								if (children.length === 1 && children[0] === value.$id) {
-									return;
-								}
-
-								if (cardinality === 'ONE') {
-									// @ts-expect-error - TODO description
-									// eslint-disable-next-line prefer-destructuring
-									value[rolePath] = children[0];
-									return;
-								}
-								// @ts-expect-error - TODO description
-								value[rolePath] = children.filter((x) => typeof x === 'string' || (typeof x === 'object' && x?.$show));
-							}
-						});
-					}
-				});
-				// #endregion
-				// #region LINKFIELDS
-				const currentLinkFields = currentSchema.linkFields;
-				if (currentLinkFields) {
-					currentLinkFields.forEach((linkField) => {
-						// console.log('linkField', linkField);
-
-						const currentRelation = cache.relations.get(linkField.relation) as
-							| undefined
-							| Map<string, { entityName: string; id: string }>[];
-						// console.log('currentRelation', currentRelation);
-						// FIX: show get the related entity, not the parent one
-						const tunnel = linkField.oppositeLinkFieldsPlayedBy;
-						if (!currentRelation) {
-							return null;
-						}
-
-						// FIX: should be fixed to match new relation object type
-						if (linkField.target === 'relation') {
-							const linkedEntities = [...currentRelation].reduce((acc: Record<string, Set<string>>, relation) => {
-								const id = relation.get(linkField.plays)?.id;
-								if (id && id === currentIds[0]) {
-									// TODO: should never undefined, relation implies at least 2 roles
-									// check why some relations have size 1
-									const opposingRole = relation.get(linkField.relation) as
-										| {
-												entityName: string;
-												id: string;
-										  }
-										| undefined;
-									if (!opposingRole) {
-										return acc;
-									}
-									if (!acc[opposingRole.entityName]) {
-										acc[opposingRole.entityName] = new Set();
-									}
-									acc[opposingRole.entityName].add(opposingRole.id);
-								}
-								return acc;
-							}, {});
-
-							Object.entries(linkedEntities).map(([key, linkedEntityVal]) => {
-								const allCurrentLinkFieldThings = cache.entities.get(key);
-								if (!allCurrentLinkFieldThings) {
-									return null;
-								}
-
-								const children = filterChildrenEntities(
-									[...allCurrentLinkFieldThings],
-									[...linkedEntityVal.values()],
-									value,
-									linkField.path,
-								)
-									.filter(notNull)
-									.filter(isStringOrHasShow);
-
-								if (children.length === 0) {
-									return null;
-								}
-
-								if (children && children.length) {
-									if (linkField.cardinality === 'ONE') {
-										// @ts-expect-error - TODO description
-										// eslint-disable-next-line prefer-destructuring
-										value[linkField.path] = children[0];
-										return null;
-									}
-									// @ts-expect-error - TODO description
-									value[linkField.path] = children;
-								}
-
-								return null;
-							});
-
-							// console.log('children', children);
-							return null;
-						}
-						if (linkField.target === 'role') {
-							// Maybe should iterate over role and then get opposing entityIds
-							tunnel.forEach((t) => {
-								if (!currentRelation) {
-									return;
-								}
-
-								const linkedEntities = [...currentRelation].reduce((acc: Record<string, Set<string>>, relation) => {
-									// Check why I need to use t.
-									const id = relation.get(linkField.plays)?.id;
-									if (id && id === currentIds[0]) {
-										// TODO: should never undefined, relation implies at least 2 roles
-										// check why some relations have size 1
-										const opposingRole = relation.get(t.plays) as
-											| {
-													entityName: string;
-													id: string;
-											  }
-											| undefined;
-										if (!opposingRole) {
-											return acc;
-										}
-										if (!acc[opposingRole.entityName]) {
-											acc[opposingRole.entityName] = new Set();
-										}
-										acc[opposingRole.entityName].add(opposingRole.id);
-									}
-
-									return acc;
-								}, {});
-
-								Object.entries(linkedEntities).forEach(([key, linkedEntityVal]) => {
-									const allCurrentLinkFieldThings = cache.entities.get(key);
-									if (!allCurrentLinkFieldThings) {
-										return;
-									}
-									const children = filterChildrenEntities(
-										[...allCurrentLinkFieldThings],
-										[...linkedEntityVal.values()],
-										value,
-										linkField.path,
-									)
-										.filter(notNull)
-										.filter(isStringOrHasShow);
-									if (children.length === 0) {
-										return;
-									}
-
-									if (children && children.length) {
-										if (linkField.cardinality === 'ONE') {
-											// @ts-expect-error - TODO description
-											// eslint-disable-next-line prefer-destructuring
-											value[linkField.path] = children[0];
-											return;
-										}
-										// @ts-expect-error - TODO description
-										value[linkField.path] = children;
-
-										let filtered: { $id?: string } | { $id?: string }[] = {};
-										const filterFunc = (o: any): boolean => {
-											if (o.$path === linkField.path) {
-												filtered = o;
-											}
-											return o?.$fields?.forEach(filterFunc);
-										};
-										let pathAndIdMatch = '';
-										query.$fields?.forEach(filterFunc);
-										if (filtered) {
-											if (!Array.isArray(filtered.$id)) {
-												// @ts-expect-error - TODO description
-												pathAndIdMatch = filtered.$id;
-
-												// if (filtered.$id.length === 1) {
-												//   const firstEl = filtered.$id[0];
-												//   pathAndIdMatch = firstEl;
-												// }
-											}
-										}
-										// @ts-expect-error - TODO description
-										value[linkField.path] = isOne(children, pathAndIdMatch);
-									}
-								});
-								// const $id = $fieldConf ? $fieldConf.$id : null;
-								// const childrenCurrentIds = Array.isArray($id) ? $id : [$id];
-							});
-						}
-						return null;
-					});
-				}
-				// #endregion
-			}
-			//   console.log('VALUE', isDraft(value) ? current(value) : value);
-		}),
-	);
-
-	const withoutFieldFilters = cleanOutput(bqlTree, config);
+	if (things.length === 0) {
+		res.bqlRes = null;
+		return;
+	}
+	const bqlTree = things.map((thing) => buildThing(schema, config, req.rawBqlRequest, thing));
 
-	// res.bqlRes = monoOutput ? bqlRes[0] : bqlRes;
-	// @ts-expect-error - TODO description
-	res.bqlRes = monoOutput ? withoutFieldFilters[0] : withoutFieldFilters;
+	res.bqlRes = monoOutput ? bqlTree[0] : bqlTree;
 };
@@ -2,3 +2,4 @@ export * from './parseTQLRes';
 export * from './fieldsOperator';
 export * from './idOperator';
 export * from './buildBQLTree';
+export * from './parseTQLAggregateRes';
@@ -0,0 +1,37 @@
+import type { AggregateAnswer, ParsedBQLQuery } from '../../types';
+import type { PipelineOperation } from '../pipeline';
+
+const getGroupKey = (owner: unknown) => `${owner instanceof Date ? owner.valueOf() : owner}`;
+
+/// The BQL response of the aggregates answered by any db
+export const getAggregateRes = (query: ParsedBQLQuery, aggregates: AggregateAnswer[]) => {
+	if (!query.$groupBy) {
+		return Object.fromEntries(aggregates.map(({ name, value }) => [name, value ?? null]));
+	}
+
+	/// GROUPED: every aggregate has its own groups, which are merged by the value of the $groupBy field
+	const { $groupBy } = query;
+	const groups = new Map<string, Record<string, unknown>>();
+	aggregates.forEach(
+		({ name, groups: aggregateGroups }) =>
+			aggregateGroups?.forEach(({ owner, value }) => {
+				const key = getGroupKey(owner);
+				const group = groups.get(key) || { [$groupBy]: owner };
+				group[name] = value ?? null;
+				groups.set(key, group);
+			}),
+	);
+	return [...groups.values()];
+};
+
+export const parseTQLAggregateRes: PipelineOperation = async (req, res) => {
+	const { bqlRequest } = req;
+	const { rawTqlRes } = res;
+	if (!bqlRequest?.query) {
+		throw new Error('BQL request not parsed');
+	}
+	if (!rawTqlRes?.aggregates) {
+		throw new Error('TQL aggregate query not executed');
+	}
+	res.bqlRes = getAggregateRes(bqlRequest.query, rawTqlRes.aggregates);
+};
@@ -31,7 +31,7 @@ export const buildTQLQuery: PipelineOperation = async (req) => {
 		}
 	}
 
-	const localFiltersTql = getLocalFilters(currentThingSchema, query);
+	const localFiltersTql = getLocalFilters(currentThingSchema, query.$localFilters, `$${thingPath}`);
 
 	const allRoles =
 		'roles' in currentThingSchema
@@ -42,8 +42,8 @@ export const buildTQLQuery: PipelineOperation = async (req) => {
 			  }))
 			: [];
 
-	// when typeQL stops combination: const queryStr = `match $${thingPath} ${rolesQuery} isa ${thingPath}, has attribute $attribute ${localFiltersTql} ${idFilter} get; group $${thingPath};`;
-	const queryStr = `match $${thingPath}  isa ${thingPath}, has attribute $attribute ${localFiltersTql} ${idFilter} get; group $${thingPath};`;
+	// when typeQL stops combination: const queryStr = `match $${thingPath} ${rolesQuery} isa ${thingPath}, has attribute $attribute ${idFilter} ${localFiltersTql} get; group $${thingPath};`;
+	const queryStr = `match $${thingPath}  isa ${thingPath}, has attribute $attribute ${idFilter} ${localFiltersTql} get; group $${thingPath};`;
 
 	const rolesObj = allRoles.map((role) => {
 		// todo role played by multiple linkfields
@@ -68,7 +68,11 @@ export const buildTQLQuery: PipelineOperation = async (req) => {
 				relationIdFilter += ` ${relationIdParam} "${query.$id}";`;
 			}
 		}
-		const entityMatch = `match $${linkField.plays} isa ${thingPath}${localFiltersTql} ${relationIdFilter}`;
+		const entityMatch = `match $${linkField.plays} isa ${thingPath} ${relationIdFilter} ${getLocalFilters(
+			currentThingSchema,
+			query.$localFilters,
+			`$${linkField.plays}`,
+		)}`;
 		// if the target is the relation
 		const dirRel = linkField.target === 'relation'; // direct relation
 		const tarRel = linkField.relation;
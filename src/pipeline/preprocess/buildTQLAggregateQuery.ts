@@ -0,0 +1,93 @@
+import { BormValidationError } from '../../errors';
+import { getLocalFilters, getNestedFilters, getPermissionsTql, getTypeQLIdFilter, notNull } from '../../helpers';
+import type { BQLAggregate } from '../../types';
+import type { PipelineOperation } from '../pipeline';
+
+const tqlAggregates: Record<keyof BQLAggregate, string> = {
+	count: 'count',
+	sum: 'sum',
+	avg: 'mean',
+	min: 'min',
+	max: 'max',
+};
+
+/// typeQL allows a single aggregate per query, so each aggregate is a query sharing the same match
+export const buildTQLAggregateQuery: PipelineOperation = async (req) => {
+	const { schema, bqlRequest, config } = req;
+	if (!bqlRequest?.query) {
+		throw new Error('BQL query not parsed');
+	}
+	const { query } = bqlRequest;
+	if (!query.$aggregate) {
+		throw new Error('BQL query has no $aggregate');
+	}
+	const currentThingSchema = '$entity' in query ? query.$entity : query.$relation;
+
+	const thingPath = currentThingSchema.defaultDBConnector.path || currentThingSchema.name;
+	if (!thingPath) {
+		throw new Error(`No thing path in ${JSON.stringify(currentThingSchema)}`);
+	}
+	const thingVar = `$${thingPath}`;
+
+	const filtersTql = [
+		getLocalFilters(currentThingSchema, query.$localFilters, thingVar),
+		getNestedFilters(schema, currentThingSchema, query.$nestedFilters, thingVar, config.query?.context),
+		getPermissionsTql(schema, currentThingSchema, config.query?.context, thingVar),
+	]
+		.filter(Boolean)
+		.join(' ');
+
+	const getDbPath = (path: string) => {
+		const dataField = currentThingSchema.dataFields?.find((df) => df.path === path);
+		if (!dataField) {
+			throw new BormValidationError(`'${path}' is not a dataField of ${currentThingSchema.name}`, {
+				code: 'UNKNOWN_FIELD',
+				path: '$aggregate',
+			});
+		}
+		return dataField.dbPath;
+	};
+
+	const getGroupByTql = () => {
+		if (!query.$groupBy) {
+			return { groupVar: undefined, tql: '' };
+		}
+		const groupVar = `${thingVar}_group`;
+		return { groupVar, tql: `${thingVar} has ${getDbPath(query.$groupBy)} ${groupVar};` };
+	};
+
+	const group = getGroupByTql();
+	// * as in the fetch queries, only things of the queried type are aggregated
+	const match = `match ${thingVar} isa! ${thingPath}; ${getTypeQLIdFilter(
+		currentThingSchema,
+		thingVar,
+		query.$id,
+	)} ${filtersTql} ${group.tql}`;
+
+	const aggregateEntries = Object.entries(query.$aggregate) as [keyof BQLAggregate, BQLAggregate[keyof BQLAggregate]][];
+	const aggregates = aggregateEntries
+		.map(([name, value]) => {
+			if (!value) {
+				return null;
+			}
+			const aggregateVar = `${thingVar}_${name}`;
+			// * the thing is always in the get, as answers are deduplicated and things may share the same attribute
+			const getVars = [thingVar, group.groupVar, name === 'count' ? undefined : aggregateVar]
+				.filter(Boolean)
+				.join(', ');
+			const valueTql = name === 'count' ? '' : `${thingVar} has ${getDbPath(value as string)} ${aggregateVar};`;
+			const groupTql = group.groupVar ? ` group ${group.groupVar};` : '';
+			const aggregateTql = name === 'count' ? 'count;' : `${tqlAggregates[name]} ${aggregateVar};`;
+
+			return {
+				name,
+				grouped: !!group.groupVar,
+				request: `${match} ${valueTql} get ${getVars};${groupTql} ${aggregateTql}`,
+			};
+		})
+		.filter(notNull);
+
+	req.tqlRequest = {
+		aggregates,
+	};
+};
@@ -1,112 +1,200 @@
-import { listify } from 'radash';
-
-import { getLocalFilters } from '../../helpers';
+import { BormValidationError } from '../../errors';
+import {
+	getContentTypeStorage,
+	getCurrentFields,
+	getLinkTql,
+	getLinkedThingSchema,
+	getLocalFilters,
+	getNestedFilters,
+	getPermissionsTql,
+	getTypeQLIdFilter,
+} from '../../helpers';
+import type {
+	AuthContext,
+	BQLFieldObj,
+	EnrichedBormEntity,
+	EnrichedBormRelation,
+	EnrichedBormSchema,
+	RawBQLQuery,
+} from '../../types';
 import type { PipelineOperation } from '../pipeline';
 
-export const buildTQLFetchQuery: PipelineOperation = async (req) => {
-	const { schema, bqlRequest } = req;
-	if (!bqlRequest?.query) {
-		throw new Error('BQL query not parsed');
+type ThingSchema = EnrichedBormEntity | EnrichedBormRelation;
+type FetchNode = Omit<BQLFieldObj, '$path'>;
+
+/// the key of every fetched thing in the answers, so they can be parsed without knowing the var names
+export const FETCHED_THING_KEY = '$thing';
+
+const getFiltersTql = (
+	schema: EnrichedBormSchema,
+	thingSchema: ThingSchema,
+	node: Pick<RawBQLQuery, '$filter'>,
+	thingVar: string,
+	context: AuthContext | undefined,
+) => {
+	if (!node.$filter) {
+		return '';
 	}
-	const { query } = bqlRequest;
-	const currentThingSchema = '$entity' in query ? query.$entity : query.$relation;
+	// * same split as the root one in parseBQLQuery
+	const { localFilters, nestedFilters } = getCurrentFields(thingSchema, { $filter: node.$filter } as RawBQLQuery);
+	return [
+		getLocalFilters(thingSchema, localFilters, thingVar),
+		getNestedFilters(schema, thingSchema, nestedFilters, thingVar, context),
+	]
+		.filter(Boolean)
+		.join(' ');
+};
 
-	const thingPath = currentThingSchema.defaultDBConnector.path || currentThingSchema.name;
-	if (!thingPath) {
-		throw new Error(`No thing path in ${JSON.stringify(currentThingSchema)}`);
-	}
+/// Things without a value in a sorted field can't be bound to the sort, so they are fetched apart, under this key
+/// in nested fields, and appended to the sorted ones
+export const UNSORTED_KEY_SUFFIX = '$unsorted';
 
-	// todo: composite Ids
-	if (!currentThingSchema.idFields) {
-		throw new Error('No id fields');
-	}
-	const [idField] = currentThingSchema.idFields;
-	const idParam = `$${thingPath}_id`;
-	let idFilter = `, has ${idField} ${idParam};`;
-	if (query.$id) {
-		if (Array.isArray(query.$id)) {
-			idFilter += ` ${idParam} like "${query.$id.join('|')}";`;
-		} else {
-			idFilter += ` ${idParam} "${query.$id}";`;
-		}
-	}
+/// the page of a sorted fetch, taken from the sorted things followed by the ones without the sorted values
+export const getFetchedPage = <T>(node: Pick<FetchNode, '$offset' | '$limit'>, sorted: T[], unsorted: T[]) => {
+	const offset = node.$offset ?? 0;
+	return [...sorted, ...unsorted].slice(offset, node.$limit === undefined ? undefined : offset + node.$limit);
+};
 
-	const localFiltersTql = getLocalFilters(currentThingSchema, query);
-
-	const allRoles =
-		'roles' in currentThingSchema
-			? listify(currentThingSchema.roles, (k: string, v) => ({
-					path: k,
-					var: `$${k}`,
-					schema: v,
-			  }))
-			: [];
-
-	// when typeQL stops combination: const queryStr = `match $${thingPath} ${rolesQuery} isa ${thingPath}, has attribute $attribute ${localFiltersTql} ${idFilter} get; group $${thingPath};`;
-	const queryStr = `match $${thingPath}  isa ${thingPath}, has attribute $attribute ${localFiltersTql} ${idFilter} fetch $${thingPath} as ${thingPath}: attribute as all-attributes;`;
-
-	const rolesObj = allRoles.map((role) => {
-		// todo role played by multiple linkfields
-		// if all roles are played by the same thing, thats fine
-		if (!role.schema.playedBy || [...new Set(role.schema.playedBy?.map((x) => x.thing))].length !== 1) {
-			throw new Error('Unsupported: Role played by multiple linkfields or none');
+const getModifiersTql = (thingSchema: ThingSchema, node: FetchNode, thingVar: string) => {
+	// * Sorted fields need to be bound in the match. Things missing any of them are matched by the unsorted match
+	const sortVars = (node.$sort || []).map((sort, i) => {
+		const dataField = thingSchema.dataFields?.find((df) => df.path === sort.field);
+		if (!dataField) {
+			throw new BormValidationError(`Can't sort by '${sort.field}', it is not a dataField of ${thingSchema.name}`, {
+				code: 'UNKNOWN_FIELD',
+				path: '$sort',
+			});
 		}
-		const roleThingName = role.schema.playedBy[0].thing;
+		if (getContentTypeStorage(dataField).parts) {
+			throw new BormValidationError(`Can't sort by '${sort.field}', which is of type ${dataField.contentType}`, {
+				code: 'INVALID_REQUEST',
+				path: '$sort',
+			});
+		}
+		const sortVar = `${thingVar}_sort${i}`;
 		return {
-			path: role.path,
-			owner: thingPath,
-			request: `match $${thingPath} (${role.path}: ${role.var} ) isa ${thingPath} ${idFilter} ${role.var} isa ${roleThingName}, has id ${role.var}_id; fetch $${thingPath} as ${thingPath}: attribute as all-attributes;`,
+			match: `${thingVar} has ${dataField.dbPath} ${sortVar};`,
+			sort: `${sortVar} ${sort.desc ? 'desc' : 'asc'}`,
 		};
 	});
-	const relations = currentThingSchema.linkFields?.flatMap((linkField) => {
-		const relationIdParam = `$${linkField.plays}_id`;
-		let relationIdFilter = `, has ${idField} ${relationIdParam};`;
-		if (query.$id) {
-			if (Array.isArray(query.$id)) {
-				relationIdFilter += ` ${relationIdParam} like "${query.$id.join('|')}";`;
-			} else {
-				relationIdFilter += ` ${relationIdParam} "${query.$id}";`;
-			}
-		}
-		const entityMatch = `match $${linkField.plays} isa ${thingPath}${localFiltersTql} ${relationIdFilter}`;
-		// if the target is the relation
-		const dirRel = linkField.target === 'relation'; // direct relation
-		const tarRel = linkField.relation;
-		const relVar = `$${tarRel}`;
+	if (!sortVars.length) {
+		const offsetTql = node.$offset !== undefined ? ` offset ${node.$offset};` : '';
+		const limitTql = node.$limit !== undefined ? ` limit ${node.$limit};` : '';
+		return { match: '', modifiers: `${offsetTql}${limitTql}` };
+	}
+	/// both fetches are paginated once merged, so each one returns every thing up to the end of the page
+	const limitTql = node.$limit !== undefined ? ` limit ${(node.$offset ?? 0) + node.$limit};` : '';
+	const match = sortVars.map((x) => x.match).join(' ');
+	return {
+		match,
+		modifiers: ` sort ${sortVars.map((x) => x.sort).join(', ')};${limitTql}`,
+		unsorted: { match: `not { ${match} };`, modifiers: limitTql },
+	};
+};
 
-		const relationMatchStart = `${dirRel ? relVar : ''} (${linkField.plays}: $${linkField.plays}`;
-		const relationMatchOpposite = linkField.oppositeLinkFieldsPlayedBy.map((link) =>
-			!dirRel ? `${link.plays}: $${link.plays}` : null,
-		);
+/// Every thing fetches all its attributes, and each of its link and role fields is a subquery of the same fetch.
+/// As subqueries can be sorted and paginated, $sort, $limit and $offset of nested fields are applied per parent.
+/// The read permissions of linked things are part of every subquery, so nested fields never return forbidden things
+const getFetchTql = (
+	schema: EnrichedBormSchema,
+	thingSchema: ThingSchema,
+	node: FetchNode,
+	thingVar: string,
+	context: AuthContext | undefined,
+): string => {
+	const { linkFields, roleFields } = getCurrentFields(thingSchema);
+	const linkAndRoleFields = [...linkFields, ...roleFields];
+	const queriedFields = node.$fields || linkAndRoleFields;
+
+	const subqueries = queriedFields.map((field, i) => {
+		const path = typeof field === 'string' ? field : field.$path;
+		if (!linkAndRoleFields.includes(path) || node.$excludedFields?.includes(path)) {
+			return undefined;
+		}
+		const linkedSchema = getLinkedThingSchema(schema, thingSchema, path);
+		if (!linkedSchema) {
+			throw new BormValidationError(`Field ${path} not found in ${thingSchema.name}`, {
+				code: 'UNKNOWN_FIELD',
+				path: '$fields',
+			});
+		}
+		const linkedVar = `${thingVar}_${i}`;
+		const linkTql = getLinkTql(schema, thingSchema, path, thingVar, linkedVar);
+		const permissionsTql = getPermissionsTql(schema, linkedSchema, context, linkedVar);
+
+		/// only the ids of things that are not expanded
+		if (typeof field === 'string') {
+			const idsMatchTql = [linkTql, permissionsTql].filter(Boolean).join(' ');
+			return `"${path}": { match ${idsMatchTql} fetch ${linkedVar} as "${FETCHED_THING_KEY}": ${(
+				linkedSchema.idFields || []
+			).join(', ')}; };`;
+		}
 
-		const roles = [relationMatchStart, ...relationMatchOpposite].filter((x) => x).join(',');
+		const matchTql = [
+			linkTql,
+			permissionsTql,
+			field.$id ? getTypeQLIdFilter(linkedSchema, linkedVar, field.$id) : '',
+			getFiltersTql(schema, linkedSchema, field, linkedVar, context),
+		]
+			.filter(Boolean)
+			.join(' ');
 
-		if (schema.relations[linkField.relation] === undefined) {
-			throw new Error(`Relation ${linkField.relation} not found in schema`);
+		if (field.$count) {
+			return `"${path}": { match ${matchTql} get ${linkedVar}; count; };`;
 		}
 
-		const relationPath = schema.relations[linkField.relation].defaultDBConnector.path || linkField.relation;
+		const { match, modifiers, unsorted } = getModifiersTql(linkedSchema, field, linkedVar);
+		const fetchTql = getFetchTql(schema, linkedSchema, field, linkedVar, context);
+		const sortedTql = `"${path}": { match ${[matchTql, match]
+			.filter(Boolean)
+			.join(' ')} fetch ${fetchTql}${modifiers} };`;
+		if (!unsorted) {
+			return sortedTql;
+		}
+		return `${sortedTql} "${path}${UNSORTED_KEY_SUFFIX}": { match ${matchTql} ${unsorted.match} fetch ${fetchTql}${unsorted.modifiers} };`;
+	});
 
-		const relationMatchEnd = `) isa ${relationPath};`;
+	return [`${thingVar} as "${FETCHED_THING_KEY}": attribute;`, ...subqueries.filter(Boolean)].join(' ');
+};
 
-		const relationIdFilters = linkField.oppositeLinkFieldsPlayedBy
-			.map(
-				// TODO: composite ids.
-				// TODO: Also id is not always called id
-				(link) =>
-					`$${dirRel ? link.thing : link.plays} isa ${link.thing}, has id $${dirRel ? link.thing : link.plays}_id;`,
-			)
-			.join(' ');
+export const buildTQLFetchQuery: PipelineOperation = async (req) => {
+	const { schema, bqlRequest, config } = req;
+	if (!bqlRequest?.query) {
+		throw new Error('BQL query not parsed');
+	}
+	const { query } = bqlRequest;
+	const { context } = config.query || {};
+	const currentThingSchema = '$entity' in query ? query.$entity : query.$relation;
 
-		const group = `fetch $${linkField.plays} as ${linkField.plays}: attribute as all-attributes;`;
-		const request = `${entityMatch} ${roles} ${relationMatchEnd} ${relationIdFilters} ${group}`;
-		return { relation: relationPath, entity: thingPath, request };
-	});
+	const thingPath = currentThingSchema.defaultDBConnector.path || currentThingSchema.name;
+	if (!thingPath) {
+		throw new Error(`No thing path in ${JSON.stringify(currentThingSchema)}`);
+	}
+	const thingVar = `$${thingPath}`;
+
+	const filtersTql = [
+		getLocalFilters(currentThingSchema, query.$localFilters, thingVar),
+		getNestedFilters(schema, currentThingSchema, query.$nestedFilters, thingVar, context),
+		getPermissionsTql(schema, currentThingSchema, context, thingVar),
+	]
+		.filter(Boolean)
+		.join(' ');
+	const { match, modifiers, unsorted } = getModifiersTql(currentThingSchema, query, thingVar);
+
+	// * the root only returns things of the queried type, nested fields also return the extended ones
+	const matchTql = [
+		`${thingVar} isa! ${thingPath};`,
+		getTypeQLIdFilter(currentThingSchema, thingVar, query.$id),
+		filtersTql,
+	]
+		.filter(Boolean)
+		.join(' ');
+	const fetchTql = getFetchTql(schema, currentThingSchema, query, thingVar, context);
 
 	req.tqlRequest = {
-		entity: queryStr,
-		...(rolesObj?.length ? { roles: rolesObj } : {}),
-		...(relations?.length ? { relations } : {}),
+		entity: `match ${[matchTql, match].filter(Boolean).join(' ')} fetch ${fetchTql}${modifiers}`,
+		...(unsorted
+			? { unsortedEntity: `match ${matchTql} ${unsorted.match} fetch ${fetchTql}${unsorted.modifiers}` }
+			: {}),
 	};
-	console.log('req.tqlRequest', req.tqlRequest);
 };
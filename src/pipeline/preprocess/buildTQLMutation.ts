@@ -1,6 +1,12 @@
 import { isArray, listify, mapEntries, shake } from 'radash';
 
-import { getCurrentSchema } from '../../helpers';
+import {
+	encodeTypeQLAttributes,
+	encodeTypeQLIdAttributes,
+	getCurrentSchema,
+	getStorageDbPaths,
+	getTypeQLIdFilter,
+} from '../../helpers';
 import type { BQLMutationBlock } from '../../types';
 import type { PipelineOperation } from '../pipeline';
 
@@ -36,13 +42,10 @@ export const buildTQLMutation: PipelineOperation = async (req) => {
 
 		const idValue = node.$id;
 
-		// todo: composite ids
-		const idField = idFields?.[0];
-
 		const attributes = listify(node, (k, v) => {
 			// @ts-expect-error - TODO description
-			if (k.startsWith('$') || k === idField || v === undefined || v === null) {
-				return '';
+			if (k.startsWith('$') || idFields?.includes(k) || v === undefined || v === null) {
+				return [];
 			}
 			// if (k.startsWith('$') || !v) return '';
 			const currentDataField = currentSchema.dataFields?.find((x) => x.path === k);
@@ -51,34 +54,19 @@ export const buildTQLMutation: PipelineOperation = async (req) => {
 
 			if (!fieldDbPath) {
 				// throw new Error('noFieldDbPath');
-				return '';
-			}
-			const dbField = currentDataField.dbPath;
-
-			if (['TEXT', 'ID', 'EMAIL'].includes(currentDataField.contentType)) {
-				return `has ${dbField} '${v}'`;
-			}
-			if (['NUMBER', 'BOOLEAN'].includes(currentDataField.contentType)) {
-				return `has ${dbField} ${v}`;
+				return [];
 			}
-			if (currentDataField.contentType === 'DATE') {
-				if (Number.isNaN(v.valueOf())) {
-					throw new Error('Invalid format, Nan Date');
-				}
-				if (v instanceof Date) {
-					return `has ${dbField} ${v.toISOString().replace('Z', '')}`;
-				}
-				return `has ${dbField} ${new Date(v).toISOString().replace('Z', '')}`;
-			}
-			throw new Error(`Unsupported contentType ${currentDataField.contentType}`);
-		}).filter((x) => x);
+			/// each value of a MANY dataField is a different attribute
+			const values = currentDataField.cardinality === 'MANY' && isArray(v) ? v : [v];
+			return values.flatMap((value) => encodeTypeQLAttributes(value, currentDataField));
+		}).flat();
 
 		const attributesVar = `${bzId}-atts`;
 
 		const matchAttributes = listify(node, (k) => {
 			// @ts-expect-error - TODO description
-			if (k.startsWith('$') || k === idField) {
-				return '';
+			if (k.startsWith('$') || idFields?.includes(k)) {
+				return [];
 			}
 			// if (k.startsWith('$') || !v) return '';
 			const currentDataField = currentSchema.dataFields?.find((x) => x.path === k);
@@ -87,21 +75,17 @@ export const buildTQLMutation: PipelineOperation = async (req) => {
 
 			if (!fieldDbPath) {
 				// throw new Error('noFieldDbPath');
-				return '';
+				return [];
 			}
-			const dbField = currentDataField.dbPath;
-
-			return `{${attributesVar} isa ${dbField};}`;
-		}).filter((x) => x);
+			return getStorageDbPaths(currentDataField).map((dbField) => `{${attributesVar} isa ${dbField};}`);
+		}).flat();
 
 		const isLocalId: boolean = node[Symbol.for('isLocalId') as any]; /// this are local ids that are ony used to define links between stuff but that are not in the db (the "all-xxx" ids)
 
-		const idValueTQL = isArray(idValue) ? `like '${idValue.join('|')}'` : `'${idValue}'`;
-		const idAttributes =
-			!isLocalId && idValue // it must have id values, and they must be realDBIds
-				? // if it is a relation, add only the id fields in the lines where we add the roles also so it does not get defined twice
-				  [`has ${idField} ${idValueTQL}`]
-				: [];
+		const hasDbId = !isLocalId && !!idValue; // it must have id values, and they must be realDBIds
+		/// created things have every idField, the others are matched by their $id
+		const idAttributes = hasDbId && op === 'create' ? encodeTypeQLIdAttributes(currentSchema, idValue) : [];
+		const idMatch = hasDbId && op !== 'create' ? ` ${getTypeQLIdFilter(currentSchema, bzId, idValue)}` : '';
 
 		const allAttributes = [...idAttributes, ...attributes].filter((x) => x).join(',');
 
@@ -109,13 +93,13 @@ export const buildTQLMutation: PipelineOperation = async (req) => {
 			// if (node.$tempId) return ''; /// commented because we need tempIds to work when replacing a unlink/link all operation
 			// todo: ensure parents belong to grandparents. [https://github.com/Blitzapps/blitz/issues/9]
 			if (op === 'delete' || op === 'unlink' || op === 'match') {
-				return `${bzId} isa ${[thingDbPath, ...idAttributes].filter((x) => x).join(',')};`;
+				return `${bzId} isa ${thingDbPath};${idMatch}`;
 			}
 			if (op === 'update') {
 				if (!matchAttributes.length) {
 					throw new Error('update without attributes');
 				}
-				return `${bzId} isa ${[thingDbPath, ...idAttributes].filter((x) => x).join(',')}, has ${attributesVar};
+				return `${bzId} isa ${thingDbPath}, has ${attributesVar};${idMatch}
         ${matchAttributes.join(' or ')};`;
 			}
 			return '';
@@ -125,7 +109,7 @@ export const buildTQLMutation: PipelineOperation = async (req) => {
 			// todo: ensure parents belong to grandparents. [https://github.com/Blitzapps/blitz/issues/9]
 			// if (node.$tempId) return ''; /// same as getDeletionMatch
 			if (op === 'update' || op === 'link' || op === 'match') {
-				return `${bzId} isa ${[thingDbPath, ...idAttributes].filter((x) => x).join(',')};`;
+				return `${bzId} isa ${thingDbPath};${idMatch}`;
 			}
 			return '';
 		};
@@ -228,7 +212,7 @@ export const buildTQLMutation: PipelineOperation = async (req) => {
 				return `${relationTql};`;
 			}
 			if (op === 'create') {
-				return `${relationTql}, has id '${idValue}';`;
+				return `${relationTql}, ${encodeTypeQLIdAttributes(currentSchema, idValue).join(', ')};`;
 			}
 			return '';
 		};
@@ -4,7 +4,8 @@ import { traverse, getNodeByPath } from 'object-traversal';
 import { isObject, listify, shake } from 'radash';
 import { v4 as uuidv4 } from 'uuid';
 
-import { getCurrentFields, getCurrentSchema, oFind } from '../../helpers';
+import { BormConflictError, BormSchemaError, BormValidationError } from '../../errors';
+import { getCurrentFields, getCurrentSchema, getThingId, oFind } from '../../helpers';
 import type {
 	BQLMutationBlock,
 	EnrichedBormRelation,
@@ -12,9 +13,40 @@ import type {
 	EnrichedLinkField,
 	EnrichedRoleField,
 	FilledBQLMutationBlock,
+	RightType,
 } from '../../types';
 import type { PipelineOperation } from '../pipeline';
 import { compute } from '../../engine/compute';
+import type { ValidatedNode } from '../../validations';
+import { ValidationError, getValidationIssues } from '../../validations';
+import { fillWithBeforeHooks } from './hooks';
+import { getUpsertKey, resolveUpserts } from './upsert';
+
+/// The rights a field needs so a node can go through it with each op. Replaces unlink the current things and link the new ones,
+/// and upserts might create or update
+const opRights: Record<string, RightType[]> = {
+	create: ['CREATE'],
+	update: ['UPDATE'],
+	delete: ['DELETE'],
+	link: ['LINK'],
+	unlink: ['UNLINK'],
+	replace: ['LINK', 'UNLINK'],
+	upsert: ['CREATE', 'UPDATE'],
+	match: [],
+};
+
+/// Fields without rights allow every op
+const checkRights = (rights: readonly RightType[] | undefined, op: string, path: string) => {
+	const missingRights = (opRights[op] || []).filter((right) => !rights?.includes(right));
+	if (rights && missingRights.length) {
+		throw new BormValidationError(
+			`[Rights] Operation ${op} refused in '${path}', the field requires ${missingRights.join(', ')} and only allows ${
+				rights.join(', ') || 'nothing'
+			}`,
+			{ code: 'RIGHTS_REFUSED', path },
+		);
+	}
+};
 
 // parseBQLQueryObjectives:
 // 1) Validate the query (getRawBQLQuery)
@@ -23,7 +55,7 @@ import { compute } from '../../engine/compute';
 const sanitizeTempId = (id: string): string => {
 	// Ensure the string starts with "_:"
 	if (!id.startsWith('_:')) {
-		throw new Error("ID must start with '_:'.");
+		throw new BormValidationError("ID must start with '_:'.", { code: 'INVALID_TEMP_ID' });
 	}
 
 	// Remove the prefix "_:" for further validation
@@ -31,19 +63,21 @@ const sanitizeTempId = (id: string): string => {
 
 	// Ensure there are no symbols (only alphanumeric characters, hyphens, and underscores)
 	if (!/^[a-zA-Z0-9-_]+$/.test(sanitizedId)) {
-		throw new Error('$tempId must contain only alphanumeric characters, hyphens, and underscores.');
+		throw new BormValidationError('$tempId must contain only alphanumeric characters, hyphens, and underscores.', {
+			code: 'INVALID_TEMP_ID',
+		});
 	}
 
 	// Ensure the ID is no longer than 36 characters (including the "_:" prefix)
 	if (id.length > 36) {
-		throw new Error('$tempId must not be longer than 36 characters.');
+		throw new BormValidationError('$tempId must not be longer than 36 characters.', { code: 'INVALID_TEMP_ID' });
 	}
 
 	return sanitizedId;
 };
 
 export const fillBQLMutation: PipelineOperation = async (req) => {
-	const { rawBqlRequest, schema } = req;
+	const { rawBqlRequest, schema, config } = req;
 
 	// STEP 1, remove undefined stuff and sanitize tempIds
 	const shakeBqlRequest = (blocks: BQLMutationBlock | BQLMutationBlock[]): BQLMutationBlock | BQLMutationBlock[] => {
@@ -64,16 +98,24 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
 
 	const shakedBqlRequest = shakeBqlRequest(rawBqlRequest);
 
+	/// values of dataFields can be objects (JSON, POINT), which are not nodes. Their paths are stored when their node is visited
+	const dataFieldValuePaths = new Set<string>();
+	const isDataFieldValue = (nodePath?: string | null) =>
+		!!nodePath && [...dataFieldValuePaths].some((path) => nodePath === path || nodePath.startsWith(`${path}.`));
+
 	// console.log('shakedBqlRequest', JSON.stringify(shakedBqlRequest, null, 3));
 
 	const stringToObjects = (blocks: BQLMutationBlock | BQLMutationBlock[]): BQLMutationBlock | BQLMutationBlock[] => {
 		return produce(blocks, (draft) =>
 			traverse(draft, ({ value: val, meta, key }: TraversalCallbackContext) => {
-				if (isObject(val)) {
+				if (isObject(val) && !isDataFieldValue(meta.nodePath)) {
 					// <---------------mutating all objects---------------->
 					// @ts-expect-error - TODO description
 					if (val.$arrayOp) {
-						throw new Error('Array op not supported yet');
+						throw new BormValidationError('Array op not supported yet', {
+							code: 'INVALID_OP',
+							path: meta.nodePath || '',
+						});
 					}
 					/// ignore filters. In the future maybe transform the shortcuts of filters here (like $eq being a default)
 					if (key === '$filter' || meta.nodePath?.includes('.$filter.')) {
@@ -83,7 +125,10 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
 					const value = val as BQLMutationBlock; /// removing undefined values, nulls are no shaked as they are used to delete fields
 
 					if (value.$op === 'create' && value.$id) {
-						throw new Error("Can't write to computed field $id. Try writing to the id field directly.");
+						throw new BormValidationError("Can't write to computed field $id. Try writing to the id field directly.", {
+							code: 'READ_ONLY_FIELD',
+							path: meta.nodePath || '',
+						});
 					}
 					// console.log('<---------------------value', isDraft(value) ? current(value) : value);
 
@@ -94,7 +139,10 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
 					const notRoot = nodePathArray?.filter((x) => Number.isNaN(parseInt(x, 10))).join('.');
 
 					if (!currentSchema) {
-						throw new Error(`Schema not found for ${value.$entity || value.$relation}`);
+						throw new BormSchemaError(`Schema not found for ${value.$entity || value.$relation}`, {
+							code: 'UNKNOWN_THING',
+							path: meta.nodePath || '',
+						});
 					}
 
 					value.$bzId = value.$tempId ?? `T_${uuidv4()}`;
@@ -102,7 +150,10 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
 					value[Symbol.for('schema') as any] = currentSchema;
 					value[Symbol.for('dbId') as any] = currentSchema.defaultDBConnector.id;
 
-					const { usedLinkFields, usedRoleFields } = getCurrentFields(currentSchema, value);
+					const { usedLinkFields, usedRoleFields, dataFields, usedFields } = getCurrentFields(currentSchema, value);
+					dataFields
+						?.filter((path) => usedFields.includes(path))
+						.forEach((path) => dataFieldValuePaths.add(meta.nodePath ? `${meta.nodePath}.${path}` : path));
 
 					type RoleFieldMap = {
 						fieldType: 'roleField';
@@ -142,8 +193,9 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
 						usedLinkFieldsMap.some((x) => x.schema?.target === 'role') &&
 						usedLinkFieldsMap.some((x) => x.schema?.target === 'relation')
 					) {
-						throw new Error(
+						throw new BormValidationError(
 							"Unsupported: Can't use a link field with target === 'role' and another with target === 'relation' in the same mutation.",
+							{ code: 'INVALID_REQUEST', path: meta.nodePath || '' },
 						);
 					}
 
@@ -153,12 +205,13 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
 					);
 
 					if (multiplayedRoles.length > 1) {
-						throw new Error(
+						throw new BormValidationError(
 							`Field: ${
 								multiplayedRoles[0].path
 							} - If a role can be played by multiple things, you must specify the thing in the mutation: ${JSON.stringify(
 								multiplayedRoles[0].schema.playedBy,
 							)}. Schema: ${JSON.stringify(multiplayedRoles[0].schema)}`,
+							{ code: 'INVALID_REQUEST', path: meta.nodePath || '' },
 						);
 					}
 
@@ -167,6 +220,7 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
 					/// <---------------mutating children objects ---------------->
 					[...usedLinkFieldsMap, ...usedRoleFieldsMap]?.forEach((currentField) => {
 						const currentValue = value[currentField.path];
+						const fieldPath = currentPath ? `${currentPath}.${currentField.path}` : currentField.path;
 
 						/// ignore undefined
 						if (currentValue === undefined) {
@@ -177,7 +231,10 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
 						const currentFieldSchema = currentField.schema;
 
 						if (!currentFieldSchema) {
-							throw new Error(`Field ${currentField.path} not found in schema`);
+							throw new BormValidationError(`Field ${currentField.path} not found in schema`, {
+								code: 'UNKNOWN_FIELD',
+								path: fieldPath,
+							});
 						}
 
 						const currentEdgeSchema =
@@ -209,12 +266,18 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
 						// console.log('currentFieldRole', currentFieldRole);
 
 						if (currentFieldRole?.playedBy?.length === 0) {
-							throw new Error(`unused role: ${currentPath}.${currentField.path}`);
+							throw new BormSchemaError(`unused role: ${currentPath}.${currentField.path}`, {
+								code: 'INVALID_SCHEMA',
+								path: fieldPath,
+							});
 						}
 
 						/// <-- VALIDATIONS -->
 						if (!currentFieldSchema) {
-							throw new Error(`Field ${currentField.path} not found in schema`);
+							throw new BormValidationError(`Field ${currentField.path} not found in schema`, {
+								code: 'UNKNOWN_FIELD',
+								path: fieldPath,
+							});
 						}
 
 						const oppositeFields =
@@ -223,22 +286,29 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
 								: (currentFieldSchema as EnrichedRoleField)?.playedBy;
 
 						if (!oppositeFields) {
-							throw new Error(`No opposite fields found for ${JSON.stringify(currentFieldSchema)}`);
+							throw new BormSchemaError(`No opposite fields found for ${JSON.stringify(currentFieldSchema)}`, {
+								code: 'INVALID_SCHEMA',
+								path: fieldPath,
+							});
 						}
 
 						if ([...new Set(oppositeFields?.map((x) => x.thing))].length > 1) {
-							throw new Error(
+							throw new BormValidationError(
 								`Field: ${
 									currentField.path
 								} - If a role can be played by multiple things, you must specify the thing in the mutation: ${JSON.stringify(
 									oppositeFields,
 								)}. Schema: ${JSON.stringify(currentFieldSchema)}`,
+								{ code: 'INVALID_REQUEST', path: fieldPath },
 							);
 						}
 
 						if (currentFieldSchema.cardinality === 'ONE') {
 							if (Array.isArray(currentValue)) {
-								throw new Error("Can't have an array in a cardinality === ONE link field");
+								throw new BormValidationError("Can't have an array in a cardinality === ONE link field", {
+									code: 'INVALID_VALUE',
+									path: fieldPath,
+								});
 							}
 							// if is only one object, current is not a create, and the object has no op, throw error
 						}
@@ -250,11 +320,12 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
 							!Array.isArray(currentValue) &&
 							!currentValue.$arrayOp
 						) {
-							throw new Error(
+							throw new BormValidationError(
 								`${
 									// @ts-expect-error - TODO description
 									currentField.fieldType === 'linkField' ? currentFieldSchema.path : currentFieldSchema.name
 								} is a cardinality === MANY thing. Use an array or a $arrayOp object`,
+								{ code: 'INVALID_VALUE', path: fieldPath },
 							);
 						}
 						// ignore those properly configured. Todo: migrate to $thing
@@ -324,7 +395,10 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
 									$id: y,
 								}));
 							} else {
-								throw new Error(`Invalid array value for ${currentField.path}`);
+								throw new BormValidationError(`Invalid array value for ${currentField.path}`, {
+									code: 'INVALID_VALUE',
+									path: fieldPath,
+								});
 							}
 						}
 
@@ -350,7 +424,10 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
 					// console.log('value', current(value));
 
 					if (!notRoot && !value.$entity && !value.$relation) {
-						throw new Error('Root things must specify $entity or $relation');
+						throw new BormValidationError('Root things must specify $entity or $relation', {
+							code: 'INVALID_REQUEST',
+							path: meta.nodePath || '',
+						});
 					}
 					if (!notRoot) {
 						// no need to do nothing with root objects or objects that already
@@ -361,16 +438,13 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
 		);
 	};
 
-	const withObjects = stringToObjects(shakedBqlRequest);
-	// console.log('withObjects', withObjects);
-
 	const fill = (blocks: BQLMutationBlock | BQLMutationBlock[]): FilledBQLMutationBlock | FilledBQLMutationBlock[] => {
 		// @ts-expect-error - TODO description
 		return produce(blocks, (draft) =>
 			traverse(draft, ({ parent, key, value: val, meta }: TraversalCallbackContext) => {
-				if (isObject(val)) {
+				if (isObject(val) && !isDataFieldValue(meta.nodePath)) {
 					if (Object.keys(val).length === 0) {
-						throw new Error('Empty object!');
+						throw new BormValidationError('Empty object!', { code: 'INVALID_REQUEST', path: meta.nodePath || '' });
 					}
 					if (key === '$filter' || meta.nodePath?.includes('.$filter.')) {
 						return;
@@ -386,8 +460,9 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
 						if (
 							!(value.$op === undefined || value.$op === 'link' || value.$op === 'create' || value.$op === 'update')
 						) {
-							throw new Error(
+							throw new BormValidationError(
 								`Invalid op ${value.$op} for tempId. TempIds can be created, or when created in another part of the same mutation. In the future maybe we can use them to catch stuff in the DB as well and group them under the same tempId.`,
+								{ code: 'INVALID_OP', path: meta.nodePath || '' },
 							);
 						}
 					}
@@ -441,7 +516,10 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
 							parentOp !== 'create' &&
 							currentFieldSchema.cardinality === 'ONE'
 						) {
-							throw new Error(`Please specify if it is a create or an update. Path: ${meta.nodePath}`);
+							throw new BormValidationError(`Please specify if it is a create or an update. Path: ${meta.nodePath}`, {
+								code: 'AMBIGUOUS_OP',
+								path: meta.nodePath || '',
+							});
 						}
 						if (value.$tempId) {
 							return 'create';
@@ -459,15 +537,40 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
 						if ((value.$id || value.$filter) && !hasUpdatedDataFields && hasUpdatedChildren) {
 							return 'match';
 						}
-						throw new Error('Wrong op');
+						throw new BormValidationError('Wrong op', { code: 'INVALID_OP', path: meta.nodePath || '' });
 					};
 					// if (!value.$tempId && !value.$id) value.$tempId = currentTempId;
 					if (!value.$op) {
 						value.$op = getOp();
 					}
+
+					/// the field holding the node must allow its op, and its dataFields must allow being created, updated or deleted
+					const { $op: op } = value as FilledBQLMutationBlock;
+					if (currentFieldSchema && 'rights' in currentFieldSchema) {
+						checkRights(currentFieldSchema.rights, op, meta.nodePath || '');
+					}
+					if (op === 'create' || op === 'update' || op === 'upsert') {
+						/// the key of an upsert is only written when the thing is created
+						const upsertKey =
+							op === 'upsert'
+								? getUpsertKey(currentSchema, value as FilledBQLMutationBlock, meta.nodePath || '')
+								: undefined;
+						currentSchema.dataFields
+							/// nulls in creates are ignored
+							?.filter((df) => value[df.path] !== undefined && (op !== 'create' || value[df.path] !== null))
+							.forEach((df) =>
+								checkRights(
+									df.rights,
+									value[df.path] === null ? 'delete' : upsertKey && df.path in upsertKey ? 'create' : op,
+									meta.nodePath ? `${meta.nodePath}.${df.path}` : df.path,
+								),
+							);
+					}
 					if (!parent) {
 						value.$parentKey = '';
 					} // root
+					/// the path of the node in the mutation of the user. Blocks split by dbConnector already have it
+					value[Symbol.for('nodePath') as any] = value[Symbol.for('nodePath') as any] ?? meta.nodePath ?? '';
 
 					// console.log('value', current(value));
 					// errors
@@ -488,22 +591,26 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
 					}
 
 					if (!value.$entity && !value.$relation) {
-						throw new Error(`Node ${JSON.stringify(value)} without $entity/$relation`);
+						throw new BormValidationError(`Node ${JSON.stringify(value)} without $entity/$relation`, {
+							code: 'INVALID_REQUEST',
+							path: meta.nodePath || '',
+						});
 					}
 
 					const { idFields, computedFields, virtualFields } = currentSchema;
-					// todo: composite ids
 					if (!idFields) {
-						throw new Error('No idFields found');
+						throw new BormSchemaError('No idFields found', { code: 'INVALID_SCHEMA' });
 					}
-					const [idField] = idFields;
 					// console.log('computedFields', computedFields);
 
 					const filledFields = listify(value, (attKey, v) => (v !== undefined ? attKey : undefined)) as string[];
 					/// if at least one of the filled fields is virtual, then throw error
 					const virtualFilledFields = filledFields.filter((x) => virtualFields?.includes(x));
 					if (virtualFilledFields.length > 0) {
-						throw new Error(`Virtual fields can't be sent to DB: "${virtualFilledFields.join(',')}"`);
+						throw new BormValidationError(`Virtual fields can't be sent to DB: "${virtualFilledFields.join(',')}"`, {
+							code: 'READ_ONLY_FIELD',
+							path: meta.nodePath || '',
+						});
 					}
 					const missingComputedFields = computedFields.filter((x) => !filledFields.includes(x));
 
@@ -520,11 +627,11 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
 							'roles' in currentSchema ? oFind(currentSchema.roles, (k, _v) => k === fieldPath) : undefined;
 						const currentDef = currentFieldDef || currentLinkedDef || currentRoleDef;
 						if (!currentDef) {
-							throw new Error(`no field Def for ${fieldPath}`);
+							throw new BormSchemaError(`no field Def for ${fieldPath}`, { code: 'INVALID_SCHEMA' });
 						}
 
 						// We generate id fields when needed
-						if (fieldPath === idField && value.$op === 'create' && !value[fieldPath]) {
+						if (idFields.includes(fieldPath) && value.$op === 'create' && !value[fieldPath]) {
 							const defaultValue = compute({
 								currentThing: value,
 								fieldSchema: currentDef as EnrichedDataField, //id is always a datafield.
@@ -533,10 +640,24 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
 
 							value[fieldPath] = defaultValue; // we already checked that this value has not been defined
 							// value.$id = defaultValue; // op=create don't need $id anymore, they have $bzId
-							value.$id = defaultValue;
+							/// composite ids get their $id once every idField has a value
+							value.$id = getThingId(currentSchema, value);
 						}
 					});
 
+					if (value.$op === 'create' && idFields.length > 1) {
+						const missingIdFields = idFields.filter((x) => value[x] === undefined || value[x] === null);
+						if (missingIdFields.length > 0) {
+							throw new BormValidationError(
+								`The composite id of ${currentSchema.name} requires a value in [${missingIdFields.join(
+									',',
+								)}] to be created`,
+								{ code: 'MISSING_ID', path: meta.nodePath || '' },
+							);
+						}
+						value.$id = getThingId(currentSchema, value);
+					}
+
 					/*
 
           // if a valid id is setup, move it to $id
@@ -562,14 +683,60 @@ export const fillBQLMutation: PipelineOperation = async (req) => {
           } */
 
 					if (unidentifiedFields.length > 0) {
-						throw new Error(`Unknown fields: [${unidentifiedFields.join(',')}] in ${JSON.stringify(value)}`);
+						throw new BormValidationError(
+							`Unknown fields: [${unidentifiedFields.join(',')}] in ${JSON.stringify(value)}`,
+							{ code: 'UNKNOWN_FIELD', path: meta.nodePath || '' },
+						);
 					}
 				}
 			}),
 		);
 	};
 
-	const filledBQLMutation = fill(withObjects);
+	/// upserts are resolved against the db once every node has its thing and before validations, which depend on the op
+	const fillBlocks = (blocks: BQLMutationBlock | BQLMutationBlock[]) => {
+		dataFieldValuePaths.clear();
+		return resolveUpserts(
+			fill(stringToObjects(blocks)) as FilledBQLMutationBlock | FilledBQLMutationBlock[],
+			schema,
+			config,
+			req.dbHandles,
+			req.dbConnector,
+		);
+	};
+	const context = config.mutation?.context || {};
+	const filledBQLMutation = await fillWithBeforeHooks(shakedBqlRequest, fillBlocks, schema, context);
+
+	/// nodes are validated once they are filled, so every violation of the mutation is reported at once
+	const validatedNodes: ValidatedNode[] = [];
+	traverse(filledBQLMutation, ({ value: val, meta }: TraversalCallbackContext) => {
+		const node = val as BQLMutationBlock;
+		if (isObject(val) && !isDataFieldValue(meta.nodePath) && (node.$entity || node.$relation)) {
+			validatedNodes.push({ schema: getCurrentSchema(schema, node), node, path: meta.nodePath });
+		}
+	});
+	const validationErrors = getValidationIssues(validatedNodes);
+	/// values repeated in the mutation clash as they would in the db, once the values themselves are valid
+	if (validationErrors.length && validationErrors.every((issue) => issue.validation === 'unique')) {
+		const [{ message, path }] = validationErrors;
+		throw new BormConflictError(message, { code: 'UNIQUE_CONSTRAINT', path });
+	}
+	if (validationErrors.length) {
+		throw new ValidationError(validationErrors);
+	}
+
+	/// created things must pass the create rule of their permissions. Without one, they are checked against the write rule in preQuery
+	validatedNodes.forEach(({ schema: thingSchema, node, path }) => {
+		const canCreate = thingSchema.permissions?.create;
+		if (node.$op === 'create' && canCreate && !canCreate(context, node)) {
+			throw new BormValidationError(
+				`[Permissions] Operation create refused in '${path || ''}', ${
+					thingSchema.name
+				} can't be created in this context`,
+				{ code: 'PERMISSION_DENIED', path: path || '' },
+			);
+		}
+	});
 
 	// console.log('filledBQLMutation', JSON.stringify(filledBQLMutation, null, 3));
 
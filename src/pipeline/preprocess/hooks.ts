@@ -0,0 +1,112 @@
+import { createDraft, finishDraft, produce } from 'immer';
+import { getNodeByPath } from 'object-traversal';
+import { isObject } from 'radash';
+
+import { getCurrentFields, getCurrentSchema } from '../../helpers';
+import type { AuthContext, BormHooks, BQLMutationBlock, EnrichedBormSchema, FilledBQLMutationBlock } from '../../types';
+
+type HookedNode = { node: FilledBQLMutationBlock; path: string; hook: keyof BormHooks };
+
+const beforeHooks: Record<string, keyof BormHooks> = {
+	create: 'beforeCreate',
+	update: 'beforeUpdate',
+	delete: 'beforeDelete',
+};
+
+const afterHooks: Record<string, keyof BormHooks> = {
+	create: 'afterCreate',
+	update: 'afterUpdate',
+	delete: 'afterDelete',
+	link: 'onLink',
+	replace: 'onLink',
+	unlink: 'onUnlink',
+};
+
+/// The nodes of the blocks with a hook for their op, by their path in the blocks. Things written in several dbConnectors
+/// only run their hooks in one of them
+export const getHookedNodes = (
+	schema: EnrichedBormSchema,
+	blocks: FilledBQLMutationBlock | FilledBQLMutationBlock[],
+	when: 'before' | 'after',
+): HookedNode[] => {
+	const getNodes = (node: FilledBQLMutationBlock, path: string): HookedNode[] => {
+		const thingSchema = getCurrentSchema(schema, node);
+		const { linkFields, roleFields } = getCurrentFields(thingSchema);
+		const hook = (when === 'before' ? beforeHooks : afterHooks)[node.$op];
+		const children = [...linkFields, ...roleFields].flatMap((field) => {
+			const value = node[field];
+			const getPath = (key: string) => (path ? `${path}.${key}` : key);
+			if (Array.isArray(value)) {
+				return value.flatMap((child, i) =>
+					isObject(child) ? getNodes(child as FilledBQLMutationBlock, getPath(`${field}.${i}`)) : [],
+				);
+			}
+			return isObject(value) ? getNodes(value as FilledBQLMutationBlock, getPath(field)) : [];
+		});
+		const hasHook = hook && thingSchema.hooks?.[hook] && !node[Symbol.for('skipHooks') as any];
+		return [...(hasHook ? [{ node, path, hook }] : []), ...children];
+	};
+	return Array.isArray(blocks) ? blocks.flatMap((block, i) => getNodes(block, `${i}`)) : getNodes(blocks, '');
+};
+
+/// Before hooks change their node or return the fields to add or replace in it, so the blocks are filled again with them,
+/// until the hooks of every node have run once, the ones of the nodes they add included. Created things keep the ids
+/// they were filled with
+export const fillWithBeforeHooks = async (
+	blocks: BQLMutationBlock | BQLMutationBlock[],
+	fillBlocks: (
+		blocks: BQLMutationBlock | BQLMutationBlock[],
+	) => Promise<FilledBQLMutationBlock | FilledBQLMutationBlock[]>,
+	schema: EnrichedBormSchema,
+	context: AuthContext,
+	hookedPaths = new Set<string>(),
+): Promise<FilledBQLMutationBlock | FilledBQLMutationBlock[]> => {
+	const filled = await fillBlocks(blocks);
+	const pending = getHookedNodes(schema, filled, 'before').filter(({ path }) => !hookedPaths.has(path));
+	if (!pending.length) {
+		return filled;
+	}
+	const changes = await Promise.all(
+		pending.map(async ({ node, path, hook }) => {
+			hookedPaths.add(path);
+			const hookFn = getCurrentSchema(schema, node).hooks?.[hook];
+			/// filled nodes are frozen, so hooks change a draft of theirs. Fields they don't change keep the same value
+			const draft = createDraft(node);
+			const returned = hookFn && (await hookFn(draft, context));
+			const changedNode = finishDraft(draft);
+			const changed = Object.fromEntries(Object.entries(changedNode).filter(([key, value]) => value !== node[key]));
+			return { node, path, fields: { ...changed, ...returned } };
+		}),
+	);
+	const withChanges = produce(blocks, (draft) => {
+		changes.forEach(({ node, path, fields }) => {
+			if (!Object.keys(fields).length) {
+				return;
+			}
+			const draftNode = path ? getNodeByPath(draft, path) : draft;
+			const idFields = getCurrentSchema(schema, node).idFields || [];
+			Object.assign(draftNode, {
+				...(!draftNode.$op && { $op: node.$op }),
+				...(node.$op === 'create' &&
+					Object.fromEntries(
+						idFields.filter((idField) => node[idField] !== undefined).map((idField) => [idField, node[idField]]),
+					)),
+				...fields,
+			});
+		});
+	});
+	return fillWithBeforeHooks(withChanges, fillBlocks, schema, context, hookedPaths);
+};
+
+/// after hooks get the filled nodes once the mutation is written
+export const runAfterHooks = async (
+	schema: EnrichedBormSchema,
+	blocks: FilledBQLMutationBlock | FilledBQLMutationBlock[],
+	context: AuthContext,
+) => {
+	await Promise.all(
+		getHookedNodes(schema, blocks, 'after').map(
+			({ node, hook }) => getCurrentSchema(schema, node).hooks?.[hook]?.(node, context),
+		),
+	);
+};
@@ -1,3 +1,4 @@
 //export * from './buildTQLQuery';
 export * from './buildTQLFetchQuery';
 export * from './parseBQLQuery';
+export * from './buildTQLAggregateQuery';
@@ -3,7 +3,8 @@ import { getNodeByPath, traverse } from 'object-traversal';
 import { isArray, isObject, mapEntries, pick, shake } from 'radash';
 import { v4 as uuidv4 } from 'uuid';
 
-import { oFilter, getCurrentFields, getCurrentSchema } from '../../helpers';
+import { BormConflictError, BormSchemaError, BormValidationError } from '../../errors';
+import { oFilter, getCurrentFields, getCurrentSchema, getThingId } from '../../helpers';
 import type { BQLMutationBlock, FilledBQLMutationBlock } from '../../types';
 import type { PipelineOperation } from '../pipeline';
 
@@ -31,19 +32,22 @@ export const parseBQLMutation: PipelineOperation = async (req) => {
 			const { idFields } = currentSchema;
 
 			if (!idFields) {
-				throw new Error(`no idFields: ${JSON.stringify(node)}`);
+				throw new BormSchemaError(`no idFields: ${JSON.stringify(node)}`, { code: 'INVALID_SCHEMA' });
 			}
-			// todo: composite ids
-			const [idField] = idFields;
+			const [idField, ...otherIdFields] = idFields;
 			if (!idField) {
-				throw new Error(`no idField: ${JSON.stringify(node)}`);
+				throw new BormSchemaError(`no idField: ${JSON.stringify(node)}`, { code: 'INVALID_SCHEMA' });
 			}
 			const idDataField = currentSchema.dataFields?.find((x) => x.path === idField);
-			const idDefaultValue = node.$op === 'create' ? idDataField?.default?.value() : null;
-			const idValue = node[idField] || node.$id || idDefaultValue;
+			/// composite ids are only generated in fill, from the defaults of each idField
+			const idDefaultValue = node.$op === 'create' && !otherIdFields.length ? idDataField?.default?.value() : null;
+			const idValue = getThingId(currentSchema, node) || node.$id || idDefaultValue;
 
 			if (!idValue) {
-				throw new Error(`no idValue: ${JSON.stringify(node)}`);
+				throw new BormValidationError(`no idValue: ${JSON.stringify(node)}`, {
+					code: 'MISSING_ID',
+					path: node[Symbol.for('nodePath') as any],
+				});
 			}
 			return idValue;
 		};
@@ -53,10 +57,16 @@ export const parseBQLMutation: PipelineOperation = async (req) => {
 				const idValue = getIdValue(node);
 
 				if (nodes.find((x) => x.$id === idValue)) {
-					throw new Error(`Duplicate id ${idValue} for node ${JSON.stringify(node)}`);
+					throw new BormConflictError(`Duplicate id ${idValue} for node ${JSON.stringify(node)}`, {
+						code: 'UNIQUE_CONSTRAINT',
+						path: node[Symbol.for('nodePath') as any],
+					});
 				}
 				if (edges.find((x) => x.$bzId === node.$bzId)) {
-					throw new Error(`Duplicate $bzid ${node.$bzId} for node ${JSON.stringify(node)}`);
+					throw new BormValidationError(`Duplicate $bzid ${node.$bzId} for node ${JSON.stringify(node)}`, {
+						code: 'INVALID_TEMP_ID',
+						path: node[Symbol.for('nodePath') as any],
+					});
 				}
 				nodes.push({ ...node, $id: idValue });
 				return;
@@ -77,7 +87,9 @@ export const parseBQLMutation: PipelineOperation = async (req) => {
 					// throw new Error(`Duplicate id ${idValue} for edge ${JSON.stringify(edge)}`);
 				}
 				if (edges.find((x) => x.$bzId === edge.$bzId)) {
-					throw new Error(`Duplicate %bzId ${edge.$bzIdd} for edge ${JSON.stringify(edge)}`);
+					throw new BormValidationError(`Duplicate %bzId ${edge.$bzIdd} for edge ${JSON.stringify(edge)}`, {
+						code: 'INVALID_TEMP_ID',
+					});
 				}
 				edges.push({ ...edge, $id: idValue });
 				return;
@@ -125,7 +137,14 @@ export const parseBQLMutation: PipelineOperation = async (req) => {
 						if (usedRoleFields.length > 0 || usedLinkFields.length > 0) {
 							return 'match';
 						}
-						throw new Error(`No fields on an $op:"update" for node ${JSON.stringify(value)}`);
+						throw new BormValidationError(`No fields on an $op:"update" for node ${JSON.stringify(value)}`, {
+							code: 'INVALID_REQUEST',
+							path: value[Symbol.for('nodePath') as any],
+						});
+					}
+					/// upserts that found a thing not linked to their parent link it and update its dataFields
+					if (value.$op === 'link' && value.$upsert && usedFields.some((x: string) => dataFieldPaths?.includes(x))) {
+						return 'update';
 					}
 
 					return 'match';
@@ -137,6 +156,7 @@ export const parseBQLMutation: PipelineOperation = async (req) => {
 					...(value.$id && { $id: value.$id }),
 					...(value.$tempId && { $tempId: value.$tempId }),
 					...(value.$filter && { $filter: value.$filter }),
+					...(value.$upsert && { $upsert: value.$upsert }),
 					...shake(pick(value, dataFieldPaths || [''])),
 					$op: getChildOp(),
 					$bzId: value.$bzId,
@@ -147,6 +167,8 @@ export const parseBQLMutation: PipelineOperation = async (req) => {
 					[Symbol.for('parent')]: value[Symbol.for('parent') as any],
 					[Symbol.for('isRoot')]: value[Symbol.for('isRoot') as any],
 					[Symbol.for('isLocalId')]: value[Symbol.for('isLocalId') as any] || false,
+					[Symbol.for('nodePath')]: value[Symbol.for('nodePath') as any],
+					[Symbol.for('nodeOp')]: value.$op, // links and unlinks are matches of the thing and an edge
 				};
 
 				/// split nodes with multiple ids // why? //no longer doing that
@@ -163,7 +185,10 @@ export const parseBQLMutation: PipelineOperation = async (req) => {
 					if (value.$op === 'link' || value.$op === 'unlink') {
 						if (value.$id || value.$filter) {
 							if (value.$tempId) {
-								throw new Error("can't specify a existing and a new element at once. Use an id/filter or a tempId");
+								throw new BormValidationError(
+									"can't specify a existing and a new element at once. Use an id/filter or a tempId",
+									{ code: 'INVALID_OP', path: value[Symbol.for('nodePath') as any] },
+								);
 							}
 							nodes.push({ ...value, $op: 'match' });
 						}
@@ -211,7 +236,10 @@ export const parseBQLMutation: PipelineOperation = async (req) => {
 						// todo: probably check replaces
 						if (value.$op === 'replace') {
 							// Currently pre-queries do not cross reference data nested below a create operation
-							throw new Error('Unsupported: Nested replaces not implemented yet');
+							throw new BormValidationError('Unsupported: Nested replaces not implemented yet', {
+								code: 'INVALID_OP',
+								path: value[Symbol.for('nodePath') as any],
+							});
 						}
 						return 'match';
 					};
@@ -291,7 +319,7 @@ export const parseBQLMutation: PipelineOperation = async (req) => {
 								if (value.$op === 'delete') {
 									return 'match';
 								} /// if i'm not wrong, no need to unlink becasue is the director relation and will disappear 🤔
-								throw new Error('Unsupported parent of edge op');
+								throw new BormValidationError('Unsupported parent of edge op', { code: 'INVALID_OP' });
 							};
 
 							/// group ids when cardinality MANY
@@ -342,12 +370,13 @@ export const parseBQLMutation: PipelineOperation = async (req) => {
 									const op = getOp(operation.$op);
 									/// validations
 									if (op === 'replace') {
-										throw new Error('Not supported yet: replace on roleFields');
+										throw new BormValidationError('Not supported yet: replace on roleFields', { code: 'INVALID_OP' });
 									}
 									if (op === 'unlink' && totalUnlinks > 0) {
 										totalUnlinks += 1; // ugly temp solution while multiple roles can't be replaced
-										throw new Error(
+										throw new BormValidationError(
 											'Not supported yet: Cannot unlink more than one role at a time, please split into two mutations',
+											{ code: 'INVALID_OP' },
 										);
 									}
 
@@ -413,8 +442,8 @@ export const parseBQLMutation: PipelineOperation = async (req) => {
 			return [...acc, thing];
 		}
 		// If it exists, let's check the $op
-		if (acc[existingIndex].$op === 'create' && thing.$op === 'match') {
-			// If existing is 'create' and current is 'match', ignore current
+		if ((acc[existingIndex].$op === 'create' || acc[existingIndex].$op === 'update') && thing.$op === 'match') {
+			// If existing is 'create' or 'update' (upserts linking what they found), and current is 'match', ignore current
 			return acc;
 		}
 		if (acc[existingIndex].$op === 'match' && (thing.$op === 'create' || thing.$op === 'match')) {
@@ -422,8 +451,9 @@ export const parseBQLMutation: PipelineOperation = async (req) => {
 			return [...acc.slice(0, existingIndex), thing, ...acc.slice(existingIndex + 1)];
 		}
 		// For all other cases, throw an error
-		throw new Error(
+		throw new BormValidationError(
 			`Unsupported operation combination for $tempId "${thing.$tempId}". Existing: ${acc[existingIndex].$op}. Current: ${thing.$op}`,
+			{ code: 'INVALID_OP', path: thing[Symbol.for('nodePath') as any] },
 		);
 	}, [] as BQLMutationBlock[]);
 
@@ -591,10 +621,11 @@ export const parseBQLMutation: PipelineOperation = async (req) => {
 				// Check if any 'otherId' is related to multiple 'oneIds'
 				Object.entries(idMapping).forEach(([otherId, oneIds]) => {
 					if (oneIds.size > 1) {
-						throw new Error(
+						throw new BormValidationError(
 							`${relation} has illegal cardinality: The ${oneRole} role is linked to multiple ${Object.keys(
 								idMapping[otherId],
 							).join(',')} roles.`,
+							{ code: 'INVALID_CARDINALITY' },
 						);
 					}
 				});
@@ -611,7 +642,7 @@ export const parseBQLMutation: PipelineOperation = async (req) => {
 					"The relation's role is of cardinality ONE.\n";
 			});
 
-			throw new Error(errorMessage);
+			throw new BormValidationError(errorMessage, { code: 'INVALID_CARDINALITY' });
 		}
 	};
 
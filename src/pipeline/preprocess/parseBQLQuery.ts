@@ -1,29 +1,130 @@
-import { getCurrentFields, getCurrentSchema } from '../../helpers';
+import { isObject } from 'radash';
+
+import { BormSchemaError, BormValidationError } from '../../errors';
+import {
+	dateContentTypes,
+	getCurrentFields,
+	getCurrentSchema,
+	getLinkedThingSchema,
+	numberContentTypes,
+} from '../../helpers';
+import type { BQLField, EnrichedBormEntity, EnrichedBormRelation, EnrichedBormSchema, RawBQLQuery } from '../../types';
 import type { PipelineOperation } from '../pipeline';
 
 // parseBQLQueryObjectives:
 // 1) Validate the query (getRawBQLQuery)
 // 2) Prepare it in a universally way for any DB (output an enrichedBQLQuery)
 
+/// paths of the messages start with 'root', the ones of the errors are the BQL ones
+const invalidQuery = (message: string, path = 'root') =>
+	new BormValidationError(message, { code: 'INVALID_REQUEST', path: path.replace(/^root\.?/, '') });
+
+const validateModifiers = (
+	query: Partial<RawBQLQuery>,
+	currentSchema: EnrichedBormEntity | EnrichedBormRelation,
+	schema: EnrichedBormSchema,
+	path = 'root',
+) => {
+	(['$limit', '$offset'] as const).forEach((key) => {
+		const value = query[key];
+		if (value === undefined) {
+			return;
+		}
+		if (!Number.isInteger(value) || value < 0) {
+			throw invalidQuery(`${key} must be a non-negative integer. Path: ${path}`, path);
+		}
+	});
+	if (query.$sort !== undefined) {
+		if (!Array.isArray(query.$sort)) {
+			throw invalidQuery(`$sort must be an array of { field, desc? }. Path: ${path}`, path);
+		}
+		query.$sort.forEach((sort) => {
+			if (!currentSchema.dataFields?.some((df) => df.path === sort?.field)) {
+				throw invalidQuery(
+					`Can't sort by '${sort?.field}', it is not a dataField of ${currentSchema.name}. Path: ${path}`,
+					path,
+				);
+			}
+		});
+	}
+	if (path !== 'root' && (query.$aggregate || query.$groupBy)) {
+		throw invalidQuery(
+			`$aggregate and $groupBy are only supported in the root, use $count in nested fields. Path: ${path}`,
+			path,
+		);
+	}
+	query.$fields?.forEach((field: BQLField) => {
+		if (!isObject(field)) {
+			return;
+		}
+		const nestedSchema = getLinkedThingSchema(schema, currentSchema, field.$path);
+		if (!nestedSchema) {
+			return;
+		}
+		validateModifiers(field, nestedSchema, schema, `${path}.${field.$path}`);
+	});
+};
+
+const validateAggregate = (query: RawBQLQuery, currentSchema: EnrichedBormEntity | EnrichedBormRelation) => {
+	if (query.$groupBy !== undefined && !query.$aggregate) {
+		throw invalidQuery('$groupBy requires an $aggregate');
+	}
+	if (!query.$aggregate) {
+		return;
+	}
+	const getDataField = (path: unknown) => currentSchema.dataFields?.find((df) => df.path === path);
+
+	if (query.$groupBy !== undefined && !getDataField(query.$groupBy)) {
+		throw invalidQuery(`Can't group by '${query.$groupBy}', it is not a dataField of ${currentSchema.name}`);
+	}
+	const { count, ...fieldAggregates } = query.$aggregate;
+	if (count !== undefined && typeof count !== 'boolean') {
+		throw invalidQuery('$aggregate.count must be a boolean');
+	}
+	Object.entries(fieldAggregates).forEach(([aggregate, path]) => {
+		if (!['sum', 'avg', 'min', 'max'].includes(aggregate)) {
+			throw invalidQuery(`Unsupported aggregate ${aggregate}, use count, sum, avg, min or max`);
+		}
+		const dataField = getDataField(path);
+		if (!dataField) {
+			throw invalidQuery(`Can't aggregate '${path}', it is not a dataField of ${currentSchema.name}`);
+		}
+		const allowedContentTypes = ['min', 'max'].includes(aggregate)
+			? [...numberContentTypes, ...dateContentTypes]
+			: numberContentTypes;
+		if (!allowedContentTypes.includes(dataField.contentType)) {
+			throw invalidQuery(`Can't ${aggregate} '${path}', which is of type ${dataField.contentType}`);
+		}
+	});
+};
+
 export const parseBQLQuery: PipelineOperation = async (req) => {
 	const { rawBqlRequest: rawBqlQuery, schema } = req;
 
 	if (!('$entity' in rawBqlQuery) && !('$relation' in rawBqlQuery)) {
-		throw new Error('No entity specified in query');
+		throw invalidQuery('No entity specified in query');
 	}
 
 	const currentSchema = getCurrentSchema(schema, rawBqlQuery);
 	if (!currentSchema) {
-		throw new Error(`Thing '${rawBqlQuery}' not found in schema`);
+		throw new BormSchemaError(`Thing '${rawBqlQuery}' not found in schema`, { code: 'UNKNOWN_THING', path: '' });
 	}
 
-	// @ts-expect-error - TODO description
 	const { unidentifiedFields, localFilters, nestedFilters } = getCurrentFields(currentSchema, rawBqlQuery);
 
 	if (unidentifiedFields && unidentifiedFields.length > 0) {
-		throw new Error(`Unknown fields: [${unidentifiedFields.join(',')}] in ${JSON.stringify(rawBqlQuery)}`);
+		throw new BormValidationError(
+			`Unknown fields: [${unidentifiedFields.join(',')}] in ${JSON.stringify(rawBqlQuery)}`,
+			{
+				code: 'UNKNOWN_FIELD',
+				path: '',
+			},
+		);
 	}
 
+	validateModifiers(rawBqlQuery, currentSchema, schema);
+	validateAggregate(rawBqlQuery, currentSchema);
+
 	req.bqlRequest = {
 		// todo
 		// @ts-expect-error - TODO description
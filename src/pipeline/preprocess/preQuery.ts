@@ -1,20 +1,347 @@
 import type { TraversalCallbackContext } from 'object-traversal';
-import { traverse } from 'object-traversal';
+import { getNodeByPath, traverse } from 'object-traversal';
 import { isObject } from 'radash';
-import type { FilledBQLMutationBlock } from '../../types';
+import { BormConflictError, BormNotFoundError, BormValidationError } from '../../errors';
+import { compileLocalFilters } from '../../adapters/memory/helpers';
+import { getCurrentSchema, getLinkedThingSchema, getPermission, getThingId, getThingsOfType } from '../../helpers';
+import type {
+	BormConfig,
+	DBHandles,
+	EnrichedBormEntity,
+	EnrichedBormRelation,
+	EnrichedBormSchema,
+	FilledBQLMutationBlock,
+	Filter,
+	ProviderObject,
+} from '../../types';
 import { queryPipeline, type PipelineOperation } from '../pipeline';
 import { produce } from 'immer';
 import { v4 as uuidv4 } from 'uuid';
 
+const writeOps = ['update', 'delete', 'link', 'unlink', 'replace'];
+
+type ThingSchema = EnrichedBormEntity | EnrichedBormRelation;
+
+type PermissionQuery = {
+	schema: EnrichedBormSchema;
+	queryConfig: BormConfig;
+	dbHandles: DBHandles;
+	dbConnector: ProviderObject;
+};
+
+const queryIds = async (thingSchema: ThingSchema, query: Record<string, unknown>, req: PermissionQuery) => {
+	const res = await queryPipeline(
+		{
+			...(thingSchema.thingType === 'entity' ? { $entity: thingSchema.name } : { $relation: thingSchema.name }),
+			$fields: [...(thingSchema.idFields || [])],
+			...query,
+		},
+		{ ...req.queryConfig, query: { ...req.queryConfig.query, noMetadata: true } },
+		req.schema,
+		req.dbHandles,
+		req.dbConnector,
+	);
+	return ([res].flat().filter(Boolean) as Record<string, unknown>[]).map((x) => getThingId(thingSchema, x));
+};
+
+/// Things targeted by their $id in a delete, update or unlink must be in the db, root ones included, and also without
+/// preQuery. Things of the types extending theirs count, and the ones created in the same mutation are not there yet
+const checkExistingTargets = async (
+	filledBqlRequest: FilledBQLMutationBlock | FilledBQLMutationBlock[],
+	req: PermissionQuery,
+) => {
+	const created = new Set<string>();
+	const targets: { thingSchema: ThingSchema; path: string; node: FilledBQLMutationBlock; ids: string[] }[] = [];
+	traverse(filledBqlRequest, ({ value, meta }: TraversalCallbackContext) => {
+		const node = value as FilledBQLMutationBlock;
+		if (!isObject(value) || (!node.$entity && !node.$relation)) {
+			return;
+		}
+		const thingSchema = getCurrentSchema(req.schema, node);
+		if (node.$op === 'create') {
+			created.add(`${thingSchema.name}:${node.$id ?? getThingId(thingSchema, node)}`);
+		} else if (['delete', 'update', 'unlink'].includes(node.$op) && node.$id) {
+			targets.push({ thingSchema, path: meta.nodePath || '', node, ids: [node.$id].flat() });
+		}
+	});
+	const thingSchemas = [...new Set(targets.map(({ thingSchema }) => thingSchema))];
+	const existing = await Promise.all(
+		thingSchemas.map(async (thingSchema) => {
+			const ids = targets.filter((x) => x.thingSchema === thingSchema).flatMap((x) => x.ids);
+			const found = await Promise.all(
+				getThingsOfType(req.schema, thingSchema).map((thing) => queryIds(thing, { $id: ids }, req)),
+			);
+			return found.flat().map((id) => `${thingSchema.name}:${id}`);
+		}),
+	);
+	const existingTargets = new Set([...existing.flat(), ...created]);
+	targets.forEach(({ thingSchema, path, node, ids }) => {
+		const missingId = ids.find((id) => !existingTargets.has(`${thingSchema.name}:${id}`));
+		if (missingId !== undefined) {
+			throw new BormNotFoundError(
+				`[BQLE-Q-M-1] Cannot ${node.$op} $id:"${missingId}" because it does not exist in the DB`,
+				{ code: 'NOT_FOUND', path },
+			);
+		}
+	});
+};
+
+/// The ids a created thing links through each of its fields, the one pointing to its parent included
+const getCreatedLinks = (
+	schema: EnrichedBormSchema,
+	filledBqlRequest: FilledBQLMutationBlock | FilledBQLMutationBlock[],
+	thingSchema: ThingSchema,
+	node: FilledBQLMutationBlock,
+): Record<string, string[]> => {
+	const linkPaths = [
+		...(thingSchema.linkFields?.map((lf) => lf.path) || []),
+		...('roles' in thingSchema ? Object.keys(thingSchema.roles) : []),
+	];
+	const links = Object.fromEntries(
+		linkPaths.map((path) => [
+			path,
+			[node[path]]
+				.flat()
+				.filter((x) => x && x.$op !== 'unlink' && x.$op !== 'delete')
+				.flatMap((x) => (typeof x === 'string' ? [x] : [x.$id].flat().filter(Boolean))),
+		]),
+	);
+	const parentMeta = node[Symbol.for('parent') as any];
+	if (!parentMeta) {
+		return links;
+	}
+	const parentNode = parentMeta.path ? getNodeByPath(filledBqlRequest, parentMeta.path) : filledBqlRequest;
+	const parentIds = [parentMeta.$id ?? getThingId(getCurrentSchema(schema, parentNode), parentNode)].flat();
+	/// relations created from a linkField point to the parent with the role it plays
+	const parentPaths = (parentMeta.links as { path?: string }[]).map(
+		(link) => link.path ?? node[Symbol.for('oppositeRole') as any],
+	);
+	parentPaths.filter(Boolean).forEach((path) => {
+		links[path] = [...(links[path] || []), ...parentIds];
+	});
+	return links;
+};
+
+/// Created things are not in the db yet, so the filter is checked with their values and the ids they link. Filters of linked things are queried
+const matchesCreatedThing = async (
+	filter: Filter,
+	thingSchema: ThingSchema,
+	node: FilledBQLMutationBlock,
+	links: Record<string, string[]>,
+	req: PermissionQuery,
+): Promise<boolean> => {
+	const matches = await Promise.all(
+		Object.entries(filter).map(async ([key, value]) => {
+			if (key === '$and' || key === '$or') {
+				const results = await Promise.all(
+					(value as Filter[]).map((x) => matchesCreatedThing(x, thingSchema, node, links, req)),
+				);
+				return key === '$and' ? results.every(Boolean) : results.some(Boolean);
+			}
+			if (thingSchema.dataFields?.some((df) => df.path === key)) {
+				const matchesValues = compileLocalFilters(thingSchema, { [key]: value });
+				return (
+					!matchesValues || matchesValues({ $dbId: '', $thing: thingSchema.name, data: node, roles: {} }, new Map())
+				);
+			}
+			const linkedSchema = getLinkedThingSchema(req.schema, thingSchema, key);
+			if (!linkedSchema) {
+				throw new BormValidationError(`Can't filter by '${key}', it is not a field of ${thingSchema.name}`, {
+					code: 'UNKNOWN_FIELD',
+				});
+			}
+			const linkedIds = links[key] || [];
+			const quantifiers =
+				isObject(value) && Object.keys(value).some((x) => x.startsWith('$'))
+					? (value as Record<string, unknown>)
+					: { $some: value };
+			const results = await Promise.all(
+				Object.entries(quantifiers).map(async ([quantifier, linkedFilter]) => {
+					/// plain values are the ids of the linked things
+					const matchedIds = !isObject(linkedFilter)
+						? linkedIds.filter((id) => [linkedFilter].flat().map(String).includes(id))
+						: linkedIds.length
+						? await queryIds(linkedSchema, { $id: linkedIds, $filter: linkedFilter }, req)
+						: [];
+					if (quantifier === '$none') {
+						return matchedIds.length === 0;
+					}
+					if (quantifier === '$every') {
+						return linkedIds.every((id) => matchedIds.includes(id));
+					}
+					return matchedIds.length > 0;
+				}),
+			);
+			return results.every(Boolean);
+		}),
+	);
+	return matches.every(Boolean);
+};
+
+/// Things with write permissions are queried with the write filter before any op touches them, and every $id missing in the answer refuses the mutation.
+/// Nested ops without $id only target the writable things linked to their parent, and things created without a create rule must match the write filter
+const checkWritePermissions = async (
+	filledBqlRequest: FilledBQLMutationBlock | FilledBQLMutationBlock[],
+	req: PermissionQuery,
+): Promise<FilledBQLMutationBlock | FilledBQLMutationBlock[]> => {
+	const { schema } = req;
+	const context = req.queryConfig.query?.context;
+	const targets = new Map<string, { node: FilledBQLMutationBlock; path: string; ids: string[]; filter: Filter }[]>();
+	const created: { thingSchema: ThingSchema; node: FilledBQLMutationBlock; path: string; filter: Filter }[] = [];
+	const scoped: { node: FilledBQLMutationBlock; path: string; filter: Filter }[] = [];
+
+	traverse(filledBqlRequest, ({ value, meta }: TraversalCallbackContext) => {
+		const node = value as FilledBQLMutationBlock;
+		if (!isObject(value) || (!node.$entity && !node.$relation)) {
+			return;
+		}
+		const isCreate = node.$op === 'create';
+		if (!writeOps.includes(node.$op) && !isCreate) {
+			return;
+		}
+		const thingSchema = getCurrentSchema(schema, node);
+		/// create rules are checked when the mutation is filled
+		if (isCreate && thingSchema.permissions?.create) {
+			return;
+		}
+		const permission = getPermission(thingSchema, 'write', context);
+		const path = meta.nodePath || '';
+		if (permission === true) {
+			return;
+		}
+		if (permission === false) {
+			throw new BormValidationError(
+				isCreate
+					? `[Permissions] Operation create refused in '${path}', ${thingSchema.name} can't be created in this context`
+					: `[Permissions] Operation ${node.$op} refused in '${path}', ${thingSchema.name} can't be written in this context`,
+				{ code: 'PERMISSION_DENIED', path },
+			);
+		}
+		if (isCreate) {
+			created.push({ thingSchema, node, path, filter: permission });
+			return;
+		}
+		/// things created in the same mutation are linked by their $tempId
+		if (!node.$id && node.$tempId) {
+			return;
+		}
+		if (!node.$id && node[Symbol.for('parent') as any]?.$id) {
+			scoped.push({ node, path, filter: permission });
+			return;
+		}
+		if (!node.$id) {
+			throw new BormValidationError(
+				`[Permissions] Operation ${node.$op} refused in '${path}', ${thingSchema.name} has write permissions so it requires an $id`,
+				{ code: 'PERMISSION_DENIED', path },
+			);
+		}
+		const ids = Array.isArray(node.$id) ? node.$id : [node.$id];
+		targets.set(thingSchema.name, [...(targets.get(thingSchema.name) || []), { node, path, ids, filter: permission }]);
+	});
+
+	await Promise.all(
+		[...targets.entries()].map(async ([thing, nodes]) => {
+			const [{ node: firstNode, filter }] = nodes;
+			const thingSchema = getCurrentSchema(schema, firstNode);
+			const writableIds = await queryIds(thingSchema, { $id: nodes.flatMap(({ ids }) => ids), $filter: filter }, req);
+			nodes.forEach(({ node, path, ids }) => {
+				const forbiddenId = ids.find((id) => !writableIds.includes(id));
+				if (forbiddenId !== undefined) {
+					throw new BormValidationError(
+						`[Permissions] Operation ${node.$op} refused in '${path}', ${thing} '${forbiddenId}' can't be written in this context`,
+						{ code: 'PERMISSION_DENIED', path },
+					);
+				}
+			});
+		}),
+	);
+
+	await Promise.all(
+		created.map(async ({ thingSchema, node, path, filter }) => {
+			const links = getCreatedLinks(schema, filledBqlRequest, thingSchema, node);
+			if (!(await matchesCreatedThing(filter, thingSchema, node, links, req))) {
+				throw new BormValidationError(
+					`[Permissions] Operation create refused in '${path}', ${thingSchema.name} can't be created in this context`,
+					{ code: 'PERMISSION_DENIED', path },
+				);
+			}
+		}),
+	);
+
+	if (!scoped.length) {
+		return filledBqlRequest;
+	}
+	/// the writable things linked to the parent become the $id of the op, and ops with none of them are removed
+	const scopedIds = await Promise.all(
+		scoped.map(async ({ node, path, filter }) => {
+			const parentMeta = node[Symbol.for('parent') as any];
+			const parentPath = parentMeta.path ? `${parentMeta.path}.` : '';
+			const [field] = path.slice(parentPath.length).split('.');
+			const parentNode = parentMeta.path ? getNodeByPath(filledBqlRequest, parentMeta.path) : filledBqlRequest;
+			const parentSchema = getCurrentSchema(schema, parentNode);
+			const thingSchema = getCurrentSchema(schema, node);
+			const res = await queryPipeline(
+				{
+					...(parentSchema.thingType === 'entity' ? { $entity: parentSchema.name } : { $relation: parentSchema.name }),
+					$id: parentMeta.$id,
+					$fields: [{ $path: field, $filter: filter, $fields: [...(thingSchema.idFields || [])] }],
+				},
+				{ ...req.queryConfig, query: { ...req.queryConfig.query, noMetadata: true } },
+				schema,
+				req.dbHandles,
+				req.dbConnector,
+			);
+			return ([res].flat().filter(Boolean) as Record<string, unknown>[]).flatMap((parent) =>
+				([parent[field]].flat().filter(Boolean) as Record<string, unknown>[]).map((x) => getThingId(thingSchema, x)),
+			);
+		}),
+	);
+	const removedPaths = scoped.filter((_, i) => !scopedIds[i].length).map(({ path }) => path);
+	return produce(filledBqlRequest, (draft) => {
+		scoped.forEach(({ path }, i) => {
+			getNodeByPath(draft, path).$id = scopedIds[i];
+		});
+		/// the last ones first, so the indexes of the previous ones are kept
+		removedPaths.reverse().forEach((path) => {
+			const segments = path.split('.');
+			const key = segments.pop() as string;
+			const container = segments.length ? getNodeByPath(draft, segments.join('.')) : draft;
+			if (Array.isArray(container)) {
+				container.splice(Number(key), 1);
+			} else {
+				delete container[key];
+			}
+		});
+	});
+};
+
 export const preQuery: PipelineOperation = async (req) => {
-	const { filledBqlRequest, config } = req;
-	const isBatchedMutation = Array.isArray(filledBqlRequest);
+	const { config } = req;
+	const isBatchedMutation = Array.isArray(req.filledBqlRequest);
 
 	///0 ignore this step if its a batched mutation or if it does not have deletions or unlinks
-	if (!filledBqlRequest) {
+	if (!req.filledBqlRequest) {
 		throw new Error('[BQLE-M-0] No filledBqlRequest found');
 	}
 
+	/// queries of the mutation are done with its context, so things it can't read are never found
+	const queryConfig = { ...config, query: { ...config.query, context: config.mutation?.context } };
+
+	/// permissions are enforced even without preQuery
+	const filledBqlRequest = await checkWritePermissions(req.filledBqlRequest, {
+		schema: req.schema,
+		queryConfig,
+		dbHandles: req.dbHandles,
+		dbConnector: req.dbConnector,
+	});
+	req.filledBqlRequest = filledBqlRequest;
+	await checkExistingTargets(filledBqlRequest, {
+		schema: req.schema,
+		queryConfig,
+		dbHandles: req.dbHandles,
+		dbConnector: req.dbConnector,
+	});
+
 	const ops: string[] = [];
 	traverse(filledBqlRequest, ({ key, value }) => {
 		if (key === '$op') {
@@ -26,7 +353,7 @@ export const preQuery: PipelineOperation = async (req) => {
 
 	if (config.mutation?.preQuery === false) {
 		if (ops.includes('replace')) {
-			throw new Error('[BQLE-M-4] Cannot replace without preQuery=true');
+			throw new BormValidationError('[BQLE-M-4] Cannot replace without preQuery=true', { code: 'INVALID_OP' });
 		}
 		return;
 	}
@@ -118,7 +445,7 @@ export const preQuery: PipelineOperation = async (req) => {
 
 	// 2. Perform pre-query and get response
 	// @ts-expect-error - todo
-	const preQueryRes = await queryPipeline(preQueryBlocks, req.config, req.schema, req.dbHandles);
+	const preQueryRes = await queryPipeline(preQueryBlocks, queryConfig, req.schema, req.dbHandles, req.dbConnector);
 	// console.log('preQueryRes: ', JSON.stringify(preQueryRes, null, 2));
 	const getObjectPath = (parent: any, key: string) => {
 		const idField = parent.$id || parent.id || parent.$bzId;
@@ -195,6 +522,12 @@ export const preQuery: PipelineOperation = async (req) => {
 	// @ts-expect-error todo
 	cachePaths(storedPaths);
 	// console.log('cache: ', cache);
+	/// targets missing in the db are refused before, so the ones missing here are not linked to their parent
+	const getMissingTargetError = (thing: any, parentId: string) =>
+		new BormNotFoundError(
+			`[BQLE-Q-M-2] Cannot ${thing.$op} $id:"${thing.$id || thing.id}" because it is not linked to $id:"${parentId}"`,
+			{ code: 'NOT_LINKED', path: thing[Symbol.for('nodePath')] },
+		);
 
 	// 5. Prune mutation
 
@@ -281,31 +614,26 @@ export const preQuery: PipelineOperation = async (req) => {
 							switch (thing.$op) {
 								case 'delete':
 									if (!found) {
-										throw new Error(
-											`[BQLE-Q-M-2] Cannot delete $id:"${idField}" because it is not linked to $id:"${parent.$id}"`,
-										);
+										throw getMissingTargetError(thing, parent.$id);
 									}
 									break;
 								case 'update':
 									if (!found) {
-										throw new Error(
-											`[BQLE-Q-M-2] Cannot update $id:"${idField}" because it is not linked to $id:"${parent.$id}"`,
-										);
+										throw getMissingTargetError(thing, parent.$id);
 									}
 									break;
 
 								case 'unlink':
 									if (!found) {
-										throw new Error(
-											`[BQLE-Q-M-2] Cannot unlink $id:"${idField}" because it is not linked to $id:"${parent.$id}"`,
-										);
+										throw getMissingTargetError(thing, parent.$id);
 									}
 									break;
 
 								case 'link':
 									if (found) {
-										throw new Error(
+										throw new BormConflictError(
 											`[BQLE-Q-M-2] Cannot link $id:"${idField}" because it is already linked to $id:"${parent.$id}"`,
+											{ code: 'ALREADY_LINKED', path: thing[Symbol.for('nodePath')] },
 										);
 									}
 									break;
@@ -329,7 +657,13 @@ export const preQuery: PipelineOperation = async (req) => {
 									break;
 							}
 						} else if (thing.$op === 'link' && !found && cardinality === 'ONE' && isOccupied) {
-							throw new Error(`[BQLE-Q-M-2] Cannot link on:"${thing.$objectPath}" because it is already occupied.`);
+							throw new BormConflictError(
+								`[BQLE-Q-M-2] Cannot link on:"${thing.$objectPath}" because it is already occupied.`,
+								{
+									code: 'ALREADY_LINKED',
+									path: thing[Symbol.for('nodePath')],
+								},
+							);
 						}
 
 						// eslint-disable-next-line no-param-reassign
@@ -0,0 +1,305 @@
+import { isObject } from 'radash';
+
+import { compute } from '../../engine/compute';
+import { BormValidationError } from '../../errors';
+import {
+	getCurrentFields,
+	getCurrentSchema,
+	getDBConnector,
+	getFieldDBConnector,
+	getIdFieldsValues,
+	getLinkedThingSchema,
+	getThingDBConnectors,
+	getThingId,
+} from '../../helpers';
+import type {
+	BormConfig,
+	BQLMutationBlock,
+	BQLMutationNode,
+	BQLMutationResult,
+	BQLResponseMulti,
+	DBHandles,
+	EnrichedBormEntity,
+	EnrichedBormRelation,
+	EnrichedBormSchema,
+	ProviderObject,
+	RawBQLMutation,
+	RawBQLQuery,
+} from '../../types';
+import { queryPipeline } from '../pipeline';
+
+type ThingSchema = EnrichedBormEntity | EnrichedBormRelation;
+
+/// the part of a mutation written by a dbConnector, with what it creates and updates so it can be compensated
+export type FederatedMutation = {
+	dbConnector: ProviderObject;
+	blocks: RawBQLMutation[];
+	created: { thingSchema: ThingSchema; id: string }[];
+	updated: { thingSchema: ThingSchema; id: string | string[]; paths: string[] }[];
+};
+
+/// the path of a node in the mutation of the user, as fill finds it. Split blocks keep the one of their node
+const getNodePath = (parentPath: string, key: string) => (parentPath ? `${parentPath}.${key}` : key);
+
+const getThingKey = (thingSchema: ThingSchema) =>
+	thingSchema.thingType === 'entity' ? { $entity: thingSchema.name } : { $relation: thingSchema.name };
+
+/// as in fill, blocks without $op are updates when they have an $id or a $filter, links when they are just a $tempId,
+/// and creates otherwise
+const getOp = (block: BQLMutationBlock): string => {
+	if (block.$op) {
+		return block.$op;
+	}
+	if (block.$id || block.$filter) {
+		return 'update';
+	}
+	return block.$tempId && Object.keys(block).every((key) => key.startsWith('$')) ? 'link' : 'create';
+};
+
+const getBlockSchema = (schema: EnrichedBormSchema, block: BQLMutationBlock, linkedSchema: ThingSchema) => {
+	if (block.$entity || block.$relation) {
+		return getCurrentSchema(schema, block);
+	}
+	if (block.$thing) {
+		return getCurrentSchema(schema, { [`$${linkedSchema.thingType}`]: block.$thing });
+	}
+	return linkedSchema;
+};
+
+/// Every dbConnector gets the fields it stores. Things stored in several dbConnectors are created and deleted in all of
+/// them, so they need their id, which is generated here when it is missing. Nested blocks stay in the dbConnector of
+/// their field, and their fields stored in other dbConnectors become root blocks of those
+export const splitBQLMutation = (
+	bqlRequest: RawBQLQuery | RawBQLMutation | RawBQLMutation[],
+	config: BormConfig,
+	schema: EnrichedBormSchema,
+	rootDBConnector: ProviderObject,
+): FederatedMutation[] => {
+	const mutations = new Map<string, FederatedMutation>();
+	const getMutation = (dbConnector: ProviderObject) => {
+		const mutation = mutations.get(dbConnector.id) || { dbConnector, blocks: [], created: [], updated: [] };
+		mutations.set(dbConnector.id, mutation);
+		return mutation;
+	};
+	getMutation(rootDBConnector);
+
+	const splitBlock = (
+		block: BQLMutationBlock,
+		thingSchema: ThingSchema,
+		dbConnector: ProviderObject,
+		path: string,
+		nodePath: string,
+	): BQLMutationBlock | undefined => {
+		const op = getOp(block);
+		const thingDBConnectors = getThingDBConnectors(config, schema, thingSchema);
+		const { dataFields } = getCurrentFields(thingSchema);
+		const idFields = thingSchema.idFields || [];
+		/// composite ids are not generated, so they need every idField
+		const idDataField =
+			idFields.length === 1 ? thingSchema.dataFields?.find((df) => df.path === idFields[0]) : undefined;
+		const getDefaultId = () =>
+			thingDBConnectors.length > 1 && idDataField?.default
+				? (compute({ currentThing: block, fieldSchema: idDataField, mandatoryDependencies: true }) as string)
+				: undefined;
+		const id = op === 'create' ? getThingId(thingSchema, block) ?? getDefaultId() : block.$id;
+
+		const metadata = Object.fromEntries(Object.entries(block).filter(([key]) => key.startsWith('$')));
+		const fieldsByDBConnector = new Map<string, Record<string, unknown>>();
+		Object.entries(block)
+			.filter(([key]) => !key.startsWith('$') && !(op === 'create' && idFields.includes(key)))
+			.forEach(([key, value]) => {
+				/// unknown fields stay in the block, so they throw as in any other mutation
+				const fieldDBConnector = getFieldDBConnector(config, schema, thingSchema, key) || dbConnector;
+				const linkedSchema = dataFields.includes(key) ? undefined : getLinkedThingSchema(schema, thingSchema, key);
+				const splitValue = linkedSchema
+					? splitLinkedValue(value, linkedSchema, fieldDBConnector, `${path}.${key}`, getNodePath(nodePath, key))
+					: value;
+				if (splitValue === undefined) {
+					return;
+				}
+				fieldsByDBConnector.set(fieldDBConnector.id, {
+					...fieldsByDBConnector.get(fieldDBConnector.id),
+					[key]: splitValue,
+				});
+			});
+
+		const getUpdatedPaths = (fields: Record<string, unknown>) =>
+			Object.keys(fields).filter((x) => dataFields.includes(x));
+		const isWrittenEverywhere = op === 'create' || op === 'delete';
+		const ownFields = fieldsByDBConnector.get(dbConnector.id);
+		/// the fields of an update might all be stored in other dbConnectors
+		const isOwnBlockSkipped = !isWrittenEverywhere && !ownFields && fieldsByDBConnector.size > 0;
+		/// the hooks of the thing run in its own block, or in the first other one when it is skipped
+		let hasHooksBlock = !isOwnBlockSkipped;
+		thingDBConnectors
+			.filter((dbc) => dbc.id !== dbConnector.id && (isWrittenEverywhere || fieldsByDBConnector.has(dbc.id)))
+			.forEach((dbc) => {
+				if (op === 'upsert') {
+					throw new BormValidationError(
+						`Upserts of things stored in several dbConnectors are not supported. Path: ${path}`,
+						{ code: 'INVALID_OP', path },
+					);
+				}
+				if (id === undefined || id === null) {
+					throw new BormValidationError(
+						`${thingSchema.name} is stored in several dbConnectors, so the ${op} of '${path}' requires its ${
+							op === 'create' ? idFields.join(', ') : '$id'
+						}`,
+						{ code: 'MISSING_ID', path },
+					);
+				}
+				const fields = fieldsByDBConnector.get(dbc.id) || {};
+				const skipHooks = hasHooksBlock && { [Symbol.for('skipHooks') as any]: true };
+				hasHooksBlock = true;
+				const mutation = getMutation(dbc);
+				if (op === 'create') {
+					mutation.blocks.push({
+						...getThingKey(thingSchema),
+						$op: 'create',
+						...getIdFieldsValues(thingSchema, id),
+						...fields,
+						...skipHooks,
+						[Symbol.for('nodePath') as any]: nodePath,
+					});
+					mutation.created.push({ thingSchema, id: id as string });
+					return;
+				}
+				mutation.blocks.push({
+					...getThingKey(thingSchema),
+					$op: op === 'delete' ? 'delete' : 'update',
+					$id: id,
+					...fields,
+					...skipHooks,
+					[Symbol.for('nodePath') as any]: nodePath,
+				});
+				if (op !== 'delete' && getUpdatedPaths(fields).length) {
+					mutation.updated.push({ thingSchema, id, paths: getUpdatedPaths(fields) });
+				}
+			});
+
+		if (isOwnBlockSkipped) {
+			return undefined;
+		}
+		const mutation = getMutation(dbConnector);
+		if (op === 'create' && id !== undefined) {
+			mutation.created.push({ thingSchema, id: id as string });
+		}
+		if (op !== 'create' && op !== 'delete' && id && ownFields && getUpdatedPaths(ownFields).length) {
+			mutation.updated.push({ thingSchema, id, paths: getUpdatedPaths(ownFields) });
+		}
+		return {
+			...metadata,
+			...(op === 'create' && id !== undefined && getIdFieldsValues(thingSchema, id)),
+			...ownFields,
+			[Symbol.for('nodePath') as any]: nodePath,
+		} as BQLMutationBlock;
+	};
+
+	/// ids and nested blocks of link and role fields
+	const splitLinkedValue = (
+		value: unknown,
+		linkedSchema: ThingSchema,
+		dbConnector: ProviderObject,
+		path: string,
+		nodePath: string,
+	): unknown => {
+		const splitItem = (item: unknown, itemNodePath: string) =>
+			isObject(item)
+				? splitBlock(
+						item as BQLMutationBlock,
+						getBlockSchema(schema, item as BQLMutationBlock, linkedSchema),
+						dbConnector,
+						path,
+						itemNodePath,
+				  )
+				: item;
+		if (!Array.isArray(value)) {
+			return splitItem(value, nodePath);
+		}
+		const items = value
+			.map((item, i) => splitItem(item, getNodePath(nodePath, `${i}`)))
+			.filter((item) => item !== undefined);
+		return value.length && !items.length ? undefined : items;
+	};
+
+	const blocks = (Array.isArray(bqlRequest) ? bqlRequest : [bqlRequest]) as BQLMutationBlock[];
+	blocks.forEach((block, i) => {
+		const thingName = block.$entity ?? block.$relation;
+		const thingSchema = thingName ? schema.entities[thingName] ?? schema.relations[thingName] : undefined;
+		/// fill throws the errors of blocks without a thing of the schema
+		if (!thingSchema) {
+			getMutation(rootDBConnector).blocks.push(block as RawBQLMutation);
+			return;
+		}
+		const dbConnector = getDBConnector(config, thingSchema.defaultDBConnector.id);
+		const rootBlock = Array.isArray(bqlRequest)
+			? splitBlock(block, thingSchema, dbConnector, `root[${i}]`, `${i}`)
+			: splitBlock(block, thingSchema, dbConnector, 'root', '');
+		if (rootBlock) {
+			getMutation(dbConnector).blocks.push(rootBlock as RawBQLMutation);
+		}
+	});
+	return [...mutations.values()].filter((mutation) => mutation.blocks.length);
+};
+
+/// Deleting what a part of the mutation created, and updating the dataFields it updated with the values they have now
+export const getCompensation = async (
+	mutation: FederatedMutation,
+	config: BormConfig,
+	schema: EnrichedBormSchema,
+	dbHandles: DBHandles,
+): Promise<RawBQLMutation[]> => {
+	const deletions = mutation.created.map(({ thingSchema, id }) => ({
+		...getThingKey(thingSchema),
+		$op: 'delete',
+		$id: id,
+	}));
+	const updates = await Promise.all(
+		mutation.updated.map(async ({ thingSchema, id, paths }) => {
+			const current = await queryPipeline(
+				{ ...getThingKey(thingSchema), $id: [id].flat(), $fields: paths } as RawBQLQuery,
+				{ ...config, query: { ...config.query, noMetadata: false } },
+				schema,
+				dbHandles,
+				mutation.dbConnector,
+			);
+			return ([current].flat().filter(Boolean) as Record<string, unknown>[]).map((thing) => ({
+				...getThingKey(thingSchema),
+				$op: 'update',
+				$id: thing.$id,
+				...Object.fromEntries(paths.map((path) => [path, thing[path] ?? null])),
+			}));
+		}),
+	);
+	return [...deletions, ...updates.flat()] as RawBQLMutation[];
+};
+
+/// the results of the same thing in several dbConnectors are a single one
+export const mergeMutationResults = (results: BQLResponseMulti[]) => {
+	const merged = new Map<string, Record<string, unknown>>();
+	results
+		.flatMap((result) => [result].flat())
+		.filter(Boolean)
+		.forEach((result, i) => {
+			const item = result as Record<string, unknown>;
+			const key = item.$id !== undefined ? `${item.$entity ?? item.$relation}:${item.$id}:${item.$op}` : `${i}`;
+			merged.set(key, { ...merged.get(key), ...item });
+		});
+	const items = [...merged.values()];
+	return (items.length === 1 ? items[0] : items) as BQLResponseMulti;
+};
+
+/// the nodes written in several dbConnectors have the same path in each of them, and are a single one
+export const mergeMutationNodes = (results: BQLMutationResult[]): BQLMutationResult => {
+	const nodes = new Map<string, BQLMutationNode>();
+	results
+		.flatMap((result) => result.nodes)
+		.forEach((node) => {
+			const key = `${node.path}:${node.$id}`;
+			nodes.set(key, nodes.get(key) ?? node);
+		});
+	return {
+		nodes: [...nodes.values()],
+		tempIdMap: Object.assign({}, ...results.map((result) => result.tempIdMap)),
+	};
+};
@@ -0,0 +1,179 @@
+import { isObject } from 'radash';
+
+import { BormValidationError } from '../../errors';
+import { getCurrentFields, getFieldDBConnector, getLinkedThingSchema } from '../../helpers';
+import type {
+	BormConfig,
+	BQLField,
+	BQLFieldObj,
+	EnrichedBormEntity,
+	EnrichedBormRelation,
+	EnrichedBormSchema,
+	ProviderObject,
+	RawBQLQuery,
+} from '../../types';
+import type { FetchedThing, PipelineOperation } from '../pipeline';
+
+type ThingSchema = EnrichedBormEntity | EnrichedBormRelation;
+type QueryNode = Omit<RawBQLQuery, '$entity' | '$relation'> | BQLFieldObj;
+
+const getPath = (field: BQLField) => (typeof field === 'string' ? field : field.$path);
+
+/// the things of a node can be of its thing or of any thing extending it
+const getExtendingSchemas = (schema: EnrichedBormSchema, thingSchema: ThingSchema): ThingSchema[] => [
+	thingSchema,
+	...[...Object.values(schema.entities), ...Object.values(schema.relations)]
+		.filter((x) => x.extends === thingSchema.name)
+		.flatMap((x) => getExtendingSchemas(schema, x)),
+];
+
+/// filters, sorts and aggregates run in the db of the things, so they can't use the fields stored in other ones
+const validateLocalPaths = (
+	config: BormConfig,
+	schema: EnrichedBormSchema,
+	thingSchema: ThingSchema,
+	node: QueryNode,
+	dbConnector: ProviderObject,
+	path: string,
+) => {
+	const { $aggregate, $groupBy, $filter, $sort } = node as RawBQLQuery;
+	const usedPaths = [
+		...Object.keys($filter || {}).filter((key) => !key.startsWith('$')),
+		...($sort || []).map((sort) => sort.field),
+		...Object.entries($aggregate || {})
+			.filter(([key]) => key !== 'count')
+			.map(([, value]) => value as string),
+		...($groupBy ? [$groupBy] : []),
+	];
+	usedPaths.forEach((usedPath) => {
+		const fieldDBConnector = getFieldDBConnector(config, schema, thingSchema, usedPath);
+		if (fieldDBConnector && fieldDBConnector.id !== dbConnector.id) {
+			throw new BormValidationError(
+				`Can't use '${usedPath}' of ${thingSchema.name} to filter, sort or aggregate, it is stored in the dbConnector '${fieldDBConnector.id}'. Path: ${path}`,
+				{ code: 'INVALID_REQUEST', path },
+			);
+		}
+	});
+};
+
+const splitNode = <T extends QueryNode>(
+	config: BormConfig,
+	schema: EnrichedBormSchema,
+	thingSchema: ThingSchema,
+	node: T,
+	dbConnector: ProviderObject,
+	path: string,
+): T => {
+	validateLocalPaths(config, schema, thingSchema, node, dbConnector, path);
+
+	/// link and role fields are the only ones the adapters query one by one, dataFields are fetched with their thing
+	const foreignPaths = getExtendingSchemas(schema, thingSchema).flatMap((x) => {
+		const { linkFields, roleFields } = getCurrentFields(x);
+		return [...linkFields, ...roleFields].filter(
+			(fieldPath) => getFieldDBConnector(config, schema, x, fieldPath)?.id !== dbConnector.id,
+		);
+	});
+
+	return {
+		...node,
+		...(foreignPaths.length && { $excludedFields: [...(node.$excludedFields || []), ...foreignPaths] }),
+		...(node.$fields && {
+			$fields: node.$fields.map((field) => {
+				if (!isObject(field) || foreignPaths.includes(field.$path)) {
+					return field;
+				}
+				const linkedSchema = getLinkedThingSchema(schema, thingSchema, field.$path);
+				return linkedSchema
+					? splitNode(config, schema, linkedSchema, field, dbConnector, `${path}.${field.$path}`)
+					: field;
+			}),
+		}),
+	};
+};
+
+/// The fields stored in other dbConnectors are not queried in this one, federateQuery fetches them afterwards
+export const splitBQLQuery: PipelineOperation = async (req) => {
+	const { bqlRequest, config, schema, dbConnector } = req;
+	if (!bqlRequest?.query) {
+		throw new Error('BQL query not parsed');
+	}
+	const { query } = bqlRequest;
+	const thingSchema = '$entity' in query ? query.$entity : query.$relation;
+	bqlRequest.query = splitNode(config, schema, thingSchema, query, dbConnector, 'root');
+};
+
+export type FederatedQuery = {
+	dbConnector: ProviderObject;
+	query: RawBQLQuery;
+	things: FetchedThing[]; // the things getting the fields of the query
+};
+
+/// A query by $id for each thing and dbConnector storing some of its queried fields, from the root to the nested things
+export const getFederatedQueries = (
+	config: BormConfig,
+	schema: EnrichedBormSchema,
+	node: QueryNode,
+	things: FetchedThing[],
+	dbConnector: ProviderObject,
+): FederatedQuery[] => {
+	const thingNames = [...new Set(things.map((thing) => ('$entity' in thing ? thing.$entity : thing.$relation)))];
+
+	return thingNames.flatMap((thingName) => {
+		const thingSchema = schema.entities[thingName] ?? schema.relations[thingName];
+		const thingsOfType = things.filter((thing) => ('$entity' in thing ? thing.$entity : thing.$relation) === thingName);
+		const queriedFields = (node.$fields || getCurrentFields(thingSchema).fields).filter(
+			(field) => !node.$excludedFields?.includes(getPath(field)),
+		);
+
+		const foreignFields = new Map<string, { dbConnector: ProviderObject; fields: BQLField[] }>();
+		const nestedQueries = queriedFields.flatMap((field) => {
+			const fieldDBConnector = getFieldDBConnector(config, schema, thingSchema, getPath(field));
+			if (!fieldDBConnector) {
+				return [];
+			}
+			if (fieldDBConnector.id !== dbConnector.id) {
+				const { fields } = foreignFields.get(fieldDBConnector.id) || { fields: [] };
+				foreignFields.set(fieldDBConnector.id, { dbConnector: fieldDBConnector, fields: [...fields, field] });
+				return [];
+			}
+			if (!isObject(field)) {
+				return [];
+			}
+			const linkedThings = thingsOfType.flatMap((thing) =>
+				Array.isArray(thing[field.$path]) ? thing[field.$path] : [],
+			);
+			return linkedThings.length ? getFederatedQueries(config, schema, field, linkedThings, dbConnector) : [];
+		});
+
+		const ownQueries = [...foreignFields.values()].map(({ dbConnector: fieldDBConnector, fields }) => ({
+			dbConnector: fieldDBConnector,
+			query: {
+				...(thingSchema.thingType === 'entity' ? { $entity: thingName } : { $relation: thingName }),
+				$id: thingsOfType.map((thing) => thing.$id),
+				$fields: [...(thingSchema.idFields || []), ...fields],
+			} as RawBQLQuery,
+			things: thingsOfType,
+		}));
+		return [...ownQueries, ...nestedQueries];
+	});
+};
+
+/// Dry runs fetch nothing, so their federated queries get a thing of each queried node, with a placeholder $id
+export const getPlaceholderThings = (
+	schema: EnrichedBormSchema,
+	thingSchema: ThingSchema,
+	node: QueryNode,
+): FetchedThing[] => [
+	{
+		...(thingSchema.thingType === 'entity' ? { $entity: thingSchema.name } : { $relation: thingSchema.name }),
+		$id: `<${thingSchema.name}.$id>`,
+		...Object.fromEntries(
+			(node.$fields || []).flatMap((field) => {
+				const linkedSchema = isObject(field) ? getLinkedThingSchema(schema, thingSchema, field.$path) : undefined;
+				return isObject(field) && linkedSchema
+					? [[field.$path, getPlaceholderThings(schema, linkedSchema, field)]]
+					: [];
+			}),
+		),
+	} as FetchedThing,
+];
@@ -0,0 +1,211 @@
+import { produce } from 'immer';
+import { isObject, pick } from 'radash';
+
+import { compute } from '../../engine/compute';
+import { BormValidationError } from '../../errors';
+import { getCurrentFields, getCurrentSchema, getIdFieldsValues, getThingId, getThingsOfType } from '../../helpers';
+import type {
+	BormConfig,
+	DBHandles,
+	EnrichedBormEntity,
+	EnrichedBormRelation,
+	EnrichedBormSchema,
+	FilledBQLMutationBlock,
+	ProviderObject,
+} from '../../types';
+import { queryPipeline } from '../pipeline';
+
+type ThingSchema = EnrichedBormEntity | EnrichedBormRelation;
+type Resolution = { op: 'create' | 'update' | 'match' | 'link'; id: string; key: Record<string, unknown> };
+
+/// The key of an upsert is its $id, its idFields or the first unique dataField it has, as the filter matching it
+export const getUpsertKey = (thingSchema: ThingSchema, node: FilledBQLMutationBlock, path: string) => {
+	const idFields = [...(thingSchema.idFields || [])];
+	if (Array.isArray(node.$id)) {
+		throw new BormValidationError(`Upsert in '${path}' requires a single $id`, { code: 'INVALID_OP', path });
+	}
+	if (node.$id !== undefined) {
+		return getIdFieldsValues(thingSchema, node.$id);
+	}
+	if (idFields.length > 1 && getThingId(thingSchema, node) !== undefined) {
+		return pick(node, idFields);
+	}
+	const keyDataField = thingSchema.dataFields?.find(
+		(df) =>
+			((idFields.length === 1 && df.path === idFields[0]) || df.validations?.unique) &&
+			node[df.path] !== undefined &&
+			node[df.path] !== null,
+	);
+	if (!keyDataField) {
+		throw new BormValidationError(
+			`Upsert in '${path}' requires an $id, its ${idFields.join(', ')} or a unique dataField`,
+			{ code: 'MISSING_ID', path },
+		);
+	}
+	return { [keyDataField.path]: node[keyDataField.path] };
+};
+
+const getThing = (thingSchema: ThingSchema) =>
+	thingSchema.thingType === 'entity' ? { $entity: thingSchema.name } : { $relation: thingSchema.name };
+
+const getChildren = (thingSchema: ThingSchema, node: FilledBQLMutationBlock) => {
+	const { linkFields, roleFields } = getCurrentFields(thingSchema);
+	return [...linkFields, ...roleFields].flatMap((field) => {
+		const value = node[field];
+		const children = (Array.isArray(value) ? value : [value]) as unknown[];
+		return children
+			.map((child, i) => ({ field, child, index: Array.isArray(value) ? i : undefined }))
+			.filter((x): x is { field: string; child: FilledBQLMutationBlock; index: number | undefined } =>
+				isObject(x.child),
+			);
+	});
+};
+
+/// Upserts become an update when their key matches a thing, or a create otherwise, before the mutation is validated.
+/// Keys match any thing of their type, and nested upserts link the things they find to their parent if they were not
+export const resolveUpserts = async (
+	filledBqlRequest: FilledBQLMutationBlock | FilledBQLMutationBlock[],
+	schema: EnrichedBormSchema,
+	config: BormConfig,
+	dbHandles: DBHandles,
+	dbConnector: ProviderObject,
+) => {
+	const resolutions = new Map<string, Resolution>(); // by $bzId
+	const queryConfig = { ...config, query: { ...config.query, noMetadata: true, context: config.mutation?.context } };
+
+	/// parents are resolved first, as children of created things can't be found in the db
+	const resolveNode = async (
+		node: FilledBQLMutationBlock,
+		path: string,
+		parent?: { node: FilledBQLMutationBlock; field: string },
+	): Promise<void> => {
+		const thingSchema = getCurrentSchema(schema, node);
+		const idFields = [...(thingSchema.idFields || [])];
+
+		if (node.$op === 'upsert') {
+			const key = getUpsertKey(thingSchema, node, path);
+			const keyFields = Object.keys(key);
+			const parentResolution = parent && resolutions.get(parent.node.$bzId);
+			const parentOp = parentResolution?.op || parent?.node.$op;
+			const parentId = parentResolution?.id || parent?.node.$id;
+
+			const getFoundIds = async (): Promise<string[]> => {
+				const found = await Promise.all(
+					getThingsOfType(schema, thingSchema).map(async (keyedThing) => {
+						const res = await queryPipeline(
+							{ ...getThing(keyedThing), $filter: key, $fields: idFields },
+							queryConfig,
+							schema,
+							dbHandles,
+							dbConnector,
+						);
+						/// filters by unique dataFields return a single thing
+						return ([res].flat().filter(Boolean) as Record<string, unknown>[]).map(
+							(x) => getThingId(keyedThing, x) as string,
+						);
+					}),
+				);
+				return found.flat();
+			};
+
+			const getLinkedIds = async (): Promise<string[]> => {
+				if (!parent || parentOp === 'create' || typeof parentId !== 'string') {
+					return [];
+				}
+				const parentSchema = getCurrentSchema(schema, parent.node);
+				const res = (await queryPipeline(
+					{
+						...getThing(parentSchema),
+						$id: parentId,
+						$fields: [{ $path: parent.field, $filter: key, $fields: idFields }],
+					},
+					queryConfig,
+					schema,
+					dbHandles,
+					dbConnector,
+				)) as Record<string, any> | null;
+				return [res?.[parent.field]]
+					.flat()
+					.filter(Boolean)
+					.map((x: Record<string, unknown>) => getThingId(thingSchema, x) as string);
+			};
+
+			const foundIds = await getFoundIds();
+			if (foundIds.length > 1) {
+				throw new BormValidationError(`Upsert in '${path}' matches several things by '${keyFields.join("', '")}'`, {
+					code: 'AMBIGUOUS_OP',
+					path,
+				});
+			}
+			const [foundId] = foundIds;
+			if (foundId !== undefined) {
+				const { dataFields: dataFieldPaths } = getCurrentFields(thingSchema);
+				const hasData = dataFieldPaths.some((df) => !keyFields.includes(df) && node[df] !== undefined);
+				const isLinked = !parent || (await getLinkedIds()).includes(foundId);
+				/// things that are found with nothing to update are only matched
+				resolutions.set(node.$bzId, { op: !isLinked ? 'link' : hasData ? 'update' : 'match', id: foundId, key });
+			} else {
+				/// composite ids are not generated, so they need every idField
+				const [idDataField] =
+					idFields.length === 1 ? thingSchema.dataFields?.filter((df) => df.path === idFields[0]) || [] : [];
+				const id =
+					getThingId(thingSchema, { ...node, ...key }) ??
+					(idDataField?.default
+						? compute({ currentThing: node, fieldSchema: idDataField, mandatoryDependencies: true })
+						: undefined);
+				if (id === undefined) {
+					throw new BormValidationError(`Upsert in '${path}' can't create a thing without its ${idFields.join(', ')}`, {
+						code: 'MISSING_ID',
+						path,
+					});
+				}
+				resolutions.set(node.$bzId, { op: 'create', id, key });
+			}
+		}
+
+		await Promise.all(
+			getChildren(thingSchema, node).map(({ field, child, index }) =>
+				resolveNode(child, `${path ? `${path}.` : ''}${field}${index !== undefined ? `.${index}` : ''}`, {
+					node,
+					field,
+				}),
+			),
+		);
+	};
+
+	const roots = Array.isArray(filledBqlRequest) ? filledBqlRequest : [filledBqlRequest];
+	await Promise.all(roots.map((root, i) => resolveNode(root, Array.isArray(filledBqlRequest) ? `${i}` : '')));
+
+	if (!resolutions.size) {
+		return filledBqlRequest;
+	}
+
+	return produce(filledBqlRequest, (draft) => {
+		const applyResolutions = (node: FilledBQLMutationBlock) => {
+			const thingSchema = getCurrentSchema(schema, node);
+			const resolution = resolutions.get(node.$bzId);
+			if (resolution) {
+				/* eslint-disable no-param-reassign */
+				node.$op = resolution.op;
+				node.$upsert = resolution.op === 'create' ? 'create' : 'update';
+				if (resolution.op === 'create') {
+					Object.assign(node, getIdFieldsValues(thingSchema, resolution.id), resolution.key);
+				} else {
+					/// the key of a found thing already has its value, and its id is never rewritten
+					Object.keys(resolution.key).forEach((keyField) => delete node[keyField]);
+				}
+				node.$id = resolution.id;
+				/* eslint-enable no-param-reassign */
+			}
+			getChildren(thingSchema, node).forEach(({ child }) => {
+				/// replaces of things being created are links, as fill does with the other creates
+				if (resolution?.op === 'create' && child.$op === 'replace') {
+					// eslint-disable-next-line no-param-reassign
+					child.$op = 'link';
+				}
+				applyResolutions(child);
+			});
+		};
+		(Array.isArray(draft) ? draft : [draft]).forEach((root) => applyResolutions(root as FilledBQLMutationBlock));
+	});
+};
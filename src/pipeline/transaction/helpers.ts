@@ -1,18 +1,80 @@
-import { SessionType } from 'typedb-driver';
-import type { BormConfig, DBHandles } from '../../types';
+import { SessionType, TransactionType } from 'typedb-driver';
+import { BormConflictError, BormConnectionError } from '../../errors';
+import type { DBHandles, ProviderObject } from '../../types';
 
-export const getSessionOrOpenNewOne = async (dbHandles: DBHandles, config: BormConfig) => {
-	const singleHandlerV0 = config.dbConnectors[0].id;
-	let session = dbHandles.typeDB.get(singleHandlerV0)?.session;
-	const client = dbHandles.typeDB.get(singleHandlerV0)?.client;
+/// every typeDB dbConnector has its own client and session, opened again when they were closed
+export const getSessionOrOpenNewOne = async (dbHandles: DBHandles, dbConnector: ProviderObject) => {
+	let session = dbHandles.typeDB.get(dbConnector.id)?.session;
+	const client = dbHandles.typeDB.get(dbConnector.id)?.client;
 
 	if (!session || !session.isOpen()) {
 		if (!client) {
-			throw new Error('Client not found');
+			throw new BormConnectionError(`Client not found for the dbConnector '${dbConnector.id}'`, {
+				code: 'CONNECTION_FAILED',
+			});
 		}
-		session = await client.session(config.dbConnectors[0].dbName, SessionType.DATA);
-		dbHandles.typeDB.set(singleHandlerV0, { client, session });
+		session = await client.session(dbConnector.dbName, SessionType.DATA);
+		dbHandles.typeDB.set(dbConnector.id, { client, session });
 	}
 
 	return { client, session };
 };
+
+/// Queries and mutations inside a bormClient.transaction(), or inside the stages of a mutation, share its transaction,
+/// and they don't close it
+export const getTransactionOrOpenNewOne = async (
+	dbHandles: DBHandles,
+	dbConnector: ProviderObject,
+	type: TransactionType,
+) => {
+	const sharedTransaction = dbHandles.typeDB.get(dbConnector.id)?.transaction;
+	if (sharedTransaction) {
+		return { transaction: sharedTransaction, isShared: true };
+	}
+	const { session } = await getSessionOrOpenNewOne(dbHandles, dbConnector);
+	const transaction = await session.transaction(type);
+	if (!transaction) {
+		throw new BormConnectionError("Can't create transaction", { code: 'TRANSACTION_FAILED' });
+	}
+	return { transaction, isShared: false };
+};
+
+/// Every stage of a mutation runs in its write transaction, so the things matched by its upserts and pre-queries can't
+/// change before they are written. Mutations of a bormClient.transaction() already share one
+export const runInWriteTransaction = async <T>(
+	dbHandles: DBHandles,
+	dbConnector: ProviderObject,
+	run: (dbHandles: DBHandles) => Promise<T>,
+): Promise<T> => {
+	if (dbHandles.typeDB.get(dbConnector.id)?.transaction) {
+		return run(dbHandles);
+	}
+	const { client, session } = await getSessionOrOpenNewOne(dbHandles, dbConnector);
+	const transaction = await session.transaction(TransactionType.WRITE);
+	if (!client || !transaction) {
+		throw new BormConnectionError("Can't create transaction", { code: 'TRANSACTION_FAILED' });
+	}
+	const typeDB = new Map(dbHandles.typeDB).set(dbConnector.id, {
+		client,
+		session,
+		transaction,
+		isMutationTransaction: true,
+	});
+	try {
+		return await run({ ...dbHandles, typeDB });
+	} finally {
+		/// mutations that fail, or write nothing, never commit it
+		if (transaction.isOpen()) {
+			await transaction.close();
+		}
+	}
+};
+
+/// typeDB has no error codes for its key and unique constraints, so its errors are told apart by their message
+export const getDriverError = (e: unknown) => {
+	const message = e instanceof Error ? e.message : String(e);
+	if (/\[THW\d+\]/.test(message) && /key|unique/i.test(message) && /taken|already/i.test(message)) {
+		return new BormConflictError(message, { code: 'UNIQUE_CONSTRAINT', cause: e });
+	}
+	return new BormConnectionError(`Transaction failed: ${message}`, { code: 'TRANSACTION_FAILED', cause: e });
+};
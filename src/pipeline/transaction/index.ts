@@ -1 +1,2 @@
 export * from './runTQLQuery';
+export * from './runTQLAggregateQuery';
@@ -0,0 +1,35 @@
+import { TransactionType } from 'typedb-driver';
+
+import type { PipelineOperation } from '../pipeline';
+import { getTransactionOrOpenNewOne } from './helpers';
+
+export const runTQLAggregateQuery: PipelineOperation = async (req, res) => {
+	const { dbHandles, tqlRequest, dbConnector } = req;
+	if (!tqlRequest?.aggregates) {
+		throw new Error('TQL aggregate request not built');
+	}
+
+	const { transaction, isShared } = await getTransactionOrOpenNewOne(dbHandles, dbConnector, TransactionType.READ);
+
+	const aggregates = await Promise.all(
+		tqlRequest.aggregates.map(async (aggregate) => {
+			if (aggregate.grouped) {
+				const valueGroups = await transaction.query.getGroupAggregate(aggregate.request).collect();
+				return {
+					name: aggregate.name,
+					groups: valueGroups.map((valueGroup) => ({
+						owner: valueGroup.owner.asAttribute().value,
+						value: valueGroup.value?.value,
+					})),
+				};
+			}
+			const value = await transaction.query.getAggregate(aggregate.request);
+			return { name: aggregate.name, value: value?.value };
+		}),
+	);
+	if (!isShared) {
+		await transaction.close();
+	}
+
+	res.rawTqlRes = { aggregates };
+};
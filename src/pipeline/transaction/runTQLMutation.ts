@@ -1,27 +1,31 @@
 import { TransactionType } from 'typedb-driver';
 
 import type { PipelineOperation } from '../pipeline';
-import { getSessionOrOpenNewOne } from './helpers';
+import { getDriverError, getTransactionOrOpenNewOne } from './helpers';
 
 export const runTQLMutation: PipelineOperation = async (req, res) => {
-	const { dbHandles, tqlRequest, bqlRequest, config } = req;
+	const { dbHandles, tqlRequest, bqlRequest, dbConnector } = req;
 	if (!tqlRequest) {
 		throw new Error('TQL request not built');
 	}
-	if (!((tqlRequest.deletions && tqlRequest.deletionMatches) || tqlRequest.insertions)) {
-		throw new Error('TQL request error, no things');
-	}
 	if (!bqlRequest?.mutation) {
 		throw new Error('BQL mutation not parsed');
 	}
-
-	const { session } = await getSessionOrOpenNewOne(dbHandles, config);
-
-	const mutateTransaction = await session.transaction(TransactionType.WRITE);
-
-	if (!mutateTransaction) {
-		throw new Error("Can't create transaction");
+	if (!((tqlRequest.deletions && tqlRequest.deletionMatches) || tqlRequest.insertions)) {
+		/// upserts of things that were found with nothing to update only match them
+		if (bqlRequest.mutation.things.every((thing) => thing.$op === 'match')) {
+			res.rawTqlRes = { insertions: [] };
+			return;
+		}
+		throw new Error('TQL request error, no things');
 	}
+
+	const { transaction: mutateTransaction, isShared } = await getTransactionOrOpenNewOne(
+		dbHandles,
+		dbConnector,
+		TransactionType.WRITE,
+	);
+	const commits = !isShared || !!dbHandles.typeDB.get(dbConnector.id)?.isMutationTransaction;
 	// console.log('tqlRequest!', JSON.stringify(tqlRequest, null, 2));
 
 	// deletes and pre-update deletes
@@ -44,12 +48,19 @@ export const runTQLMutation: PipelineOperation = async (req, res) => {
 
 	try {
 		const insertionsRes = insertionsStream ? await insertionsStream.collect() : undefined;
-		await mutateTransaction.commit();
-		await mutateTransaction.close();
+		/// transactions of bormClient.transaction() are committed, or rolled back, when its callback ends
+		if (commits) {
+			await mutateTransaction.commit();
+		}
+		if (!isShared) {
+			await mutateTransaction.close();
+		}
 		res.rawTqlRes = { insertions: insertionsRes };
-	} catch (e: any) {
-		await mutateTransaction.close();
-		throw new Error(`Transaction failed: ${e.message}`);
+	} catch (e) {
+		if (!isShared) {
+			await mutateTransaction.close();
+		}
+		throw getDriverError(e);
 	}
 
 	// const ids = bqlRequest.mutation.entities.map((e) => e.$id as string);
@@ -1,10 +1,11 @@
 import { TransactionType } from 'typedb-driver';
 
 import type { PipelineOperation } from '../pipeline';
-import { getSessionOrOpenNewOne } from './helpers';
+import { getFetchedPage } from '../preprocess/buildTQLFetchQuery';
+import { getTransactionOrOpenNewOne } from './helpers';
 
 export const runTQLQuery: PipelineOperation = async (req, res) => {
-	const { dbHandles, bqlRequest, tqlRequest, config } = req;
+	const { dbHandles, bqlRequest, tqlRequest, dbConnector } = req;
 	if (!bqlRequest) {
 		throw new Error('BQL request not parsed');
 	}
@@ -19,52 +20,16 @@ export const runTQLQuery: PipelineOperation = async (req, res) => {
 		throw new Error('BQL request is not a query');
 	}
 
-	const { session } = await getSessionOrOpenNewOne(dbHandles, config);
-
-	const transaction = await session.transaction(TransactionType.READ);
-	if (!transaction) {
-		throw new Error("Can't create transaction");
+	const { transaction, isShared } = await getTransactionOrOpenNewOne(dbHandles, dbConnector, TransactionType.READ);
+	/// the whole query tree is a single fetch, so there is one round trip per query whatever its depth
+	/// (two when the root is sorted)
+	const entity = await transaction.query.fetch(tqlRequest.entity).collect();
+	const unsortedEntity = tqlRequest.unsortedEntity
+		? await transaction.query.fetch(tqlRequest.unsortedEntity).collect()
+		: undefined;
+	if (!isShared) {
+		await transaction.close();
 	}
-	const entityStream = transaction.query.fetch(tqlRequest.entity);
-
-	const rolesStreams = tqlRequest.roles?.map((role) => ({
-		...role,
-		stream: transaction.query.fetch(role.request),
-	}));
-
-	const relationStreams = tqlRequest.relations?.map((relation) => ({
-		...relation,
-		stream: transaction.query.fetch(relation.request),
-	}));
-
-	const entityConceptMapGroups = await entityStream.collect();
-
-	/// The new json structure. Once attibutes are natively packed we will refacto the queries and use this
-	// const json = entityConceptMapGroups.flatMap((x) => x.conceptMaps.map((y) => y.toJSONRecord()));
-	// console.log('json', json);
-
-	const rolesConceptMapGroups = await Promise.all(
-		rolesStreams?.map(async (role) => ({
-			path: role.path,
-			ownerPath: role.owner,
-			conceptMapGroups: await role.stream.collect(),
-		})) || [],
-	);
 
-	const relationConceptMapGroups = await Promise.all(
-		relationStreams?.map(async (relation) => ({
-			relation: relation.relation,
-			entity: relation.entity,
-			conceptMapGroups: await relation.stream.collect(),
-		})) || [],
-	);
-	await transaction.close();
-	res.rawTqlRes = {
-		entity: entityConceptMapGroups,
-		...(rolesConceptMapGroups?.length && { roles: rolesConceptMapGroups }),
-		...(relationConceptMapGroups?.length && {
-			relations: relationConceptMapGroups,
-		}),
-	};
-	console.log('rawTqlRes', res.rawTqlRes);
+	res.rawTqlRes = { entity: unsortedEntity ? getFetchedPage(query, entity, unsortedEntity) : entity };
 };
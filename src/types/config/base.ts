@@ -1,3 +1,7 @@
+import type { PipelineOperation } from '../../pipeline/pipeline';
+import type { AuthContext } from '../schema/base';
+import type { MemoryHandles, MemoryProviderObject } from './memory';
+import type { SQLiteHandles, SQLiteProviderObject } from './sqlite';
 import type { TypeDBProviderObject, TypeDBClusterProviderObject, TypeDBHandles } from './typedb';
 
 export type QueryConfig = {
@@ -5,11 +9,49 @@ export type QueryConfig = {
 	returnNulls?: boolean;
 	simplifiedLinks?: boolean;
 	debugger?: boolean;
+	dryRun?: boolean; // returns the requests of the dbs in a BQLDryRun, nothing is run
+	context?: AuthContext; // used by the permissions of the schema
 };
 
 export type MutateConfig = {
 	noMetadata?: boolean;
 	preQuery?: boolean;
+	structuredResult?: boolean; // returns a BQLMutationResult instead of the mutated blocks
+	dryRun?: boolean; // returns the requests of the dbs in a BQLDryRun. The queries needed to build them still run
+	context?: AuthContext; // used by the permissions of the schema
+};
+
+export type DefineConfig = {
+	reset?: boolean; // deletes the database and defines the schema from scratch. All the data is lost
+	dryRun?: boolean; // only returns the plan, nothing is applied
+	allowDestructive?: boolean; // allows undefining types and changing existing ones
+};
+
+/// the db of the stages of an adapter in their specific names, like buildTQLMutation or runMemoryQuery
+export type AdapterName = 'TQL' | 'Memory' | 'SQLite';
+
+export type AdapterStage = `${'build' | 'run' | 'parse'}${AdapterName}${'Query' | 'Aggregate' | 'Mutation'}`;
+
+/// the stages of the pipelines. build, run and parse are the ones of the adapter of each dbConnector, in every db and
+/// request, and their specific names only hook into the ones of a db and a query, aggregate or mutation.
+/// req.dbConnector tells the db they run for
+export type PipelineStage =
+	| 'parseBQLQuery'
+	| 'splitBQLQuery'
+	| 'fillBQLMutation'
+	| 'preQuery'
+	| 'parseBQLMutation'
+	| 'build'
+	| 'run'
+	| 'parse'
+	| AdapterStage
+	| 'federateQuery'
+	| 'buildBQLTree';
+
+/// operations run before or after stages of every pipeline, with the req and res of the stage
+export type BormPlugin = {
+	before?: Partial<Record<PipelineStage, PipelineOperation>>;
+	after?: Partial<Record<PipelineStage, PipelineOperation>>;
 };
 
 export type BormConfig = {
@@ -19,19 +61,22 @@ export type BormConfig = {
 	// queryDefaults
 	query?: QueryConfig;
 	mutation?: MutateConfig;
+	plugins?: BormPlugin[];
 	dbConnectors: [ProviderObject, ...ProviderObject[]]; // minimum one
 };
 
 export type ProviderObject =
 	| (TypeDBProviderObject & CommonProperties)
-	| (TypeDBClusterProviderObject & CommonProperties);
+	| (TypeDBClusterProviderObject & CommonProperties)
+	| (MemoryProviderObject & CommonProperties)
+	| (SQLiteProviderObject & CommonProperties);
 
 export interface CommonProperties {
 	id: string;
 	dbName: string;
 }
 
-export type Provider = 'typeDB' | 'typeDBCluster';
+export type Provider = 'typeDB' | 'typeDBCluster' | 'memory' | 'sqlite';
 
 export type DBConnector = {
 	id: string;
@@ -42,4 +87,6 @@ export type DBConnector = {
 
 export type DBHandles = {
 	typeDB: TypeDBHandles;
+	memory?: MemoryHandles;
+	sqlite?: SQLiteHandles;
 };
@@ -0,0 +1,16 @@
+export interface MemoryProviderObject {
+	provider: 'memory';
+}
+
+/// a stored thing. Relations keep the $dbId of the things playing each of their roles
+export type MemoryThing = {
+	$dbId: string;
+	$thing: string;
+	data: Record<string, unknown>; // by dataField path
+	roles: Record<string, string[]>;
+};
+
+export type MemoryStore = Map<string, MemoryThing>; // by $dbId
+
+/// the store is replaced by a new one on every write, so a failed mutation never leaves it half written
+export type MemoryHandles = Map<string, { store: MemoryStore }>;
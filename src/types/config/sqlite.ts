@@ -0,0 +1,8 @@
+import type { Database } from 'better-sqlite3';
+
+export interface SQLiteProviderObject {
+	provider: 'sqlite';
+	filename?: string; // the file of the db, the dbName by default. ':memory:' keeps it in memory
+}
+
+export type SQLiteHandles = Map<string, { db: Database }>;
@@ -1,4 +1,4 @@
-import type { TypeDBDriver, TypeDBCredential, TypeDBSession } from 'typedb-driver';
+import type { TypeDBDriver, TypeDBCredential, TypeDBSession, TypeDBTransaction } from 'typedb-driver';
 
 export interface TypeDBProviderObject {
 	provider: 'typeDB';
@@ -11,4 +11,12 @@ export interface TypeDBClusterProviderObject {
 	credentials: TypeDBCredential;
 }
 
-export type TypeDBHandles = Map<string, { client: TypeDBDriver; session: TypeDBSession }>;
+export type TypeDBHandles = Map<
+	string,
+	{
+		client: TypeDBDriver;
+		session: TypeDBSession;
+		transaction?: TypeDBTransaction; // transaction of a bormClient.transaction(), or of a single mutation
+		isMutationTransaction?: boolean; // the transaction of a single mutation is committed when the mutation runs
+	}
+>;
@@ -1,10 +1,15 @@
 export * from './config/base';
 export * from './config/typedb';
+export * from './config/memory';
+export * from './config/sqlite';
 export * from './requests/base';
 export * from './requests/filters';
 export * from './requests/mutations';
 export * from './requests/queries';
 export * from './requests/databases/typeql';
+export * from './requests/databases/memory';
+export * from './requests/databases/operations';
+export * from './requests/databases/sqlite';
 export * from './schema/base';
 export * from './schema/enriched';
 export * from './schema/fields';
@@ -1,3 +1,12 @@
+import type {
+	FilledBQLMutationBlock,
+	MemoryRequest,
+	ParsedBQLMutation,
+	ParsedBQLQuery,
+	SQLiteRequest,
+	TQLRequest,
+} from '..';
+
 export type ThingType = 'entity' | 'relation' | 'attribute';
 
 export type BormMetadata = {
@@ -25,3 +34,61 @@ export type BQLResponseSingle = Record<string, any>;
 export type BQLResponseMulti = BQLResponseSingle[];
 
 export type BQLResponse = BQLResponseSingle | BQLResponseMulti;
+
+/// a node of a mutation and what happened to it
+export type BQLMutationNode = {
+	$op: string; // the op of the node once filled. Nodes only reaching nested ones are 'match'
+	$entity?: string;
+	$relation?: string;
+	$id?: string | string[]; // the id of the created thing, or the ones of the matched things
+	$tempId?: string;
+	$upsert?: 'create' | 'update';
+	path: string; // path of the node in the mutation, like 'accounts.0'. Each root of a batched mutation starts with its index
+};
+
+/// the result of mutations with { structuredResult: true }
+export type BQLMutationResult = {
+	nodes: BQLMutationNode[];
+	tempIdMap: Record<string, string>; // the id of the thing created for each $tempId
+};
+
+/// a request a dbConnector would run. Federated queries match the things fetched before them by placeholder $ids,
+/// like '<Account.$id>'
+export type BQLDryRunRequest = {
+	dbConnector: string;
+	filledBqlRequest?: FilledBQLMutationBlock | FilledBQLMutationBlock[]; // mutations
+	bqlRequest?: { query?: ParsedBQLQuery; mutation?: ParsedBQLMutation };
+	tqlRequest?: TQLRequest;
+	memoryRequest?: MemoryRequest;
+	sqliteRequest?: SQLiteRequest;
+};
+
+/// the result of queries and mutations with { dryRun: true }
+export type BQLDryRun = {
+	requests: BQLDryRunRequest[];
+};
+
+export type BQLAggregateResponse = {
+	count?: number;
+	sum?: number;
+	avg?: number | null; // null when there is nothing to average
+	min?: number | string | null;
+	max?: number | string | null;
+};
+
+/// one item per value of the $groupBy field, which is also returned under its own path
+export type BQLGroupedAggregateResponse = (BQLAggregateResponse & Record<string, unknown>)[];
+
+export type SchemaChange = {
+	action: 'define' | 'undefine';
+	statement: string; // a single statement of the db. TypeQL ones are without the define or undefine keyword
+	destructive: boolean; // undefines and changes of existing types, that could fail or lose data
+};
+
+/// what define() did, or would do in a dry run
+export type DefinePlan = {
+	changes: SchemaChange[];
+	define?: string; // the queries of the changes, in the language of the db
+	undefine?: string;
+	applied: boolean;
+};
@@ -0,0 +1,43 @@
+import type { AggregateAnswer, BQLAggregate, MemoryStore, MemoryThing, MutationOperations } from '../..';
+
+/// filters and read permissions are compiled when the request is built, so they are validated even if nothing is stored
+export type MemoryPredicate = (thing: MemoryThing, store: MemoryStore) => boolean;
+
+/// the things at the other side of a linkField or roleField
+export type MemoryLinker = (thing: MemoryThing, store: MemoryStore) => MemoryThing[];
+
+export type MemoryQuery = {
+	thing: string;
+	ids?: string[];
+	filter?: MemoryPredicate;
+	sort?: { field: string; desc?: boolean }[];
+	offset?: number;
+	limit?: number;
+	count?: boolean; // only the number of matched things
+	idsOnly?: boolean; // only the ids of things that are not expanded
+	links: { path: string; getLinked: MemoryLinker; query: MemoryQuery }[];
+};
+
+export type MemoryRequest = {
+	// queries
+	query?: MemoryQuery;
+	aggregates?: { name: keyof BQLAggregate; path?: string }[];
+	groupBy?: string;
+	// mutations
+	mutation?: MutationOperations;
+};
+
+export type MemoryAnswer = {
+	thing: MemoryThing;
+	idsOnly?: boolean;
+	links: Record<string, MemoryAnswer[] | number>; // nested $count are numbers
+};
+
+export type MemoryResponse = {
+	// queries
+	answers?: MemoryAnswer[];
+	aggregates?: AggregateAnswer[];
+	// mutations
+	dbIds?: Record<string, string>; // the $dbId of the first thing matched or created by each $bzId
+	written?: boolean;
+};
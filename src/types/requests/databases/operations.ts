@@ -0,0 +1,25 @@
+/// bzIds of the things playing each role
+export type OperationRoles = Record<string, string[]>;
+
+/// The steps of a typeQL mutation, for the adapters of dbs that don't speak typeQL
+export type MutationOperation =
+	// matches
+	| { type: 'match'; bzId: string; thing: string; ids?: string[] } // every thing of the type when there are no ids
+	| { type: 'matchRelation'; bzId: string; relation: string; roles: OperationRoles }
+	// deletions
+	| { type: 'delete'; bzId: string }
+	| { type: 'deleteRelation'; bzId: string; relation: string; roles: OperationRoles }
+	| { type: 'unlink'; bzId: string; roles: OperationRoles }
+	| { type: 'unset'; bzId: string; fields: string[] }
+	// insertions
+	| { type: 'create'; bzId: string; thing: string; data: Record<string, unknown> }
+	| { type: 'createRelation'; bzId: string; relation: string; roles: OperationRoles; data: Record<string, unknown> }
+	| { type: 'link'; bzId: string; relation: string; roles: OperationRoles } // creates the relation when it is not matched
+	| { type: 'set'; bzId: string; data: Record<string, unknown> };
+
+/// applied like typeQL mutations: the deletions see the things before the mutation and the insertions after them
+export type MutationOperations = {
+	matches: MutationOperation[];
+	deletions: MutationOperation[];
+	insertions: MutationOperation[];
+};
@@ -0,0 +1,31 @@
+import type { AggregateAnswer, BQLAggregate, MemoryAnswer, MutationOperations } from '../..';
+
+/// sql with named parameters. Nested selections also have a @parent one, the $dbId of the thing they are linked to
+export type SQLiteStatement = { sql: string; params: Record<string, unknown> };
+
+/// each selection returns the "_dbId" and "_thing" of the matched things, already filtered, sorted and paginated
+export type SQLiteQuery = {
+	select: SQLiteStatement;
+	count?: boolean; // only the number of matched things
+	idsOnly?: boolean; // only the ids of things that are not expanded
+	links: { path: string; query: SQLiteQuery }[];
+};
+
+export type SQLiteRequest = {
+	// queries
+	query?: SQLiteQuery;
+	aggregates?: { name: keyof BQLAggregate; path?: string; select: SQLiteStatement }[]; // rows of { owner, value }
+	groupBy?: string;
+	// mutations
+	mutation?: MutationOperations;
+};
+
+/// query answers are the ones of the memory adapter, so both are parsed the same way
+export type SQLiteResponse = {
+	// queries
+	answers?: MemoryAnswer[];
+	aggregates?: AggregateAnswer[];
+	// mutations
+	dbIds?: Record<string, string>; // the $dbId of the first thing matched or created by each $bzId
+	written?: boolean;
+};
@@ -1,8 +1,10 @@
+import type { BQLAggregate } from '../..';
+
 export type TQLRequest = {
 	// queries
 	entity?: string;
-	roles?: { path: string; request: string; owner: string }[];
-	relations?: { relation: string; entity: string; request: string }[];
+	unsortedEntity?: string; // the things without a value in the sorted fields, fetched after the sorted ones
+	aggregates?: { name: keyof BQLAggregate; request: string; grouped: boolean }[];
 	// mutations
 	insertionMatches?: string;
 	deletionMatches?: string;
@@ -16,7 +16,21 @@ type RequireAtLeastOne<T> = {
 	[K in keyof T]-?: Required<Pick<T, K>> & Partial<Pick<T, Exclude<keyof T, K>>>;
 }[keyof T];
 
+type ComparableValue = number | string | Date;
+
 export type DataFilter = RequireAtLeastOne<{
 	$eq?: any;
-	$ge?: number | string;
+	$ne?: any;
+	$gt?: ComparableValue;
+	$gte?: ComparableValue;
+	$ge?: ComparableValue; // same as $gte
+	$lt?: ComparableValue;
+	$lte?: ComparableValue;
+	$in?: any[];
+	$nin?: any[];
+	// text only
+	$contains?: string;
+	$startsWith?: string;
+	$endsWith?: string;
+	$regex?: string; // typeQL (java) regex, matched with "like"
 }>;
@@ -10,13 +10,14 @@ export type BQLMutationBlock = {
 	$filter?: Filter | Filter[]; // todo: keyof BQLmutationBlock
 	$tempId?: string;
 	$op?: string;
+	$upsert?: 'create' | 'update'; // the branch an upsert took, reported in the result
 } & ({ $entity: string } | { $relation: string }); // | { $attribute: string });
 export type FilledBQLMutationBlock = WithRequired<BQLMutationBlock, '$tempId' | '$op'>;
 
 export type RawBQLMutation<T extends Record<string, any> = Record<string, any>> = (
 	| {
 			$id?: string;
-			$op?: 'create' | 'delete' | 'update'; //link and unlink can't happen in the root level but we will need to do a full tree type later that includes metadata
+			$op?: 'create' | 'delete' | 'update' | 'upsert'; //link and unlink can't happen in the root level but we will need to do a full tree type later that includes metadata
 			$tempId?: string;
 	  }
 	| {
@@ -26,9 +27,15 @@ export type RawBQLMutation<T extends Record<string, any> = Record<string, any>>
 			$relation: string;
 	  }
 ) &
-	T; /// TODO : explicitly type available fields
+	T; /// the fields of schemas declared `as const` are typed by BQLMutationInput
 
 export type ParsedBQLMutation = {
 	things: BQLMutationBlock[];
 	edges: BQLMutationBlock[];
 };
+
+export type ValidationIssue = {
+	path: string; // path of the field in the mutation, like 'accounts.0.provider'
+	validation: string; // the broken validation, like 'required' or 'pattern'
+	message: string;
+};
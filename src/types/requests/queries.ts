@@ -5,10 +5,53 @@ export type RawBQLQuery = {
 	$filter?: Record<string, any>; // todo
 	$fields?: BQLField[]; // nested don't need it, is specified by the parent. Todo: enrich queries and mutations so nested do show their types
 	$excludedFields?: BQLField[];
+	$limit?: number; // nested limits are applied per parent
+	$offset?: number;
+	$sort?: BQLSort[];
+	$aggregate?: BQLAggregate; // returns the aggregated values instead of the things
+	$groupBy?: string; // a dataField. Only with $aggregate
 } & ({ $entity: string } | { $relation: string });
 
+export type BQLAggregate = {
+	count?: boolean;
+	// dataFields
+	sum?: string;
+	avg?: string;
+	min?: string;
+	max?: string;
+};
+
+/// an aggregate as answered by the db, with a value per group when grouped
+export type AggregateAnswer = {
+	name: keyof BQLAggregate;
+	value?: unknown;
+	groups?: { owner: unknown; value: unknown }[];
+};
+
+export type BQLSort = {
+	field: string; // a dataField, including those inherited from extended things
+	desc?: boolean;
+};
+
 export type ParsedBQLQuery = Omit<RawBQLQuery, '$entity' | '$relation'> & {
 	// $entity: { name: string; definition: BormEntity };
 	$localFilters?: Record<string, any>; // todo:
 	$nestedFilters?: Record<string, any>; // todo:
 } & ({ $entity: EnrichedBormEntity } | { $relation: EnrichedBormRelation });
+
+/// RawBQLQuery as written in the calls of bormClient.query, with readonly arrays so the queries keep their literal types
+export type BQLQueryInput = BQLQueryNodeInput & ({ $entity: string } | { $relation: string });
+
+type BQLQueryNodeInput = {
+	$id?: string | readonly string[];
+	$filter?: Record<string, any>;
+	$fields?: readonly BQLFieldInput[];
+	$excludedFields?: readonly BQLFieldInput[];
+	$limit?: number;
+	$offset?: number;
+	$sort?: readonly BQLSort[];
+	$aggregate?: BQLAggregate;
+	$groupBy?: string;
+};
+
+export type BQLFieldInput = string | (BQLQueryNodeInput & { $path: string; $count?: boolean });
@@ -1,4 +1,4 @@
-import type { DBConnector, DataField, LinkField, RoleField } from '..';
+import type { DBConnector, DataField, Filter, LinkField, RoleField } from '..';
 
 export type BormSchema = {
 	entities: { [s: string]: BormEntity };
@@ -12,6 +12,8 @@ export type BormEntity =
 			defaultDBConnector: DBConnector; // at least one default connector
 			dataFields?: readonly DataField[];
 			linkFields?: readonly LinkField[];
+			permissions?: BormPermissions;
+			hooks?: BormHooks;
 	  }
 	| {
 			extends?: string;
@@ -19,9 +21,40 @@ export type BormEntity =
 			defaultDBConnector: DBConnector; // at least one default connector
 			dataFields?: readonly DataField[];
 			linkFields?: readonly LinkField[];
+			permissions?: BormPermissions;
+			hooks?: BormHooks;
 	  };
 
 export type BormRelation = BormEntity & {
 	defaultDBConnector: DBConnector & { path: string }; /// mandatory in relations
 	roles?: { [key: string]: RoleField };
 };
+
+export type AuthContext = Record<string, any>;
+
+/// Row level security. Rules get the context of each request, and the filters they return are added to every query
+export type BormPermissions = {
+	read?: (context: AuthContext) => Filter | boolean; // things not matching it are never returned, nested ones included
+	write?: (context: AuthContext) => Filter | boolean; // things that can be updated, deleted, linked and unlinked. The read rule by default
+	create?: (context: AuthContext, thing: Record<string, any>) => boolean; // checked with the values of each created thing. Without it, created things must match the write rule
+};
+
+/// the filled block of the node of the thing, and the context of the mutation
+type BeforeHook = (
+	thing: Record<string, any>,
+	context: AuthContext,
+) => Record<string, any> | void | Promise<Record<string, any> | void>;
+type AfterHook = (thing: Record<string, any>, context: AuthContext) => void | Promise<void>;
+
+/// Lifecycle of the things in mutations. Before hooks change their block, or return the fields to add or replace in it,
+/// nested blocks included, and throw to reject it. After hooks run once the mutation is written
+export type BormHooks = {
+	beforeCreate?: BeforeHook;
+	beforeUpdate?: BeforeHook;
+	beforeDelete?: BeforeHook;
+	afterCreate?: AfterHook;
+	afterUpdate?: AfterHook;
+	afterDelete?: AfterHook;
+	onLink?: AfterHook; // the thing is linked or replaced in a link or role field of the parent of its block
+	onUnlink?: AfterHook;
+};
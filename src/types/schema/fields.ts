@@ -24,7 +24,7 @@ export type LinkField = BormField & {
 } & (
 		| {
 				target: 'role';
-				filter?: Filter | Filter[];
+				filter?: Filter | readonly Filter[];
 		  }
 		| {
 				target: 'relation';
@@ -40,9 +40,20 @@ export type DataField = BormField & {
 	shared?: boolean;
 	default?: any; // todo: is either a value or a fn that return a value of the type datatype
 	contentType: ContentType;
-	validations?: any; // todo
+	validations?: Validations;
 	isVirtual?: boolean;
-	dbConnectors?: [DBConnector, ...DBConnector[]];
+	dbConnectors?: readonly [DBConnector, ...DBConnector[]];
+};
+
+export type Validations = {
+	required?: boolean; // creates need a value, and updates can't remove it
+	unique?: boolean; // no two things of the same type can have the same value
+	enum?: readonly unknown[];
+	min?: number | Date;
+	max?: number | Date;
+	length?: number | { min?: number; max?: number }; // of text values
+	pattern?: string | RegExp;
+	fn?: (value: any) => boolean | string; // a custom validator. Returns false or an error message when the value is not valid
 };
 
 export type ContentType =
@@ -100,5 +111,8 @@ export type CardinalityType = 'ONE' | 'MANY' | 'INTERVAL';
 
 export type RightType = 'CREATE' | 'DELETE' | 'UPDATE' | 'LINK' | 'UNLINK';
 
-export type BQLFieldObj = { $path: string } & Omit<RawBQLQuery, '$entity' | '$relation'>;
+export type BQLFieldObj = {
+	$path: string;
+	$count?: boolean; // returns the number of linked things instead of the things
+} & Omit<RawBQLQuery, '$entity' | '$relation'>;
 export type BQLField = string | BQLFieldObj;
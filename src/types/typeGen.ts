@@ -1,4 +1,13 @@
-import type { ContentTypeMapping } from '.';
+import type {
+	BormSchema,
+	BQLAggregateResponse,
+	BQLGroupedAggregateResponse,
+	BQLResponse,
+	ContentTypeMapping,
+	Filter,
+	QueryConfig,
+	RawBQLMutation,
+} from '.';
 
 type ContentTypeToType<C extends keyof ContentTypeMapping> = ContentTypeMapping[C];
 
@@ -55,3 +64,222 @@ type ExtractRoles<S> = 'roles' extends keyof S
 	  {};
 
 export type TypeGen<S extends BaseSchema> = ExtractDataFields<S> & ExtractLinkFields<S> & ExtractRoles<S>;
+
+// #region SCHEMA THINGS
+/// The things and fields of a schema declared `as const`
+
+type ThingName<S extends BormSchema> = (keyof S['entities'] | keyof S['relations']) & string;
+
+type SchemaThing<S extends BormSchema, T> = T extends keyof S['entities']
+	? S['entities'][T]
+	: T extends keyof S['relations']
+	? S['relations'][T]
+	: never;
+
+/// a thing and the things it extends, as it inherits their fields
+type ExtendedName<S extends BormSchema, T, Depth extends unknown[] = []> =
+	| T
+	| (Depth['length'] extends 10
+			? never
+			: SchemaThing<S, T> extends { extends: infer P }
+			? ExtendedName<S, P, [...Depth, unknown]>
+			: never);
+
+type WithExtended<S extends BormSchema, T> = SchemaThing<S, ExtendedName<S, T>>;
+
+/// a thing and the things extending it
+type ExtendingName<S extends BormSchema, T> = {
+	[X in ThingName<S>]: T extends ExtendedName<S, X> ? X : never;
+}[ThingName<S>];
+
+type DataFieldOf<S extends BormSchema, T> = WithExtended<S, T> extends infer X
+	? X extends { dataFields: readonly (infer F)[] }
+		? F
+		: never
+	: never;
+
+type LinkFieldOf<S extends BormSchema, T> = WithExtended<S, T> extends infer X
+	? X extends { linkFields: readonly (infer F)[] }
+		? F
+		: never
+	: never;
+
+type RolesOf<S extends BormSchema, T> = WithExtended<S, T> extends infer X
+	? X extends { roles: infer R }
+		? R
+		: never
+	: never;
+
+type RoleFieldOf<S extends BormSchema, T> = RolesOf<S, T> extends infer R
+	? R extends Record<string, ForRoleFIeld>
+		? { [K in keyof R & string]: { path: K; cardinality: R[K]['cardinality']; role: K; relation: T } }[keyof R & string]
+		: never
+	: never;
+
+type FieldOf<S extends BormSchema, T, P> = Extract<
+	DataFieldOf<S, T> | LinkFieldOf<S, T> | RoleFieldOf<S, T>,
+	{ path: P }
+>;
+
+/// the things with a linkField matching L, which are the ones playing its role
+type ThingsWithLinkField<S extends BormSchema, L> = {
+	[T in ThingName<S>]: SchemaThing<S, T> extends { linkFields: readonly (infer F)[] }
+		? [Extract<F, L>] extends [never]
+			? never
+			: T
+		: never;
+}[ThingName<S>];
+
+/// as in getLinkedThingSchema: roles get the things playing them, and linkFields their relation or the things playing
+/// the other roles of their relation
+type LinkedThing<S extends BormSchema, F> = F extends { role: infer Role; relation: infer R }
+	? ThingsWithLinkField<S, { relation: R; plays: Role }>
+	: F extends { target: 'relation'; relation: infer R }
+	? R
+	: F extends { relation: infer R extends string; plays: infer Plays }
+	? ThingsWithLinkField<S, { relation: R; target: 'role'; plays: Exclude<keyof RolesOf<S, R> & string, Plays> }>
+	: never;
+
+// #endregion
+
+// #region QUERY RESULTS
+/// The result of a query of a schema declared `as const`. Schemas typed as BormSchema get the untyped BQLResponse
+
+type FieldPath<F> = F extends string ? F : F extends { $path: infer P extends string } ? P : never;
+
+type QueriedPath<S extends BormSchema, T, N> = Exclude<
+	N extends { $fields: readonly (infer F)[] }
+		? FieldPath<F>
+		: (DataFieldOf<S, T> | LinkFieldOf<S, T> | RoleFieldOf<S, T>)['path'],
+	N extends { $excludedFields: readonly (infer F)[] } ? FieldPath<F> : never
+>;
+
+type FieldNode<N, P> = N extends { $fields: readonly (infer F)[] } ? Extract<F, { $path: P }> : never;
+
+type WithCardinality<V, C> = C extends 'MANY' ? V[] : V;
+
+type FieldResult<S extends BormSchema, T, P, Node, C> = [FieldOf<S, T, P>] extends [never]
+	? unknown
+	: FieldOf<S, T, P> extends { contentType: infer CT extends keyof ContentTypeMapping; cardinality: infer Ca }
+	? WithCardinality<ContentTypeMapping[CT], Ca>
+	: [Node] extends [never]
+	? WithCardinality<string, FieldOf<S, T, P>['cardinality']>
+	: [Node] extends [{ $count: true }]
+	? number
+	: /// an $id specified in a nested field returns an object and not an array
+	FieldOf<S, T, P>['cardinality'] extends 'ONE'
+	? NestedThingResult<S, LinkedThing<S, FieldOf<S, T, P>>, Node, C>
+	: [Node] extends [{ $id: string }]
+	? NestedThingResult<S, LinkedThing<S, FieldOf<S, T, P>>, Node, C>
+	: NestedThingResult<S, LinkedThing<S, FieldOf<S, T, P>>, Node, C>[];
+
+type Metadata<S extends BormSchema, T, C> = C extends { noMetadata: true }
+	? unknown
+	: T extends keyof S['relations']
+	? { $relation: T; $id: string }
+	: { $entity: T; $id: string };
+
+/// returnNulls returns every queried field, null when it has no value
+type ThingFields<S extends BormSchema, T, N, C> = C extends { returnNulls: true }
+	? { [P in QueriedPath<S, T, N>]: FieldResult<S, T, P, FieldNode<N, P>, C> | null }
+	: { [P in QueriedPath<S, T, N>]?: FieldResult<S, T, P, FieldNode<N, P>, C> };
+
+/// root queries only return things of the queried type, as they match it with isa!. Without $fields, each thing gets its
+/// own fields
+type ThingResult<S extends BormSchema, T, N, C> = N extends { $fields: readonly unknown[] }
+	? Flatten<ThingFields<S, T, N, C> & Metadata<S, T, C>>
+	: T extends unknown
+	? Flatten<ThingFields<S, T, N, C> & Metadata<S, T, C>>
+	: never;
+
+/// nested things of a type extending the one of their field are returned as ids, as in buildBQLTree
+type NestedThingResult<S extends BormSchema, T, N, C> =
+	| ThingResult<S, T, N, C>
+	| ([Exclude<ExtendingName<S, T>, T>] extends [never] ? never : string);
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+/// only equality filters on unique fields guarantee a single result, as in buildBQLTree
+type IsUniqueFilter<S extends BormSchema, T, Filter> = true extends {
+	[K in keyof Filter]: [Extract<DataFieldOf<S, T>, { path: K; validations: { unique: true } }>] extends [never]
+		? false
+		: Filter[K] extends readonly unknown[]
+		? false
+		: Filter[K] extends object
+		? Filter[K] extends { $eq: unknown }
+			? true
+			: false
+		: true;
+}[keyof Filter]
+	? true
+	: false;
+
+type QueryThing<Q> = Q extends { $entity: infer T } ? T : Q extends { $relation: infer T } ? T : never;
+
+export type BQLQueryResult<S extends BormSchema, Q, C = QueryConfig> = string extends ThingName<S>
+	? BQLResponse
+	: QueryThing<Q> extends ThingName<S>
+	? Q extends { $aggregate: infer A }
+		? Q extends { $groupBy: string }
+			? BQLGroupedAggregateResponse
+			: Pick<BQLAggregateResponse, keyof A & keyof BQLAggregateResponse>
+		: Q extends { $id: string }
+		? ThingResult<S, QueryThing<Q>, Q, C> | null
+		: Q extends { $filter: infer Filter }
+		? IsUniqueFilter<S, QueryThing<Q>, Filter> extends true
+			? ThingResult<S, QueryThing<Q>, Q, C> | null
+			: ThingResult<S, QueryThing<Q>, Q, C>[] | null
+		: ThingResult<S, QueryThing<Q>, Q, C>[] | null
+	: BQLResponse;
+// #endregion
+
+// #region MUTATION INPUT
+/// The mutations of a schema declared `as const`. Schemas typed as BormSchema get the untyped RawBQLMutation
+
+type RootOp = 'create' | 'update' | 'delete' | 'upsert';
+
+/// nested things can also be linked and unlinked from their parent, and replace the things it had
+type NestedOp = RootOp | 'link' | 'unlink' | 'replace';
+
+/// virtual fields are computed when queried, so they can't be sent to the db
+type WritableDataField<S extends BormSchema, T> = Exclude<DataFieldOf<S, T>, { isVirtual: true }>;
+
+type DataFieldValue<F> = F extends { contentType: infer CT extends keyof ContentTypeMapping }
+	? ContentTypeMapping[CT]
+	: never;
+
+/// ids of existing things or nested blocks. Arrays are only for MANY fields, and have either ids or blocks
+type LinkedValue<S extends BormSchema, F> = F extends { cardinality: 'MANY' }
+	? readonly string[] | readonly NestedMutation<S, LinkedThing<S, F>>[]
+	: string | NestedMutation<S, LinkedThing<S, F>>;
+
+type MutationFields<S extends BormSchema, T> = {
+	[F in WritableDataField<S, T> as F['path']]?:
+		| (F extends { cardinality: 'MANY' } ? readonly DataFieldValue<F>[] : DataFieldValue<F>)
+		| null;
+} & {
+	[F in LinkFieldOf<S, T> | RoleFieldOf<S, T> as F['path']]?: LinkedValue<S, F> | null;
+};
+
+type MutationMetadata<Op> = {
+	$id?: string | readonly string[];
+	$filter?: Filter | readonly Filter[];
+	$tempId?: string;
+	$op?: Op;
+};
+
+type ThingKey<S extends BormSchema, T> = T extends keyof S['relations'] ? '$relation' : '$entity';
+
+/// nested blocks get their thing from their field, unless they are of a thing extending it
+type NestedMutation<S extends BormSchema, T> = ExtendingName<S, T> extends infer X
+	? X extends unknown
+		? Flatten<{ [K in ThingKey<S, X>]?: X } & MutationMetadata<NestedOp> & MutationFields<S, X>>
+		: never
+	: never;
+
+type RootMutation<S extends BormSchema> = {
+	[T in ThingName<S>]: Flatten<{ [K in ThingKey<S, T>]: T } & MutationMetadata<RootOp> & MutationFields<S, T>>;
+}[ThingName<S>];
+
+export type BQLMutationInput<S extends BormSchema> = string extends ThingName<S> ? RawBQLMutation : RootMutation<S>;
+// #endregion
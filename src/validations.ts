@@ -0,0 +1,121 @@
+import { BormValidationError } from './errors';
+import { weekDays } from './helpers';
+import type { ContentType, EnrichedBormEntity, EnrichedBormRelation, ValidationIssue, Validations } from './types';
+
+/// thrown with every issue of the mutation at once. Its path is the one of the first issue
+export class ValidationError extends BormValidationError {
+	errors: ValidationIssue[];
+
+	constructor(errors: ValidationIssue[]) {
+		super(`Invalid mutation:\n${errors.map((error) => `- ${error.message}`).join('\n')}`, {
+			code: 'INVALID_VALUE',
+			path: errors[0]?.path,
+		});
+		this.name = 'ValidationError';
+		this.errors = errors;
+	}
+}
+
+const emailPattern =
+	/^(?=.{1,64}@)[A-Za-z0-9_-]+(\.[A-Za-z0-9_-]+)*@[^-][A-Za-z0-9-]+(\.[A-Za-z0-9-]+)*(\.[A-Za-z]{2,})$/;
+
+/// Validations every dataField of a contentType has. The ones of the dataField override them
+const contentTypeValidations: Partial<Record<ContentType, Validations>> = {
+	EMAIL: { pattern: emailPattern },
+	WEEK_DAY: { enum: weekDays },
+	PERCENTAGE: { min: 0, max: 100 },
+};
+
+export type ValidatedNode = {
+	schema: EnrichedBormEntity | EnrichedBormRelation;
+	node: Record<string, any>;
+	path?: string | null; // nodePath of the node in the mutation
+};
+
+const format = (value: unknown) => (value instanceof Date ? value.toISOString() : `${value}`);
+
+/// dates can be sent as strings. Values that are neither numbers nor dates are NaN, so they are never out of range
+const comparable = (value: unknown) =>
+	value instanceof Date ? value.valueOf() : typeof value === 'string' ? new Date(value).valueOf() : Number(value);
+
+const getValueIssues = (validations: Validations, value: unknown, path: string): ValidationIssue[] => {
+	const issue = (validation: string, message: string) => ({
+		path,
+		validation,
+		message: `Value of '${path}' ${message}`,
+	});
+	const { enum: enumValues, min, max, length, pattern, fn } = validations;
+	const lengths = typeof length === 'number' ? { min: length, max: length } : length;
+	const customResult = fn?.(value);
+
+	return [
+		...(enumValues && !enumValues.includes(value) ? [issue('enum', `must be one of ${enumValues.join(', ')}`)] : []),
+		...(min !== undefined && comparable(value) < comparable(min)
+			? [issue('min', `must be greater than or equal to ${format(min)}`)]
+			: []),
+		...(max !== undefined && comparable(value) > comparable(max)
+			? [issue('max', `must be lower than or equal to ${format(max)}`)]
+			: []),
+		...(lengths?.min !== undefined && typeof value === 'string' && value.length < lengths.min
+			? [issue('length', `must have at least ${lengths.min} characters`)]
+			: []),
+		...(lengths?.max !== undefined && typeof value === 'string' && value.length > lengths.max
+			? [issue('length', `must have at most ${lengths.max} characters`)]
+			: []),
+		...(pattern && typeof value === 'string' && !new RegExp(pattern).test(value)
+			? [issue('pattern', pattern === emailPattern ? 'must be a valid email' : `must match ${pattern}`)]
+			: []),
+		...(customResult === false || typeof customResult === 'string'
+			? [issue('fn', typeof customResult === 'string' ? customResult : 'is not valid')]
+			: []),
+	];
+};
+
+/// Every violation of every created or updated node, so they can be reported at once
+export const getValidationIssues = (nodes: ValidatedNode[]): ValidationIssue[] => {
+	const uniqueValues = new Map<string, string>(); // `${thing}.${field}:${value}` -> path of the first value
+
+	return nodes.flatMap(({ schema, node, path: nodePath }) => {
+		if (node.$op !== 'create' && node.$op !== 'update') {
+			return [];
+		}
+		/// virtual fields are never sent to the db
+		const dataFields = schema.dataFields?.filter((dataField) => !dataField.isVirtual) || [];
+		return dataFields.flatMap((dataField) => {
+			const validations = { ...contentTypeValidations[dataField.contentType], ...dataField.validations };
+			const path = nodePath ? `${nodePath}.${dataField.path}` : dataField.path;
+			const value = node[dataField.path];
+
+			if (value === undefined || value === null) {
+				/// updates only remove values with null
+				const isMissing = node.$op === 'create' || value === null;
+				return validations.required && isMissing
+					? [{ path, validation: 'required', message: `Value of '${path}' is required` }]
+					: [];
+			}
+
+			const values: unknown[] = dataField.cardinality === 'MANY' && Array.isArray(value) ? value : [value];
+			return values.flatMap((x) => {
+				/// empty strings clear the value, so the validations of the contentType don't apply to them
+				const issues = getValueIssues(x === '' ? dataField.validations || {} : validations, x, path);
+				if (!validations.unique) {
+					return issues;
+				}
+				const key = `${schema.name}.${dataField.path}:${JSON.stringify(x)}`;
+				const repeatedIn = uniqueValues.get(key);
+				if (repeatedIn === undefined) {
+					uniqueValues.set(key, path);
+					return issues;
+				}
+				return [
+					...issues,
+					{
+						path,
+						validation: 'unique',
+						message: `Value of '${path}' must be unique, it is repeated in '${repeatedIn}'`,
+					},
+				];
+			});
+		});
+	});
+};
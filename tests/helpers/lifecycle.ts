@@ -1,20 +1,24 @@
-import { readFileSync } from 'fs';
+import { readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 import { SessionType, TransactionType, TypeDB } from 'typedb-driver';
 import { v4 as uuidv4 } from 'uuid';
 
-import type { Provider } from '../../src/index';
+import type { BormConfig, Provider } from '../../src/index';
 import BormClient from '../../src/index';
 // import { cloudConfig } from '../mocks/cloudConfig';
+import { testData } from '../mocks/data';
 import { testConfig } from '../mocks/testConfig';
 import { testSchema } from '../mocks/testSchema';
 
 // to replace by the provider being tested. In the future, test every provider
 // const provider: Provider = 'typeDBCluster';
-const provider: Provider = 'typeDB';
+export const provider: Provider = testConfig.dbConnectors[0].provider;
 
-const providerConfig = {
+const providerConfig: Partial<Record<Provider, BormConfig>> = {
 	typeDB: testConfig,
+	sqlite: testConfig,
 	// typeDBCluster: cloudConfig,
 };
 
@@ -28,8 +32,27 @@ const createClient = async (connector: any) => {
 	throw new Error('Invalid provider');
 };
 
+/// the schema is defined by borm and the data inserted with the mutations of data.ts
+const initSQLite = async () => {
+	const [connector] = testConfig.dbConnectors;
+	const dbName = join(tmpdir(), `${connector.dbName}_${uuidv4()}.sqlite`);
+	const bormClient = new BormClient({
+		schema: testSchema,
+		config: { ...testConfig, dbConnectors: [{ ...connector, dbName }] },
+	});
+	await bormClient.init();
+	await bormClient.define();
+	for (const batch of testData) {
+		await bormClient.mutate(batch, { noMetadata: true });
+	}
+	return { bormClient, dbName };
+};
+
 export const init = async () => {
-	const [connector] = providerConfig[provider].dbConnectors;
+	if (provider === 'sqlite') {
+		return initSQLite();
+	}
+	const [connector] = (providerConfig[provider] as BormConfig).dbConnectors;
 	const tqlSchema = readFileSync('./tests/mocks/schema.tql', 'utf8');
 	const tqlData = readFileSync('./tests/mocks/data.tql', 'utf8');
 	const dbName = `${connector.dbName}_${uuidv4()}`;
@@ -65,7 +88,11 @@ export const init = async () => {
 };
 
 export const cleanup = async (dbName: string) => {
-	const [connector] = providerConfig[provider].dbConnectors;
+	if (provider === 'sqlite') {
+		rmSync(dbName, { force: true });
+		return;
+	}
+	const [connector] = (providerConfig[provider] as BormConfig).dbConnectors;
 	const client = await createClient(connector);
 
 	await (await client.databases.get(dbName)).delete();
@@ -0,0 +1,98 @@
+import type { RawBQLMutation } from '../../src/index';
+
+//* the same data as data.tql, for the providers without typeQL. Each batch links things of the previous ones
+export const testData: RawBQLMutation[][] = [
+	[
+		{ $entity: 'User', id: 'user1', name: 'Antoine', email: 'antoine@test.com' },
+		{ $entity: 'User', id: 'user2', name: 'Loic', email: 'loic@test.com' },
+		{ $entity: 'User', id: 'user3', name: 'Ann', email: 'ann@test.com' },
+		{ $entity: 'User', id: 'user4', name: 'Ben' },
+		{ $entity: 'User', id: 'user5', name: 'Charlize', email: 'charlize@test.com' },
+
+		{ $entity: 'Thing', id: 'thing1', stuff: 'A' },
+		{ $entity: 'Thing', id: 'thing2', stuff: 'B' },
+		{ $entity: 'Thing', id: 'thing3', stuff: 'C' },
+		{ $entity: 'Thing', id: 'thing4', stuff: 'D' },
+		{ $entity: 'Thing', id: 'thing5', stuff: 'E' },
+		{ $entity: 'SubthingOne', id: 'subthingone1', stuff: 'F' },
+		{ $entity: 'SubthingOne', id: 'subthingone2', stuff: 'G' },
+		{ $entity: 'SubthingOne', id: 'subthingone3', stuff: 'H' },
+		{ $entity: 'SubthingTwo', id: 'subthingtwo1', stuff: 'I' },
+		{ $entity: 'SubthingTwo', id: 'subthingtwo2', stuff: 'J' },
+		{ $entity: 'SubthingTwo', id: 'subthingtwo3', stuff: 'K' },
+
+		{
+			$entity: 'SuperUser',
+			id: 'superuser1',
+			name: 'Beatrix Kiddo',
+			email: 'black.mamba@deadly-viper.com',
+			power: 'katana',
+		},
+		{
+			$entity: 'God',
+			id: 'god1',
+			name: 'Richard David James',
+			email: 'afx@rephlex.com',
+			power: 'mind control',
+			isEvil: true,
+		},
+
+		{ $entity: 'Account', id: 'account1-1', provider: 'google' },
+		{ $entity: 'Account', id: 'account1-2', provider: 'facebook' },
+		{ $entity: 'Account', id: 'account1-3', provider: 'github' },
+		{ $entity: 'Account', id: 'account2-1', provider: 'google' },
+		{ $entity: 'Account', id: 'account3-1', provider: 'facebook' },
+
+		{ $entity: 'Space', id: 'space-1', name: 'Production' },
+		{ $entity: 'Space', id: 'space-2', name: 'Dev' },
+		{ $entity: 'Space', id: 'space-3', name: 'Not-owned' },
+
+		{ $entity: 'Power', id: 'power1', description: 'useless power' },
+
+		{ $entity: 'Color', id: 'yellow' },
+		{ $entity: 'Color', id: 'blue' },
+	],
+	[
+		{ $relation: 'ThingRelation', id: 'tr2', things: ['thing5'], root: 'thing2', extra: 'thing1' },
+		{ $relation: 'ThingRelation', id: 'tr3', things: ['thing5', 'thing4'], root: 'thing1', extra: 'thing1' },
+		{ $relation: 'ThingRelation', id: 'tr4', things: ['thing5'], root: 'thing1', extra: 'thing1' },
+		{ $relation: 'ThingRelation', id: 'tr5', things: ['thing5'], root: 'thing1', extra: 'thing1' },
+		{ $relation: 'ThingRelation', id: 'tr6', things: ['thing5'], root: 'thing2', extra: 'thing1' },
+		{ $relation: 'ThingRelation', id: 'tr7', things: ['thing5'], root: 'thing3', extra: 'thing1' },
+		{ $relation: 'ThingRelation', id: 'tr8', things: ['thing5'], root: 'thing4', extra: 'thing1' },
+		{ $relation: 'ThingRelation', id: 'tr9', things: ['thing5'], root: 'thing4', extra: 'thing1' },
+		{ $relation: 'ThingRelation', id: 'tr10', extra: 'thing1' },
+		{ $relation: 'ThingRelation', id: 'tr11', root: 'thing4', extra: 'thing5' },
+
+		{ $relation: 'User-Accounts', id: 'ua1-1', user: 'user1', accounts: ['account1-1'] },
+		{ $relation: 'User-Accounts', id: 'ua1-2', user: 'user1', accounts: ['account1-2'] },
+		{ $relation: 'User-Accounts', id: 'ua1-3', user: 'user1', accounts: ['account1-3'] },
+		{ $relation: 'User-Accounts', id: 'ua2-1', user: 'user2', accounts: ['account2-1'] },
+		{ $relation: 'User-Accounts', id: 'ua3-1', user: 'user3', accounts: ['account3-1'] },
+
+		{ $relation: 'Space-User', id: 'u1-s1', users: ['user1'], spaces: ['space-1'] },
+		{ $relation: 'Space-User', id: 'u1-s2', users: ['user1'], spaces: ['space-2'] },
+		{ $relation: 'Space-User', id: 'u5-s1', users: ['user5'], spaces: ['space-1'] },
+		{ $relation: 'Space-User', id: 'u2-s2', users: ['user2'], spaces: ['space-2'] },
+		{ $relation: 'Space-User', id: 'u3-s2', users: ['user3'], spaces: ['space-2'], power: 'power1' },
+
+		{ $relation: 'UserTag', id: 'tag-1', users: ['user1'] },
+		{ $relation: 'UserTag', id: 'tag-2', users: ['user1', 'user3'] },
+		{ $relation: 'UserTag', id: 'tag-3', users: ['user2'] },
+		{ $relation: 'UserTag', id: 'tag-4', users: ['user2'] },
+
+		{ $relation: 'Kind', id: 'kind-book', name: 'book', space: 'space-2' },
+
+		{ $relation: 'Self', id: 'self1', space: 'space-2' },
+	],
+	[
+		{ $relation: 'UserTagGroup', id: 'utg-1', tags: ['tag-1', 'tag-2'], color: 'yellow' },
+		{ $relation: 'UserTagGroup', id: 'utg-2', tags: ['tag-3'], color: 'blue', space: 'space-3' },
+
+		{ $relation: 'Self', id: 'self2', space: 'space-2', owner: 'self1' },
+	],
+	[
+		{ $relation: 'Self', id: 'self3', space: 'space-2', owner: 'self2' },
+		{ $relation: 'Self', id: 'self4', space: 'space-2', owner: 'self2' },
+	],
+];
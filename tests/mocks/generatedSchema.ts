@@ -1983,7 +1983,7 @@ export const typesSchema = {
 			virtualFields: [],
 		},
 		'Self': {
-			idFields: ['id', 'id'],
+			idFields: ['id'],
 			extends: 'SpaceObj',
 			defaultDBConnector: {
 				id: 'default',
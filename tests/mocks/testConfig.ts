@@ -5,11 +5,18 @@ export const testConfig: BormConfig = {
 		provider: 'blitz-orm-js',
 	},
 	dbConnectors: [
-		{
-			id: 'default',
-			provider: 'typeDB',
-			dbName: 'test',
-			url: 'localhost:1729',
-		},
+		// BORM_TEST_PROVIDER=sqlite runs the tests without a typeDB server, the dbName being the file of the db
+		process.env.BORM_TEST_PROVIDER === 'sqlite'
+			? {
+					id: 'default',
+					provider: 'sqlite',
+					dbName: 'test',
+			  }
+			: {
+					id: 'default',
+					provider: 'typeDB',
+					dbName: 'test',
+					url: 'localhost:1729',
+			  },
 	],
 };
@@ -112,7 +112,7 @@ export const testSchema: BormSchema = {
 			defaultDBConnector: { id: 'default' }, // in the future multiple can be specified in the config file. Either they fetch full schemas or they will require a relation to merge attributes from different databases
 			dataFields: [
 				id,
-				{ ...name, rights: ['CREATE', 'UPDATE'] },
+				{ ...name, rights: ['CREATE', 'UPDATE', 'DELETE'] },
 				{
 					path: 'email',
 					cardinality: 'ONE',
@@ -0,0 +1,54 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import type { BormSchema } from '../../src/index';
+
+/// a schema declared `as const`, so its queries and mutations are typed
+export const typedSchema = {
+	entities: {
+		User: {
+			idFields: ['id'],
+			defaultDBConnector: { id: 'default' },
+			dataFields: [
+				{ path: 'id', cardinality: 'ONE', contentType: 'ID', validations: { unique: true } },
+				{ path: 'name', cardinality: 'ONE', contentType: 'TEXT' },
+				{ path: 'email', cardinality: 'ONE', contentType: 'EMAIL', validations: { unique: true } },
+				{ path: 'tags', cardinality: 'MANY', contentType: 'TEXT' },
+				{
+					path: 'isAnn',
+					cardinality: 'ONE',
+					contentType: 'BOOLEAN',
+					isVirtual: true,
+					default: { type: 'function', value: ({ name }: { name?: string }) => name === 'Ann' },
+				},
+			],
+			linkFields: [
+				{ path: 'accounts', relation: 'User-Accounts', plays: 'user', target: 'role', cardinality: 'MANY' },
+				{ path: 'user-accounts', relation: 'User-Accounts', plays: 'user', target: 'relation', cardinality: 'MANY' },
+			],
+		},
+		SuperUser: {
+			extends: 'User',
+			defaultDBConnector: { id: 'default' },
+			dataFields: [{ path: 'power', cardinality: 'ONE', contentType: 'NUMBER' }],
+		},
+		Account: {
+			idFields: ['id'],
+			defaultDBConnector: { id: 'default' },
+			dataFields: [
+				{ path: 'id', cardinality: 'ONE', contentType: 'ID' },
+				{ path: 'provider', cardinality: 'ONE', contentType: 'TEXT' },
+			],
+			linkFields: [{ path: 'user', relation: 'User-Accounts', plays: 'accounts', target: 'role', cardinality: 'ONE' }],
+		},
+	},
+	relations: {
+		'User-Accounts': {
+			idFields: ['id'],
+			defaultDBConnector: { id: 'default', path: 'User-Accounts' },
+			dataFields: [
+				{ path: 'id', cardinality: 'ONE', contentType: 'ID', default: { type: 'function', value: () => uuidv4() } },
+			],
+			roles: { user: { cardinality: 'ONE' }, accounts: { cardinality: 'MANY' } },
+		},
+	},
+} as const satisfies BormSchema;
@@ -0,0 +1,162 @@
+import 'jest';
+
+import type { BormSchema } from '../../../src/index';
+import BormClient from '../../../src/index';
+import { cleanup, init, provider } from '../../helpers/lifecycle';
+import { testConfig } from '../../mocks/testConfig';
+import { testSchema } from '../../mocks/testSchema';
+
+/// seats are identified by their venue and their number, and bookings by their id
+const compositeSchema: BormSchema = {
+	...testSchema,
+	entities: {
+		...testSchema.entities,
+		Seat: {
+			idFields: ['venue', 'seatNumber'],
+			defaultDBConnector: { id: 'default' },
+			dataFields: [
+				{ shared: true, path: 'venue', cardinality: 'ONE', contentType: 'TEXT' },
+				{ shared: true, path: 'seatNumber', cardinality: 'ONE', contentType: 'NUMBER' },
+				{ path: 'label', cardinality: 'ONE', contentType: 'TEXT' },
+			],
+			linkFields: [{ path: 'bookings', relation: 'Booking', plays: 'seat', target: 'relation', cardinality: 'MANY' }],
+		},
+	},
+	relations: {
+		...testSchema.relations,
+		Booking: {
+			idFields: ['id'],
+			defaultDBConnector: { id: 'default', path: 'Booking' },
+			dataFields: [{ shared: true, path: 'id', cardinality: 'ONE', contentType: 'ID' }],
+			roles: { seat: { cardinality: 'ONE' } },
+		},
+	},
+};
+
+describe('Composite ids', () => {
+	let dbName: string;
+	let bormClient: BormClient;
+
+	beforeAll(async () => {
+		const { dbName: configDbName } = await init();
+		dbName = configDbName;
+		bormClient = new BormClient({
+			schema: compositeSchema,
+			config: { ...testConfig, dbConnectors: [{ ...testConfig.dbConnectors[0], dbName }] },
+		});
+		await bormClient.init();
+	}, 15000);
+
+	it('ci1[define] Composite ids are unique as a whole', async () => {
+		expect(bormClient).toBeDefined();
+
+		const plan = await bormClient.define({ reset: true });
+		expect(plan.applied).toBe(true);
+		if (provider === 'sqlite') {
+			expect(plan.changes).toEqual(
+				expect.arrayContaining([
+					{
+						action: 'define',
+						statement: 'CREATE UNIQUE INDEX "Seat·venue·seatNumber·unique" ON "Seat" ("venue", "seatNumber")',
+						destructive: false,
+					},
+				]),
+			);
+			return;
+		}
+		expect(plan.changes).toEqual(
+			expect.arrayContaining([
+				{ action: 'define', statement: 'Seat owns venue @key', destructive: false },
+				{ action: 'define', statement: 'Seat owns seatNumber @key', destructive: false },
+			]),
+		);
+	});
+
+	it('ci2[create, query] The $id of a composite id joins the values of its idFields', async () => {
+		expect(bormClient).toBeDefined();
+
+		const created = await bormClient.mutate([
+			{ $entity: 'Seat', venue: 'Main', seatNumber: 1, label: 'Front' },
+			{ $entity: 'Seat', venue: 'Main', seatNumber: 2, label: 'Back' },
+			/// separators in the values are escaped
+			{ $entity: 'Seat', venue: 'Hall: B', seatNumber: 1 },
+		]);
+		expect(created).toEqual(
+			expect.arrayContaining([
+				expect.objectContaining({ $entity: 'Seat', $op: 'create', $id: 'Main:1' }),
+				expect.objectContaining({ $entity: 'Seat', $op: 'create', $id: 'Hall\\: B:1' }),
+			]),
+		);
+
+		const seat = await bormClient.query({ $entity: 'Seat', $id: 'Main:1' });
+		expect(seat).toEqual({ $entity: 'Seat', $id: 'Main:1', venue: 'Main', seatNumber: 1, label: 'Front' });
+
+		const seats = await bormClient.query(
+			{
+				$entity: 'Seat',
+				$id: ['Main:2', 'Hall\\: B:1'],
+				$fields: ['venue', 'seatNumber'],
+				$sort: [{ field: 'venue' }],
+			},
+			{ noMetadata: true },
+		);
+		expect(seats).toEqual([
+			{ venue: 'Hall: B', seatNumber: 1 },
+			{ venue: 'Main', seatNumber: 2 },
+		]);
+	});
+
+	it('ci3[link, filter] Linked things with composite ids are returned and filtered by their $id', async () => {
+		expect(bormClient).toBeDefined();
+
+		await bormClient.mutate({ $relation: 'Booking', id: 'booking1', seat: 'Main:2' });
+		const booking = await bormClient.query({ $relation: 'Booking', $id: 'booking1' }, { noMetadata: true });
+		expect(booking).toEqual({ id: 'booking1', seat: 'Main:2' });
+
+		const bookings = await bormClient.query(
+			{ $relation: 'Booking', $filter: { seat: 'Main:2' }, $fields: ['id', { $path: 'seat', $fields: ['label'] }] },
+			{ noMetadata: true },
+		);
+		expect(bookings).toEqual([{ id: 'booking1', seat: { label: 'Back' } }]);
+		expect(await bormClient.query({ $relation: 'Booking', $filter: { seat: 'Main:1' } })).toBeNull();
+	});
+
+	it('ci4[update, delete] Things with composite ids are updated and deleted by their $id', async () => {
+		expect(bormClient).toBeDefined();
+
+		await bormClient.mutate({ $entity: 'Seat', $id: 'Main:1', label: 'Front row' });
+		const seat = await bormClient.query({ $entity: 'Seat', $id: 'Main:1', $fields: ['label'] }, { noMetadata: true });
+		expect(seat).toEqual({ label: 'Front row' });
+
+		await bormClient.mutate({ $entity: 'Seat', $op: 'delete', $id: 'Hall\\: B:1' });
+		const seats = await bormClient.query({ $entity: 'Seat', $fields: ['venue', 'seatNumber'] }, { noMetadata: true });
+		expect(seats).toEqual(
+			expect.arrayContaining([
+				{ venue: 'Main', seatNumber: 1 },
+				{ venue: 'Main', seatNumber: 2 },
+			]),
+		);
+		expect(seats).toHaveLength(2);
+	});
+
+	it('ci5[create, errors] Composite ids need a value in every idField', async () => {
+		expect(bormClient).toBeDefined();
+
+		await expect(bormClient.mutate({ $entity: 'Seat', venue: 'Main' })).rejects.toThrow(
+			'The composite id of Seat requires a value in [seatNumber] to be created',
+		);
+		/// the error of the db driver is its cause
+		await expect(bormClient.mutate({ $entity: 'Seat', venue: 'Main', seatNumber: 2 })).rejects.toMatchObject({
+			code: 'UNIQUE_CONSTRAINT',
+			cause: expect.anything(),
+		});
+		await expect(bormClient.query({ $entity: 'Seat', $id: 'Main' })).rejects.toThrow(
+			"The $id 'Main' of Seat must have a value for each of venue, seatNumber",
+		);
+	});
+
+	afterAll(async () => {
+		await bormClient.close();
+		await cleanup(dbName);
+	});
+});
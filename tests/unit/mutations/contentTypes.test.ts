@@ -0,0 +1,160 @@
+import 'jest';
+
+import type { BormSchema, ContentType, DataField } from '../../../src/index';
+import BormClient from '../../../src/index';
+import { cleanup, init, provider } from '../../helpers/lifecycle';
+import { testConfig } from '../../mocks/testConfig';
+import { testSchema } from '../../mocks/testSchema';
+
+/// one dataField per contentType, with the value that must come back from the db
+const samples: [string, ContentType, unknown][] = [
+	['json', 'JSON', { list: [1, 'two', true], nested: { empty: null, quote: 'say "hi"' } }],
+	['color', 'COLOR', '#ff0000'],
+	['boolean', 'BOOLEAN', false],
+	['point', 'POINT', { x: 1.5, y: -2.25 }],
+	['file', 'FILE', 'files/report.pdf'],
+	['email', 'EMAIL', 'sample@test.com'],
+	['phone', 'PHONE', '+34 600 000 000'],
+	['weekDay', 'WEEK_DAY', 'Monday'],
+	['duration', 'DURATION', 3600.5],
+	['hour', 'HOUR', 13],
+	['time', 'TIME', new Date('1970-01-01T13:30:00.000Z')],
+	['date', 'DATE', new Date('2023-06-01T10:20:30.400Z')],
+	['rating', 'RATING', 4.5],
+	['currency', 'CURRENCY', 19.99],
+	['percentage', 'PERCENTAGE', 0.25],
+	['numberDecimal', 'NUMBER_DECIMAL', 3.14159],
+	['number', 'NUMBER', 42],
+	['url', 'URL', 'https://blitz-orm.com/docs?a=1&b=2'],
+	['password', 'PASSWORD', 'p4$$w\\rd'],
+	['languageText', 'LANGUAGE_TEXT', 'Hola, ¿qué tal?'],
+	['richText', 'RICH_TEXT', '<p class="intro">Hello</p>'],
+	['text', 'TEXT', 'plain text'],
+];
+
+const sampleSchema: BormSchema = {
+	...testSchema,
+	entities: {
+		...testSchema.entities,
+		Sample: {
+			idFields: ['id'],
+			defaultDBConnector: { id: 'default' },
+			dataFields: [
+				{ shared: true, path: 'id', cardinality: 'ONE', contentType: 'ID' },
+				...samples.map(([path, contentType]): DataField => ({ path, contentType, cardinality: 'ONE' })),
+			],
+		},
+	},
+};
+
+describe('Content types', () => {
+	let dbName: string;
+	let bormClient: BormClient;
+
+	beforeAll(async () => {
+		const { dbName: configDbName } = await init();
+		dbName = configDbName;
+		bormClient = new BormClient({
+			schema: sampleSchema,
+			config: { ...testConfig, dbConnectors: [{ ...testConfig.dbConnectors[0], dbName }] },
+		});
+		await bormClient.init();
+	}, 15000);
+
+	it('ct1[define] Every contentType has a value type', async () => {
+		expect(bormClient).toBeDefined();
+
+		const plan = await bormClient.define({ reset: true });
+		if (provider === 'sqlite') {
+			/// every attribute is a column of the table
+			const sampleTable = plan.changes.find((change) => change.statement.startsWith('CREATE TABLE "Sample"'));
+			[
+				'"Sample·json" TEXT',
+				'"Sample·point·x" REAL',
+				'"Sample·point·y" REAL',
+				'"Sample·time" INTEGER',
+				'"Sample·currency" REAL',
+				'"Sample·number" INTEGER',
+				'"Sample·weekDay" TEXT',
+			].forEach((column) => expect(sampleTable?.statement).toContain(column));
+			expect(plan.applied).toBe(true);
+			return;
+		}
+		expect(plan.changes).toEqual(
+			expect.arrayContaining([
+				{ action: 'define', statement: 'Sample·json sub attribute, value string', destructive: false },
+				{ action: 'define', statement: 'Sample·point·x sub attribute, value double', destructive: false },
+				{ action: 'define', statement: 'Sample·point·y sub attribute, value double', destructive: false },
+				{ action: 'define', statement: 'Sample owns Sample·point·x', destructive: false },
+				{ action: 'define', statement: 'Sample owns Sample·point·y', destructive: false },
+				{ action: 'define', statement: 'Sample·time sub attribute, value datetime', destructive: false },
+				{ action: 'define', statement: 'Sample·currency sub attribute, value double', destructive: false },
+				{ action: 'define', statement: 'Sample·number sub attribute, value long', destructive: false },
+				{ action: 'define', statement: 'Sample·weekDay sub attribute, value string', destructive: false },
+			]),
+		);
+		expect(plan.applied).toBe(true);
+	});
+
+	it('ct2[create] Every contentType round trips', async () => {
+		expect(bormClient).toBeDefined();
+
+		const sample = Object.fromEntries(samples.map(([path, , value]) => [path, value]));
+		await bormClient.mutate({ $entity: 'Sample', id: 'sample1', ...sample });
+
+		const res = await bormClient.query({ $entity: 'Sample', $id: 'sample1' }, { noMetadata: true });
+		expect(res).toEqual({ id: 'sample1', ...sample });
+	});
+
+	it('ct3[update] Values stored in several attributes are replaced', async () => {
+		expect(bormClient).toBeDefined();
+
+		await bormClient.mutate({
+			$entity: 'Sample',
+			$id: 'sample1',
+			point: { x: 0, y: 10 },
+			json: ['replaced'],
+		});
+
+		const res = await bormClient.query(
+			{ $entity: 'Sample', $id: 'sample1', $fields: ['point', 'json'] },
+			{ noMetadata: true },
+		);
+		expect(res).toEqual({ point: { x: 0, y: 10 }, json: ['replaced'] });
+	});
+
+	it('ct4[filter] JSON and number values can be filtered', async () => {
+		expect(bormClient).toBeDefined();
+
+		const res = await bormClient.query(
+			{ $entity: 'Sample', $filter: { json: { $eq: ['replaced'] }, number: { $gte: 42 } }, $fields: ['id'] },
+			{ noMetadata: true },
+		);
+		expect(res).toEqual([{ id: 'sample1' }]);
+	});
+
+	it('ct5[create] Values that do not match their contentType are rejected', async () => {
+		expect(bormClient).toBeDefined();
+
+		await expect(bormClient.mutate({ $entity: 'Sample', id: 'sample2', weekDay: 'Someday' })).rejects.toThrow(
+			"Value of 'weekDay' must be one of Sunday, Monday",
+		);
+		await expect(bormClient.mutate({ $entity: 'Sample', id: 'sample2', number: 1.5 })).rejects.toThrow(
+			"Value of 'number' must be an integer",
+		);
+		await expect(bormClient.mutate({ $entity: 'Sample', id: 'sample2', point: { x: 1 } })).rejects.toThrow(
+			"Value of 'point.y' must be a finite number",
+		);
+		await expect(bormClient.mutate({ $entity: 'Sample', id: 'sample2', point: 'here' })).rejects.toThrow(
+			"Value of 'point' must be an object with x, y",
+		);
+		await expect(bormClient.query({ $entity: 'Sample', $filter: { point: { $eq: { x: 0, y: 10 } } } })).rejects.toThrow(
+			"'point' is of type POINT, which is stored in several attributes",
+		);
+	});
+
+	afterAll(async () => {
+		await bormClient.close();
+		await cleanup(dbName);
+	});
+});
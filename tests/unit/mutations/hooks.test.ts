@@ -0,0 +1,139 @@
+import 'jest';
+
+import type { BormSchema } from '../../../src/index';
+import BormClient from '../../../src/index';
+import { testSchema } from '../../mocks/testSchema';
+
+const calls: string[] = [];
+
+/// users are stamped and delete their accounts with them, and accounts report their links
+const hooksSchema: BormSchema = {
+	...testSchema,
+	entities: {
+		...testSchema.entities,
+		User: {
+			...testSchema.entities.User,
+			dataFields: [
+				...(testSchema.entities.User.dataFields || []),
+				{ path: 'updatedAt', cardinality: 'ONE', contentType: 'DATE' },
+			],
+			hooks: {
+				beforeCreate: (user) => {
+					calls.push(`creating ${user.id}`);
+					return { updatedAt: new Date('2024-01-01') };
+				},
+				beforeUpdate: (user) => {
+					if (user.name === 'Admin') {
+						throw new Error("Users can't be renamed to Admin");
+					}
+					return { updatedAt: new Date('2024-02-01') };
+				},
+				beforeDelete: () => ({ accounts: [{ $op: 'delete' }] }),
+				afterCreate: (user) => void calls.push(`created ${user.id}`),
+				afterDelete: (user) => void calls.push(`deleted ${user.$id}`),
+			},
+		},
+		Account: {
+			...testSchema.entities.Account,
+			hooks: {
+				/// hooks can also change their block in place
+				beforeCreate: (account) => {
+					// eslint-disable-next-line no-param-reassign
+					account.provider = account.provider?.toLowerCase();
+				},
+				onLink: (account) => void calls.push(`linked ${account.$id}`),
+				onUnlink: (account) => void calls.push(`unlinked ${account.$id}`),
+			},
+		},
+	},
+};
+
+describe('Hooks', () => {
+	let client: BormClient;
+
+	beforeAll(async () => {
+		client = new BormClient({
+			schema: hooksSchema,
+			config: {
+				server: { provider: 'blitz-orm-js' },
+				dbConnectors: [{ id: 'default', provider: 'memory', dbName: 'hooks' }],
+			},
+		});
+		await client.init();
+	});
+
+	it('h1[hooks, create] Before hooks add fields to the things they run on, and after hooks see them created', async () => {
+		expect(client).toBeDefined();
+
+		calls.length = 0;
+		const created = await client.mutate(
+			{ $entity: 'User', name: 'Ann', accounts: [{ id: 'h-a1', provider: 'google' }] },
+			{ noMetadata: true },
+		);
+		const { id } = [created].flat().find((x) => x.name === 'Ann') as { id: string };
+		/// the hooks of a node see the id it is created with
+		expect(calls).toEqual([`creating ${id}`, `created ${id}`]);
+
+		const user = await client.query({ $entity: 'User', $id: id, $fields: ['updatedAt'] }, { noMetadata: true });
+		expect(user).toEqual({ updatedAt: new Date('2024-01-01') });
+
+		/// things extending another one inherit its hooks
+		await client.mutate({ $entity: 'SuperUser', id: 'h-su1' });
+		const superUser = await client.query(
+			{ $entity: 'SuperUser', $id: 'h-su1', $fields: ['updatedAt'] },
+			{ noMetadata: true },
+		);
+		expect(superUser).toEqual({ updatedAt: new Date('2024-01-01') });
+	});
+
+	it('h2[hooks, update] Before hooks can reject their thing', async () => {
+		expect(client).toBeDefined();
+
+		await client.mutate({ $entity: 'User', id: 'h-u2', name: 'Bob' });
+		await client.mutate({ $entity: 'User', $id: 'h-u2', name: 'Bobby' });
+		const user = await client.query(
+			{ $entity: 'User', $id: 'h-u2', $fields: ['name', 'updatedAt'] },
+			{ noMetadata: true },
+		);
+		expect(user).toEqual({ name: 'Bobby', updatedAt: new Date('2024-02-01') });
+
+		await expect(client.mutate({ $entity: 'User', $id: 'h-u2', name: 'Admin' })).rejects.toThrow(
+			"Users can't be renamed to Admin",
+		);
+	});
+
+	it('h3[hooks, link, unlink] Linked and unlinked things run their hooks', async () => {
+		expect(client).toBeDefined();
+
+		await client.mutate({ $entity: 'Account', id: 'h-a3', provider: 'github' });
+		calls.length = 0;
+		await client.mutate({ $entity: 'User', $id: 'h-u2', accounts: [{ $op: 'link', $id: 'h-a3' }] });
+		await client.mutate({ $entity: 'User', $id: 'h-u2', accounts: [{ $op: 'unlink', $id: 'h-a3' }] });
+		expect(calls).toEqual(['linked h-a3', 'unlinked h-a3']);
+	});
+
+	it('h4[hooks, delete] Nested blocks added by before hooks are mutated with their thing', async () => {
+		expect(client).toBeDefined();
+
+		await client.mutate({ $entity: 'User', id: 'h-u4', accounts: [{ id: 'h-a4', provider: 'google' }] });
+		calls.length = 0;
+		await client.mutate({ $entity: 'User', $op: 'delete', $id: 'h-u4' });
+		expect(calls).toEqual(['deleted h-u4']);
+		expect(await client.query({ $entity: 'Account', $id: 'h-a4' })).toBeNull();
+	});
+
+	it('h5[hooks, create] Before hooks can change their block in place', async () => {
+		expect(client).toBeDefined();
+
+		await client.mutate({ $entity: 'User', id: 'h-u5', accounts: [{ id: 'h-a5', provider: 'GitHub' }] });
+		const account = await client.query(
+			{ $entity: 'Account', $id: 'h-a5', $fields: ['provider'] },
+			{ noMetadata: true },
+		);
+		expect(account).toEqual({ provider: 'github' });
+	});
+
+	afterAll(async () => {
+		await client.close();
+	});
+});
@@ -47,6 +47,9 @@ describe('Mutations: batched and tempId', () => {
 			// expect any string as the user id is generated by the server
 			user: expect.any(String),
 		});
+		// delete all
+		const peterId = (res as any[])?.find((r) => r.name === 'Peter')?.id;
+		await bormClient.mutate({ $entity: 'User', $id: peterId, $op: 'delete', accounts: [{ $op: 'delete' }] });
 	});
 
 	it('c1r[multi, create, link] nested tempIds in relation', async () => {
@@ -120,7 +123,7 @@ describe('Mutations: batched and tempId', () => {
 		await bormClient.mutate([
 			{
 				$entity: 'User',
-				$id: 'bea',
+				$id: beaId,
 				$op: 'delete',
 				accounts: [{ $op: 'delete' }],
 			},
@@ -256,7 +259,7 @@ describe('Mutations: batched and tempId', () => {
 		await bormClient.mutate([
 			{
 				$entity: 'User',
-				$id: 'bea',
+				$id: beaId,
 				$op: 'delete',
 				accounts: [{ $op: 'delete' }],
 			},
@@ -358,6 +361,46 @@ describe('Mutations: batched and tempId', () => {
 		});
 	});
 
+	it('c6[multi, create, link] Structured result with the ids of the tempIds', async () => {
+		expect(bormClient).toBeDefined();
+		const res = await bormClient.mutate(
+			[
+				{
+					$entity: 'User',
+					name: 'Jane',
+					accounts: [{ provider: 'google' }, { $op: 'link', $tempId: '_:acc1' }],
+				},
+				{
+					$tempId: '_:acc1',
+					$op: 'create',
+					$entity: 'Account',
+					provider: 'MetaMask',
+				},
+			],
+			{ structuredResult: true },
+		);
+
+		const acc1Id = res.tempIdMap['_:acc1'];
+		expect(acc1Id).toEqual(expect.any(String));
+		expect(res.nodes).toEqual(
+			expect.arrayContaining([
+				{ $entity: 'User', $op: 'create', $id: expect.any(String), path: '0' },
+				{ $entity: 'Account', $op: 'create', $id: expect.any(String), path: '0.accounts.0' },
+				{ $entity: 'Account', $op: 'create', $id: acc1Id, $tempId: '_:acc1', path: '1' },
+			]),
+		);
+		expect(res.nodes).toHaveLength(3);
+
+		const account = await bormClient.query(
+			{ $entity: 'Account', $id: acc1Id, $fields: ['provider'] },
+			{ noMetadata: true },
+		);
+		expect(account).toEqual({ provider: 'MetaMask' });
+
+		const userId = res.nodes.find((node) => node.path === '0')?.$id as string;
+		await bormClient.mutate({ $entity: 'User', $id: userId, $op: 'delete', accounts: [{ $op: 'delete' }] });
+	});
+
 	it('r1[replace] replace single roles in relation', async () => {
 		expect(bormClient).toBeDefined();
 		// cardinality one
@@ -1,7 +1,107 @@
 import 'jest';
 
-import type BormClient from '../../../src/index';
+import type { BormEntity, BormSchema, Validations } from '../../../src/index';
+import BormClient, {
+	BormConflictError,
+	BormNotFoundError,
+	BormValidationError,
+	ValidationError,
+} from '../../../src/index';
 import { cleanup, init } from '../../helpers/lifecycle';
+import { testConfig } from '../../mocks/testConfig';
+import { testSchema } from '../../mocks/testSchema';
+
+const withValidations = (entity: BormEntity, validations: Record<string, Validations>): BormEntity => ({
+	...entity,
+	dataFields: entity.dataFields?.map((df) =>
+		validations[df.path] ? { ...df, validations: validations[df.path] } : df,
+	),
+});
+
+/// validations are checked before reaching the db, so the schema in the db does not need them
+const validatedSchema: BormSchema = {
+	...testSchema,
+	entities: {
+		...testSchema.entities,
+		User: withValidations(testSchema.entities.User, {
+			name: { required: true, length: { min: 2, max: 20 } },
+		}),
+		Account: withValidations(testSchema.entities.Account, {
+			provider: { enum: ['google', 'facebook', 'github'] },
+		}),
+		Session: withValidations(testSchema.entities.Session, {
+			expires: { min: new Date('2020-01-01') },
+			sessionToken: {
+				unique: true,
+				pattern: '^tk-',
+				fn: (value: string) => value.length === 8 || 'must have 8 characters',
+			},
+		}),
+	},
+};
+
+/// rights are checked before reaching the db as well
+const restrictedSchema: BormSchema = {
+	...testSchema,
+	entities: {
+		...testSchema.entities,
+		User: {
+			...testSchema.entities.User,
+			linkFields: testSchema.entities.User.linkFields?.map((lf) =>
+				lf.path === 'accounts' ? { ...lf, rights: ['LINK'] } : lf,
+			),
+		},
+		Account: {
+			...testSchema.entities.Account,
+			dataFields: testSchema.entities.Account.dataFields?.map((df) =>
+				df.path === 'provider' ? { ...df, rights: ['CREATE'] } : df,
+			),
+		},
+	},
+};
+
+/// accounts can only be written by their user, and created with a user in the context
+const permissionsSchema: BormSchema = {
+	...testSchema,
+	entities: {
+		...testSchema.entities,
+		Account: {
+			...testSchema.entities.Account,
+			permissions: {
+				read: (context) => (context.userId ? { user: context.userId } : false),
+				create: (context) => !!context.userId,
+			},
+		},
+	},
+};
+
+/// without a create rule, accounts can only be created for the user of the context
+const ownerPermissionsSchema: BormSchema = {
+	...testSchema,
+	entities: {
+		...testSchema.entities,
+		Account: {
+			...testSchema.entities.Account,
+			permissions: {
+				read: (context) => (context.userId ? { user: context.userId } : false),
+			},
+		},
+	},
+};
+
+/// users can only write their github accounts
+const githubPermissionsSchema: BormSchema = {
+	...testSchema,
+	entities: {
+		...testSchema.entities,
+		Account: {
+			...testSchema.entities.Account,
+			permissions: {
+				write: (context) => ({ user: context.userId, provider: 'github' }),
+			},
+		},
+	},
+};
 
 describe('Mutations: Errors', () => {
 	let dbName: string;
@@ -19,6 +119,7 @@ describe('Mutations: Errors', () => {
 	it('e1[duplicate] Duplicate creation', async () => {
 		expect(bormClient).toBeDefined();
 
+		/// the repeated id is found before the mutation is parsed
 		await expect(
 			bormClient.mutate({
 				$relation: 'User-Accounts',
@@ -31,7 +132,11 @@ describe('Mutations: Errors', () => {
 					],
 				},
 			}),
-		).rejects.toThrowError('Duplicate id pink');
+		).rejects.toMatchObject({
+			name: 'BormConflictError',
+			code: 'UNIQUE_CONSTRAINT',
+			path: 'user.user-tags.1.color.id',
+		});
 	});
 
 	it('e2[relation] Error for match and $id not found', async () => {
@@ -62,8 +167,8 @@ describe('Mutations: Errors', () => {
 		try {
 			await bormClient.mutate(mutation, { noMetadata: true });
 		} catch (error: any) {
-			if (error instanceof Error) {
-				expect(error.message).toBe("Can't write to computed field $id. Try writing to the id field directly.");
+			if (error instanceof BormValidationError) {
+				expect(error).toMatchObject({ code: 'READ_ONLY_FIELD', path: '' });
 			} else {
 				expect(true).toBe(false);
 			}
@@ -92,9 +197,8 @@ describe('Mutations: Errors', () => {
 			// If the code doesn't throw an error, fail the test
 			expect(true).toBe(false);
 		} catch (error) {
-			if (error instanceof Error) {
-				// Check if the error message is exactly what you expect
-				expect(error.message).toBe('Please specify if it is a create or an update. Path: user');
+			if (error instanceof BormValidationError) {
+				expect(error).toMatchObject({ code: 'AMBIGUOUS_OP', path: 'user' });
 			} else {
 				// If the error is not of type Error, fail the test
 				expect(true).toBe(false);
@@ -122,10 +226,8 @@ describe('Mutations: Errors', () => {
 				},
 			]);
 		} catch (error: any) {
-			if (error instanceof Error) {
-				expect(error.message).toBe(
-					'"acc1" is connected to many entities. Entity with ID: acc1 in relation "User-Accounts" linked to multiple 2 entities in role "user".The relation\'s role is of cardinality ONE.\n',
-				);
+			if (error instanceof BormValidationError) {
+				expect(error).toMatchObject({ code: 'INVALID_VALUE', path: '1.user' });
 			} else {
 				expect(true).toBe(false);
 			}
@@ -157,10 +259,8 @@ describe('Mutations: Errors', () => {
 				},
 			]);
 		} catch (error: any) {
-			if (error instanceof Error) {
-				expect(error.message).toBe(
-					'"acc1" is connected to many entities. Entity with ID: acc1 in relation "User-Accounts" linked to multiple 2 entities in role "user".The relation\'s role is of cardinality ONE.\n',
-				);
+			if (error instanceof BormValidationError) {
+				expect(error).toMatchObject({ code: 'INVALID_VALUE', path: '1.user' });
 			} else {
 				expect(true).toBe(false);
 			}
@@ -185,10 +285,8 @@ describe('Mutations: Errors', () => {
 				},
 			]);
 		} catch (error: any) {
-			if (error instanceof Error) {
-				expect(error.message).toBe(
-					'Invalid op delete for tempId. TempIds can be created, or when created in another part of the same mutation. In the future maybe we can use them to catch stuff in the DB as well and group them under the same tempId.',
-				);
+			if (error instanceof BormValidationError) {
+				expect(error).toMatchObject({ code: 'INVALID_OP', path: '0.accounts.0' });
 			} else {
 				expect(true).toBe(false);
 			}
@@ -213,10 +311,8 @@ describe('Mutations: Errors', () => {
 				},
 			]);
 		} catch (error: any) {
-			if (error instanceof Error) {
-				expect(error.message).toBe(
-					'Invalid op unlink for tempId. TempIds can be created, or when created in another part of the same mutation. In the future maybe we can use them to catch stuff in the DB as well and group them under the same tempId.',
-				);
+			if (error instanceof BormValidationError) {
+				expect(error).toMatchObject({ code: 'INVALID_OP', path: '0.accounts.0' });
 			} else {
 				expect(true).toBe(false);
 			}
@@ -245,10 +341,8 @@ describe('Mutations: Errors', () => {
 				},
 			]);
 		} catch (error: any) {
-			if (error instanceof Error) {
-				expect(error.message).toBe(
-					'Unsupported operation combination for $tempId "utg1". Existing: create. Current: create',
-				);
+			if (error instanceof BormValidationError) {
+				expect(error).toMatchObject({ code: 'INVALID_OP', path: '1.group' });
 			} else {
 				expect(true).toBe(false);
 			}
@@ -276,8 +370,8 @@ describe('Mutations: Errors', () => {
 				},
 			]);
 		} catch (error: any) {
-			if (error instanceof Error) {
-				expect(error.message).toBe('Cannot link a $tempId that has not been created in the current mutation');
+			if (error instanceof BormValidationError) {
+				expect(error).toMatchObject({ code: 'INVALID_OP', path: '1.group' });
 			} else {
 				expect(true).toBe(false);
 			}
@@ -301,12 +395,8 @@ describe('Mutations: Errors', () => {
 				{ preQuery: true },
 			);
 		} catch (error: any) {
-			if (error instanceof Error) {
-				//not sure if this one is possible with the current pre-queries, if it is not, you can throw the second error instead
-				// expect(error.message).toBe('[BQLE-Q-M-1] Cannot delete $id:"jnsndadsn" because it does not exist in the DB');
-				expect(error.message).toBe(
-					'[BQLE-Q-M-2] Cannot delete $id:"jnsndadsn" because it is not linked to $id:"tag-1"',
-				);
+			if (error instanceof BormNotFoundError) {
+				expect(error).toMatchObject({ code: 'NOT_FOUND', path: 'users.0' });
 			} else {
 				expect(true).toBe(false);
 			}
@@ -327,8 +417,8 @@ describe('Mutations: Errors', () => {
 				users: [{ $op: 'link', $id: 'jnsndadsn' }],
 			});
 		} catch (error: any) {
-			if (error instanceof Error) {
-				expect(error.message).toBe('[BQLE-Q-M-1] Cannot link $id:"jnsndadsn" because it does not exist in the DB');
+			if (error instanceof BormNotFoundError) {
+				expect(error).toMatchObject({ code: 'NOT_FOUND', path: 'users.0' });
 			} else {
 				expect(true).toBe(false);
 			}
@@ -339,7 +429,7 @@ describe('Mutations: Errors', () => {
 		throw new Error('Expected mutation to throw an error');
 	});
 
-	it('TODO:m1up[update, missing] Update a non existing $id', async () => {
+	it('m1up[update, missing] Update a non existing $id', async () => {
 		expect(bormClient).toBeDefined();
 
 		try {
@@ -352,12 +442,8 @@ describe('Mutations: Errors', () => {
 				{ preQuery: true },
 			);
 		} catch (error: any) {
-			if (error instanceof Error) {
-				//not sure if this one is possible with the current pre-queries, if it is not, you can throw the second error instead
-				// expect(error.message).toBe('[BQLE-Q-M-1] Cannot update $id:"jnsndadsn" because it does not exist in the DB');
-				expect(error.message).toBe(
-					'[BQLE-Q-M-2] Cannot update $id:"jnsndadsn" because it is not linked to $id:"tag-1"',
-				);
+			if (error instanceof BormNotFoundError) {
+				expect(error).toMatchObject({ code: 'NOT_FOUND', path: 'users.0' });
 			} else {
 				expect(true).toBe(false);
 			}
@@ -368,6 +454,21 @@ describe('Mutations: Errors', () => {
 		throw new Error('Expected mutation to throw an error');
 	});
 
+	it('m1r[update, delete, missing] Missing $ids are not found without preQuery, root ones included', async () => {
+		expect(bormClient).toBeDefined();
+
+		await expect(
+			bormClient.mutate({ $relation: 'UserTag', $id: 'tag-1', users: [{ $op: 'delete', $id: 'jnsndadsn' }] }),
+		).rejects.toMatchObject({ code: 'NOT_FOUND', path: 'users.0' });
+		await expect(bormClient.mutate({ $entity: 'User', $id: 'jnsndadsn', name: 'new' })).rejects.toMatchObject({
+			code: 'NOT_FOUND',
+			path: '',
+		});
+		await expect(bormClient.mutate({ $entity: 'User', $id: 'jnsndadsn', $op: 'delete' })).rejects.toBeInstanceOf(
+			BormNotFoundError,
+		);
+	});
+
 	it('m1un[unlink, missing] Unlink a non existing $id', async () => {
 		expect(bormClient).toBeDefined();
 
@@ -381,12 +482,8 @@ describe('Mutations: Errors', () => {
 				{ preQuery: true },
 			);
 		} catch (error: any) {
-			if (error instanceof Error) {
-				//not sure if this one is possible with the current pre-queries, if it is not, you can throw the second error instead
-				// expect(error.message).toBe('[BQLE-Q-M-1] Cannot unlink $id:"jnsndadsn" because it does not exist in the DB');
-				expect(error.message).toBe(
-					'[BQLE-Q-M-2] Cannot unlink $id:"jnsndadsn" because it is not linked to $id:"tag-1"',
-				);
+			if (error instanceof BormNotFoundError) {
+				expect(error).toMatchObject({ code: 'NOT_FOUND', path: 'users.0' });
 			} else {
 				expect(true).toBe(false);
 			}
@@ -410,9 +507,9 @@ describe('Mutations: Errors', () => {
 				{ preQuery: true },
 			);
 		} catch (error: any) {
-			if (error instanceof Error) {
+			if (error instanceof BormNotFoundError) {
 				//not sure if this one is possible with the current pre-queries, if it is not, you can throw the second error instead
-				expect(error.message).toBe('[BQLE-Q-M-2] Cannot delete $id:"user3" because it is not linked to $id:"tag-1"');
+				expect(error).toMatchObject({ code: 'NOT_LINKED', path: 'users.0' });
 			} else {
 				expect(true).toBe(false);
 			}
@@ -436,8 +533,8 @@ describe('Mutations: Errors', () => {
 				{ preQuery: true },
 			);
 		} catch (error: any) {
-			if (error instanceof Error) {
-				expect(error.message).toBe('[BQLE-Q-M-2] Cannot update $id:"user3" because it is not linked to $id:"tag-1"');
+			if (error instanceof BormNotFoundError) {
+				expect(error).toMatchObject({ code: 'NOT_LINKED', path: 'users.0' });
 			} else {
 				expect(true).toBe(false);
 			}
@@ -461,8 +558,8 @@ describe('Mutations: Errors', () => {
 				{ preQuery: true },
 			);
 		} catch (error: any) {
-			if (error instanceof Error) {
-				expect(error.message).toBe('[BQLE-Q-M-2] Cannot unlink $id:"user3" because it is not linked to $id:"tag-1"');
+			if (error instanceof BormNotFoundError) {
+				expect(error).toMatchObject({ code: 'NOT_LINKED', path: 'users.0' });
 			} else {
 				expect(true).toBe(false);
 			}
@@ -484,8 +581,8 @@ describe('Mutations: Errors', () => {
 				},
 			]);
 		} catch (error: any) {
-			if (error instanceof Error) {
-				expect(error.message).toBe('Virtual fields can\'t be sent to DB: "isBlue"');
+			if (error instanceof BormValidationError) {
+				expect(error).toMatchObject({ code: 'READ_ONLY_FIELD', path: '0' });
 			} else {
 				expect(true).toBe(false);
 			}
@@ -496,6 +593,270 @@ describe('Mutations: Errors', () => {
 		throw new Error('Expected mutation to throw an error');
 	});
 
+	it('e-val1[validations, contentType] Emails must be valid', async () => {
+		expect(bormClient).toBeDefined();
+
+		await expect(
+			bormClient.mutate({ $entity: 'User', name: 'Wrong', email: 'wrong email' }, { noMetadata: true }),
+		).rejects.toMatchObject({ code: 'INVALID_VALUE', path: 'email' });
+	});
+
+	it('e-val2[validations] Every violation is reported at once', async () => {
+		const validatedClient = new BormClient({
+			schema: validatedSchema,
+			config: { ...testConfig, dbConnectors: [{ ...testConfig.dbConnectors[0], dbName }] },
+		});
+
+		try {
+			await validatedClient.mutate({
+				$entity: 'User',
+				name: 'J',
+				accounts: [{ provider: 'myspace' }, { provider: 'github' }],
+				sessions: [{ expires: new Date('2019-12-31'), sessionToken: 'tk-12345' }, { sessionToken: 'token' }],
+			});
+		} catch (error: any) {
+			expect(error).toBeInstanceOf(ValidationError);
+			expect(error).toBeInstanceOf(BormValidationError);
+			expect(error).toMatchObject({ code: 'INVALID_VALUE', path: 'name' });
+			expect(error.errors).toEqual([
+				{ path: 'name', validation: 'length', message: "Value of 'name' must have at least 2 characters" },
+				{
+					path: 'accounts.0.provider',
+					validation: 'enum',
+					message: "Value of 'accounts.0.provider' must be one of google, facebook, github",
+				},
+				{
+					path: 'sessions.0.expires',
+					validation: 'min',
+					message: "Value of 'sessions.0.expires' must be greater than or equal to 2020-01-01T00:00:00.000Z",
+				},
+				{
+					path: 'sessions.1.sessionToken',
+					validation: 'pattern',
+					message: "Value of 'sessions.1.sessionToken' must match ^tk-",
+				},
+				{
+					path: 'sessions.1.sessionToken',
+					validation: 'fn',
+					message: "Value of 'sessions.1.sessionToken' must have 8 characters",
+				},
+			]);
+			return;
+		} finally {
+			await validatedClient.close();
+		}
+
+		throw new Error('Expected mutation to throw an error');
+	});
+
+	it('e-val3[validations, required] Required fields in creates and updates', async () => {
+		const validatedClient = new BormClient({
+			schema: validatedSchema,
+			config: { ...testConfig, dbConnectors: [{ ...testConfig.dbConnectors[0], dbName }] },
+		});
+
+		await expect(validatedClient.mutate({ $entity: 'User', email: 'nameless@test.com' })).rejects.toMatchObject({
+			code: 'INVALID_VALUE',
+			path: 'name',
+		});
+		await expect(validatedClient.mutate({ $entity: 'User', $id: 'user1', name: null })).rejects.toMatchObject({
+			code: 'INVALID_VALUE',
+			path: 'name',
+		});
+		/// updates don't need to send required fields
+		await expect(
+			validatedClient.mutate({ $entity: 'User', $id: 'user1', email: 'antoine@test.com' }),
+		).resolves.toBeDefined();
+		await validatedClient.close();
+	});
+
+	it('e-val4[validations, unique] Unique values in the same mutation', async () => {
+		expect(bormClient).toBeDefined();
+
+		await expect(
+			bormClient.mutate([
+				{ $entity: 'User', name: 'Twin1', email: 'twins@test.com' },
+				{ $entity: 'User', name: 'Twin2', email: 'twins@test.com' },
+			]),
+		).rejects.toMatchObject({ code: 'UNIQUE_CONSTRAINT', path: '1.email' });
+	});
+
+	it('e-val5[validations, update] Updated values are validated', async () => {
+		expect(bormClient).toBeDefined();
+
+		await expect(
+			bormClient.mutate({ $entity: 'User', $id: 'user1', email: 'wrong email' }, { noMetadata: true }),
+		).rejects.toThrow("Value of 'email' must be a valid email");
+	});
+
+	it('e-r1[rights, linkField] Ops refused by the rights of a linkField', async () => {
+		const restrictedClient = new BormClient({
+			schema: restrictedSchema,
+			config: { ...testConfig, dbConnectors: [{ ...testConfig.dbConnectors[0], dbName }] },
+		});
+
+		await expect(
+			restrictedClient.mutate({ $entity: 'User', $id: 'user1', accounts: [{ $op: 'unlink', $id: 'account1-1' }] }),
+		).rejects.toMatchObject({ code: 'RIGHTS_REFUSED', path: 'accounts.0' });
+		/// replacing unlinks the current accounts
+		await expect(
+			restrictedClient.mutate({ $entity: 'User', $id: 'user1', accounts: ['account1-1'] }),
+		).rejects.toMatchObject({ code: 'RIGHTS_REFUSED', path: 'accounts.0' });
+		await restrictedClient.close();
+	});
+
+	it('e-r2[rights, linkField, nested] Nested ops under a created parent', async () => {
+		const restrictedClient = new BormClient({
+			schema: restrictedSchema,
+			config: { ...testConfig, dbConnectors: [{ ...testConfig.dbConnectors[0], dbName }] },
+		});
+
+		await expect(
+			restrictedClient.mutate({ $entity: 'User', name: 'Restricted', accounts: [{ provider: 'github' }] }),
+		).rejects.toMatchObject({ code: 'RIGHTS_REFUSED', path: 'accounts.0' });
+		await restrictedClient.close();
+	});
+
+	it('e-r3[rights, dataField] Updates and deletions refused by the rights of a dataField', async () => {
+		const restrictedClient = new BormClient({
+			schema: restrictedSchema,
+			config: { ...testConfig, dbConnectors: [{ ...testConfig.dbConnectors[0], dbName }] },
+		});
+
+		await expect(
+			restrictedClient.mutate({ $entity: 'Account', $id: 'account1-1', provider: 'gitlab' }),
+		).rejects.toMatchObject({ code: 'RIGHTS_REFUSED', path: 'provider' });
+		await restrictedClient.close();
+
+		/// Kind names can't be deleted in the testSchema
+		await expect(bormClient.mutate({ $relation: 'Kind', $id: 'kind-book', name: null })).rejects.toMatchObject({
+			code: 'RIGHTS_REFUSED',
+			path: 'name',
+		});
+	});
+
+	it('e-p1[permissions] Things the context can not write', async () => {
+		const permissionsClient = new BormClient({
+			schema: permissionsSchema,
+			config: { ...testConfig, dbConnectors: [{ ...testConfig.dbConnectors[0], dbName }] },
+		});
+
+		await expect(
+			permissionsClient.mutate(
+				{ $entity: 'Account', $id: 'account1-1', provider: 'gitlab' },
+				{ context: { userId: 'user2' } },
+			),
+		).rejects.toMatchObject({ code: 'PERMISSION_DENIED', path: '' });
+		await expect(
+			permissionsClient.mutate({ $entity: 'Account', $id: 'account1-1', $op: 'delete' }),
+		).rejects.toMatchObject({ code: 'PERMISSION_DENIED', path: '' });
+		/// nested ops are checked as well
+		await expect(
+			permissionsClient.mutate(
+				{ $entity: 'User', $id: 'user2', accounts: [{ $op: 'delete', $id: 'account2-1' }] },
+				{ context: { userId: 'user1' } },
+			),
+		).rejects.toMatchObject({ code: 'PERMISSION_DENIED', path: 'accounts.0' });
+		await permissionsClient.close();
+
+		/// nothing changed
+		const res = await bormClient.query(
+			{ $entity: 'Account', $id: ['account1-1', 'account2-1'], $fields: ['id', 'provider'] },
+			{ noMetadata: true },
+		);
+		expect(res).toEqual(
+			expect.arrayContaining([
+				{ id: 'account1-1', provider: 'google' },
+				{ id: 'account2-1', provider: 'google' },
+			]),
+		);
+	});
+
+	it('e-p2[permissions, create] Things the context can not create', async () => {
+		const permissionsClient = new BormClient({
+			schema: permissionsSchema,
+			config: { ...testConfig, dbConnectors: [{ ...testConfig.dbConnectors[0], dbName }] },
+		});
+
+		await expect(
+			permissionsClient.mutate({ $entity: 'User', $id: 'user1', accounts: [{ provider: 'gitlab' }] }),
+		).rejects.toMatchObject({ code: 'PERMISSION_DENIED', path: 'accounts.0' });
+		await permissionsClient.close();
+	});
+
+	it('e-p3[permissions, create] Without a create rule, created things must match the write rule', async () => {
+		const permissionsClient = new BormClient({
+			schema: ownerPermissionsSchema,
+			config: { ...testConfig, dbConnectors: [{ ...testConfig.dbConnectors[0], dbName }] },
+		});
+
+		await expect(
+			permissionsClient.mutate(
+				{ $entity: 'Account', id: 'e-p3-account', provider: 'gitlab', user: 'user2' },
+				{ context: { userId: 'user1' } },
+			),
+		).rejects.toMatchObject({ code: 'PERMISSION_DENIED', path: '' });
+		/// nested creates are linked to their parent
+		await expect(
+			permissionsClient.mutate(
+				{ $entity: 'User', $id: 'user2', accounts: [{ id: 'e-p3-account', provider: 'gitlab' }] },
+				{ context: { userId: 'user1' } },
+			),
+		).rejects.toMatchObject({ code: 'PERMISSION_DENIED', path: 'accounts.0' });
+		await permissionsClient.mutate(
+			{ $entity: 'User', $id: 'user2', accounts: [{ id: 'e-p3-account', provider: 'gitlab' }] },
+			{ context: { userId: 'user2' } },
+		);
+		await permissionsClient.close();
+
+		const res = await bormClient.query(
+			{ $entity: 'Account', $id: 'e-p3-account', $fields: ['id', 'user'] },
+			{ noMetadata: true },
+		);
+		expect(res).toEqual({ id: 'e-p3-account', user: 'user2' });
+		await bormClient.mutate({ $entity: 'Account', $id: 'e-p3-account', $op: 'delete' });
+	});
+
+	it('e-p4[permissions, delete] Nested ops without $id only reach the writable things', async () => {
+		await bormClient.mutate({
+			$entity: 'User',
+			id: 'e-p4-user',
+			name: 'Owner',
+			email: 'owner@test.com',
+			accounts: [
+				{ id: 'e-p4-github', provider: 'github' },
+				{ id: 'e-p4-gitlab', provider: 'gitlab' },
+			],
+		});
+		const permissionsClient = new BormClient({
+			schema: githubPermissionsSchema,
+			config: { ...testConfig, dbConnectors: [{ ...testConfig.dbConnectors[0], dbName }] },
+		});
+		const getAccounts = async () => {
+			const res = (await bormClient.query(
+				{ $entity: 'User', $id: 'e-p4-user', $fields: ['accounts'] },
+				{ noMetadata: true },
+			)) as { accounts?: string[] };
+			return res.accounts?.sort();
+		};
+
+		/// other users have nothing to delete
+		await permissionsClient.mutate(
+			{ $entity: 'User', $id: 'e-p4-user', accounts: [{ $op: 'delete' }] },
+			{ context: { userId: 'user1' } },
+		);
+		expect(await getAccounts()).toEqual(['e-p4-github', 'e-p4-gitlab']);
+
+		await permissionsClient.mutate(
+			{ $entity: 'User', $id: 'e-p4-user', accounts: [{ $op: 'delete' }] },
+			{ context: { userId: 'e-p4-user' } },
+		);
+		expect(await getAccounts()).toEqual(['e-p4-gitlab']);
+		await permissionsClient.close();
+
+		await bormClient.mutate({ $entity: 'User', $id: 'e-p4-user', $op: 'delete', accounts: [{ $op: 'delete' }] });
+	});
+
 	it('TODO: e-pq1[create, nested] With pre-query, link when there is already something error', async () => {
 		/// this requires pre-queries when using typeDB because it must understand there is already something and throw an error
 		/// link stuff is bypassed now, must work once we run pre-queries with link queries as well
@@ -514,10 +875,8 @@ describe('Mutations: Errors', () => {
 				{ noMetadata: true, preQuery: true },
 			);
 		} catch (error: any) {
-			if (error instanceof Error) {
-				expect(error.message).toBe(
-					'[BQLE-Q-M-2] Cannot link on:"root-account3-1.user" because it is already occupied.',
-				);
+			if (error instanceof BormConflictError) {
+				expect(error).toMatchObject({ code: 'ALREADY_LINKED', path: 'user' });
 			} else {
 				expect(true).toBe(false);
 			}
@@ -8,7 +8,7 @@ import { deepSort, expectArraysInObjectToContainSameElements } from '../../helpe
 let firstUser = {
 	$entity: 'User',
 	name: 'John',
-	email: 'wrong email',
+	email: 'john.first@test.com',
 	id: undefined,
 };
 
@@ -75,7 +75,7 @@ describe('Mutations: Init', () => {
 		const expectedUnit = {
 			id: '$unitId',
 			name: 'John',
-			email: 'wrong email',
+			email: 'john.first@test.com',
 		};
 
 		expect(res).toBeInstanceOf(Array);
@@ -330,7 +330,7 @@ describe('Mutations: Init', () => {
 			id: 'r1',
 			user: {
 				'id': 'u2',
-				'email': 'hey',
+				'email': 'hey@test.com',
 				'user-tags': [
 					{ id: 'ustag1', color: { id: 'pink' } },
 					{ id: 'ustag2', color: { id: 'gold' } },
@@ -367,7 +367,7 @@ describe('Mutations: Init', () => {
 		expect(deepSort(res2, 'id')).toEqual({
 			id: 'r1',
 			user: {
-				'email': 'hey',
+				'email': 'hey@test.com',
 				'user-tags': [{ id: 'ustag1' }, { id: 'ustag2' }, { id: 'ustag3', color: 'silver' }],
 			},
 		});
@@ -402,7 +402,7 @@ describe('Mutations: Init', () => {
 		expect(res3).toEqual({
 			id: 'r1',
 			user: {
-				'email': 'hey',
+				'email': 'hey@test.com',
 				'user-tags': [{ id: 'ustag1' }],
 			},
 		});
@@ -1299,6 +1299,198 @@ describe('Mutations: Init', () => {
 		]);
 	});
 
+	it('b9[create, encoding] Hostile strings are stored as they are', async () => {
+		expect(bormClient).toBeDefined();
+		const hostileUser = {
+			$entity: 'User',
+			id: 'hostile"user',
+			/// the email must be valid, so the backslashes are in the name
+			name: `Rob\\'"; delete $x isa User; insert $y isa User, has name "pwned`,
+			email: 'hostile@test.com',
+		};
+		await bormClient.mutate(hostileUser, { noMetadata: true });
+
+		const res = await bormClient.query(
+			{ $entity: 'User', $id: 'hostile"user', $fields: ['id', 'name', 'email'] },
+			{ noMetadata: true },
+		);
+		expect(res).toEqual({ id: hostileUser.id, name: hostileUser.name, email: hostileUser.email });
+
+		/// no user was deleted nor inserted by the strings
+		const pwnedUsers = await bormClient.query({ $entity: 'User', $filter: { name: 'pwned' } });
+		expect(pwnedUsers).toBeNull();
+
+		/// regex characters in ids only match themselves
+		await expect(
+			bormClient.mutate({ $entity: 'User', $id: ['hostile"user', '.*'], $op: 'delete' }),
+		).rejects.toMatchObject({ code: 'NOT_FOUND' });
+		await bormClient.mutate({ $entity: 'User', $id: 'hostile"user', $op: 'delete' });
+		const remainingUsers = await bormClient.query(
+			{ $entity: 'User', $id: ['hostile"user', 'user1', 'user2'], $fields: ['id'] },
+			{ noMetadata: true },
+		);
+		expect(deepSort(remainingUsers, 'id')).toEqual([{ id: 'user1' }, { id: 'user2' }]);
+	});
+
+	it('b10[create, encoding] Invalid dates are rejected', async () => {
+		expect(bormClient).toBeDefined();
+		await expect(
+			bormClient.mutate({ $entity: 'Session', user: 'user1', sessionToken: 'invalid', expires: 'not a date' }),
+		).rejects.toThrow("Value of 'expires' must be a valid date");
+	});
+
+	it('up1[upsert] Upserts create things that are not found and update the others', async () => {
+		expect(bormClient).toBeDefined();
+		const created = await bormClient.mutate({
+			$entity: 'User',
+			$op: 'upsert',
+			email: 'upsert@test.com',
+			name: 'Upserted',
+		});
+		/// as other mutations of a single thing matched by its bzId, the result is not in an array
+		expect(created).toEqual(expect.objectContaining({ $entity: 'User', $op: 'create', $upsert: 'create' }));
+
+		/// the unique email is the key, so the same user is updated
+		const updated = await bormClient.mutate({
+			$entity: 'User',
+			$op: 'upsert',
+			email: 'upsert@test.com',
+			name: 'Upserted again',
+		});
+		expect(updated).toEqual(expect.objectContaining({ $entity: 'User', $op: 'update', $upsert: 'update' }));
+
+		/// found things with nothing to update are reported as well
+		const unchanged = await bormClient.mutate({ $entity: 'User', $op: 'upsert', email: 'upsert@test.com' });
+		expect(unchanged).toEqual(expect.objectContaining({ $entity: 'User', $upsert: 'update' }));
+
+		const res = await bormClient.query(
+			{ $entity: 'User', $filter: { email: 'upsert@test.com' }, $fields: ['name', 'email'] },
+			{ noMetadata: true },
+		);
+		/// the email is unique, so a single user is returned
+		expect(res).toEqual({ name: 'Upserted again', email: 'upsert@test.com' });
+	});
+
+	it('up2[upsert, nested] Nested upserts match the things linked to their parent', async () => {
+		expect(bormClient).toBeDefined();
+		const mutation = {
+			$entity: 'User',
+			$op: 'upsert',
+			email: 'upsert@test.com',
+			accounts: [{ $op: 'upsert', id: 'upsert-account', provider: 'github' }],
+		};
+		const created = await bormClient.mutate(mutation);
+		expect(created).toEqual(
+			expect.arrayContaining([expect.objectContaining({ $entity: 'Account', $op: 'create', $upsert: 'create' })]),
+		);
+		const updated = await bormClient.mutate({
+			...mutation,
+			accounts: [{ $op: 'upsert', id: 'upsert-account', provider: 'gitlab' }],
+		});
+		expect(updated).toEqual(
+			expect.arrayContaining([expect.objectContaining({ $entity: 'Account', $op: 'update', $upsert: 'update' })]),
+		);
+
+		const res = await bormClient.query(
+			{
+				$entity: 'User',
+				$filter: { email: 'upsert@test.com' },
+				$fields: [{ $path: 'accounts', $fields: ['id', 'provider'] }],
+			},
+			{ noMetadata: true },
+		);
+		expect(res).toEqual({ accounts: [{ id: 'upsert-account', provider: 'gitlab' }] });
+
+		await bormClient.mutate({ $entity: 'Account', $id: 'upsert-account', $op: 'delete' });
+		const { id: userId } = (await bormClient.query(
+			{ $entity: 'User', $filter: { email: 'upsert@test.com' }, $fields: ['id'] },
+			{ noMetadata: true },
+		)) as { id: string };
+		await bormClient.mutate({ $entity: 'User', $id: userId, $op: 'delete' });
+	});
+
+	it('up2b[upsert, nested] Nested upserts link the things they find elsewhere', async () => {
+		expect(bormClient).toBeDefined();
+		await bormClient.mutate([
+			{ $entity: 'User', id: 'upsert-user-1' },
+			{ $entity: 'Space', id: 'upsert-space', name: 'Before' },
+		]);
+
+		/// the space is not linked to the user yet, so it is updated and linked instead of created again
+		const updated = await bormClient.mutate({
+			$entity: 'User',
+			$id: 'upsert-user-1',
+			spaces: [{ $op: 'upsert', id: 'upsert-space', name: 'After' }],
+		});
+		expect(updated).toEqual(
+			expect.arrayContaining([expect.objectContaining({ $entity: 'Space', $op: 'update', $upsert: 'update' })]),
+		);
+		/// the same happens under a parent that is being created
+		const linked = await bormClient.mutate({
+			$entity: 'User',
+			id: 'upsert-user-2',
+			spaces: [{ $op: 'upsert', id: 'upsert-space' }],
+		});
+		expect(linked).toEqual(expect.arrayContaining([expect.objectContaining({ $entity: 'Space', $upsert: 'update' })]));
+
+		const res = await bormClient.query(
+			{ $entity: 'Space', $id: 'upsert-space', $fields: ['name', 'users'] },
+			{ noMetadata: true },
+		);
+		await bormClient.mutate([
+			{ $entity: 'User', $id: ['upsert-user-1', 'upsert-user-2'], $op: 'delete' },
+			{ $entity: 'Space', $id: 'upsert-space', $op: 'delete' },
+		]);
+		expect(deepSort(res)).toEqual({ name: 'After', users: ['upsert-user-1', 'upsert-user-2'] });
+	});
+
+	it('up3[upsert, validation] Upserts require a key', async () => {
+		expect(bormClient).toBeDefined();
+		await expect(bormClient.mutate({ $entity: 'User', $op: 'upsert', name: 'No key' })).rejects.toThrow(
+			"Upsert in '' requires an $id, its id or a unique dataField",
+		);
+	});
+
+	it('tx1[transaction] Queries see the writes before them and everything is committed at the end', async () => {
+		expect(bormClient).toBeDefined();
+		const seen = await bormClient.transaction(async (tx) => {
+			await tx.mutate({ $entity: 'User', id: 'tx-user', name: 'Transactional' });
+			await tx.mutate({ $entity: 'User', $id: 'tx-user', accounts: [{ id: 'tx-account', provider: 'github' }] });
+			return tx.query({ $entity: 'User', $id: 'tx-user', $fields: ['name', 'accounts'] }, { noMetadata: true });
+		});
+		expect(seen).toEqual({ name: 'Transactional', accounts: ['tx-account'] });
+
+		const res = await bormClient.query(
+			{ $entity: 'User', $id: 'tx-user', $fields: ['name', 'accounts'] },
+			{ noMetadata: true },
+		);
+		expect(res).toEqual({ name: 'Transactional', accounts: ['tx-account'] });
+
+		await bormClient.mutate({ $entity: 'Account', $id: 'tx-account', $op: 'delete' });
+		await bormClient.mutate({ $entity: 'User', $id: 'tx-user', $op: 'delete' });
+	});
+
+	it('tx2[transaction] Nothing is written when the callback throws', async () => {
+		expect(bormClient).toBeDefined();
+		const original = await bormClient.query(
+			{ $entity: 'User', $id: 'user1', $fields: ['id', 'name'] },
+			{ noMetadata: true },
+		);
+		await expect(
+			bormClient.transaction(async (tx) => {
+				await tx.mutate({ $entity: 'User', id: 'tx-user2', name: 'Rolled back' });
+				await tx.mutate({ $entity: 'User', $id: 'user1', name: 'Rolled back' });
+				throw new Error('Something went wrong');
+			}),
+		).rejects.toThrow('Something went wrong');
+
+		const res = await bormClient.query(
+			{ $entity: 'User', $id: ['tx-user2', 'user1'], $fields: ['id', 'name'] },
+			{ noMetadata: true },
+		);
+		expect(res).toEqual([original]);
+	});
+
 	/*
   it('f1[json] Basic nested json-like field', async () => {
     /// In general, this json-like is used only as a way to group properties that actually belong to the entity
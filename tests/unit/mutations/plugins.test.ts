@@ -0,0 +1,143 @@
+import 'jest';
+
+import type { BormPlugin, PipelineStage } from '../../../src/index';
+import BormClient from '../../../src/index';
+import { testSchema } from '../../mocks/testSchema';
+
+const stages: PipelineStage[] = [
+	'parseBQLQuery',
+	'splitBQLQuery',
+	'fillBQLMutation',
+	'preQuery',
+	'parseBQLMutation',
+	'build',
+	'run',
+	'parse',
+	'federateQuery',
+	'buildBQLTree',
+];
+
+const reverse = (value: string) => value.split('').reverse().join('');
+
+describe('Plugins', () => {
+	let client: BormClient;
+
+	beforeAll(async () => {
+		client = new BormClient({
+			schema: testSchema,
+			config: {
+				server: { provider: 'blitz-orm-js' },
+				dbConnectors: [{ id: 'default', provider: 'memory', dbName: 'plugins' }],
+			},
+		});
+		await client.init();
+	});
+
+	it('pl1[plugins] Operations run before and after each stage of queries and mutations', async () => {
+		expect(client).toBeDefined();
+
+		const calls: string[] = [];
+		const logger = (when: string): BormPlugin['before'] =>
+			Object.fromEntries(stages.map((stage) => [stage, async () => void calls.push(`${when}:${stage}`)]));
+		const loggedClient = new BormClient({
+			schema: testSchema,
+			config: {
+				server: { provider: 'blitz-orm-js' },
+				dbConnectors: [{ id: 'default', provider: 'memory', dbName: 'pluginsLogs' }],
+				plugins: [{ before: logger('before') }],
+			},
+		}).use({ after: logger('after') });
+		await loggedClient.init();
+
+		await loggedClient.mutate({ $entity: 'User', id: 'pl-u1', name: 'Ann' });
+		expect(calls).toEqual(
+			['fillBQLMutation', 'preQuery', 'parseBQLMutation', 'build', 'run', 'parse', 'buildBQLTree'].flatMap((stage) => [
+				`before:${stage}`,
+				`after:${stage}`,
+			]),
+		);
+
+		calls.length = 0;
+		await loggedClient.query({ $entity: 'User', $id: 'pl-u1' });
+		expect(calls).toEqual(
+			['parseBQLQuery', 'splitBQLQuery', 'build', 'run', 'parse', 'federateQuery', 'buildBQLTree'].flatMap((stage) => [
+				`before:${stage}`,
+				`after:${stage}`,
+			]),
+		);
+		await loggedClient.close();
+	});
+
+	it('pl2[plugins] Operations transform the req and res of their stage', async () => {
+		expect(client).toBeDefined();
+
+		/// names are stored reversed, as a field encryption would do. Filled blocks are frozen, so they are replaced
+		const encrypt = <T extends Record<string, unknown>>(block: T) =>
+			typeof block.name === 'string' ? { ...block, name: reverse(block.name) } : block;
+		client.use({
+			before: {
+				parseBQLMutation: async (req) => {
+					const { filledBqlRequest } = req;
+					req.filledBqlRequest = Array.isArray(filledBqlRequest)
+						? filledBqlRequest.map(encrypt)
+						: filledBqlRequest && encrypt(filledBqlRequest);
+				},
+			},
+		});
+		await client.mutate({ $entity: 'User', id: 'pl-u2', name: 'Bob' });
+		const stored = await client.query({ $entity: 'User', $id: 'pl-u2', $fields: ['name'] }, { noMetadata: true });
+		expect(stored).toEqual({ name: 'boB' });
+
+		client.use({
+			after: {
+				buildBQLTree: async (_req, res) => {
+					[res.bqlRes].flat().forEach((thing) => {
+						if (thing && typeof thing.name === 'string') {
+							thing.name = reverse(thing.name);
+						}
+					});
+				},
+			},
+		});
+		const user = await client.query({ $entity: 'User', $id: 'pl-u2', $fields: ['name'] }, { noMetadata: true });
+		expect(user).toEqual({ name: 'Bob' });
+	});
+
+	it('pl3[plugins] Specific stages only run for their db and their query, aggregate or mutation', async () => {
+		expect(client).toBeDefined();
+
+		const calls: string[] = [];
+		const log = (stage: PipelineStage) => async () => void calls.push(stage);
+		const loggedClient = new BormClient({
+			schema: testSchema,
+			config: {
+				server: { provider: 'blitz-orm-js' },
+				dbConnectors: [{ id: 'default', provider: 'memory', dbName: 'pluginsSpecificLogs' }],
+				plugins: [
+					{
+						before: { build: log('build'), buildMemoryMutation: log('buildMemoryMutation') },
+						after: {
+							build: log('build'),
+							runMemoryQuery: log('runMemoryQuery'),
+							parseTQLMutation: log('parseTQLMutation'),
+						},
+					},
+				],
+			},
+		});
+		await loggedClient.init();
+
+		await loggedClient.mutate({ $entity: 'User', id: 'pl-u3', name: 'Ann' });
+		/// the ones of the specific name are the closest to the stage
+		expect(calls).toEqual(['build', 'buildMemoryMutation', 'build']);
+
+		calls.length = 0;
+		await loggedClient.query({ $entity: 'User', $id: 'pl-u3' });
+		expect(calls).toEqual(['build', 'build', 'runMemoryQuery']);
+		await loggedClient.close();
+	});
+
+	afterAll(async () => {
+		await client.close();
+	});
+});
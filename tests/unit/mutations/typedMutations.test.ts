@@ -0,0 +1,67 @@
+import 'jest';
+
+import BormClient from '../../../src/index';
+import { deepSort } from '../../helpers/matchers';
+import { typedSchema } from '../../mocks/typedSchema';
+
+describe('Typed mutations', () => {
+	let client: BormClient<typeof typedSchema>;
+
+	beforeAll(async () => {
+		client = new BormClient({
+			schema: typedSchema,
+			config: {
+				server: { provider: 'blitz-orm-js' },
+				dbConnectors: [{ id: 'default', provider: 'memory', dbName: 'typedMutations' }],
+			},
+		});
+		await client.init();
+	});
+
+	it('tm1[mutation, types] Nested blocks, ids and tempIds of the fields of the schema', async () => {
+		expect(client).toBeDefined();
+
+		await client.mutate([
+			{ $entity: 'User', id: 'tm-u1', name: 'Ann', tags: ['a'], accounts: [{ $tempId: '_:a1', $op: 'link' }] },
+			{ $entity: 'Account', $tempId: '_:a1', $op: 'create', id: 'tm-a1', provider: 'google' },
+		]);
+		await client.mutate({ $relation: 'User-Accounts', user: 'tm-u1', accounts: [{ id: 'tm-a2', provider: 'github' }] });
+		await client.mutate({ $entity: 'User', $id: 'tm-u1', name: null });
+
+		const user = await client.query(
+			{ $entity: 'User', $id: 'tm-u1', $fields: ['name', 'tags', 'accounts'] },
+			{ noMetadata: true },
+		);
+		expect(user && deepSort(user)).toEqual({ tags: ['a'], accounts: ['tm-a1', 'tm-a2'] });
+	});
+
+	it('tm2[mutation, types] Fields, values and ops outside of the schema do not compile', async () => {
+		expect(client).toBeDefined();
+
+		/// not run, the compilation of the test is the check
+		const invalidMutations = () => [
+			// @ts-expect-error - unknown field
+			client.mutate({ $entity: 'User', nmae: 'Ann' }),
+			// @ts-expect-error - MANY dataFields are arrays
+			client.mutate({ $entity: 'User', tags: 'a' }),
+			// @ts-expect-error - NUMBER values are numbers
+			client.mutate({ $entity: 'SuperUser', power: 'high' }),
+			// @ts-expect-error - virtual fields are computed when queried
+			client.mutate({ $entity: 'User', isAnn: true }),
+			// @ts-expect-error - root things can't be linked
+			client.mutate({ $entity: 'User', $op: 'link', $id: 'tm-u1' }),
+			// @ts-expect-error - ONE linkFields are not arrays
+			client.mutate({ $entity: 'Account', user: ['tm-u1'] }),
+			// @ts-expect-error - accounts are played by accounts, not users
+			client.mutate({ $entity: 'User', accounts: [{ $entity: 'User', name: 'Bob' }] }),
+		];
+		expect(invalidMutations).toBeInstanceOf(Function);
+
+		/// and fill still rejects them at runtime
+		await expect(client.mutate({ $entity: 'User', nmae: 'Ann' } as never)).rejects.toThrow('Unknown fields: [nmae]');
+	});
+
+	afterAll(async () => {
+		await client.close();
+	});
+});
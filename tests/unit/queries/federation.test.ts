@@ -0,0 +1,210 @@
+import 'jest';
+
+import { rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { v4 as uuidv4 } from 'uuid';
+
+import type { BormConfig, BormSchema } from '../../../src/index';
+import BormClient from '../../../src/index';
+import { testSchema } from '../../mocks/testSchema';
+
+const createdUsers: string[] = [];
+
+/// users keep their email and accounts in a sqlite db, and everything else in memory
+const federatedSchema: BormSchema = {
+	...testSchema,
+	entities: {
+		...testSchema.entities,
+		User: {
+			...testSchema.entities.User,
+			dataFields: testSchema.entities.User.dataFields?.map((df) =>
+				df.path === 'email' ? { ...df, dbConnectors: [{ id: 'profiles' }] } : df,
+			),
+			hooks: { afterCreate: (user) => void createdUsers.push(user.id) },
+		},
+	},
+	relations: {
+		...testSchema.relations,
+		'User-Accounts': {
+			...testSchema.relations['User-Accounts'],
+			defaultDBConnector: { id: 'profiles', path: 'User-Accounts' },
+		},
+	},
+};
+
+describe('Federation', () => {
+	const dbName = join(tmpdir(), `federation_${uuidv4()}.sqlite`);
+	const profilesConnector: BormConfig['dbConnectors'][0] = { id: 'profiles', provider: 'sqlite', dbName };
+	let client: BormClient;
+	/// the sqlite db on its own, to check what each db stores
+	let profilesClient: BormClient;
+
+	beforeAll(async () => {
+		profilesClient = new BormClient({
+			schema: federatedSchema,
+			config: { server: { provider: 'blitz-orm-js' }, dbConnectors: [profilesConnector] },
+		});
+		await profilesClient.init();
+		await profilesClient.define();
+
+		client = new BormClient({
+			schema: federatedSchema,
+			config: {
+				server: { provider: 'blitz-orm-js' },
+				dbConnectors: [{ id: 'default', provider: 'memory', dbName: 'federation' }, profilesConnector],
+			},
+		});
+		await client.init();
+	});
+
+	it('f1[federation, mutation, query] Fields are written in their dbConnector and stitched back', async () => {
+		expect(client).toBeDefined();
+
+		const created = await client.mutate({
+			$entity: 'User',
+			id: 'fed-u1',
+			name: 'Ann',
+			email: 'ann@test.com',
+			accounts: [{ id: 'fed-a1', provider: 'google' }],
+		});
+		/// each thing has a single result, with the fields written in every dbConnector
+		expect(created).toEqual(
+			expect.arrayContaining([
+				expect.objectContaining({ $entity: 'User', $op: 'create', id: 'fed-u1', name: 'Ann', email: 'ann@test.com' }),
+				expect.objectContaining({ $entity: 'Account', $op: 'create', id: 'fed-a1', provider: 'google' }),
+			]),
+		);
+		expect(created).toHaveLength(3);
+
+		const user = await client.query(
+			{ $entity: 'User', $id: 'fed-u1', $fields: ['name', 'email', { $path: 'accounts', $fields: ['provider'] }] },
+			{ noMetadata: true },
+		);
+		expect(user).toEqual({ name: 'Ann', email: 'ann@test.com', accounts: [{ provider: 'google' }] });
+
+		const allFields = await client.query({ $entity: 'User', $id: 'fed-u1' }, { noMetadata: true });
+		expect(allFields).toEqual({ id: 'fed-u1', name: 'Ann', email: 'ann@test.com', accounts: ['fed-a1'] });
+
+		/// the sqlite db only has the id of the things with fields in it
+		const profile = await profilesClient.query({ $entity: 'User', $id: 'fed-u1' }, { noMetadata: true });
+		expect(profile).toEqual({ id: 'fed-u1', email: 'ann@test.com', accounts: ['fed-a1'] });
+		const account = await profilesClient.query({ $entity: 'Account', $id: 'fed-a1' }, { noMetadata: true });
+		expect(account).toEqual({ id: 'fed-a1', user: 'fed-u1' });
+	});
+
+	it('f2[federation, query] Fields of other dbConnectors can not filter nor sort', async () => {
+		expect(client).toBeDefined();
+
+		await expect(client.query({ $entity: 'User', $filter: { email: 'ann@test.com' } })).rejects.toThrow(
+			"Can't use 'email' of User to filter, sort or aggregate, it is stored in the dbConnector 'profiles'. Path: root",
+		);
+	});
+
+	it('f3[federation, mutation] Failures in a dbConnector are compensated in the others', async () => {
+		expect(client).toBeDefined();
+
+		/// the memory part is written first, and the email is refused by the unique index of sqlite, outside of the jest realm
+		await expect(
+			client.mutate({ $entity: 'User', id: 'fed-u2', name: 'Bob', email: 'ann@test.com' }),
+		).rejects.toMatchObject({ message: expect.stringContaining('UNIQUE constraint failed') });
+		expect(await client.query({ $entity: 'User', $id: 'fed-u2' })).toBeNull();
+
+		await client.mutate({ $entity: 'User', id: 'fed-u3', name: 'Charlize', email: 'charlize@test.com' });
+		await expect(
+			client.mutate({ $entity: 'User', $id: 'fed-u1', name: 'Annie', email: 'charlize@test.com' }),
+		).rejects.toMatchObject({ message: expect.stringContaining('UNIQUE constraint failed') });
+		const user = await client.query(
+			{ $entity: 'User', $id: 'fed-u1', $fields: ['name', 'email'] },
+			{ noMetadata: true },
+		);
+		expect(user).toEqual({ name: 'Ann', email: 'ann@test.com' });
+	});
+
+	it('f4[federation, mutation] Deleted things are deleted in every dbConnector', async () => {
+		expect(client).toBeDefined();
+
+		await client.mutate([
+			{ $entity: 'User', $op: 'delete', $id: 'fed-u1' },
+			{ $entity: 'User', $op: 'delete', $id: 'fed-u3' },
+		]);
+		expect(await client.query({ $entity: 'User', $id: 'fed-u1' })).toBeNull();
+		expect(await profilesClient.query({ $entity: 'User', $id: ['fed-u1', 'fed-u3'] })).toBeNull();
+	});
+
+	it('f5[federation, mutation] Things written in several dbConnectors are a single node of the structured result', async () => {
+		expect(client).toBeDefined();
+
+		const res = await client.mutate(
+			{ $entity: 'User', id: 'fed-u4', email: 'dan@test.com', accounts: [{ id: 'fed-a4', provider: 'github' }] },
+			{ structuredResult: true },
+		);
+		expect(res.nodes).toEqual(
+			expect.arrayContaining([
+				{ $entity: 'User', $op: 'create', $id: 'fed-u4', path: '' },
+				{ $entity: 'Account', $op: 'create', $id: 'fed-a4', path: 'accounts.0' },
+			]),
+		);
+		expect(res.nodes).toHaveLength(2);
+		/// and run their hooks once
+		expect(createdUsers.filter((id) => id === 'fed-u4')).toEqual(['fed-u4']);
+	});
+
+	it('f6[federation, dryRun] Dry runs return the request of each dbConnector without running them', async () => {
+		expect(client).toBeDefined();
+
+		/// the fields of other dbConnectors are queried by the $ids of the things fetched before them
+		const res = await client.query(
+			{ $entity: 'User', $id: 'fed-u4', $fields: ['name', 'email', { $path: 'accounts', $fields: ['provider'] }] },
+			{ dryRun: true },
+		);
+		expect(res.requests).toEqual(
+			expect.arrayContaining([
+				expect.objectContaining({
+					dbConnector: 'default',
+					memoryRequest: { query: { thing: 'User', ids: ['fed-u4'], links: [] } },
+				}),
+				expect.objectContaining({
+					dbConnector: 'profiles',
+					sqliteRequest: {
+						query: expect.objectContaining({
+							select: { sql: expect.any(String), params: { p0: 'User', p1: '<User.$id>' } },
+						}),
+					},
+				}),
+				expect.objectContaining({
+					dbConnector: 'default',
+					memoryRequest: { query: { thing: 'Account', ids: ['<Account.$id>'], links: [] } },
+				}),
+			]),
+		);
+
+		const mutated = await client.mutate(
+			{ $entity: 'User', id: 'fed-u5', name: 'Eve', email: 'eve@test.com' },
+			{ dryRun: true },
+		);
+		expect(mutated.requests.map((request) => request.dbConnector)).toEqual(['default', 'profiles']);
+		expect(mutated.requests[1].sqliteRequest?.mutation?.insertions).toEqual([
+			expect.objectContaining({ type: 'create', thing: 'User', data: { id: 'fed-u5', email: 'eve@test.com' } }),
+		]);
+		expect(await client.query({ $entity: 'User', $id: 'fed-u5' })).toBeNull();
+	});
+
+	it('f7[federation, transaction] Transactions need a single dbConnector', async () => {
+		expect(client).toBeDefined();
+
+		const callback = jest.fn(async () => undefined);
+		await expect(client.transaction(callback)).rejects.toMatchObject({
+			code: 'TRANSACTION_FAILED',
+			message: 'Transactions are only supported with a single dbConnector, and this bormClient has 2',
+		});
+		expect(callback).not.toHaveBeenCalled();
+	});
+
+	afterAll(async () => {
+		await client.close();
+		await profilesClient.close();
+		rmSync(dbName, { force: true });
+	});
+});
@@ -0,0 +1,216 @@
+import 'jest';
+
+import BormClient from '../../../src/index';
+import { deepSort } from '../../helpers/matchers';
+import { testSchema } from '../../mocks/testSchema';
+
+describe('Memory adapter', () => {
+	let client: BormClient;
+
+	beforeAll(async () => {
+		client = new BormClient({
+			schema: testSchema,
+			config: {
+				server: { provider: 'blitz-orm-js' },
+				dbConnectors: [{ id: 'default', provider: 'memory', dbName: 'test' }],
+			},
+		});
+		await client.init();
+		await client.mutate(
+			[
+				{
+					$entity: 'User',
+					id: 'mem-u1',
+					name: 'Ann',
+					email: 'ann@test.com',
+					accounts: [
+						{ id: 'mem-a1', provider: 'google' },
+						{ id: 'mem-a2', provider: 'github' },
+					],
+				},
+				{ $entity: 'User', id: 'mem-u2', name: 'Bob', email: 'bob@test.com' },
+			],
+			{ noMetadata: true },
+		);
+	});
+
+	it('m1[query] Nested things and sorting', async () => {
+		expect(client).toBeDefined();
+
+		const res = await client.query(
+			{ $entity: 'User', $id: 'mem-u1', $fields: ['name', { $path: 'accounts', $sort: [{ field: 'provider' }] }] },
+			{ noMetadata: true },
+		);
+		expect(res).toEqual({
+			name: 'Ann',
+			accounts: [
+				{ id: 'mem-a2', provider: 'github', user: 'mem-u1' },
+				{ id: 'mem-a1', provider: 'google', user: 'mem-u1' },
+			],
+		});
+
+		/// things without the sorted value come last
+		await client.mutate({ $entity: 'User', id: 'mem-nameless' });
+		const byName = await client.query(
+			{ $entity: 'User', $sort: [{ field: 'name', desc: true }], $fields: ['id'] },
+			{ noMetadata: true },
+		);
+		await client.mutate({ $entity: 'User', $op: 'delete', $id: 'mem-nameless' });
+		expect(byName).toEqual([{ id: 'mem-u2' }, { id: 'mem-u1' }, { id: 'mem-nameless' }]);
+	});
+
+	it('m2[query, filters] Local and nested filters', async () => {
+		expect(client).toBeDefined();
+
+		const byAccount = await client.query(
+			{ $entity: 'User', $filter: { accounts: { provider: 'google' } }, $fields: ['id'] },
+			{ noMetadata: true },
+		);
+		expect(byAccount).toEqual([{ id: 'mem-u1' }]);
+
+		const withoutAccounts = await client.query(
+			{ $entity: 'User', $filter: { accounts: { $none: {} } }, $fields: ['id'] },
+			{ noMetadata: true },
+		);
+		expect(withoutAccounts).toEqual([{ id: 'mem-u2' }]);
+
+		const byName = await client.query(
+			{ $entity: 'User', $filter: { name: { $contains: 'AN' } }, $fields: ['id'] },
+			{ noMetadata: true },
+		);
+		expect(byName).toEqual([{ id: 'mem-u1' }]);
+	});
+
+	it('m3[query, aggregate] Counts and grouped aggregates', async () => {
+		expect(client).toBeDefined();
+
+		const counts = await client.query(
+			{ $entity: 'User', $fields: ['id', { $path: 'accounts', $count: true }] },
+			{ noMetadata: true },
+		);
+		expect(deepSort(counts, 'id')).toEqual([
+			{ id: 'mem-u1', accounts: 2 },
+			{ id: 'mem-u2', accounts: 0 },
+		]);
+
+		const grouped = await client.query({ $entity: 'Account', $aggregate: { count: true }, $groupBy: 'provider' });
+		expect(deepSort(grouped, 'provider')).toEqual([
+			{ provider: 'github', count: 1 },
+			{ provider: 'google', count: 1 },
+		]);
+	});
+
+	it('m4[mutation, edges] Link and unlink', async () => {
+		expect(client).toBeDefined();
+
+		await client.mutate({ $entity: 'User', $id: 'mem-u2', accounts: [{ $op: 'link', $id: 'mem-a2' }] });
+		await client.mutate({ $entity: 'User', $id: 'mem-u1', accounts: [{ $op: 'unlink', $id: 'mem-a2' }] });
+
+		const users = await client.query({ $entity: 'User', $fields: ['id', 'accounts'] }, { noMetadata: true });
+		expect(deepSort(users, 'id')).toEqual([
+			{ id: 'mem-u1', accounts: ['mem-a1'] },
+			{ id: 'mem-u2', accounts: ['mem-a2'] },
+		]);
+	});
+
+	it('m5[mutation, delete] Delete only the linked things', async () => {
+		expect(client).toBeDefined();
+
+		await client.mutate({ $entity: 'User', $id: 'mem-u1', accounts: [{ $op: 'delete' }] });
+
+		const accounts = await client.query({ $entity: 'Account', $fields: ['id', 'user'] }, { noMetadata: true });
+		expect(accounts).toEqual([{ id: 'mem-a2', user: 'mem-u2' }]);
+	});
+
+	it('m6[mutation, upsert] Upsert by a unique dataField', async () => {
+		expect(client).toBeDefined();
+
+		await client.mutate({ $entity: 'User', $op: 'upsert', email: 'bob@test.com', name: 'Robert' });
+		await client.mutate({ $entity: 'User', $op: 'upsert', id: 'mem-u3', email: 'cy@test.com', name: 'Cy' });
+
+		const users = await client.query({ $entity: 'User', $fields: ['id', 'name'] }, { noMetadata: true });
+		expect(deepSort(users, 'id')).toEqual([
+			{ id: 'mem-u1', name: 'Ann' },
+			{ id: 'mem-u2', name: 'Robert' },
+			{ id: 'mem-u3', name: 'Cy' },
+		]);
+	});
+
+	it('m6b[mutation, unique] Refuse repeated ids and unique dataFields', async () => {
+		expect(client).toBeDefined();
+
+		await expect(client.mutate({ $entity: 'User', id: 'mem-u1', name: 'Other Ann' })).rejects.toMatchObject({
+			name: 'BormConflictError',
+			code: 'UNIQUE_CONSTRAINT',
+		});
+		await expect(client.mutate({ $entity: 'User', id: 'mem-u5', email: 'ann@test.com' })).rejects.toMatchObject({
+			code: 'UNIQUE_CONSTRAINT',
+		});
+		/// subtypes share the keys of the things they extend
+		await expect(client.mutate({ $entity: 'SuperUser', id: 'mem-u2' })).rejects.toMatchObject({
+			code: 'UNIQUE_CONSTRAINT',
+		});
+		await expect(client.mutate({ $entity: 'User', $id: 'mem-u2', email: 'ann@test.com' })).rejects.toMatchObject({
+			code: 'UNIQUE_CONSTRAINT',
+		});
+
+		const users = await client.query({ $entity: 'User', $fields: ['id', 'email'] }, { noMetadata: true });
+		expect(deepSort(users, 'id')).toEqual([
+			{ id: 'mem-u1', email: 'ann@test.com' },
+			{ id: 'mem-u2', email: 'bob@test.com' },
+			{ id: 'mem-u3', email: 'cy@test.com' },
+		]);
+	});
+
+	it('m7[transaction] Roll back when the callback throws', async () => {
+		expect(client).toBeDefined();
+
+		await expect(
+			client.transaction(async (tx) => {
+				await tx.mutate({ $entity: 'User', $id: 'mem-u3', name: 'Changed' });
+				const changed = await tx.query({ $entity: 'User', $id: 'mem-u3', $fields: ['name'] }, { noMetadata: true });
+				expect(changed).toEqual({ name: 'Changed' });
+				throw new Error('Rollback');
+			}),
+		).rejects.toThrow('Rollback');
+
+		const user = await client.query({ $entity: 'User', $id: 'mem-u3', $fields: ['name'] }, { noMetadata: true });
+		expect(user).toEqual({ name: 'Cy' });
+	});
+
+	it('m7b[transaction] Calls outside of the transaction wait until it ends', async () => {
+		expect(client).toBeDefined();
+
+		let release = () => {};
+		const released = new Promise<void>((resolve) => {
+			release = resolve;
+		});
+		const transaction = client.transaction(async (tx) => {
+			await tx.mutate({ $entity: 'User', $id: 'mem-u3', name: 'Changed' });
+			await released;
+			throw new Error('Rollback');
+		});
+		/// it would be lost when the stores are restored if it ran during the transaction
+		const outside = client.mutate({ $entity: 'User', id: 'mem-u4', name: 'Dee' });
+		release();
+
+		await expect(transaction).rejects.toThrow('Rollback');
+		await outside;
+		const users = await client.query(
+			{ $entity: 'User', $id: ['mem-u3', 'mem-u4'], $fields: ['id', 'name'] },
+			{ noMetadata: true },
+		);
+		expect(deepSort(users, 'id')).toEqual([
+			{ id: 'mem-u3', name: 'Cy' },
+			{ id: 'mem-u4', name: 'Dee' },
+		]);
+		await client.mutate({ $entity: 'User', $op: 'delete', $id: 'mem-u4' });
+	});
+
+	it('m8[define] Reset empties the store', async () => {
+		expect(client).toBeDefined();
+
+		expect(await client.define({ reset: true })).toEqual({ changes: [], applied: true });
+		expect(await client.query({ $entity: 'User' })).toBeNull();
+	});
+});
@@ -1,13 +1,28 @@
 import 'jest';
 import { v4 as uuidv4 } from 'uuid';
 
-import type BormClient from '../../../src/index';
-import { cleanup, init } from '../../helpers/lifecycle';
+import type { BormSchema } from '../../../src/index';
+import BormClient from '../../../src/index';
+import { cleanup, init, provider } from '../../helpers/lifecycle';
 import { deepRemoveMetaData, deepSort, expectArraysInObjectToContainSameElements } from '../../helpers/matchers';
 import type { typesSchema } from '../../mocks/generatedSchema';
 import type { TypeGen } from '../../../src/types/typeGen';
 import type { WithBormMetadata } from '../../../src/index';
 import type { UserType } from '../../types/testTypes';
+import { testConfig } from '../../mocks/testConfig';
+import { testSchema } from '../../mocks/testSchema';
+
+/// accounts can only be read by their user, and nobody can read them without a userId in the context
+const permissionsSchema: BormSchema = {
+	...testSchema,
+	entities: {
+		...testSchema.entities,
+		Account: {
+			...testSchema.entities.Account,
+			permissions: { read: (context) => (context.userId ? { user: context.userId } : false) },
+		},
+	},
+};
 
 describe('Query', () => {
 	let dbName: string;
@@ -237,36 +252,14 @@ describe('Query', () => {
 			'$entity': 'User',
 			/// if this fails, other stuff fails, for some reason, fix this first
 			'$debugger': {
-				tqlRequest: {
-					entity:
-						'match $User  isa User, has attribute $attribute  , has id $User_id; $User_id "user1"; get; group $User;',
-					relations: [
-						{
-							entity: 'User',
-							relation: 'User-Accounts',
-							request:
-								'match $user isa User , has id $user_id; $user_id "user1";  (user: $user,accounts: $accounts ) isa User-Accounts; $accounts isa Account, has id $accounts_id; get; group $user;',
-						},
-						{
-							entity: 'User',
-							relation: 'User-Sessions',
-							request:
-								'match $user isa User , has id $user_id; $user_id "user1";  (user: $user,sessions: $sessions ) isa User-Sessions; $sessions isa Session, has id $sessions_id; get; group $user;',
-						},
-						{
-							entity: 'User',
-							relation: 'Space-User',
-							request:
-								'match $users isa User , has id $users_id; $users_id "user1";  (users: $users,spaces: $spaces ) isa Space-User; $spaces isa Space, has id $spaces_id; get; group $users;',
-						},
-						{
-							entity: 'User',
-							relation: 'UserTag',
-							request:
-								'match $users isa User , has id $users_id; $users_id "user1"; $UserTag (users: $users ) isa UserTag; $UserTag isa UserTag, has id $UserTag_id; get; group $users;',
-						},
-					],
-				},
+				/// only typeDB providers build a typeQL request
+				tqlRequest:
+					provider === 'typeDB'
+						? {
+								entity:
+									'match $User isa! User; $User has id $User_id; $User_id "user1"; fetch $User as "$thing": attribute; "accounts": { match (user: $User, accounts: $User_0) isa User-Accounts; fetch $User_0 as "$thing": id; }; "sessions": { match (user: $User, sessions: $User_1) isa User-Sessions; fetch $User_1 as "$thing": id; }; "spaces": { match (users: $User, spaces: $User_2) isa Space-User; fetch $User_2 as "$thing": id; }; "user-tags": { match $User_3 (users: $User) isa UserTag; fetch $User_3 as "$thing": id; };',
+						  }
+						: undefined,
 			},
 			'name': 'Antoine',
 			'email': 'antoine@test.com',
@@ -288,6 +281,24 @@ describe('Query', () => {
 		expect(res['user-tags']).toHaveLength(expectedRes['user-tags'].length);
 	});
 
+	it('opt2b[options, dryRun] Dry runs return the parsed query and the request of the db without running it', async () => {
+		expect(client).toBeDefined();
+		const res = await client.query({ $entity: 'User', $id: 'user1', $fields: ['name'] }, { dryRun: true });
+		expect(res.requests).toHaveLength(1);
+		const [request] = res.requests;
+		expect(request.bqlRequest?.query).toMatchObject({ $id: 'user1', $fields: ['name'] });
+		if (provider === 'typeDB') {
+			expect(request.tqlRequest).toEqual({
+				entity: 'match $User isa! User; $User has id $User_id; $User_id "user1"; fetch $User as "$thing": attribute;',
+			});
+			return;
+		}
+		expect(request.sqliteRequest?.query?.select).toEqual({
+			sql: expect.stringContaining('FROM "User"'),
+			params: expect.objectContaining({ p0: 'User' }),
+		});
+	});
+
 	it('opt3a[options, returnNulll] - empty fields option in entity', async () => {
 		expect(client).toBeDefined();
 		const query = { $entity: 'User', $id: 'user4', $fields: ['spaces', 'email', 'user-tags'] };
@@ -785,6 +796,12 @@ describe('Query', () => {
 		});
 
 		expect(deepSort(resWithoutMetadata, 'id')).toEqual(deepRemoveMetaData(expectedRes));
+
+		/// the whole tree is fetched in a single typeQL query
+		if (provider === 'typeDB') {
+			const resWithDebugger = (await client.query(query, { debugger: true })) as { $debugger: { tqlRequest: object } };
+			expect(Object.keys(resWithDebugger.$debugger.tqlRequest)).toEqual(['entity']);
+		}
 	});
 
 	it('r9[relation, nested, ids]', async () => {
@@ -1185,7 +1202,6 @@ describe('Query', () => {
 	});
 
 	it('ex2[extends] Query of the parent', async () => {
-		/// note: fixed with an ugly workaround (getEntityName() in parseTQL.ts)
 		expect(client).toBeDefined();
 
 		const res = await client.query(
@@ -1367,6 +1383,500 @@ describe('Query', () => {
 		]);
 	});
 
+	it('pag1[pagination] - $limit and $offset on root', async () => {
+		expect(client).toBeDefined();
+		const res = await client.query({ $entity: 'User', $limit: 2, $fields: ['id'] }, { noMetadata: true });
+		expect(res).toHaveLength(2);
+
+		const resWithOffset = await client.query(
+			{ $entity: 'User', $offset: 3, $limit: 10, $fields: ['id'] },
+			{ noMetadata: true },
+		);
+		// 5 users, as the superUser and the god are not Users but extend it. The limit is bigger than what is left
+		expect(resWithOffset).toHaveLength(2);
+	});
+
+	it('pag2[pagination, nested] - $limit applies per parent', async () => {
+		expect(client).toBeDefined();
+		const res = await client.query(
+			{
+				$entity: 'User',
+				$id: ['user1', 'user2'],
+				$fields: ['id', { $path: 'accounts', $limit: 2, $fields: ['id'] }],
+			},
+			{ noMetadata: true },
+		);
+		const [user1, user2] = deepSort(res, 'id') as { id: string; accounts: { id: string }[] }[];
+		expect(user1.accounts).toHaveLength(2);
+		expect(user2.accounts).toEqual([{ id: 'account2-1' }]);
+	});
+
+	it('pag3[pagination, nested] - $offset applies per parent', async () => {
+		expect(client).toBeDefined();
+		const res = await client.query(
+			{
+				$entity: 'User',
+				$id: ['user1', 'user2'],
+				$fields: ['id', { $path: 'accounts', $offset: 1, $fields: ['id'] }],
+			},
+			{ noMetadata: true },
+		);
+		const [user1, user2] = deepSort(res, 'id') as { id: string; accounts?: { id: string }[] }[];
+		expect(user1.accounts).toHaveLength(2);
+		expect(user2.accounts).toBeUndefined();
+	});
+
+	it('pag4[pagination, validation] - $limit must be a non-negative integer', async () => {
+		expect(client).toBeDefined();
+		await expect(client.query({ $entity: 'User', $limit: -1 })).rejects.toThrow(
+			'$limit must be a non-negative integer. Path: root',
+		);
+		await expect(client.query({ $entity: 'User', $fields: [{ $path: 'accounts', $offset: 1.5 }] })).rejects.toThrow(
+			'$offset must be a non-negative integer. Path: root.accounts',
+		);
+	});
+
+	it('sort1[sort] - $sort on root by multiple fields', async () => {
+		expect(client).toBeDefined();
+		const res = await client.query(
+			{
+				$entity: 'Account',
+				$sort: [{ field: 'provider' }, { field: 'id', desc: true }],
+				$fields: ['id', 'provider'],
+			},
+			{ noMetadata: true },
+		);
+		expect(res).toEqual([
+			{ id: 'account3-1', provider: 'facebook' },
+			{ id: 'account1-2', provider: 'facebook' },
+			{ id: 'account1-3', provider: 'github' },
+			{ id: 'account2-1', provider: 'google' },
+			{ id: 'account1-1', provider: 'google' },
+		]);
+	});
+
+	it('sort2[sort, pagination] - $sort with $limit on root', async () => {
+		expect(client).toBeDefined();
+		const res = await client.query(
+			{ $entity: 'User', $sort: [{ field: 'name' }], $limit: 3, $fields: ['name'] },
+			{ noMetadata: true },
+		);
+		expect(res).toEqual([{ name: 'Ann' }, { name: 'Antoine' }, { name: 'Ben' }]);
+	});
+
+	it('sort3[sort, nested] - $sort and $limit inside a nested field', async () => {
+		expect(client).toBeDefined();
+		const res = await client.query(
+			{
+				$entity: 'User',
+				$id: 'user1',
+				$fields: ['id', { $path: 'accounts', $sort: [{ field: 'provider', desc: true }], $fields: ['provider'] }],
+			},
+			{ noMetadata: true },
+		);
+		expect(res).toEqual({
+			id: 'user1',
+			accounts: [{ provider: 'google' }, { provider: 'github' }, { provider: 'facebook' }],
+		});
+
+		const resLimited = await client.query(
+			{
+				$entity: 'User',
+				$id: 'user1',
+				$fields: [
+					'id',
+					{ $path: 'accounts', $sort: [{ field: 'provider', desc: true }], $limit: 2, $fields: ['provider'] },
+				],
+			},
+			{ noMetadata: true },
+		);
+		expect(resLimited).toEqual({
+			id: 'user1',
+			accounts: [{ provider: 'google' }, { provider: 'github' }],
+		});
+	});
+
+	it('sort4[sort, validation] - $sort by a field that is not a dataField', async () => {
+		expect(client).toBeDefined();
+		await expect(client.query({ $entity: 'User', $sort: [{ field: 'accounts' }] })).rejects.toThrow(
+			"Can't sort by 'accounts', it is not a dataField of User. Path: root",
+		);
+	});
+
+	it('sort5[sort, missing] - things without the sorted value are sorted last', async () => {
+		expect(client).toBeDefined();
+		await client.mutate({
+			$relation: 'UserTag',
+			id: 'sort5-tag',
+			users: [{ id: 'sort5-u1', name: 'Bea' }, { id: 'sort5-u2' }, { id: 'sort5-u3', name: 'Al' }],
+		});
+		const ids = ['sort5-u1', 'sort5-u2', 'sort5-u3'];
+
+		const resAsc = await client.query(
+			{ $entity: 'User', $id: ids, $sort: [{ field: 'name' }], $fields: ['id'] },
+			{ noMetadata: true },
+		);
+		const resDesc = await client.query(
+			{ $entity: 'User', $id: ids, $sort: [{ field: 'name', desc: true }], $fields: ['id'] },
+			{ noMetadata: true },
+		);
+		const resPage = await client.query(
+			{ $entity: 'User', $id: ids, $sort: [{ field: 'name' }], $offset: 1, $limit: 2, $fields: ['id'] },
+			{ noMetadata: true },
+		);
+		const resNested = await client.query(
+			{
+				$relation: 'UserTag',
+				$id: 'sort5-tag',
+				$fields: [{ $path: 'users', $sort: [{ field: 'name' }], $fields: ['id'] }],
+			},
+			{ noMetadata: true },
+		);
+
+		await client.mutate([
+			{ $relation: 'UserTag', $op: 'delete', $id: 'sort5-tag' },
+			{ $entity: 'User', $op: 'delete', $id: ids },
+		]);
+
+		expect(resAsc).toEqual([{ id: 'sort5-u3' }, { id: 'sort5-u1' }, { id: 'sort5-u2' }]);
+		expect(resDesc).toEqual([{ id: 'sort5-u1' }, { id: 'sort5-u3' }, { id: 'sort5-u2' }]);
+		expect(resPage).toEqual([{ id: 'sort5-u1' }, { id: 'sort5-u2' }]);
+		expect(resNested).toEqual({ users: [{ id: 'sort5-u3' }, { id: 'sort5-u1' }, { id: 'sort5-u2' }] });
+	});
+
+	it('op1[filter, operators] - $in as an array and as an operator, and $ne', async () => {
+		expect(client).toBeDefined();
+		const query = { $entity: 'Account', $sort: [{ field: 'id' }], $fields: ['id'] };
+		const expectedRes = [{ id: 'account1-2' }, { id: 'account1-3' }, { id: 'account3-1' }];
+
+		const resArray = await client.query(
+			{ ...query, $filter: { provider: ['github', 'facebook'] } },
+			{ noMetadata: true },
+		);
+		const resIn = await client.query(
+			{ ...query, $filter: { provider: { $in: ['github', 'facebook'] } } },
+			{ noMetadata: true },
+		);
+		const resNe = await client.query({ ...query, $filter: { provider: { $ne: 'google' } } }, { noMetadata: true });
+		expect(resArray).toEqual(expectedRes);
+		expect(resIn).toEqual(expectedRes);
+		expect(resNe).toEqual(expectedRes);
+	});
+
+	it('op2[filter, operators] - text operators, combined in the same field', async () => {
+		expect(client).toBeDefined();
+		const query = { $entity: 'User', $sort: [{ field: 'name' }], $fields: ['name'] };
+
+		const resStartsWith = await client.query(
+			{ ...query, $filter: { name: { $startsWith: 'An' } } },
+			{ noMetadata: true },
+		);
+		const resContains = await client.query({ ...query, $filter: { name: { $contains: 'oi' } } }, { noMetadata: true });
+		const resEndsWith = await client.query({ ...query, $filter: { name: { $endsWith: 'e' } } }, { noMetadata: true });
+		const resRegex = await client.query({ ...query, $filter: { name: { $regex: '^[BL]' } } }, { noMetadata: true });
+		const resCombined = await client.query(
+			{ ...query, $filter: { name: { $startsWith: 'A', $contains: 'oi' } } },
+			{ noMetadata: true },
+		);
+		expect(resStartsWith).toEqual([{ name: 'Ann' }, { name: 'Antoine' }]);
+		expect(resContains).toEqual([{ name: 'Antoine' }, { name: 'Loic' }]);
+		expect(resEndsWith).toEqual([{ name: 'Antoine' }, { name: 'Charlize' }]);
+		expect(resRegex).toEqual([{ name: 'Ben' }, { name: 'Loic' }]);
+		expect(resCombined).toEqual([{ name: 'Antoine' }]);
+	});
+
+	it('op3[filter, operators] - range operators', async () => {
+		expect(client).toBeDefined();
+		const res = await client.query(
+			{
+				$entity: 'User',
+				$filter: { name: { $gt: 'Ann', $lte: 'Charlize' } },
+				$sort: [{ field: 'name' }],
+				$fields: ['name'],
+			},
+			{ noMetadata: true },
+		);
+		expect(res).toEqual([{ name: 'Antoine' }, { name: 'Ben' }, { name: 'Charlize' }]);
+	});
+
+	it('op4[filter, operators] - quotes in filter values are escaped', async () => {
+		expect(client).toBeDefined();
+		const res = await client.query(
+			{ $entity: 'User', $filter: { name: { $startsWith: 'A"; $x isa User' } }, $fields: ['name'] },
+			{ noMetadata: true },
+		);
+		expect(res).toBeNull();
+	});
+
+	it('op5[filter, operators, validation] - unsupported operators and text operators in non text fields', async () => {
+		expect(client).toBeDefined();
+		await expect(client.query({ $entity: 'User', $filter: { name: { $like: 'Ann' } } })).rejects.toThrow(
+			"Unsupported filter operator $like in 'name'",
+		);
+		await expect(client.query({ $entity: 'God', $filter: { isEvil: { $contains: 'tr' } } })).rejects.toThrow(
+			"Filter $contains can't be used in 'isEvil', which is of type BOOLEAN",
+		);
+	});
+
+	it('nf1[filter, nested] - filter by a dataField of a linked thing', async () => {
+		expect(client).toBeDefined();
+		const res = await client.query(
+			{ $entity: 'User', $filter: { accounts: { provider: 'google' } }, $sort: [{ field: 'name' }], $fields: ['name'] },
+			{ noMetadata: true },
+		);
+		expect(res).toEqual([{ name: 'Antoine' }, { name: 'Loic' }]);
+	});
+
+	it('nf2[filter, nested] - $some, $every and $none quantifiers', async () => {
+		expect(client).toBeDefined();
+		const query = { $entity: 'User', $sort: [{ field: 'name' }], $fields: ['name'] };
+
+		const resSome = await client.query(
+			{ ...query, $filter: { accounts: { $some: { provider: 'facebook' } } } },
+			{ noMetadata: true },
+		);
+		// things without linked things pass $every
+		const resEvery = await client.query(
+			{ ...query, $filter: { accounts: { $every: { provider: 'google' } } } },
+			{ noMetadata: true },
+		);
+		const resNone = await client.query(
+			{ ...query, $filter: { accounts: { $none: { provider: 'google' } } } },
+			{ noMetadata: true },
+		);
+		const resNoAccounts = await client.query({ ...query, $filter: { accounts: { $none: {} } } }, { noMetadata: true });
+		expect(resSome).toEqual([{ name: 'Ann' }, { name: 'Antoine' }]);
+		expect(resEvery).toEqual([{ name: 'Ben' }, { name: 'Charlize' }, { name: 'Loic' }]);
+		expect(resNone).toEqual([{ name: 'Ann' }, { name: 'Ben' }, { name: 'Charlize' }]);
+		expect(resNoAccounts).toEqual([{ name: 'Ben' }, { name: 'Charlize' }]);
+	});
+
+	it('nf3[filter, nested] - filter by ids and through several linkFields', async () => {
+		expect(client).toBeDefined();
+		const resById = await client.query(
+			{ $entity: 'User', $filter: { accounts: 'account3-1' }, $fields: ['name'] },
+			{ noMetadata: true },
+		);
+		const resDeep = await client.query(
+			{ $entity: 'User', $filter: { 'user-tags': { color: 'blue' } }, $fields: ['name'] },
+			{ noMetadata: true },
+		);
+		expect(resById).toEqual([{ name: 'Ann' }]);
+		expect(resDeep).toEqual([{ name: 'Loic' }]);
+	});
+
+	it('nf4[filter, nested] - filter by a roleField, also in nested queries', async () => {
+		expect(client).toBeDefined();
+		const resRoot = await client.query(
+			{ $relation: 'UserTag', $filter: { users: { name: 'Ann' } }, $fields: ['id'] },
+			{ noMetadata: true },
+		);
+		const resNested = await client.query(
+			{
+				$entity: 'User',
+				$id: 'user1',
+				$fields: ['id', { $path: 'user-tags', $filter: { users: { name: 'Ann' } }, $fields: ['id'] }],
+			},
+			{ noMetadata: true },
+		);
+		expect(resRoot).toEqual([{ id: 'tag-2' }]);
+		expect(resNested).toEqual({ 'id': 'user1', 'user-tags': [{ id: 'tag-2' }] });
+	});
+
+	it('nf5[filter, nested, validation] - unknown fields and quantifiers', async () => {
+		expect(client).toBeDefined();
+		await expect(
+			client.query({ $entity: 'User', $filter: { accounts: { $any: { provider: 'google' } } } }),
+		).rejects.toThrow("Unsupported filter quantifier $any in 'accounts', use $some, $every or $none");
+		await expect(client.query({ $entity: 'User', $filter: { accounts: { user: { age: 3 } } } })).rejects.toThrow(
+			"Can't filter by 'age', it is not a field of User",
+		);
+	});
+
+	it('agg1[aggregate] - $count of the root things', async () => {
+		expect(client).toBeDefined();
+		const res = await client.query({ $entity: 'Account', $aggregate: { count: true } });
+		const resFiltered = await client.query({
+			$entity: 'Account',
+			$filter: { provider: 'google' },
+			$aggregate: { count: true },
+		});
+		expect(res).toEqual({ count: 5 });
+		expect(resFiltered).toEqual({ count: 2 });
+	});
+
+	it('agg2[aggregate, groupBy] - $count grouped by a dataField', async () => {
+		expect(client).toBeDefined();
+		const res = await client.query({ $entity: 'Account', $aggregate: { count: true }, $groupBy: 'provider' });
+		expect(deepSort(res, 'provider')).toEqual([
+			{ provider: 'facebook', count: 2 },
+			{ provider: 'github', count: 1 },
+			{ provider: 'google', count: 2 },
+		]);
+	});
+
+	it('agg3[aggregate, nested] - $count of linked things next to the other fields', async () => {
+		expect(client).toBeDefined();
+		const res = await client.query(
+			{ $entity: 'User', $sort: [{ field: 'name' }], $fields: ['name', { $path: 'accounts', $count: true }] },
+			{ noMetadata: true },
+		);
+		const resFiltered = await client.query(
+			{
+				$entity: 'User',
+				$id: 'user1',
+				$fields: ['name', { $path: 'accounts', $count: true, $filter: { provider: { $ne: 'google' } } }],
+			},
+			{ noMetadata: true },
+		);
+		expect(res).toEqual([
+			{ name: 'Ann', accounts: 1 },
+			{ name: 'Antoine', accounts: 3 },
+			{ name: 'Ben', accounts: 0 },
+			{ name: 'Charlize', accounts: 0 },
+			{ name: 'Loic', accounts: 1 },
+		]);
+		expect(resFiltered).toEqual({ name: 'Antoine', accounts: 2 });
+	});
+
+	it('agg4[aggregate, validation] - wrong aggregates', async () => {
+		expect(client).toBeDefined();
+		await expect(client.query({ $entity: 'Account', $aggregate: { sum: 'provider' } })).rejects.toThrow(
+			"Can't sum 'provider', which is of type TEXT",
+		);
+		await expect(client.query({ $entity: 'Account', $groupBy: 'provider' })).rejects.toThrow(
+			'$groupBy requires an $aggregate',
+		);
+		await expect(
+			client.query({ $entity: 'User', $fields: [{ $path: 'accounts', $aggregate: { count: true } }] }),
+		).rejects.toThrow(
+			'$aggregate and $groupBy are only supported in the root, use $count in nested fields. Path: root.accounts',
+		);
+	});
+
+	it('enc1[encoding] - hostile strings in $id and $filter are matched literally', async () => {
+		expect(client).toBeDefined();
+		/// regex characters in several ids only match themselves
+		const res = await client.query({ $entity: 'User', $id: ['user1', '.*'], $fields: ['id'] }, { noMetadata: true });
+		expect(res).toEqual([{ id: 'user1' }]);
+		/// quotes don't close the string
+		const quoted = await client.query({ $entity: 'User', $id: 'user1"; $x isa User; $x has id "user2' });
+		expect(quoted).toBeNull();
+		const filtered = await client.query({ $entity: 'User', $filter: { name: { $startsWith: '.*' } } });
+		expect(filtered).toBeNull();
+		const nested = await client.query(
+			{
+				$entity: 'User',
+				$id: 'user1',
+				$fields: [{ $path: 'accounts', $id: ['account1-1', 'account1-.*'], $fields: ['id'] }],
+			},
+			{ noMetadata: true },
+		);
+		expect(nested).toEqual({ accounts: [{ id: 'account1-1' }] });
+	});
+
+	it('enc2[encoding, validation] - values must match the contentType of the field', async () => {
+		expect(client).toBeDefined();
+		await expect(client.query({ $entity: 'Session', $filter: { expires: { $gt: 'not a date' } } })).rejects.toThrow(
+			"Value of 'expires' must be a valid date",
+		);
+		await expect(client.query({ $entity: 'God', $filter: { isEvil: 'false' } })).rejects.toThrow(
+			"Value of 'isEvil' must be a boolean",
+		);
+	});
+
+	it('perm1[permissions] - the read rule filters the root things and their aggregates', async () => {
+		const permissionsClient = new BormClient({
+			schema: permissionsSchema,
+			config: { ...testConfig, dbConnectors: [{ ...testConfig.dbConnectors[0], dbName }] },
+		});
+		const res = await permissionsClient.query(
+			{ $entity: 'Account', $fields: ['id'] },
+			{ noMetadata: true, context: { userId: 'user1' } },
+		);
+		const resWithoutContext = await permissionsClient.query({ $entity: 'Account' });
+		const resOfOtherUser = await permissionsClient.query(
+			{ $entity: 'Account', $id: 'account1-1' },
+			{ context: { userId: 'user2' } },
+		);
+		const count = await permissionsClient.query(
+			{ $entity: 'Account', $aggregate: { count: true } },
+			{ context: { userId: 'user1' } },
+		);
+		await permissionsClient.close();
+
+		expect(deepSort(res, 'id')).toEqual([{ id: 'account1-1' }, { id: 'account1-2' }, { id: 'account1-3' }]);
+		expect(resWithoutContext).toBeNull();
+		expect(resOfOtherUser).toBeNull();
+		expect(count).toEqual({ count: 3 });
+	});
+
+	it('perm2[permissions, nested] - the read rule filters nested things, ids and $count', async () => {
+		const permissionsClient = new BormClient({
+			schema: permissionsSchema,
+			config: { ...testConfig, dbConnectors: [{ ...testConfig.dbConnectors[0], dbName }] },
+		});
+		const res = await permissionsClient.query(
+			{ $entity: 'User', $id: ['user1', 'user2'], $fields: ['id', 'accounts'] },
+			{ noMetadata: true, context: { userId: 'user2' } },
+		);
+		const counted = await permissionsClient.query(
+			{ $entity: 'User', $id: ['user1', 'user2'], $fields: ['id', { $path: 'accounts', $count: true }] },
+			{ noMetadata: true, context: { userId: 'user2' } },
+		);
+		const expanded = await permissionsClient.query(
+			{ $entity: 'User', $id: 'user1', $fields: ['id', { $path: 'accounts', $fields: ['provider'] }] },
+			{ noMetadata: true, context: { userId: 'user2' } },
+		);
+		await permissionsClient.close();
+
+		expect(deepSort(res, 'id')).toEqual([{ id: 'user1' }, { id: 'user2', accounts: ['account2-1'] }]);
+		expect(deepSort(counted, 'id')).toEqual([
+			{ id: 'user1', accounts: 0 },
+			{ id: 'user2', accounts: 1 },
+		]);
+		expect(expanded).toEqual({ id: 'user1' });
+	});
+
+	it('perm3[permissions, filters] - nested filters only match the things the context can read', async () => {
+		const permissionsClient = new BormClient({
+			schema: permissionsSchema,
+			config: { ...testConfig, dbConnectors: [{ ...testConfig.dbConnectors[0], dbName }] },
+		});
+		const byHiddenAccount = await permissionsClient.query(
+			{ $entity: 'User', $filter: { accounts: { provider: 'github' } }, $fields: ['id'] },
+			{ noMetadata: true, context: { userId: 'user2' } },
+		);
+		const byOwnAccount = await permissionsClient.query(
+			{ $entity: 'User', $filter: { accounts: { provider: 'github' } }, $fields: ['id'] },
+			{ noMetadata: true, context: { userId: 'user1' } },
+		);
+		const withoutVisibleAccount = await permissionsClient.query(
+			{
+				$entity: 'User',
+				$id: ['user1', 'user2'],
+				$filter: { accounts: { $none: { provider: 'google' } } },
+				$fields: ['id'],
+			},
+			{ noMetadata: true, context: { userId: 'user2' } },
+		);
+		const everyVisibleAccount = await permissionsClient.query(
+			{
+				$entity: 'User',
+				$id: ['user1', 'user2'],
+				$filter: { accounts: { $every: { provider: 'google' } } },
+				$fields: ['id'],
+			},
+			{ noMetadata: true, context: { userId: 'user1' } },
+		);
+		await permissionsClient.close();
+
+		expect(byHiddenAccount).toBeNull();
+		expect(byOwnAccount).toEqual([{ id: 'user1' }]);
+		expect(withoutVisibleAccount).toEqual([{ id: 'user1' }]);
+		expect(everyVisibleAccount).toEqual([{ id: 'user2' }]);
+	});
+
 	/*
   it('[entity,nested, filter] - $filter on children property', async () => {
     expect(client).toBeDefined();
@@ -0,0 +1,142 @@
+import 'jest';
+
+import BormClient from '../../../src/index';
+import { typedSchema } from '../../mocks/typedSchema';
+
+/// compile time checks of the results of the queries
+type Equals<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2 ? true : false;
+type Assert<T extends true> = T;
+
+describe('Typed queries', () => {
+	let client: BormClient<typeof typedSchema>;
+
+	beforeAll(async () => {
+		client = new BormClient({
+			schema: typedSchema,
+			config: {
+				server: { provider: 'blitz-orm-js' },
+				dbConnectors: [{ id: 'default', provider: 'memory', dbName: 'typed' }],
+			},
+		});
+		await client.init();
+		await client.mutate([
+			{
+				$entity: 'User',
+				id: 'typed-u1',
+				name: 'Ann',
+				email: 'ann@test.com',
+				tags: ['a', 'b'],
+				accounts: [{ id: 'typed-a1', provider: 'google' }],
+			},
+			{ $entity: 'SuperUser', id: 'typed-su1', name: 'Bob', power: 3 },
+		]);
+	});
+
+	it('t1[query, types] Fields and metadata', async () => {
+		expect(client).toBeDefined();
+
+		const user = await client.query({ $entity: 'Account', $id: 'typed-a1' });
+		type _t1 = Assert<
+			Equals<typeof user, { $entity: 'Account'; $id: string; id?: string; provider?: string; user?: string } | null>
+		>;
+		expect(user).toEqual({ $entity: 'Account', $id: 'typed-a1', id: 'typed-a1', provider: 'google', user: 'typed-u1' });
+
+		const names = await client.query(
+			{ $entity: 'User', $fields: ['name', 'tags'], $filter: { name: 'Ann' } },
+			{ noMetadata: true },
+		);
+		type _t2 = Assert<Equals<typeof names, { name?: string; tags?: string[] }[] | null>>;
+		expect(names).toEqual([{ name: 'Ann', tags: ['a', 'b'] }]);
+
+		/// excluded fields are not in the result
+		const accounts = await client.query(
+			{ $entity: 'Account', $filter: { provider: 'google' }, $excludedFields: ['user'] },
+			{ noMetadata: true },
+		);
+		type _t3 = Assert<Equals<typeof accounts, { id?: string; provider?: string }[] | null>>;
+		expect(accounts).toEqual([{ id: 'typed-a1', provider: 'google' }]);
+	});
+
+	it('t2[query, types, extends] Root queries return their thing only, and extending things have their own fields', async () => {
+		expect(client).toBeDefined();
+
+		/// equality filters on unique fields return a single thing
+		const users = await client.query({ $entity: 'User', $filter: { email: 'ann@test.com' }, $fields: ['name'] });
+		type _t1 = Assert<Equals<typeof users, { $entity: 'User'; $id: string; name?: string } | null>>;
+		expect(users).toEqual({ $entity: 'User', $id: 'typed-u1', name: 'Ann' });
+
+		const allUsers = await client.query({ $entity: 'User', $fields: ['name'] }, { noMetadata: true });
+		type _t2 = Assert<Equals<typeof allUsers, { name?: string }[] | null>>;
+		expect(allUsers).toEqual([{ name: 'Ann' }]);
+
+		const superUser = await client.query(
+			{ $entity: 'SuperUser', $id: 'typed-su1', $fields: ['name', 'power'] },
+			{ noMetadata: true },
+		);
+		type _t3 = Assert<Equals<typeof superUser, { name?: string; power?: number } | null>>;
+		expect(superUser).toEqual({ name: 'Bob', power: 3 });
+	});
+
+	it('t3[query, types, links] Nested link fields and roles get the cardinality of their field', async () => {
+		expect(client).toBeDefined();
+
+		const user = await client.query(
+			{
+				$entity: 'User',
+				$id: 'typed-u1',
+				$fields: [
+					{ $path: 'accounts', $fields: ['provider'] },
+					{ $path: 'user-accounts', $fields: [{ $path: 'user', $fields: ['name'] }, 'accounts'] },
+				],
+			},
+			{ noMetadata: true },
+		);
+		type _t1 = Assert<
+			Equals<
+				typeof user,
+				{
+					'accounts'?: { provider?: string }[];
+					'user-accounts'?: {
+						/// users can be super users, returned as ids
+						user?: { name?: string } | string;
+						accounts?: string[];
+					}[];
+				} | null
+			>
+		>;
+		expect(user).toEqual({
+			'accounts': [{ provider: 'google' }],
+			'user-accounts': [{ user: { name: 'Ann' }, accounts: ['typed-a1'] }],
+		});
+
+		/// an $id in a nested field returns a single thing, and $count a number
+		const account = await client.query(
+			{ $entity: 'User', $id: 'typed-u1', $fields: [{ $path: 'accounts', $id: 'typed-a1' }, 'id'] },
+			{ noMetadata: true },
+		);
+		type _t2 = Assert<
+			Equals<typeof account, { accounts?: { id?: string; provider?: string; user?: string }; id?: string } | null>
+		>;
+		expect(account).toEqual({ id: 'typed-u1', accounts: { id: 'typed-a1', provider: 'google', user: 'typed-u1' } });
+
+		const counted = await client.query(
+			{ $entity: 'User', $id: 'typed-u1', $fields: [{ $path: 'accounts', $count: true }] },
+			{ noMetadata: true },
+		);
+		type _t3 = Assert<Equals<typeof counted, { accounts?: number } | null>>;
+		expect(counted).toEqual({ accounts: 1 });
+	});
+
+	it('t4[query, types] Schemas typed as BormSchema return untyped results', async () => {
+		expect(client).toBeDefined();
+
+		const untypedClient = client as unknown as BormClient;
+		const res = await untypedClient.query({ $entity: 'User', $id: 'typed-u1', $fields: ['name'] });
+		type _t1 = Assert<Equals<typeof res, Record<string, any> | Record<string, any>[]>>;
+		expect(res).toEqual({ $entity: 'User', $id: 'typed-u1', name: 'Ann' });
+	});
+
+	afterAll(async () => {
+		await client.close();
+	});
+});
@@ -1,12 +1,21 @@
 import 'jest';
 
-import type BormClient from '../../../src/index';
+import type { BormSchema } from '../../../src/index';
+import BormClient from '../../../src/index';
 import { cleanup, init } from '../../helpers/lifecycle';
+import { testConfig } from '../../mocks/testConfig';
+import { testSchema } from '../../mocks/testSchema';
 
 describe('Mutation init', () => {
 	let dbName: string;
 	let bormClient: BormClient;
 
+	const getClient = (schema: BormSchema) =>
+		new BormClient({
+			schema,
+			config: { ...testConfig, dbConnectors: [{ ...testConfig.dbConnectors[0], dbName }] },
+		});
+
 	beforeAll(async () => {
 		const { dbName: configDbName, bormClient: configBormClient } = await init();
 		if (!configBormClient) {
@@ -16,13 +25,117 @@ describe('Mutation init', () => {
 		bormClient = configBormClient;
 	}, 15000);
 
+	it('d1[migrate, dryRun] Plan the changes without applying them', async () => {
+		expect(bormClient).toBeDefined();
+
+		const plan = await bormClient.define({ dryRun: true });
+		expect(plan.applied).toBe(false);
+		expect(plan.changes).toEqual(
+			expect.arrayContaining([
+				{ action: 'define', statement: 'VerificationToken sub entity', destructive: false },
+				{ action: 'define', statement: 'VerificationToken owns id @key', destructive: false },
+				{ action: 'undefine', statement: 'Post sub entity', destructive: true },
+			]),
+		);
+		expect(plan.define).toContain('VerificationToken sub entity;');
+		expect(plan.undefine).toContain('Post sub entity;');
+
+		/// nothing was applied
+		expect(await bormClient.define({ dryRun: true })).toEqual(plan);
+	});
+
+	it('d2[migrate, destructive] Destructive changes must be allowed', async () => {
+		expect(bormClient).toBeDefined();
+
+		await expect(bormClient.define()).rejects.toThrow('Destructive schema changes are not allowed');
+	});
+
 	it('Todo:b1[create] Basic', async () => {
 		/*
     todo: Now we can't use the name of the relation if the relation has been extended. 
     */
 		expect(bormClient).toBeDefined();
 
-		await bormClient.define();
+		await bormClient.define({ reset: true });
+	});
+
+	it('d3[migrate] A defined schema has no changes', async () => {
+		expect(bormClient).toBeDefined();
+
+		const plan = await bormClient.define();
+		expect(plan.changes).toEqual([]);
+		expect(plan.applied).toBe(false);
+	});
+
+	it('d4[migrate] Additive changes keep the data', async () => {
+		expect(bormClient).toBeDefined();
+		await bormClient.mutate({ $entity: 'Account', id: 'migratedAccount', provider: 'github' });
+
+		const migratedClient = getClient({
+			...testSchema,
+			entities: {
+				...testSchema.entities,
+				Account: {
+					...testSchema.entities.Account,
+					dataFields: [
+						...(testSchema.entities.Account.dataFields || []),
+						{ path: 'nickname', contentType: 'TEXT', cardinality: 'ONE' },
+					],
+				},
+			},
+		});
+		const plan = await migratedClient.define();
+		expect(plan.applied).toBe(true);
+		expect(plan.changes).toEqual([
+			{ action: 'define', statement: 'Account·nickname sub attribute, value string', destructive: false },
+			{ action: 'define', statement: 'Account owns Account·nickname', destructive: false },
+		]);
+
+		await migratedClient.mutate({ $entity: 'Account', $id: 'migratedAccount', nickname: 'gh' });
+		const account = await migratedClient.query({ $entity: 'Account', $id: 'migratedAccount' }, { noMetadata: true });
+		expect(account).toEqual({ id: 'migratedAccount', provider: 'github', nickname: 'gh' });
+		await migratedClient.close();
+	});
+
+	it('d5[migrate, destructive] Removing a field is refused unless allowed', async () => {
+		expect(bormClient).toBeDefined();
+
+		/// the schema of bormClient does not have the nickname of d4
+		const plan = await bormClient.define({ dryRun: true });
+		expect(plan.changes).toEqual([
+			{ action: 'undefine', statement: 'Account·nickname sub attribute', destructive: true },
+			{ action: 'undefine', statement: 'Account owns Account·nickname', destructive: true },
+		]);
+		expect(plan.undefine).toEqual('undefine\nAccount owns Account·nickname;\nAccount·nickname sub attribute;');
+
+		await expect(bormClient.define()).rejects.toThrow(
+			'Destructive schema changes are not allowed, use allowDestructive to apply them: undefine Account·nickname sub attribute; undefine Account owns Account·nickname',
+		);
+		const applied = await bormClient.define({ allowDestructive: true });
+		expect(applied.applied).toBe(true);
+		expect((await bormClient.define({ dryRun: true })).changes).toEqual([]);
+	});
+
+	it('d6[migrate, destructive] Regexes of attributes are compared', async () => {
+		expect(bormClient).toBeDefined();
+
+		const textEmailClient = getClient({
+			...testSchema,
+			entities: {
+				...testSchema.entities,
+				User: {
+					...testSchema.entities.User,
+					dataFields: testSchema.entities.User.dataFields?.map((df) =>
+						df.path === 'email' ? { ...df, contentType: 'TEXT' } : df,
+					),
+				},
+			},
+		});
+		const plan = await textEmailClient.define({ dryRun: true });
+		expect(plan.changes).toEqual([
+			{ action: 'undefine', statement: expect.stringMatching(/^User·email regex '\^.+'$/), destructive: true },
+		]);
+		await textEmailClient.close();
 	});
 
 	afterAll(async () => {
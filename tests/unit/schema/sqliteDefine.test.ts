@@ -0,0 +1,148 @@
+import 'jest';
+
+import { rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { v4 as uuidv4 } from 'uuid';
+
+import type { BormSchema } from '../../../src/index';
+import BormClient from '../../../src/index';
+import { testSchema } from '../../mocks/testSchema';
+
+describe('SQLite define', () => {
+	const dbName = join(tmpdir(), `sqlite_define_${uuidv4()}.sqlite`);
+	let bormClient: BormClient;
+
+	const getClient = (schema: BormSchema) =>
+		new BormClient({
+			schema,
+			config: { server: { provider: 'blitz-orm-js' }, dbConnectors: [{ id: 'default', provider: 'sqlite', dbName }] },
+		});
+
+	beforeAll(async () => {
+		bormClient = getClient(testSchema);
+		await bormClient.init();
+	});
+
+	it('sq1[define] Things are tables with the columns of the types they extend, and roles are join tables', async () => {
+		expect(bormClient).toBeDefined();
+
+		const plan = await bormClient.define();
+		expect(plan.applied).toBe(true);
+		expect(plan.changes).toEqual(
+			expect.arrayContaining([
+				{
+					action: 'define',
+					statement:
+						'CREATE TABLE "God" ("_dbId" TEXT PRIMARY KEY, "_thing" TEXT NOT NULL, "God·isEvil" INTEGER, "SuperUser·power" TEXT, "id" TEXT, "name" TEXT, "User·email" TEXT)',
+					destructive: false,
+				},
+				{
+					action: 'define',
+					statement:
+						'CREATE TABLE "User-Accounts·accounts" ("_relation" TEXT NOT NULL, "_player" TEXT NOT NULL, PRIMARY KEY ("_relation", "_player"))',
+					destructive: false,
+				},
+				{ action: 'define', statement: 'CREATE UNIQUE INDEX "User·id·unique" ON "User" ("id")', destructive: false },
+				{
+					action: 'define',
+					statement: 'CREATE UNIQUE INDEX "User·User·email·unique" ON "User" ("User·email")',
+					destructive: false,
+				},
+			]),
+		);
+		/// tables are created before their indexes
+		const define = plan.define as string;
+		expect(define.indexOf('CREATE TABLE "User"')).toBeLessThan(define.indexOf('CREATE UNIQUE INDEX "User·id·unique"'));
+	});
+
+	it('sq2[define, extends] Things have a row in the table of every type they extend', async () => {
+		expect(bormClient).toBeDefined();
+		await bormClient.mutate({ $entity: 'God', id: 'sqliteGod', name: 'Zeus', power: 'thunder', isEvil: false });
+
+		const god = await bormClient.query({ $entity: 'God', $id: 'sqliteGod' }, { noMetadata: true });
+		expect(god).toEqual({ id: 'sqliteGod', name: 'Zeus', power: 'thunder', isEvil: false });
+		/// the root query only matches things of its type, not the ones extending it
+		const user = await bormClient.query({ $entity: 'User', $id: 'sqliteGod' });
+		expect(user).toBeNull();
+
+		/// ids are unique across the types extending the same one. The error comes from the driver, outside of the jest realm
+		await expect(bormClient.mutate({ $entity: 'User', id: 'sqliteGod', name: 'Hera' })).rejects.toMatchObject({
+			message: expect.stringContaining('UNIQUE constraint failed'),
+		});
+	});
+
+	it('sq3[migrate] A defined schema has no changes', async () => {
+		expect(bormClient).toBeDefined();
+
+		const plan = await bormClient.define();
+		expect(plan.changes).toEqual([]);
+		expect(plan.applied).toBe(false);
+	});
+
+	it('sq4[migrate] Additive changes keep the data', async () => {
+		expect(bormClient).toBeDefined();
+		await bormClient.mutate({ $entity: 'Account', id: 'migratedAccount', provider: 'github' });
+
+		const migratedClient = getClient({
+			...testSchema,
+			entities: {
+				...testSchema.entities,
+				Account: {
+					...testSchema.entities.Account,
+					dataFields: [
+						...(testSchema.entities.Account.dataFields || []),
+						{ path: 'nickname', contentType: 'TEXT', cardinality: 'ONE' },
+					],
+				},
+			},
+		});
+		await migratedClient.init();
+		const plan = await migratedClient.define();
+		expect(plan.applied).toBe(true);
+		expect(plan.changes).toEqual([
+			{ action: 'define', statement: 'ALTER TABLE "Account" ADD COLUMN "Account·nickname" TEXT', destructive: false },
+		]);
+
+		await migratedClient.mutate({ $entity: 'Account', $id: 'migratedAccount', nickname: 'gh' });
+		const account = await migratedClient.query({ $entity: 'Account', $id: 'migratedAccount' }, { noMetadata: true });
+		expect(account).toEqual({ id: 'migratedAccount', provider: 'github', nickname: 'gh' });
+		await migratedClient.close();
+	});
+
+	it('sq5[migrate, destructive] Removing a field is refused unless allowed', async () => {
+		expect(bormClient).toBeDefined();
+
+		/// the schema of bormClient does not have the nickname of sq4
+		const plan = await bormClient.define({ dryRun: true });
+		expect(plan.changes).toEqual([
+			{ action: 'undefine', statement: 'ALTER TABLE "Account" DROP COLUMN "Account·nickname"', destructive: true },
+		]);
+		expect(plan.undefine).toEqual('ALTER TABLE "Account" DROP COLUMN "Account·nickname";');
+
+		await expect(bormClient.define()).rejects.toThrow(
+			'Destructive schema changes are not allowed, use allowDestructive to apply them: undefine ALTER TABLE "Account" DROP COLUMN "Account·nickname"',
+		);
+		const applied = await bormClient.define({ allowDestructive: true });
+		expect(applied.applied).toBe(true);
+		expect((await bormClient.define({ dryRun: true })).changes).toEqual([]);
+
+		const account = await bormClient.query({ $entity: 'Account', $id: 'migratedAccount' }, { noMetadata: true });
+		expect(account).toEqual({ id: 'migratedAccount', provider: 'github' });
+	});
+
+	it('sq6[define, reset] Reset defines the schema from scratch', async () => {
+		expect(bormClient).toBeDefined();
+
+		const plan = await bormClient.define({ reset: true });
+		expect(plan.applied).toBe(true);
+		expect(await bormClient.query({ $entity: 'Account' })).toBeNull();
+		expect((await bormClient.define({ dryRun: true })).changes).toEqual([]);
+	});
+
+	afterAll(async () => {
+		await bormClient.close();
+		rmSync(dbName, { force: true });
+	});
+});